@@ -11,6 +11,7 @@ import { Settings } from './settings.js';
 import { Extension } from './extension.js';
 import * as ServerConfig from '@samus-code/samus-code-core';
 import {
+  ApprovalMode,
   TelemetryTarget,
   ConfigParameters,
   DEFAULT_TELEMETRY_TARGET,
@@ -194,6 +195,69 @@ describe('parseArguments', () => {
     expect(argv.promptInteractive).toBe('interactive prompt');
     expect(argv.prompt).toBeUndefined();
   });
+
+  it('should parse --mcp-server with an HTTP port', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--mcp-server',
+      '--mcp-server-port',
+      '8080',
+    ];
+    const argv = await parseArguments();
+    expect(argv.mcpServer).toBe(true);
+    expect(argv.mcpServerPort).toBe(8080);
+  });
+
+  it('should reject --mcp-server-port without --mcp-server', async () => {
+    process.argv = ['node', 'script.js', '--mcp-server-port', '8080'];
+
+    const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+    const mockConsoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    await expect(parseArguments()).rejects.toThrow('process.exit called');
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      expect.stringContaining(
+        '--mcp-server-port can only be used with --mcp-server',
+      ),
+    );
+
+    mockExit.mockRestore();
+    mockConsoleError.mockRestore();
+  });
+
+  it('should reject --approval-mode together with --yolo', async () => {
+    process.argv = [
+      'node',
+      'script.js',
+      '--yolo',
+      '--approval-mode',
+      'default',
+    ];
+
+    const mockExit = vi.spyOn(process, 'exit').mockImplementation(() => {
+      throw new Error('process.exit called');
+    });
+    const mockConsoleError = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {});
+
+    await expect(parseArguments()).rejects.toThrow('process.exit called');
+
+    expect(mockConsoleError).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'Cannot use both --yolo (-y) and --approval-mode together',
+      ),
+    );
+
+    mockExit.mockRestore();
+    mockConsoleError.mockRestore();
+  });
 });
 
 describe('loadCliConfig', () => {
@@ -236,6 +300,24 @@ describe('loadCliConfig', () => {
     expect(config.getShowMemoryUsage()).toBe(false);
   });
 
+  it('should set the approval mode from --approval-mode or --yolo', async () => {
+    const approvalModeFor = async (...args: string[]) => {
+      process.argv = ['node', 'script.js', ...args];
+      const argv = await parseArguments();
+      const config = await loadCliConfig({}, [], 'test-session', argv);
+      return config.getApprovalMode();
+    };
+
+    expect(await approvalModeFor()).toBe(ApprovalMode.DEFAULT);
+    expect(await approvalModeFor('--approval-mode', 'auto_edit')).toBe(
+      ApprovalMode.AUTO_EDIT,
+    );
+    expect(await approvalModeFor('--approval-mode', 'yolo')).toBe(
+      ApprovalMode.YOLO,
+    );
+    expect(await approvalModeFor('--yolo')).toBe(ApprovalMode.YOLO);
+  });
+
   it('should prioritize CLI flag over settings for showMemoryUsage (CLI true, settings false)', async () => {
     process.argv = ['node', 'script.js', '--show-memory-usage'];
     const argv = await parseArguments();
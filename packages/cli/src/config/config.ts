@@ -14,7 +14,6 @@ import {
   getCurrentGeminiMdFilename,
   ApprovalMode,
   DEFAULT_MODEL,
-  DEFAULT_EMBEDDING_MODEL,
   FileDiscoveryService,
   TelemetryTarget,
   MCPServerConfig,
@@ -47,6 +46,7 @@ export interface CliArgs {
   showMemoryUsage: boolean | undefined;
   show_memory_usage: boolean | undefined;
   yolo: boolean | undefined;
+  approvalMode: string | undefined;
   telemetry: boolean | undefined;
   checkpointing: boolean | undefined;
   telemetryTarget: string | undefined;
@@ -59,6 +59,8 @@ export interface CliArgs {
   openaiLogging: boolean | undefined;
   openaiApiKey: string | undefined;
   openaiBaseUrl: string | undefined;
+  mcpServer: boolean | undefined;
+  mcpServerPort: number | undefined;
 }
 
 export async function parseArguments(): Promise<CliArgs> {
@@ -136,6 +138,12 @@ export async function parseArguments(): Promise<CliArgs> {
         'Automatically accept all actions (aka YOLO mode, see https://www.youtube.com/watch?v=xvFZjo5PgG0 for more details)?',
       default: false,
     })
+    .option('approval-mode', {
+      type: 'string',
+      choices: ['default', 'auto_edit', 'yolo'],
+      description:
+        'Which tool calls run without confirmation: default asks for edits and commands, auto_edit accepts edits, yolo accepts everything (same as --yolo)',
+    })
     .option('telemetry', {
       type: 'boolean',
       description:
@@ -197,6 +205,16 @@ export async function parseArguments(): Promise<CliArgs> {
       type: 'string',
       description: 'OpenAI base URL (for custom endpoints)',
     })
+    .option('mcp-server', {
+      type: 'boolean',
+      description:
+        'Serve Samus Code as an MCP server instead of starting the CLI. Uses stdio unless --mcp-server-port is set.',
+    })
+    .option('mcp-server-port', {
+      type: 'number',
+      description:
+        'Serve the MCP server over streamable HTTP on this port (with --mcp-server)',
+    })
 
     .version(await getCliVersion()) // This will enable the --version flag based on package.json
     .alias('v', 'version')
@@ -209,6 +227,14 @@ export async function parseArguments(): Promise<CliArgs> {
           'Cannot use both --prompt (-p) and --prompt-interactive (-i) together',
         );
       }
+      if (argv.yolo && argv.approvalMode) {
+        throw new Error(
+          'Cannot use both --yolo (-y) and --approval-mode together',
+        );
+      }
+      if (argv.mcpServerPort !== undefined && !argv.mcpServer) {
+        throw new Error('--mcp-server-port can only be used with --mcp-server');
+      }
       return true;
     });
 
@@ -240,6 +266,19 @@ export async function loadHierarchicalGeminiMemory(
   );
 }
 
+function getApprovalMode(argv: CliArgs): ApprovalMode {
+  switch (argv.approvalMode) {
+    case 'auto_edit':
+      return ApprovalMode.AUTO_EDIT;
+    case 'yolo':
+      return ApprovalMode.YOLO;
+    case 'default':
+      return ApprovalMode.DEFAULT;
+    default:
+      return argv.yolo ? ApprovalMode.YOLO : ApprovalMode.DEFAULT;
+  }
+}
+
 export async function loadCliConfig(
   settings: Settings,
   extensions: Extension[],
@@ -332,7 +371,7 @@ export async function loadCliConfig(
 
   return new Config({
     sessionId,
-    embeddingModel: DEFAULT_EMBEDDING_MODEL,
+    embeddingModel: settings.embeddingModel,
     sandbox: sandboxConfig,
     targetDir: process.cwd(),
     debugMode,
@@ -346,7 +385,7 @@ export async function loadCliConfig(
     mcpServers,
     userMemory: memoryContent,
     geminiMdFileCount: fileCount,
-    approvalMode: argv.yolo || false ? ApprovalMode.YOLO : ApprovalMode.DEFAULT,
+    approvalMode: getApprovalMode(argv),
     showMemoryUsage:
       argv.showMemoryUsage ||
       argv.show_memory_usage ||
@@ -382,6 +421,8 @@ export async function loadCliConfig(
     model: argv.model!,
     extensionContextFilePaths,
     maxSessionTurns: settings.maxSessionTurns ?? -1,
+    shellTimeoutMs: settings.shellTimeoutMs,
+    shellPolicy: settings.shellPolicy,
     listExtensions: argv.listExtensions || false,
     activeExtensions: activeExtensions.map((e) => ({
       name: e.config.name,
@@ -394,6 +435,14 @@ export async function loadCliConfig(
         ? settings.enableOpenAILogging
         : argv.openaiLogging) ?? false,
     sampling_params: settings.sampling_params,
+    toolCallParsers: settings.toolCallParsers,
+    modelSwitching: settings.modelSwitching,
+    autoSwitch: settings.autoSwitch,
+    taskTypes: settings.taskTypes,
+    fallbackChain: settings.fallbackChain,
+    modelCapabilities: settings.modelCapabilities,
+    utilityModel: settings.utilityModel,
+    utilityModels: settings.utilityModels,
   });
 }
 
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mergeModelSwitchingSettings,
+  validateFallbackChainSettings,
+  validateModelCapabilitiesSettings,
+  validateModelSwitchingSettings,
+  validateTaskTypesSettings,
+  validateToolCallParsersSettings,
+  validateUtilityModelSettings,
+} from './modelSwitching.js';
+
+describe('validateModelSwitchingSettings', () => {
+  it('should accept a complete provider entry', () => {
+    expect(
+      validateModelSwitchingSettings({
+        ollama: {
+          weak: 'llama3.2',
+          strong: 'qwen2.5-coder:32b',
+          tiers: { medium: 'qwen2.5-coder:14b' },
+          baseUrl: 'http://gpu-box:11434',
+          sampling_params: { temperature: 0.2 },
+        },
+      }),
+    ).toEqual([]);
+    expect(validateModelSwitchingSettings(undefined)).toEqual([]);
+  });
+
+  it('should report every problem with its setting path', () => {
+    const errors = validateModelSwitchingSettings({
+      olama: { weak: 'llama3.2' },
+      ollama: {
+        weak: '',
+        tiers: { strong: 'x', medium: 3 },
+        baseUrl: 'localhost:11434',
+        sampling_params: { temperature: 'low', seed: 1 },
+      },
+    });
+
+    expect(errors).toEqual([
+      expect.stringMatching(
+        /^modelSwitching\.olama: unknown provider\. Expected one of: .*ollama/,
+      ),
+      'modelSwitching.ollama.weak must be a non-empty model name.',
+      'modelSwitching.ollama.tiers.strong: set "strong" directly on modelSwitching.ollama instead.',
+      'modelSwitching.ollama.tiers.medium must be a non-empty model name.',
+      'modelSwitching.ollama.baseUrl must be an http(s) URL.',
+      'modelSwitching.ollama.sampling_params.temperature must be a number.',
+      expect.stringMatching(
+        /^modelSwitching\.ollama\.sampling_params\.seed: unknown parameter/,
+      ),
+    ]);
+  });
+
+  it('should reject values that are not objects', () => {
+    expect(validateModelSwitchingSettings(['ollama'])).toEqual([
+      'modelSwitching must be an object keyed by auth type.',
+    ]);
+    expect(validateModelSwitchingSettings({ ollama: 'llama3.2' })).toEqual([
+      'modelSwitching.ollama must be an object.',
+    ]);
+  });
+});
+
+describe('validateTaskTypesSettings', () => {
+  it('should accept custom task types and overrides of built-in ones', () => {
+    expect(
+      validateTaskTypesSettings({
+        migration: {
+          description: 'Database schema migrations',
+          tier: 'medium',
+          keywords: ['migration'],
+        },
+        documentation: { tier: 'strong' },
+      }),
+    ).toEqual([]);
+  });
+
+  it('should require a description and tier for custom task types', () => {
+    expect(
+      validateTaskTypesSettings({
+        migration: { keywords: ['migration', ''] },
+        review: { tier: '' },
+      }),
+    ).toEqual([
+      'taskTypes.migration.description is required for a custom task type.',
+      'taskTypes.migration.tier is required for a custom task type.',
+      'taskTypes.migration.keywords must be a list of non-empty strings.',
+      'taskTypes.review.tier must be a non-empty string.',
+    ]);
+  });
+});
+
+describe('mergeModelSwitchingSettings', () => {
+  it('should merge each provider across layers', () => {
+    const merged = mergeModelSwitchingSettings(
+      {
+        ollama: {
+          weak: 'llama3.2',
+          strong: 'llama3.1:70b',
+          tiers: { medium: 'qwen2.5-coder:14b' },
+          sampling_params: { temperature: 0.2, top_p: 0.9 },
+        },
+        'lm-studio': { weak: 'phi-3-mini' },
+      },
+      undefined,
+      {
+        ollama: {
+          strong: 'qwen2.5-coder:32b',
+          tiers: { tiny: 'qwen2.5-coder:1.5b' },
+          sampling_params: { temperature: 0.7 },
+        },
+      },
+    );
+
+    expect(merged).toEqual({
+      ollama: {
+        weak: 'llama3.2',
+        strong: 'qwen2.5-coder:32b',
+        tiers: { medium: 'qwen2.5-coder:14b', tiny: 'qwen2.5-coder:1.5b' },
+        sampling_params: { temperature: 0.7, top_p: 0.9 },
+      },
+      'lm-studio': { weak: 'phi-3-mini' },
+    });
+  });
+
+  it('should return undefined when no layer sets it', () => {
+    expect(mergeModelSwitchingSettings(undefined, undefined)).toBeUndefined();
+  });
+});
+
+describe('validateFallbackChainSettings', () => {
+  it('should accept providers with and without a model', () => {
+    expect(
+      validateFallbackChainSettings([
+        { provider: 'lm-studio', model: 'qwen2.5-coder-7b-instruct' },
+        { provider: 'ollama' },
+        { provider: 'openai', model: 'qwen/qwen-2.5-coder-32b-instruct' },
+      ]),
+    ).toEqual([]);
+    expect(validateFallbackChainSettings(undefined)).toEqual([]);
+  });
+
+  it('should report every problem with its position', () => {
+    expect(
+      validateFallbackChainSettings([
+        { provider: 'olama' },
+        'ollama',
+        { provider: 'ollama', model: '', baseUrl: 'http://gpu-box:11434' },
+      ]),
+    ).toEqual([
+      expect.stringMatching(/^fallbackChain\[0\]\.provider must be one of: /),
+      'fallbackChain[1] must be an object.',
+      'fallbackChain[2].baseUrl: unknown setting. Expected one of: provider, model.',
+      'fallbackChain[2].model must be a non-empty model name.',
+    ]);
+    expect(validateFallbackChainSettings({ provider: 'ollama' })).toEqual([
+      'fallbackChain must be a list of { provider, model } entries.',
+    ]);
+  });
+});
+
+describe('validateModelCapabilitiesSettings', () => {
+  it('should accept context lengths and vision keyed by model', () => {
+    expect(
+      validateModelCapabilitiesSettings({
+        'qwen3:32b': { contextLength: 40_960 },
+        'llama3.2': {},
+        'gemma3:27b': { vision: true },
+      }),
+    ).toEqual([]);
+    expect(validateModelCapabilitiesSettings(undefined)).toEqual([]);
+  });
+
+  it('should report every problem with its model', () => {
+    expect(
+      validateModelCapabilitiesSettings({
+        'qwen3:32b': { contextLength: '40k' },
+        'llama3.2': { contextLength: 8192, tools: true },
+        llava: { vision: 'yes' },
+        mistral: 8192,
+      }),
+    ).toEqual([
+      'modelCapabilities.qwen3:32b.contextLength must be a positive integer.',
+      'modelCapabilities.llama3.2.tools: unknown setting. Expected one of: contextLength, vision.',
+      'modelCapabilities.llava.vision must be true or false.',
+      'modelCapabilities.mistral must be an object.',
+    ]);
+    expect(validateModelCapabilitiesSettings(['qwen3:32b'])).toEqual([
+      'modelCapabilities must be an object keyed by model name.',
+    ]);
+  });
+});
+
+describe('validateUtilityModelSettings', () => {
+  it('should accept a utility model and per-helper overrides', () => {
+    expect(
+      validateUtilityModelSettings('qwen3:4b', {
+        compression: 'qwen3:14b',
+        editCorrector: 'qwen2.5-coder:7b',
+      }),
+    ).toEqual([]);
+    expect(validateUtilityModelSettings(undefined, undefined)).toEqual([]);
+  });
+
+  it('should report unknown helpers and empty model names', () => {
+    expect(
+      validateUtilityModelSettings('', {
+        summarizer: '',
+        classifier: 'qwen3:4b',
+      }),
+    ).toEqual([
+      'utilityModel must be a non-empty model name.',
+      'utilityModels.summarizer must be a non-empty model name.',
+      'utilityModels.classifier: unknown helper. Expected one of: editCorrector, nextSpeaker, summarizer, compression, mcpSampling.',
+    ]);
+    expect(validateUtilityModelSettings(undefined, 'qwen3:4b')).toEqual([
+      'utilityModels must be an object keyed by helper name.',
+    ]);
+  });
+});
+
+describe('validateToolCallParsersSettings', () => {
+  it('should accept known parsers keyed by model', () => {
+    expect(
+      validateToolCallParsersSettings({
+        'functionary-small': 'json',
+        '*': 'hermes',
+      }),
+    ).toEqual([]);
+    expect(validateToolCallParsersSettings(undefined)).toEqual([]);
+  });
+
+  it('should report unknown parsers', () => {
+    expect(
+      validateToolCallParsersSettings({ 'qwen3:4b': 'qwen', '*': 7 }),
+    ).toEqual([
+      'toolCallParsers.qwen3:4b must be one of: hermes, mistral, json, auto, none.',
+      'toolCallParsers.* must be one of: hermes, mistral, json, auto, none.',
+    ]);
+    expect(validateToolCallParsersSettings('hermes')).toEqual([
+      'toolCallParsers must be an object keyed by model name.',
+    ]);
+  });
+});
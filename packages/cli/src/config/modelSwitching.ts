@@ -0,0 +1,367 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  AuthType,
+  ModelStrength,
+  ModelSwitchingProviderSettings,
+  ModelSwitchingSettings,
+  TaskType,
+  UTILITY_HELPERS,
+  getToolCallParserNames,
+} from '@samus-code/samus-code-core';
+
+const PROVIDER_KEYS = new Set<string>([
+  'weak',
+  'strong',
+  'tiers',
+  'baseUrl',
+  'sampling_params',
+]);
+
+const SAMPLING_PARAM_KEYS = new Set<string>([
+  'top_p',
+  'top_k',
+  'repetition_penalty',
+  'presence_penalty',
+  'frequency_penalty',
+  'temperature',
+  'max_tokens',
+]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Checks a `modelSwitching` settings block, returning one message per
+ * problem so that they can all be reported at startup.
+ */
+export function validateModelSwitchingSettings(value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!isObject(value)) {
+    return ['modelSwitching must be an object keyed by auth type.'];
+  }
+
+  const errors: string[] = [];
+  const providers = Object.values(AuthType) as string[];
+  for (const [provider, settings] of Object.entries(value)) {
+    const prefix = `modelSwitching.${provider}`;
+    if (!providers.includes(provider)) {
+      errors.push(
+        `${prefix}: unknown provider. Expected one of: ${providers.join(', ')}.`,
+      );
+      continue;
+    }
+    if (!isObject(settings)) {
+      errors.push(`${prefix} must be an object.`);
+      continue;
+    }
+
+    for (const key of Object.keys(settings)) {
+      if (!PROVIDER_KEYS.has(key)) {
+        errors.push(
+          `${prefix}.${key}: unknown setting. Expected one of: ${[...PROVIDER_KEYS].join(', ')}.`,
+        );
+      }
+    }
+    for (const key of ['weak', 'strong'] as const) {
+      const model = settings[key];
+      if (model !== undefined && (typeof model !== 'string' || !model.trim())) {
+        errors.push(`${prefix}.${key} must be a non-empty model name.`);
+      }
+    }
+    if (settings.tiers !== undefined) {
+      if (!isObject(settings.tiers)) {
+        errors.push(`${prefix}.tiers must map tier names to model names.`);
+      } else {
+        for (const [tier, model] of Object.entries(settings.tiers)) {
+          if (tier === ModelStrength.WEAK || tier === ModelStrength.STRONG) {
+            errors.push(
+              `${prefix}.tiers.${tier}: set "${tier}" directly on ${prefix} instead.`,
+            );
+          } else if (typeof model !== 'string' || !model.trim()) {
+            errors.push(
+              `${prefix}.tiers.${tier} must be a non-empty model name.`,
+            );
+          }
+        }
+      }
+    }
+    if (
+      settings.baseUrl !== undefined &&
+      (typeof settings.baseUrl !== 'string' || !isHttpUrl(settings.baseUrl))
+    ) {
+      errors.push(`${prefix}.baseUrl must be an http(s) URL.`);
+    }
+    if (settings.sampling_params !== undefined) {
+      if (!isObject(settings.sampling_params)) {
+        errors.push(`${prefix}.sampling_params must be an object.`);
+      } else {
+        for (const [name, param] of Object.entries(settings.sampling_params)) {
+          if (!SAMPLING_PARAM_KEYS.has(name)) {
+            errors.push(
+              `${prefix}.sampling_params.${name}: unknown parameter. Expected one of: ${[...SAMPLING_PARAM_KEYS].join(', ')}.`,
+            );
+          } else if (typeof param !== 'number' || !Number.isFinite(param)) {
+            errors.push(`${prefix}.sampling_params.${name} must be a number.`);
+          }
+        }
+      }
+    }
+  }
+  return errors;
+}
+
+const TASK_TYPE_KEYS = new Set<string>(['description', 'tier', 'keywords']);
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === 'string' && value.trim() !== '';
+}
+
+/**
+ * Checks a `taskTypes` settings block. User-defined task types need a
+ * description for the classifier and a tier to run on; built-in ones may
+ * override any field.
+ */
+export function validateTaskTypesSettings(value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!isObject(value)) {
+    return ['taskTypes must be an object keyed by task type name.'];
+  }
+
+  const errors: string[] = [];
+  const builtIn = Object.values(TaskType) as string[];
+  for (const [name, definition] of Object.entries(value)) {
+    const prefix = `taskTypes.${name}`;
+    if (!isObject(definition)) {
+      errors.push(`${prefix} must be an object.`);
+      continue;
+    }
+    for (const key of Object.keys(definition)) {
+      if (!TASK_TYPE_KEYS.has(key)) {
+        errors.push(
+          `${prefix}.${key}: unknown setting. Expected one of: ${[...TASK_TYPE_KEYS].join(', ')}.`,
+        );
+      }
+    }
+    const isBuiltIn = builtIn.includes(name);
+    for (const key of ['description', 'tier'] as const) {
+      if (definition[key] === undefined) {
+        if (!isBuiltIn) {
+          errors.push(`${prefix}.${key} is required for a custom task type.`);
+        }
+      } else if (!isNonEmptyString(definition[key])) {
+        errors.push(`${prefix}.${key} must be a non-empty string.`);
+      }
+    }
+    if (
+      definition.keywords !== undefined &&
+      (!Array.isArray(definition.keywords) ||
+        !definition.keywords.every(isNonEmptyString))
+    ) {
+      errors.push(`${prefix}.keywords must be a list of non-empty strings.`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Checks a `fallbackChain` settings block: a list of backends, each naming a
+ * provider and optionally a model.
+ */
+export function validateFallbackChainSettings(value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    return ['fallbackChain must be a list of { provider, model } entries.'];
+  }
+
+  const errors: string[] = [];
+  const providers = Object.values(AuthType) as string[];
+  value.forEach((entry: unknown, index) => {
+    const prefix = `fallbackChain[${index}]`;
+    if (!isObject(entry)) {
+      errors.push(`${prefix} must be an object.`);
+      return;
+    }
+    for (const key of Object.keys(entry)) {
+      if (key !== 'provider' && key !== 'model') {
+        errors.push(
+          `${prefix}.${key}: unknown setting. Expected one of: provider, model.`,
+        );
+      }
+    }
+    if (
+      typeof entry.provider !== 'string' ||
+      !providers.includes(entry.provider)
+    ) {
+      errors.push(
+        `${prefix}.provider must be one of: ${providers.join(', ')}.`,
+      );
+    }
+    if (entry.model !== undefined && !isNonEmptyString(entry.model)) {
+      errors.push(`${prefix}.model must be a non-empty model name.`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Checks a `modelCapabilities` settings block: capabilities keyed by model
+ * name, overriding what the provider reports.
+ */
+export function validateModelCapabilitiesSettings(value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!isObject(value)) {
+    return ['modelCapabilities must be an object keyed by model name.'];
+  }
+
+  const errors: string[] = [];
+  for (const [model, capabilities] of Object.entries(value)) {
+    const prefix = `modelCapabilities.${model}`;
+    if (!isObject(capabilities)) {
+      errors.push(`${prefix} must be an object.`);
+      continue;
+    }
+    for (const key of Object.keys(capabilities)) {
+      if (key !== 'contextLength' && key !== 'vision') {
+        errors.push(
+          `${prefix}.${key}: unknown setting. Expected one of: contextLength, vision.`,
+        );
+      }
+    }
+    const { contextLength, vision } = capabilities;
+    if (
+      contextLength !== undefined &&
+      !(
+        typeof contextLength === 'number' &&
+        Number.isInteger(contextLength) &&
+        contextLength > 0
+      )
+    ) {
+      errors.push(`${prefix}.contextLength must be a positive integer.`);
+    }
+    if (vision !== undefined && typeof vision !== 'boolean') {
+      errors.push(`${prefix}.vision must be true or false.`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Checks the `utilityModel` setting and the `utilityModels` block of
+ * per-helper overrides.
+ */
+export function validateUtilityModelSettings(
+  utilityModel: unknown,
+  utilityModels: unknown,
+): string[] {
+  const errors: string[] = [];
+  if (utilityModel !== undefined && !isNonEmptyString(utilityModel)) {
+    errors.push('utilityModel must be a non-empty model name.');
+  }
+  if (utilityModels === undefined) {
+    return errors;
+  }
+  if (!isObject(utilityModels)) {
+    errors.push('utilityModels must be an object keyed by helper name.');
+    return errors;
+  }
+
+  const helpers = UTILITY_HELPERS as readonly string[];
+  for (const [helper, model] of Object.entries(utilityModels)) {
+    if (!helpers.includes(helper)) {
+      errors.push(
+        `utilityModels.${helper}: unknown helper. Expected one of: ${helpers.join(', ')}.`,
+      );
+    } else if (!isNonEmptyString(model)) {
+      errors.push(`utilityModels.${helper} must be a non-empty model name.`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Checks a `toolCallParsers` settings block: parser names keyed by model
+ * name, or `*` for any other model.
+ */
+export function validateToolCallParsersSettings(value: unknown): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!isObject(value)) {
+    return ['toolCallParsers must be an object keyed by model name.'];
+  }
+
+  const errors: string[] = [];
+  const parsers = getToolCallParserNames();
+  for (const [model, parser] of Object.entries(value)) {
+    if (typeof parser !== 'string' || !parsers.includes(parser)) {
+      errors.push(
+        `toolCallParsers.${model} must be one of: ${parsers.join(', ')}.`,
+      );
+    }
+  }
+  return errors;
+}
+
+function mergeProviderSettings(
+  base: ModelSwitchingProviderSettings | undefined,
+  override: ModelSwitchingProviderSettings,
+): ModelSwitchingProviderSettings {
+  const merged: ModelSwitchingProviderSettings = { ...base, ...override };
+  if (base?.tiers || override.tiers) {
+    merged.tiers = { ...base?.tiers, ...override.tiers };
+  }
+  if (base?.sampling_params || override.sampling_params) {
+    merged.sampling_params = {
+      ...base?.sampling_params,
+      ...override.sampling_params,
+    };
+  }
+  return merged;
+}
+
+/**
+ * Merges `modelSwitching` blocks per provider, later layers taking
+ * precedence, so that e.g. a workspace can change only the strong model
+ * while keeping the user's weak model and base URL.
+ */
+export function mergeModelSwitchingSettings(
+  ...layers: Array<ModelSwitchingSettings | undefined>
+): ModelSwitchingSettings | undefined {
+  let merged: ModelSwitchingSettings | undefined;
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    merged ??= {};
+    for (const [provider, settings] of Object.entries(layer)) {
+      if (settings) {
+        const key = provider as AuthType;
+        merged[key] = mergeProviderSettings(merged[key], settings);
+      }
+    }
+  }
+  return merged;
+}
@@ -372,6 +372,55 @@ describe('Settings Loading and Merging', () => {
       expect(settings.merged.telemetry).toBeUndefined();
     });
 
+    it('should merge modelSwitching per provider across scopes', () => {
+      (mockFsExistsSync as Mock).mockReturnValue(true);
+      const userSettingsContent = {
+        modelSwitching: {
+          ollama: { weak: 'llama3.2', strong: 'llama3.1:70b' },
+        },
+      };
+      const workspaceSettingsContent = {
+        modelSwitching: { ollama: { strong: 'qwen2.5-coder:32b' } },
+      };
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === USER_SETTINGS_PATH)
+            return JSON.stringify(userSettingsContent);
+          if (p === MOCK_WORKSPACE_SETTINGS_PATH)
+            return JSON.stringify(workspaceSettingsContent);
+          return '{}';
+        },
+      );
+      const settings = loadSettings(MOCK_WORKSPACE_DIR);
+      expect(settings.merged.modelSwitching).toEqual({
+        ollama: { weak: 'llama3.2', strong: 'qwen2.5-coder:32b' },
+      });
+      expect(settings.errors).toEqual([]);
+    });
+
+    it('should report invalid modelSwitching settings', () => {
+      (mockFsExistsSync as Mock).mockImplementation(
+        (p: fs.PathLike) => p === MOCK_WORKSPACE_SETTINGS_PATH,
+      );
+      const workspaceSettingsContent = {
+        modelSwitching: { ollama: { baseUrl: 'gpu-box' } },
+      };
+      (fs.readFileSync as Mock).mockImplementation(
+        (p: fs.PathOrFileDescriptor) => {
+          if (p === MOCK_WORKSPACE_SETTINGS_PATH)
+            return JSON.stringify(workspaceSettingsContent);
+          return '{}';
+        },
+      );
+      const settings = loadSettings(MOCK_WORKSPACE_DIR);
+      expect(settings.errors).toEqual([
+        {
+          message: 'modelSwitching.ollama.baseUrl must be an http(s) URL.',
+          path: MOCK_WORKSPACE_SETTINGS_PATH,
+        },
+      ]);
+    });
+
     it('should handle JSON parsing errors gracefully', () => {
       (mockFsExistsSync as Mock).mockReturnValue(true); // Both files "exist"
       const invalidJsonContent = 'invalid json';
@@ -15,10 +15,29 @@ import {
   BugCommandSettings,
   TelemetrySettings,
   AuthType,
+  FallbackChainEntry,
+  ModelCapabilities,
+  ModelSwitchingSettings,
+  ShellPolicySettings,
+  TaskTypeDefinition,
+  UtilityHelper,
 } from '@samus-code/samus-code-core';
 import stripJsonComments from 'strip-json-comments';
 import { DefaultLight } from '../ui/themes/default-light.js';
 import { DefaultDark } from '../ui/themes/default.js';
+import {
+  mergeModelSwitchingSettings,
+  validateFallbackChainSettings,
+  validateModelCapabilitiesSettings,
+  validateModelSwitchingSettings,
+  validateTaskTypesSettings,
+  validateToolCallParsersSettings,
+  validateUtilityModelSettings,
+} from './modelSwitching.js';
+import {
+  mergeShellPolicySettings,
+  validateShellPolicySettings,
+} from './shellPolicy.js';
 
 export const SETTINGS_DIRECTORY_NAME = '.qwen';
 export const USER_SETTINGS_DIR = path.join(homedir(), SETTINGS_DIRECTORY_NAME);
@@ -85,6 +104,15 @@ export interface Settings {
   // Setting for setting maximum number of user/model/tool turns in a session.
   maxSessionTurns?: number;
 
+  // Milliseconds a shell command may run before it is killed, unless the
+  // model sets its own timeout_ms. Defaults to 5 minutes.
+  shellTimeoutMs?: number;
+
+  // Allow, ask and deny rules for shell commands, matched on the command
+  // name, arguments, redirections, environment and working directory. Rules
+  // of all scopes apply; the most restrictive matching rule wins.
+  shellPolicy?: ShellPolicySettings;
+
   // Sampling parameters for content generation
   sampling_params?: {
     top_p?: number;
@@ -96,6 +124,42 @@ export interface Settings {
     max_tokens?: number;
   };
 
+  // Parser for tool calls that models write as text instead of using native
+  // function calling, keyed by model name ('*' for any other model).
+  toolCallParsers?: Record<string, string>;
+
+  // Weak/strong (and extra tier) models per auth type, with optional base
+  // URL and sampling parameters. Merged per provider across scopes.
+  modelSwitching?: ModelSwitchingSettings;
+
+  // Whether prompts are classified to switch between the weak and strong
+  // models automatically. Toggled with /auto-switch.
+  autoSwitch?: boolean;
+
+  // User-defined task types for automatic switching, and overrides of the
+  // built-in ones, mapped to model tiers.
+  taskTypes?: Record<string, TaskTypeDefinition>;
+
+  // Backends tried in order when the current one refuses connections, times
+  // out or fails with a 5xx error.
+  fallbackChain?: FallbackChainEntry[];
+
+  // Capabilities keyed by model name, overriding what the provider reports,
+  // e.g. { "qwen3:32b": { "contextLength": 40960 } }.
+  modelCapabilities?: Record<string, ModelCapabilities>;
+
+  // Model for helper calls outside the conversation (edit correction,
+  // next-speaker checks, tool output summaries, chat compression). Defaults
+  // to the weak tier of the active provider.
+  utilityModel?: string;
+
+  // Per-helper overrides of utilityModel, e.g. { "compression": "qwen3:14b" }.
+  utilityModels?: Partial<Record<UtilityHelper, string>>;
+
+  // Model that embeds code for semantic_search. Defaults to the embedding
+  // model of the active provider, e.g. nomic-embed-text on Ollama.
+  embeddingModel?: string;
+
   // Add other settings here.
   ideMode?: boolean;
 }
@@ -139,6 +203,16 @@ export class LoadedSettings {
       ...this.user.settings,
       ...this.workspace.settings,
       ...this.system.settings,
+      modelSwitching: mergeModelSwitchingSettings(
+        this.user.settings.modelSwitching,
+        this.workspace.settings.modelSwitching,
+        this.system.settings.modelSwitching,
+      ),
+      shellPolicy: mergeShellPolicySettings(
+        this.user.settings.shellPolicy,
+        this.workspace.settings.shellPolicy,
+        this.system.settings.shellPolicy,
+      ),
     };
   }
 
@@ -158,10 +232,10 @@ export class LoadedSettings {
   setValue(
     scope: SettingScope,
     key: keyof Settings,
-    value: string | Record<string, MCPServerConfig> | undefined,
+    value: string | boolean | Record<string, MCPServerConfig> | undefined,
   ): void {
     const settingsFile = this.forScope(scope);
-    // @ts-expect-error - value can be string | Record<string, MCPServerConfig>
+    // @ts-expect-error - value can be string | boolean | Record<string, MCPServerConfig>
     settingsFile.settings[key] = value;
     this._merged = this.computeMergedSettings();
     saveSettings(settingsFile);
@@ -352,6 +426,27 @@ export function loadSettings(workspaceDir: string): LoadedSettings {
     });
   }
 
+  for (const [settings, settingsPath] of [
+    [systemSettings, SYSTEM_SETTINGS_PATH],
+    [userSettings, USER_SETTINGS_PATH],
+    [workspaceSettings, workspaceSettingsPath],
+  ] as const) {
+    for (const message of [
+      ...validateModelSwitchingSettings(settings.modelSwitching),
+      ...validateTaskTypesSettings(settings.taskTypes),
+      ...validateFallbackChainSettings(settings.fallbackChain),
+      ...validateModelCapabilitiesSettings(settings.modelCapabilities),
+      ...validateToolCallParsersSettings(settings.toolCallParsers),
+      ...validateUtilityModelSettings(
+        settings.utilityModel,
+        settings.utilityModels,
+      ),
+      ...validateShellPolicySettings(settings.shellPolicy),
+    ]) {
+      settingsErrors.push({ message, path: settingsPath });
+    }
+  }
+
   return new LoadedSettings(
     {
       path: SYSTEM_SETTINGS_PATH,
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  mergeShellPolicySettings,
+  validateShellPolicySettings,
+} from './shellPolicy.js';
+
+describe('validateShellPolicySettings', () => {
+  it('should accept a complete policy', () => {
+    expect(
+      validateShellPolicySettings({
+        default: 'ask',
+        rules: [
+          { decision: 'allow', command: ['npm', 'git'] },
+          {
+            decision: 'deny',
+            command: 'git',
+            args: ['push', '--force*'],
+            argsInclude: ['origin'],
+            redirect: '/etc/**',
+            directory: ['~/prod/**'],
+            env: 'LD_*',
+            reason: 'Not here.',
+          },
+        ],
+      }),
+    ).toEqual([]);
+    expect(validateShellPolicySettings(undefined)).toEqual([]);
+  });
+
+  it('should report every problem with its setting path', () => {
+    expect(
+      validateShellPolicySettings({
+        default: 'never',
+        rules: [
+          'allow npm',
+          { decision: 'block', commands: 'rm', args: 'push', env: [1] },
+        ],
+      }),
+    ).toEqual([
+      'shellPolicy.default must be one of: allow, ask, deny.',
+      'shellPolicy.rules[0] must be an object.',
+      'shellPolicy.rules[1].decision must be one of: allow, ask, deny.',
+      'shellPolicy.rules[1].commands: unknown condition.',
+      'shellPolicy.rules[1].env must be a pattern or a list of them.',
+      'shellPolicy.rules[1].args must be a list of patterns.',
+    ]);
+    expect(validateShellPolicySettings({ rules: {} })).toEqual([
+      'shellPolicy.rules must be an array of rules.',
+    ]);
+  });
+});
+
+describe('mergeShellPolicySettings', () => {
+  it('should keep the rules of every scope and the last default', () => {
+    expect(
+      mergeShellPolicySettings(
+        { default: 'deny', rules: [{ decision: 'allow', command: 'ls' }] },
+        undefined,
+        { rules: [{ decision: 'deny', command: 'rm' }] },
+      ),
+    ).toEqual({
+      default: 'deny',
+      rules: [
+        { decision: 'allow', command: 'ls' },
+        { decision: 'deny', command: 'rm' },
+      ],
+    });
+    expect(mergeShellPolicySettings(undefined, undefined)).toBeUndefined();
+  });
+});
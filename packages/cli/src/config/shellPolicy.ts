@@ -0,0 +1,108 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { ShellPolicySettings } from '@samus-code/samus-code-core';
+
+const DECISIONS = ['allow', 'ask', 'deny'];
+const PATTERN_KEYS = ['command', 'redirect', 'directory', 'env'];
+const LIST_KEYS = ['args', 'argsInclude'];
+const RULE_KEYS = new Set([
+  'decision',
+  'reason',
+  ...PATTERN_KEYS,
+  ...LIST_KEYS,
+]);
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringList(value: unknown): boolean {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+/** Checks the `shellPolicy` setting. */
+export function validateShellPolicySettings(shellPolicy: unknown): string[] {
+  if (shellPolicy === undefined) {
+    return [];
+  }
+  if (!isObject(shellPolicy)) {
+    return ['shellPolicy must be an object with "default" and "rules".'];
+  }
+  const errors: string[] = [];
+  const decisions = DECISIONS.join(', ');
+  if (
+    shellPolicy.default !== undefined &&
+    !DECISIONS.includes(shellPolicy.default as string)
+  ) {
+    errors.push(`shellPolicy.default must be one of: ${decisions}.`);
+  }
+  if (shellPolicy.rules === undefined) {
+    return errors;
+  }
+  if (!Array.isArray(shellPolicy.rules)) {
+    errors.push('shellPolicy.rules must be an array of rules.');
+    return errors;
+  }
+
+  shellPolicy.rules.forEach((rule: unknown, i) => {
+    const prefix = `shellPolicy.rules[${i}]`;
+    if (!isObject(rule)) {
+      errors.push(`${prefix} must be an object.`);
+      return;
+    }
+    if (!DECISIONS.includes(rule.decision as string)) {
+      errors.push(`${prefix}.decision must be one of: ${decisions}.`);
+    }
+    for (const key of Object.keys(rule)) {
+      if (!RULE_KEYS.has(key)) {
+        errors.push(`${prefix}.${key}: unknown condition.`);
+      }
+    }
+    for (const key of PATTERN_KEYS) {
+      const value = rule[key];
+      if (
+        value !== undefined &&
+        typeof value !== 'string' &&
+        !isStringList(value)
+      ) {
+        errors.push(`${prefix}.${key} must be a pattern or a list of them.`);
+      }
+    }
+    for (const key of LIST_KEYS) {
+      if (rule[key] !== undefined && !isStringList(rule[key])) {
+        errors.push(`${prefix}.${key} must be a list of patterns.`);
+      }
+    }
+    if (rule.reason !== undefined && typeof rule.reason !== 'string') {
+      errors.push(`${prefix}.reason must be a string.`);
+    }
+  });
+  return errors;
+}
+
+/**
+ * Merges the shell policies of the settings scopes, later ones taking
+ * precedence. Rules of all scopes apply; the default comes from the last
+ * scope that sets one.
+ */
+export function mergeShellPolicySettings(
+  ...layers: Array<ShellPolicySettings | undefined>
+): ShellPolicySettings | undefined {
+  let merged: ShellPolicySettings | undefined;
+  for (const layer of layers) {
+    if (!layer) {
+      continue;
+    }
+    merged = {
+      default: layer.default ?? merged?.default,
+      rules: [...(merged?.rules ?? []), ...(layer.rules ?? [])],
+    };
+  }
+  return merged;
+}
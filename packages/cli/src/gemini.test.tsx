@@ -6,7 +6,14 @@
 
 import stripAnsi from 'strip-ansi';
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { main } from './gemini.js';
+import {
+  ApplyPatchTool,
+  Config,
+  ReadFileTool,
+  ShellTool,
+  StartBackgroundJobTool,
+} from '@samus-code/samus-code-core';
+import { main, NON_INTERACTIVE_EXCLUDED_TOOLS } from './gemini.js';
 import {
   LoadedSettings,
   SettingsFile,
@@ -149,3 +156,24 @@ describe('gemini.tsx main function', () => {
     expect(processExitSpy).toHaveBeenCalledWith(1);
   });
 });
+
+describe('NON_INTERACTIVE_EXCLUDED_TOOLS', () => {
+  it('should leave tools that need confirmation out of the registry', async () => {
+    const config = new Config({
+      sessionId: 'test-session',
+      targetDir: process.cwd(),
+      debugMode: false,
+      cwd: process.cwd(),
+      model: 'test-model',
+      excludeTools: NON_INTERACTIVE_EXCLUDED_TOOLS,
+    });
+
+    const registry = await config.createToolRegistry();
+    const toolNames = registry.getAllTools().map((tool) => tool.name);
+
+    expect(toolNames).toContain(ReadFileTool.Name);
+    expect(toolNames).not.toContain(ShellTool.Name);
+    expect(toolNames).not.toContain(StartBackgroundJobTool.Name);
+    expect(toolNames).not.toContain(ApplyPatchTool.Name);
+  });
+});
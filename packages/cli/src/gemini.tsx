@@ -24,14 +24,22 @@ import { themeManager } from './ui/themes/theme-manager.js';
 import { getStartupWarnings } from './utils/startupWarnings.js';
 import { getUserStartupWarnings } from './utils/userStartupWarnings.js';
 import { runNonInteractive } from './nonInteractiveCli.js';
+import { runMcpServer } from './mcpServer.js';
 import { loadExtensions, Extension } from './config/extension.js';
-import { cleanupCheckpoints, registerCleanup } from './utils/cleanup.js';
+import {
+  cleanupCheckpoints,
+  cleanupShellOutput,
+  registerBackgroundJobCleanup,
+  registerCleanup,
+} from './utils/cleanup.js';
 import { getCliVersion } from './utils/version.js';
 import {
+  ApplyPatchTool,
   ApprovalMode,
   Config,
   EditTool,
   ShellTool,
+  StartBackgroundJobTool,
   WriteFileTool,
   sessionId,
   logUserPrompt,
@@ -90,6 +98,7 @@ export async function main() {
   const settings = loadSettings(workspaceRoot);
 
   await cleanupCheckpoints();
+  await cleanupShellOutput();
   if (settings.errors.length > 0) {
     for (const error of settings.errors) {
       let errorMessage = `Error in ${error.path}: ${error.message}`;
@@ -110,6 +119,7 @@ export async function main() {
     sessionId,
     argv,
   );
+  registerBackgroundJobCleanup(config);
 
   if (argv.promptInteractive && !process.stdin.isTTY) {
     console.error(
@@ -189,6 +199,17 @@ export async function main() {
     await getOauthClient(settings.merged.selectedAuthType, config);
   }
 
+  if (argv.mcpServer) {
+    // No tools are left out: the server refuses each call that would need
+    // confirmation under the approval mode.
+    const mcpServerConfig = await validateNonInterActiveAuth(
+      settings.merged.selectedAuthType,
+      config,
+    );
+    await runMcpServer(mcpServerConfig, argv.mcpServerPort);
+    process.exit(0);
+  }
+
   let input = config.getQuestion();
   const startupWarnings = [
     ...(await getStartupWarnings()),
@@ -279,6 +300,16 @@ process.on('unhandledRejection', (reason, _promise) => {
   process.exit(1);
 });
 
+// Tools that need confirmation, which non-interactive mode cannot ask for,
+// so they are left out unless in YOLO mode.
+export const NON_INTERACTIVE_EXCLUDED_TOOLS = [
+  ShellTool.Name,
+  StartBackgroundJobTool.Name,
+  EditTool.Name,
+  ApplyPatchTool.Name,
+  WriteFileTool.Name,
+];
+
 async function loadNonInteractiveConfig(
   config: Config,
   extensions: Extension[],
@@ -289,14 +320,8 @@ async function loadNonInteractiveConfig(
   if (config.getApprovalMode() !== ApprovalMode.YOLO) {
     // Everything is not allowed, ensure that only read-only tools are configured.
     const existingExcludeTools = settings.merged.excludeTools || [];
-    const interactiveTools = [
-      ShellTool.Name,
-      EditTool.Name,
-      WriteFileTool.Name,
-    ];
-
     const newExcludeTools = [
-      ...new Set([...existingExcludeTools, ...interactiveTools]),
+      ...new Set([...existingExcludeTools, ...NON_INTERACTIVE_EXCLUDED_TOOLS]),
     ];
 
     const nonInteractiveSettings = {
@@ -0,0 +1,340 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { request } from 'http';
+import { AddressInfo } from 'net';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { GenerateContentResponse, Type } from '@google/genai';
+import {
+  ApprovalMode,
+  Config,
+  DiscoveredMCPTool,
+  EditTool,
+  Tool,
+  executeToolCall,
+} from '@samus-code/samus-code-core';
+import {
+  createMcpHttpServer,
+  createMcpServer,
+  RUN_TASK_TOOL_NAME,
+} from './mcpServer.js';
+
+vi.mock('@samus-code/samus-code-core', async () => {
+  const actualCore = await vi.importActual<
+    typeof import('@samus-code/samus-code-core')
+  >('@samus-code/samus-code-core');
+  return {
+    ...actualCore,
+    executeToolCall: vi.fn(),
+    logUserPrompt: vi.fn(),
+  };
+});
+
+describe('createMcpServer', () => {
+  let readFileTool: Tool;
+  let tools: Tool[];
+  let approvalMode: ApprovalMode;
+  let mockChat: { sendMessageStream: ReturnType<typeof vi.fn> };
+  let mockConfig: Config;
+  let client: Client;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    approvalMode = ApprovalMode.DEFAULT;
+    readFileTool = {
+      name: 'read_file',
+      description: 'Reads a file',
+      schema: {
+        name: 'read_file',
+        parameters: {
+          type: Type.OBJECT,
+          properties: { absolute_path: { type: Type.STRING } },
+          required: ['absolute_path'],
+        },
+      },
+      validateToolParams: vi.fn().mockReturnValue(null),
+      shouldConfirmExecute: vi.fn().mockResolvedValue(false),
+    } as unknown as Tool;
+    const mcpTool = Object.assign(Object.create(DiscoveredMCPTool.prototype), {
+      name: 'remote_tool',
+    });
+    tools = [readFileTool, mcpTool];
+    const mockToolRegistry = {
+      getAllTools: vi.fn(() => tools),
+      getTool: vi.fn((name: string) =>
+        tools.find((tool) => tool.name === name),
+      ),
+      getFunctionDeclarations: vi.fn().mockReturnValue([]),
+    };
+    mockChat = { sendMessageStream: vi.fn() };
+    mockConfig = {
+      getToolRegistry: vi.fn().mockResolvedValue(mockToolRegistry),
+      getGeminiClient: vi.fn().mockReturnValue({
+        getChat: vi.fn().mockResolvedValue(mockChat),
+        resetChat: vi.fn(),
+      }),
+      getApprovalMode: vi.fn(() => approvalMode),
+      getContentGeneratorConfig: vi.fn().mockReturnValue({}),
+      getMaxSessionTurns: vi.fn().mockReturnValue(10),
+      getTargetDir: vi.fn(() => '/project'),
+    } as unknown as Config;
+
+    const [clientTransport, serverTransport] =
+      InMemoryTransport.createLinkedPair();
+    await createMcpServer(mockConfig, '1.0.0').connect(serverTransport);
+    client = new Client({ name: 'test-client', version: '1.0.0' });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  it('should list run_task and the built-in tools', async () => {
+    const { tools } = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      RUN_TASK_TOOL_NAME,
+      'read_file',
+    ]);
+    expect(tools[1].inputSchema).toEqual({
+      type: 'object',
+      properties: { absolute_path: { type: 'string' } },
+      required: ['absolute_path'],
+    });
+  });
+
+  it('should run a task and report progress', async () => {
+    vi.mocked(executeToolCall).mockResolvedValue({
+      callId: 'fc1',
+      responseParts: [],
+      resultDisplay: 'file contents',
+      error: undefined,
+    });
+    mockChat.sendMessageStream
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            functionCalls: [
+              { id: 'fc1', name: 'read_file', args: { absolute_path: '/a' } },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      )
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            candidates: [
+              { content: { parts: [{ text: 'The file is fine.' }] } },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      );
+    const onprogress = vi.fn();
+
+    const result = await client.callTool(
+      { name: RUN_TASK_TOOL_NAME, arguments: { task: 'Check /a' } },
+      undefined,
+      { onprogress },
+    );
+
+    expect(result).toEqual({
+      content: [{ type: 'text', text: 'The file is fine.' }],
+    });
+    expect(onprogress.mock.calls.map(([progress]) => progress.message)).toEqual(
+      [
+        'Executing tool: read_file (absolute_path: "/a")',
+        'Tool read_file completed successfully',
+        'The file is fine.',
+      ],
+    );
+  });
+
+  it('should refuse task tool calls that need confirmation', async () => {
+    vi.mocked(readFileTool.shouldConfirmExecute).mockResolvedValue({
+      type: 'info',
+      title: 'Read outside the workspace',
+      prompt: '/etc/passwd',
+      onConfirm: vi.fn(),
+    });
+    mockChat.sendMessageStream
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            functionCalls: [
+              { id: 'fc1', name: 'read_file', args: { absolute_path: '/etc' } },
+            ],
+          } as GenerateContentResponse;
+        })(),
+      )
+      .mockResolvedValueOnce(
+        (async function* () {
+          yield {
+            candidates: [{ content: { parts: [{ text: 'Not allowed.' }] } }],
+          } as GenerateContentResponse;
+        })(),
+      );
+
+    const result = await client.callTool({
+      name: RUN_TASK_TOOL_NAME,
+      arguments: { task: 'Read /etc/passwd' },
+    });
+
+    expect(result).toEqual({
+      content: [{ type: 'text', text: 'Not allowed.' }],
+    });
+    expect(executeToolCall).not.toHaveBeenCalled();
+    expect(mockChat.sendMessageStream.mock.calls[1][0].message).toEqual([
+      {
+        functionResponse: {
+          id: 'fc1',
+          name: 'read_file',
+          response: {
+            error:
+              'Tool "read_file" needs confirmation for these arguments. Restart the MCP server with --yolo to allow it.',
+          },
+        },
+      },
+    ]);
+  });
+
+  it('should refuse calls that need confirmation unless in YOLO mode', async () => {
+    vi.mocked(readFileTool.shouldConfirmExecute).mockResolvedValue({
+      type: 'info',
+      title: 'Read outside the workspace',
+      prompt: '/etc/passwd',
+      onConfirm: vi.fn(),
+    });
+    vi.mocked(executeToolCall).mockResolvedValue({
+      callId: 'read_file-1',
+      responseParts: {
+        functionResponse: {
+          name: 'read_file',
+          response: { output: 'root:x:0:0' },
+        },
+      },
+      resultDisplay: '',
+      error: undefined,
+    });
+    const call = { name: 'read_file', arguments: { absolute_path: '/etc' } };
+
+    const refused = await client.callTool(call);
+    approvalMode = ApprovalMode.YOLO;
+    const allowed = await client.callTool(call);
+
+    expect(refused.isError).toBe(true);
+    expect(allowed).toEqual({
+      content: [{ type: 'text', text: 'root:x:0:0' }],
+      isError: false,
+    });
+    expect(executeToolCall).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run edits without confirmation in AUTO_EDIT mode', async () => {
+    tools.push(new EditTool(mockConfig));
+    approvalMode = ApprovalMode.AUTO_EDIT;
+    vi.mocked(executeToolCall).mockResolvedValue({
+      callId: 'replace-1',
+      responseParts: {
+        functionResponse: {
+          name: EditTool.Name,
+          response: { output: 'Successfully modified file: /project/a.ts' },
+        },
+      },
+      resultDisplay: '',
+      error: undefined,
+    });
+
+    const result = await client.callTool({
+      name: EditTool.Name,
+      arguments: {
+        file_path: '/project/a.ts',
+        old_string: 'a',
+        new_string: 'b',
+      },
+    });
+
+    expect(result).toEqual({
+      content: [
+        { type: 'text', text: 'Successfully modified file: /project/a.ts' },
+      ],
+      isError: false,
+    });
+    expect(executeToolCall).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('createMcpHttpServer', () => {
+  const httpServer = createMcpHttpServer({} as Config, '1.0.0');
+  let port: number;
+
+  const post = (headers: Record<string, string>) =>
+    new Promise<number | undefined>((resolve, reject) => {
+      const req = request(
+        {
+          host: '127.0.0.1',
+          port,
+          path: '/mcp',
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Accept: 'application/json, text/event-stream',
+            ...headers,
+          },
+        },
+        (res) => {
+          res.resume();
+          resolve(res.statusCode);
+        },
+      );
+      req.on('error', reject);
+      req.end(
+        JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: {
+            protocolVersion: '2025-03-26',
+            capabilities: {},
+            clientInfo: { name: 'test-client', version: '1.0.0' },
+          },
+        }),
+      );
+    });
+
+  beforeEach(async () => {
+    await new Promise<void>((resolve) =>
+      httpServer.listen(0, '127.0.0.1', resolve),
+    );
+    port = (httpServer.address() as AddressInfo).port;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => httpServer.close(resolve));
+  });
+
+  it('should answer clients on localhost', async () => {
+    expect(await post({ Host: `localhost:${port}` })).toBe(200);
+    expect(
+      await post({
+        Host: `127.0.0.1:${port}`,
+        Origin: `http://127.0.0.1:${port}`,
+      }),
+    ).toBe(200);
+  });
+
+  it('should refuse requests for other hosts and from other pages', async () => {
+    expect(await post({ Host: `attacker.example:${port}` })).toBe(403);
+    expect(
+      await post({
+        Host: `localhost:${port}`,
+        Origin: 'http://attacker.example',
+      }),
+    ).toBe(403);
+  });
+});
@@ -0,0 +1,455 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createServer, IncomingMessage, Server as HttpServer } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import {
+  CallToolRequestSchema,
+  CallToolResult,
+  ListToolsRequestSchema,
+  ServerNotification,
+  ServerRequest,
+  Tool as McpTool,
+} from '@modelcontextprotocol/sdk/types.js';
+import { PartListUnion } from '@google/genai';
+import {
+  ApprovalMode,
+  Config,
+  DiscoveredMCPTool,
+  SchemaValidator,
+  Tool,
+  executeToolCall,
+  isTelemetrySdkInitialized,
+  logUserPrompt,
+  shutdownTelemetry,
+} from '@samus-code/samus-code-core';
+import { formatToolArgs, runTurnLoop } from './nonInteractiveCli.js';
+import { parseAndFormatApiError } from './ui/utils/errorParsing.js';
+import { getCliVersion } from './utils/version.js';
+
+export const RUN_TASK_TOOL_NAME = 'run_task';
+
+type RequestExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+// Tasks share the session's chat, so they run one at a time.
+let taskQueue: Promise<unknown> = Promise.resolve();
+
+const runTaskTool: McpTool = {
+  name: RUN_TASK_TOOL_NAME,
+  description:
+    'Hands a task to the Samus Code agent, which works on it in the current workspace with its own tools until it is done, and returns its answer. Progress is reported as notifications.',
+  inputSchema: {
+    type: 'object',
+    properties: {
+      task: {
+        type: 'string',
+        description: 'What the agent should do, in plain language.',
+      },
+    },
+    required: ['task'],
+  },
+};
+
+/** The built-in tools that are exposed directly, next to run_task. */
+async function getExposedTools(config: Config): Promise<Tool[]> {
+  const toolRegistry = await config.getToolRegistry();
+  return toolRegistry
+    .getAllTools()
+    .filter(
+      (tool) =>
+        !(tool instanceof DiscoveredMCPTool) &&
+        tool.name !== RUN_TASK_TOOL_NAME,
+    );
+}
+
+function toMcpTool(tool: Tool): McpTool {
+  const parameters = tool.schema.parameters;
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema: parameters
+      ? (SchemaValidator.toObjectSchema(parameters) as McpTool['inputSchema'])
+      : { type: 'object' },
+  };
+}
+
+/**
+ * Returns a function that reports progress on a request: as progress
+ * notifications if the client asked for them, otherwise as log messages.
+ * `flush` resolves once every notification has been sent.
+ */
+function createProgressReporter(extra: RequestExtra) {
+  const progressToken = extra._meta?.progressToken;
+  let progress = 0;
+  let pending: Promise<void> = Promise.resolve();
+
+  const report = (message: string) => {
+    progress++;
+    const notification: ServerNotification =
+      progressToken !== undefined
+        ? {
+            method: 'notifications/progress',
+            params: { progressToken, progress, message },
+          }
+        : {
+            method: 'notifications/message',
+            params: { level: 'info', logger: 'samus-code', data: message },
+          };
+    pending = pending
+      .then(() => extra.sendNotification(notification))
+      .catch(() => {
+        // The client went away; the task result will not arrive either.
+      });
+  };
+  return { report, flush: () => pending };
+}
+
+function toCallToolContent(
+  responseParts: PartListUnion,
+): CallToolResult['content'] {
+  const parts = Array.isArray(responseParts) ? responseParts : [responseParts];
+  const content: CallToolResult['content'] = [];
+  for (const part of parts) {
+    if (typeof part === 'string') {
+      content.push({ type: 'text', text: part });
+    } else if (part.text) {
+      content.push({ type: 'text', text: part.text });
+    } else if (part.functionResponse) {
+      const response = part.functionResponse.response ?? {};
+      const output = response.output ?? response.error ?? response;
+      content.push({
+        type: 'text',
+        text: typeof output === 'string' ? output : JSON.stringify(output),
+      });
+    } else if (
+      part.inlineData?.data &&
+      part.inlineData.mimeType?.startsWith('image/')
+    ) {
+      content.push({
+        type: 'image',
+        data: part.inlineData.data,
+        mimeType: part.inlineData.mimeType,
+      });
+    }
+  }
+  return content;
+}
+
+/**
+ * There is nobody to confirm with, so calls that would ask for confirmation
+ * are only run in YOLO mode. Returns why `tool` may not run with `args`.
+ */
+async function checkConfirmation(
+  config: Config,
+  tool: Tool,
+  args: Record<string, unknown>,
+  abortSignal: AbortSignal,
+): Promise<string | undefined> {
+  if (
+    config.getApprovalMode() !== ApprovalMode.YOLO &&
+    (await tool.shouldConfirmExecute(args, abortSignal))
+  ) {
+    return `Tool "${tool.name}" needs confirmation for these arguments. Restart the MCP server with --yolo to allow it.`;
+  }
+  return undefined;
+}
+
+async function runTask(
+  config: Config,
+  task: string,
+  extra: RequestExtra,
+): Promise<CallToolResult> {
+  const prompt_id = Math.random().toString(16).slice(2);
+  logUserPrompt(config, {
+    'event.name': 'user_prompt',
+    'event.timestamp': new Date().toISOString(),
+    prompt: task,
+    prompt_id,
+    auth_type: config.getContentGeneratorConfig()?.authType,
+    prompt_length: task.length,
+  });
+
+  const progress = createProgressReporter(extra);
+  let answer = '';
+  let result: CallToolResult;
+  try {
+    // Every task starts from a fresh conversation.
+    await config.getGeminiClient().resetChat();
+    const outcome = await runTurnLoop(
+      config,
+      task,
+      prompt_id,
+      {
+        onText: (text) => {
+          answer += text;
+          progress.report(text);
+        },
+        onToolCall: (toolName, args, status, _resultDisplay, errorMessage) => {
+          switch (status) {
+            case 'start':
+              progress.report(
+                `Executing tool: ${toolName} ${formatToolArgs(args)}`,
+              );
+              break;
+            case 'success':
+              progress.report(`Tool ${toolName} completed successfully`);
+              break;
+            case 'error':
+              progress.report(`Tool ${toolName} failed: ${errorMessage}`);
+              break;
+            default:
+              break;
+          }
+        },
+        checkToolCall: async (request, abortSignal) => {
+          const tool = (await config.getToolRegistry()).getTool(request.name);
+          // Unknown tools are reported by executeToolCall.
+          return tool
+            ? checkConfirmation(config, tool, request.args, abortSignal)
+            : undefined;
+        },
+      },
+      extra.signal,
+    );
+    switch (outcome) {
+      case 'completed':
+        result = { content: [{ type: 'text', text: answer }] };
+        break;
+      case 'cancelled':
+        result = {
+          content: [{ type: 'text', text: 'The task was cancelled.' }],
+          isError: true,
+        };
+        break;
+      case 'max_session_turns':
+        result = {
+          content: [
+            {
+              type: 'text',
+              text: `${answer}\n\nReached max session turns before the task was done. Increase the number of turns by specifying maxSessionTurns in settings.json.`,
+            },
+          ],
+          isError: true,
+        };
+        break;
+      default:
+        throw new Error(`Unexpected task outcome: ${outcome}`);
+    }
+  } catch (error) {
+    result = {
+      content: [
+        {
+          type: 'text',
+          text: parseAndFormatApiError(
+            error,
+            config.getContentGeneratorConfig()?.authType,
+          ),
+        },
+      ],
+      isError: true,
+    };
+  }
+  await progress.flush();
+  return result;
+}
+
+async function callTool(
+  config: Config,
+  tool: Tool,
+  args: Record<string, unknown>,
+  extra: RequestExtra,
+): Promise<CallToolResult> {
+  const validationError = tool.validateToolParams(args);
+  if (validationError) {
+    return {
+      content: [{ type: 'text', text: validationError }],
+      isError: true,
+    };
+  }
+  const refusal = await checkConfirmation(config, tool, args, extra.signal);
+  if (refusal) {
+    return { content: [{ type: 'text', text: refusal }], isError: true };
+  }
+
+  const response = await executeToolCall(
+    config,
+    {
+      callId: `${tool.name}-${Date.now()}`,
+      name: tool.name,
+      args,
+      isClientInitiated: true,
+      prompt_id: Math.random().toString(16).slice(2),
+    },
+    await config.getToolRegistry(),
+    extra.signal,
+  );
+  return {
+    content: toCallToolContent(response.responseParts),
+    isError: !!response.error,
+  };
+}
+
+/**
+ * Creates an MCP server that offers run_task, which runs a whole agent turn
+ * loop, and the built-in tools of `config`'s tool registry.
+ */
+export function createMcpServer(config: Config, version: string): Server {
+  const server = new Server(
+    { name: 'samus-code', version },
+    { capabilities: { tools: {}, logging: {} } },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [runTaskTool, ...(await getExposedTools(config)).map(toMcpTool)],
+  }));
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args = {} } = request.params;
+    if (name === RUN_TASK_TOOL_NAME) {
+      const task = args.task;
+      if (typeof task !== 'string' || !task.trim()) {
+        return {
+          content: [{ type: 'text', text: 'The task must not be empty.' }],
+          isError: true,
+        };
+      }
+      const result = taskQueue.then(() => runTask(config, task, extra));
+      taskQueue = result.catch(() => {});
+      return result;
+    }
+
+    const tools = await getExposedTools(config);
+    const tool = tools.find((tool) => tool.name === name);
+    if (!tool) {
+      return {
+        content: [{ type: 'text', text: `Unknown tool: ${name}` }],
+        isError: true,
+      };
+    }
+    return callTool(config, tool, args, extra);
+  });
+
+  return server;
+}
+
+async function serveStdio(config: Config, version: string): Promise<void> {
+  // stdout carries the protocol, so anything logged goes to stderr instead.
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+
+  const server = createMcpServer(config, version);
+  const closed = new Promise<void>((resolve) => {
+    server.onclose = resolve;
+  });
+  await server.connect(new StdioServerTransport());
+  process.stdin.on('end', () => server.close());
+  await closed;
+}
+
+/** The Host headers a request to the HTTP server on localhost may carry. */
+function getLocalHosts(req: IncomingMessage): string[] {
+  const port = req.socket.localPort;
+  return ['localhost', '127.0.0.1', '[::1]'].map((host) => `${host}:${port}`);
+}
+
+/**
+ * Creates the HTTP server for the `/mcp` endpoint. It has no authentication,
+ * so it only answers requests addressed to localhost, and of those sent by
+ * browsers, only the ones from localhost pages. Web pages elsewhere cannot
+ * reach it, not even through DNS rebinding.
+ */
+export function createMcpHttpServer(
+  config: Config,
+  version: string,
+): HttpServer {
+  return createServer(async (req, res) => {
+    if (new URL(req.url ?? '/', 'http://localhost').pathname !== '/mcp') {
+      res.writeHead(404).end('Not Found');
+      return;
+    }
+    // The server is stateless, so there are no sessions to resume or end.
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end('Method Not Allowed');
+      return;
+    }
+    const allowedHosts = getLocalHosts(req);
+    // Browsers send an Origin and other clients none, so only foreign ones
+    // are refused.
+    const { origin } = req.headers;
+    if (origin && !allowedHosts.some((host) => origin === `http://${host}`)) {
+      res.writeHead(403).end(`Forbidden origin: ${origin}`);
+      return;
+    }
+
+    const server = createMcpServer(config, version);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: undefined,
+      enableDnsRebindingProtection: true,
+      allowedHosts,
+    });
+    res.on('close', () => {
+      transport.close();
+      server.close();
+    });
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res);
+    } catch (error) {
+      console.error('Error handling MCP request:', error);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' }).end(
+          JSON.stringify({
+            jsonrpc: '2.0',
+            error: { code: -32603, message: 'Internal server error' },
+            id: null,
+          }),
+        );
+      }
+    }
+  });
+}
+
+async function serveHttp(
+  config: Config,
+  version: string,
+  port: number,
+): Promise<void> {
+  const httpServer = createMcpHttpServer(config, version);
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(port, 'localhost', resolve);
+  });
+  console.error(
+    `Samus Code MCP server listening on http://localhost:${port}/mcp`,
+  );
+  await new Promise<void>((resolve) => httpServer.once('close', resolve));
+}
+
+/**
+ * Serves Samus Code as an MCP server until the client disconnects (stdio)
+ * or the HTTP server is closed. Serves over stdio unless `port` is given.
+ */
+export async function runMcpServer(
+  config: Config,
+  port?: number,
+): Promise<void> {
+  const version = await getCliVersion();
+  try {
+    if (port === undefined) {
+      await serveStdio(config, version);
+    } else {
+      await serveHttp(config, version, port);
+    }
+  } finally {
+    if (isTelemetrySdkInitialized()) {
+      await shutdownTelemetry();
+    }
+  }
+}
@@ -7,6 +7,7 @@
 import {
   Config,
   ToolCallRequestInfo,
+  ToolCallResponseInfo,
   executeToolCall,
   ToolRegistry,
   shutdownTelemetry,
@@ -45,7 +46,7 @@ function getResponseText(response: GenerateContentResponse): string | null {
 }
 
 // Helper function to format tool call arguments for display
-function formatToolArgs(args: Record<string, unknown>): string {
+export function formatToolArgs(args: Record<string, unknown>): string {
   if (!args || Object.keys(args).length === 0) {
     return '(no arguments)';
   }
@@ -121,144 +122,238 @@ function displayToolCallInfo(
   }
 }
 
-export async function runNonInteractive(
+/** Receives the output of {@link runTurnLoop} as it is produced. */
+export interface TurnLoopHandlers {
+  /** Called with each chunk of response text from the model. */
+  onText: (text: string) => void;
+  /** Called when a tool call starts and when it succeeds or fails. */
+  onToolCall: (
+    toolName: string,
+    args: Record<string, unknown>,
+    status: 'start' | 'success' | 'error',
+    resultDisplay?: ToolResultDisplay,
+    errorMessage?: string,
+  ) => void;
+  /** Called when a tool call fails. The error is also sent to the model. */
+  onToolError?: (
+    toolName: string,
+    message: string,
+    isToolNotFound: boolean,
+  ) => void;
+  /**
+   * Called before each tool call. Returns why the call may not run, which is
+   * sent to the model as the tool's error, or undefined to run it.
+   */
+  checkToolCall?: (
+    request: ToolCallRequestInfo,
+    abortSignal: AbortSignal,
+  ) => Promise<string | undefined>;
+}
+
+function refusedToolCall(
+  request: ToolCallRequestInfo,
+  reason: string,
+): ToolCallResponseInfo {
+  return {
+    callId: request.callId,
+    responseParts: [
+      {
+        functionResponse: {
+          id: request.callId,
+          name: request.name,
+          response: { error: reason },
+        },
+      },
+    ],
+    resultDisplay: reason,
+    error: new Error(reason),
+  };
+}
+
+export type TurnLoopResult = 'completed' | 'cancelled' | 'max_session_turns';
+
+/**
+ * Sends `input` to the model and runs the tools it asks for, feeding their
+ * results back, until the model answers without calling a tool. Tools run
+ * without confirmation unless `handlers.checkToolCall` refuses them. API
+ * errors are thrown.
+ */
+export async function runTurnLoop(
   config: Config,
   input: string,
   prompt_id: string,
-): Promise<void> {
-  await config.initialize();
-  // Handle EPIPE errors when the output is piped to a command that closes early.
-  process.stdout.on('error', (err: NodeJS.ErrnoException) => {
-    if (err.code === 'EPIPE') {
-      // Exit gracefully if the pipe is closed.
-      process.exit(0);
-    }
-  });
-
+  handlers: TurnLoopHandlers,
+  abortSignal: AbortSignal,
+): Promise<TurnLoopResult> {
   const geminiClient = config.getGeminiClient();
   const toolRegistry: ToolRegistry = await config.getToolRegistry();
 
   const chat = await geminiClient.getChat();
-  const abortController = new AbortController();
   let currentMessages: Content[] = [{ role: 'user', parts: [{ text: input }] }];
   let turnCount = 0;
-  try {
-    while (true) {
-      turnCount++;
-      if (
-        config.getMaxSessionTurns() > 0 &&
-        turnCount > config.getMaxSessionTurns()
-      ) {
-        console.error(
-          '\n Reached max session turns for this session. Increase the number of turns by specifying maxSessionTurns in settings.json.',
-        );
-        return;
-      }
-      const functionCalls: FunctionCall[] = [];
+  while (true) {
+    turnCount++;
+    if (
+      config.getMaxSessionTurns() > 0 &&
+      turnCount > config.getMaxSessionTurns()
+    ) {
+      return 'max_session_turns';
+    }
+    const functionCalls: FunctionCall[] = [];
 
-      const responseStream = await chat.sendMessageStream(
-        {
-          message: currentMessages[0]?.parts || [], // Ensure parts are always provided
-          config: {
-            abortSignal: abortController.signal,
-            tools: [
-              { functionDeclarations: toolRegistry.getFunctionDeclarations() },
-            ],
-          },
+    const responseStream = await chat.sendMessageStream(
+      {
+        message: currentMessages[0]?.parts || [], // Ensure parts are always provided
+        config: {
+          abortSignal,
+          tools: [
+            { functionDeclarations: toolRegistry.getFunctionDeclarations() },
+          ],
         },
-        prompt_id,
-      );
+      },
+      prompt_id,
+    );
 
-      for await (const resp of responseStream) {
-        if (abortController.signal.aborted) {
-          console.error('Operation cancelled.');
-          return;
-        }
-        const textPart = getResponseText(resp);
-        if (textPart) {
-          process.stdout.write(textPart);
-        }
-        if (resp.functionCalls) {
-          functionCalls.push(...resp.functionCalls);
-        }
+    for await (const resp of responseStream) {
+      if (abortSignal.aborted) {
+        return 'cancelled';
       }
+      const textPart = getResponseText(resp);
+      if (textPart) {
+        handlers.onText(textPart);
+      }
+      if (resp.functionCalls) {
+        functionCalls.push(...resp.functionCalls);
+      }
+    }
 
-      if (functionCalls.length > 0) {
-        const toolResponseParts: Part[] = [];
-
-        for (const fc of functionCalls) {
-          const callId = fc.id ?? `${fc.name}-${Date.now()}`;
-          const requestInfo: ToolCallRequestInfo = {
-            callId,
-            name: fc.name as string,
-            args: (fc.args ?? {}) as Record<string, unknown>,
-            isClientInitiated: false,
-            prompt_id,
-          };
+    if (functionCalls.length === 0) {
+      return 'completed';
+    }
 
-          //Display tool call start information
-          displayToolCallInfo(fc.name as string, fc.args ?? {}, 'start');
+    const toolResponseParts: Part[] = [];
 
-          const toolResponse = await executeToolCall(
-            config,
-            requestInfo,
-            toolRegistry,
-            abortController.signal,
-          );
+    for (const fc of functionCalls) {
+      const callId = fc.id ?? `${fc.name}-${Date.now()}`;
+      const requestInfo: ToolCallRequestInfo = {
+        callId,
+        name: fc.name as string,
+        args: (fc.args ?? {}) as Record<string, unknown>,
+        isClientInitiated: false,
+        prompt_id,
+      };
 
-          if (toolResponse.error) {
-            // Display tool call error information
-            const errorMessage =
-              typeof toolResponse.resultDisplay === 'string'
-                ? toolResponse.resultDisplay
-                : toolResponse.error?.message;
+      //Display tool call start information
+      handlers.onToolCall(fc.name as string, fc.args ?? {}, 'start');
 
-            displayToolCallInfo(
-              fc.name as string,
-              fc.args ?? {},
-              'error',
-              undefined,
-              errorMessage,
+      const refusal = await handlers.checkToolCall?.(requestInfo, abortSignal);
+      const toolResponse =
+        refusal !== undefined
+          ? refusedToolCall(requestInfo, refusal)
+          : await executeToolCall(
+              config,
+              requestInfo,
+              toolRegistry,
+              abortSignal,
             );
 
-            const isToolNotFound = toolResponse.error.message.includes(
-              'not found in registry',
-            );
-            console.error(
-              `Error executing tool ${fc.name}: ${toolResponse.resultDisplay || toolResponse.error.message}`,
-            );
-            if (!isToolNotFound) {
-              process.exit(1);
-            }
-          } else {
-            // Display tool call success information
-            displayToolCallInfo(
-              fc.name as string,
-              fc.args ?? {},
-              'success',
-              toolResponse.resultDisplay,
-            );
-          }
+      if (toolResponse.error) {
+        // Display tool call error information
+        const errorMessage =
+          typeof toolResponse.resultDisplay === 'string'
+            ? toolResponse.resultDisplay
+            : toolResponse.error?.message;
+
+        handlers.onToolCall(
+          fc.name as string,
+          fc.args ?? {},
+          'error',
+          undefined,
+          errorMessage,
+        );
 
-          if (toolResponse.responseParts) {
-            const parts = Array.isArray(toolResponse.responseParts)
-              ? toolResponse.responseParts
-              : [toolResponse.responseParts];
-            for (const part of parts) {
-              if (typeof part === 'string') {
-                toolResponseParts.push({ text: part });
-              } else if (part) {
-                toolResponseParts.push(part);
-              }
-            }
+        const isToolNotFound = toolResponse.error.message.includes(
+          'not found in registry',
+        );
+        handlers.onToolError?.(
+          fc.name as string,
+          `${toolResponse.resultDisplay || toolResponse.error.message}`,
+          isToolNotFound,
+        );
+      } else {
+        // Display tool call success information
+        handlers.onToolCall(
+          fc.name as string,
+          fc.args ?? {},
+          'success',
+          toolResponse.resultDisplay,
+        );
+      }
+
+      if (toolResponse.responseParts) {
+        const parts = Array.isArray(toolResponse.responseParts)
+          ? toolResponse.responseParts
+          : [toolResponse.responseParts];
+        for (const part of parts) {
+          if (typeof part === 'string') {
+            toolResponseParts.push({ text: part });
+          } else if (part) {
+            toolResponseParts.push(part);
           }
         }
-        currentMessages = [{ role: 'user', parts: toolResponseParts }];
-      } else {
-        process.stdout.write('\n'); // Ensure a final newline
-        return;
       }
     }
+    currentMessages = [{ role: 'user', parts: toolResponseParts }];
+  }
+}
+
+export async function runNonInteractive(
+  config: Config,
+  input: string,
+  prompt_id: string,
+): Promise<void> {
+  await config.initialize();
+  // Handle EPIPE errors when the output is piped to a command that closes early.
+  process.stdout.on('error', (err: NodeJS.ErrnoException) => {
+    if (err.code === 'EPIPE') {
+      // Exit gracefully if the pipe is closed.
+      process.exit(0);
+    }
+  });
+
+  const abortController = new AbortController();
+  try {
+    const result = await runTurnLoop(
+      config,
+      input,
+      prompt_id,
+      {
+        onText: (text) => process.stdout.write(text),
+        onToolCall: displayToolCallInfo,
+        onToolError: (toolName, message, isToolNotFound) => {
+          console.error(`Error executing tool ${toolName}: ${message}`);
+          if (!isToolNotFound) {
+            process.exit(1);
+          }
+        },
+      },
+      abortController.signal,
+    );
+    switch (result) {
+      case 'completed':
+        process.stdout.write('\n'); // Ensure a final newline
+        break;
+      case 'cancelled':
+        console.error('Operation cancelled.');
+        break;
+      case 'max_session_turns':
+        console.error(
+          '\n Reached max session turns for this session. Increase the number of turns by specifying maxSessionTurns in settings.json.',
+        );
+        break;
+      default:
+        break;
+    }
   } catch (error) {
     console.error(
       parseAndFormatApiError(
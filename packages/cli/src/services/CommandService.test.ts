@@ -9,6 +9,7 @@ import { CommandService } from './CommandService.js';
 import { type SlashCommand } from '../ui/commands/types.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
+import { jobsCommand } from '../ui/commands/jobsCommand.js';
 import { clearCommand } from '../ui/commands/clearCommand.js';
 import { authCommand } from '../ui/commands/authCommand.js';
 import { themeCommand } from '../ui/commands/themeCommand.js';
@@ -23,6 +24,9 @@ vi.mock('../ui/commands/memoryCommand.js', () => ({
 vi.mock('../ui/commands/helpCommand.js', () => ({
   helpCommand: { name: 'help', description: 'Mock Help' },
 }));
+vi.mock('../ui/commands/jobsCommand.js', () => ({
+  jobsCommand: { name: 'jobs', description: 'Mock Jobs' },
+}));
 vi.mock('../ui/commands/clearCommand.js', () => ({
   clearCommand: { name: 'clear', description: 'Mock Clear' },
 }));
@@ -67,12 +71,13 @@ describe('CommandService', () => {
         const tree = commandService.getCommands();
 
         // Post-condition assertions
-        expect(tree.length).toBe(9);
+        expect(tree.length).toBe(10);
 
         const commandNames = tree.map((cmd) => cmd.name);
         expect(commandNames).toContain('auth');
         expect(commandNames).toContain('memory');
         expect(commandNames).toContain('help');
+        expect(commandNames).toContain('jobs');
         expect(commandNames).toContain('clear');
         expect(commandNames).toContain('theme');
         expect(commandNames).toContain('privacy');
@@ -84,14 +89,14 @@ describe('CommandService', () => {
       it('should overwrite any existing commands when called again', async () => {
         // Load once
         await commandService.loadCommands();
-        expect(commandService.getCommands().length).toBe(9);
+        expect(commandService.getCommands().length).toBe(10);
 
         // Load again
         await commandService.loadCommands();
         const tree = commandService.getCommands();
 
         // Should not append, but overwrite
-        expect(tree.length).toBe(9);
+        expect(tree.length).toBe(10);
       });
     });
 
@@ -103,13 +108,14 @@ describe('CommandService', () => {
         await commandService.loadCommands();
 
         const loadedTree = commandService.getCommands();
-        expect(loadedTree.length).toBe(9);
+        expect(loadedTree.length).toBe(10);
         expect(loadedTree).toEqual([
           aboutCommand,
           authCommand,
           autoSwitchCommand,
           clearCommand,
           helpCommand,
+          jobsCommand,
           memoryCommand,
           modelCommand,
           privacyCommand,
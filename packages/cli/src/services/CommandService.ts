@@ -7,6 +7,7 @@
 import { SlashCommand } from '../ui/commands/types.js';
 import { memoryCommand } from '../ui/commands/memoryCommand.js';
 import { helpCommand } from '../ui/commands/helpCommand.js';
+import { jobsCommand } from '../ui/commands/jobsCommand.js';
 import { clearCommand } from '../ui/commands/clearCommand.js';
 import { authCommand } from '../ui/commands/authCommand.js';
 import { themeCommand } from '../ui/commands/themeCommand.js';
@@ -20,6 +21,7 @@ const loadBuiltInCommands = async (): Promise<SlashCommand[]> => [
   autoSwitchCommand,
   clearCommand,
   helpCommand,
+  jobsCommand,
   memoryCommand,
   modelCommand,
   privacyCommand,
@@ -0,0 +1,71 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { DiscoveredMCPPrompt } from '@samus-code/samus-code-core';
+import {
+  createMcpPromptCommands,
+  parsePromptArguments,
+} from './mcpPromptCommands.js';
+
+const reviewPrompt: DiscoveredMCPPrompt = {
+  serverName: 'github',
+  name: 'review',
+  description: 'Review a pull request',
+  arguments: [
+    { name: 'pr', required: true },
+    { name: 'focus', required: false },
+  ],
+};
+
+describe('parsePromptArguments', () => {
+  it('should fill arguments by name and by position', () => {
+    expect(parsePromptArguments('review', reviewPrompt, '123')).toEqual({
+      pr: '123',
+    });
+    expect(
+      parsePromptArguments('review', reviewPrompt, 'focus="error handling" 7'),
+    ).toEqual({ pr: '7', focus: 'error handling' });
+    expect(
+      parsePromptArguments('review', reviewPrompt, '7 error handling'),
+    ).toEqual({ pr: '7', focus: 'error handling' });
+  });
+
+  it('should explain missing and unexpected arguments', () => {
+    expect(parsePromptArguments('review', reviewPrompt, '')).toBe(
+      'Missing required argument(s) for /review: pr. Usage: /review <pr> [focus]',
+    );
+    expect(
+      parsePromptArguments(
+        'status',
+        { serverName: 'ci', name: 'status', arguments: [] },
+        'now',
+      ),
+    ).toBe('/status takes no more arguments. Usage: /status');
+  });
+});
+
+describe('createMcpPromptCommands', () => {
+  it('should qualify names that are taken with the server name', () => {
+    const commands = createMcpPromptCommands(
+      [
+        reviewPrompt,
+        { serverName: 'github', name: 'help', arguments: [] },
+        { serverName: 'gitlab', name: 'review', arguments: [] },
+      ],
+      new Set(['help']),
+    );
+
+    expect(commands.map((command) => command.name)).toEqual([
+      'github:review',
+      'github:help',
+      'gitlab:review',
+    ]);
+    expect(commands[0].description).toBe(
+      'Review a pull request [MCP prompt from github]',
+    );
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import {
+  DiscoveredMCPPrompt,
+  getErrorMessage,
+} from '@samus-code/samus-code-core';
+import { SlashCommand } from '../ui/commands/types.js';
+
+// An optional `name=` followed by a double-quoted, single-quoted or bare value.
+const ARGUMENT_TOKEN =
+  /(?:([A-Za-z_][\w-]*)=)?(?:"((?:\\.|[^"\\])*)"|'([^']*)'|(\S+))/g;
+
+function usage(commandName: string, prompt: DiscoveredMCPPrompt): string {
+  const args = prompt.arguments.map((argument) =>
+    argument.required ? `<${argument.name}>` : `[${argument.name}]`,
+  );
+  return [`/${commandName}`, ...args].join(' ');
+}
+
+/**
+ * Turns the arguments typed after a prompt command into the prompt's
+ * arguments. Values are given as `name=value` or by position in the order
+ * the prompt declares them; extra words go to the last positional argument.
+ * Quotes keep spaces in a value.
+ *
+ * @returns The arguments, or a message explaining what is wrong.
+ */
+export function parsePromptArguments(
+  commandName: string,
+  prompt: DiscoveredMCPPrompt,
+  input: string,
+): Record<string, string> | string {
+  const declared = new Set(prompt.arguments.map((argument) => argument.name));
+  const values: Record<string, string> = {};
+  const positional: string[] = [];
+
+  for (const match of input.matchAll(ARGUMENT_TOKEN)) {
+    const [token, name, doubleQuoted, singleQuoted, bare] = match;
+    const value =
+      doubleQuoted !== undefined
+        ? doubleQuoted.replace(/\\(.)/g, '$1')
+        : (singleQuoted ?? bare);
+    if (name !== undefined && declared.has(name)) {
+      values[name] = value;
+    } else {
+      positional.push(name !== undefined ? token : value);
+    }
+  }
+
+  const unfilled = prompt.arguments.filter(
+    (argument) => !(argument.name in values),
+  );
+  if (positional.length > 0 && unfilled.length === 0) {
+    return `/${commandName} takes no more arguments. Usage: ${usage(commandName, prompt)}`;
+  }
+  unfilled.forEach((argument, i) => {
+    if (i < positional.length) {
+      values[argument.name] =
+        i === unfilled.length - 1
+          ? positional.slice(i).join(' ')
+          : positional[i];
+    }
+  });
+
+  const missing = prompt.arguments.filter(
+    (argument) => argument.required && !(argument.name in values),
+  );
+  if (missing.length > 0) {
+    return `Missing required argument(s) for /${commandName}: ${missing
+      .map((argument) => argument.name)
+      .join(', ')}. Usage: ${usage(commandName, prompt)}`;
+  }
+  return values;
+}
+
+/**
+ * Creates a slash command for every MCP prompt. A command is named after its
+ * prompt, or `server:prompt` when the name is taken by another command or by
+ * a prompt of another server. Running it fills in the prompt through
+ * `prompts/get` and sends the result to the model.
+ *
+ * @param reservedNames Names of the other slash commands
+ */
+export function createMcpPromptCommands(
+  prompts: DiscoveredMCPPrompt[],
+  reservedNames: Set<string>,
+): SlashCommand[] {
+  const promptCounts = new Map<string, number>();
+  for (const prompt of prompts) {
+    promptCounts.set(prompt.name, (promptCounts.get(prompt.name) ?? 0) + 1);
+  }
+
+  return prompts.map((prompt) => {
+    const name =
+      reservedNames.has(prompt.name) || promptCounts.get(prompt.name)! > 1
+        ? `${prompt.serverName}:${prompt.name}`
+        : prompt.name;
+    return {
+      name,
+      description: `${prompt.description || usage(name, prompt)} [MCP prompt from ${prompt.serverName}]`,
+      action: async (context, args) => {
+        const config = context.services.config;
+        if (!config) {
+          return {
+            type: 'message',
+            messageType: 'error',
+            content: 'Configuration not available.',
+          };
+        }
+        const promptArgs = parsePromptArguments(name, prompt, args);
+        if (typeof promptArgs === 'string') {
+          return { type: 'message', messageType: 'error', content: promptArgs };
+        }
+        try {
+          const content = await config
+            .getMcpRegistry()
+            .getPrompt(prompt.serverName, prompt.name, promptArgs);
+          return { type: 'submit_prompt', content };
+        } catch (error) {
+          return {
+            type: 'message',
+            messageType: 'error',
+            content: `Failed to get prompt '${prompt.name}' from MCP server '${prompt.serverName}': ${getErrorMessage(error)}`,
+          };
+        }
+      },
+      completion: async (_context, partialArg) => {
+        const given = new Set(
+          [...partialArg.matchAll(/([A-Za-z_][\w-]*)=/g)].map(
+            (match) => match[1],
+          ),
+        );
+        return prompt.arguments
+          .filter((argument) => !given.has(argument.name))
+          .map((argument) => `${argument.name}=`);
+      },
+    };
+  });
+}
@@ -133,6 +133,13 @@ vi.mock('@qwen-code/qwen-code-core', async (importOriginal) => {
         getCheckpointingEnabled: vi.fn(() => opts.checkpointing ?? true),
         getAllGeminiMdFilenames: vi.fn(() => ['GEMINI.md']),
         setFlashFallbackHandler: vi.fn(),
+        getMcpSamplingService: vi.fn(() => ({
+          setConfirmationHandler: vi.fn(),
+        })),
+        getMcpRegistry: vi.fn(() => ({
+          getPrompts: () => [],
+          addChangeListener: () => () => {},
+        })),
         getSessionId: vi.fn(() => 'test-session-id'),
         getUserTier: vi.fn().mockResolvedValue(undefined),
       };
@@ -26,6 +26,8 @@ import { useEditorSettings } from './hooks/useEditorSettings.js';
 import { useSlashCommandProcessor } from './hooks/slashCommandProcessor.js';
 import { useAutoAcceptIndicator } from './hooks/useAutoAcceptIndicator.js';
 import { useConsoleMessages } from './hooks/useConsoleMessages.js';
+import { useMcpServerStatuses } from './hooks/useMcpServerStatuses.js';
+import { useMcpSamplingConfirmation } from './hooks/useMcpSamplingConfirmation.js';
 import { Header } from './components/Header.js';
 import { LoadingIndicator } from './components/LoadingIndicator.js';
 import { AutoAcceptIndicator } from './components/AutoAcceptIndicator.js';
@@ -36,6 +38,7 @@ import { ThemeDialog } from './components/ThemeDialog.js';
 import { AuthDialog } from './components/AuthDialog.js';
 import { AuthInProgress } from './components/AuthInProgress.js';
 import { EditorSettingsDialog } from './components/EditorSettingsDialog.js';
+import { McpSamplingDialog } from './components/McpSamplingDialog.js';
 import { Colors } from './colors.js';
 import { Help } from './components/Help.js';
 import { loadHierarchicalGeminiMemory } from '../config/config.js';
@@ -527,6 +530,8 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
   const { elapsedTime, currentLoadingPhrase } =
     useLoadingIndicator(streamingState);
   const showAutoAcceptIndicator = useAutoAcceptIndicator({ config });
+  const mcpServerStatuses = useMcpServerStatuses();
+  const mcpSamplingConfirmation = useMcpSamplingConfirmation(config);
 
   const handleFinalSubmit = useCallback(
     (submittedValue: string) => {
@@ -843,6 +848,14 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
                 onExit={exitEditorDialog}
               />
             </Box>
+          ) : mcpSamplingConfirmation ? (
+            <McpSamplingDialog
+              confirmation={mcpSamplingConfirmation}
+              availableTerminalHeight={
+                constrainHeight ? availableTerminalHeight : undefined
+              }
+              terminalWidth={mainAreaWidth}
+            />
           ) : showPrivacyNotice ? (
             <PrivacyNotice
               onExit={() => setShowPrivacyNotice(false)}
@@ -887,6 +900,7 @@ const App = ({ config, settings, startupWarnings = [], version }: AppProps) => {
                       geminiMdFileCount={geminiMdFileCount}
                       contextFileNames={contextFileNames}
                       mcpServers={config.getMcpServers()}
+                      mcpServerStatuses={mcpServerStatuses}
                       showToolDescriptions={showToolDescriptions}
                     />
                   )}
@@ -0,0 +1,75 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { jobsCommand } from './jobsCommand.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { BackgroundJobInfo, Config } from '@samus-code/samus-code-core';
+
+function contextWithJobs(jobs: BackgroundJobInfo[]) {
+  return createMockCommandContext({
+    services: {
+      config: {
+        getBackgroundJobService: () => ({ list: () => jobs }),
+      } as unknown as Config,
+    },
+  });
+}
+
+describe('jobsCommand', () => {
+  it('should say when no jobs were started', () => {
+    expect(jobsCommand.action!(contextWithJobs([]), '')).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: 'No background jobs have been started in this session.',
+    });
+  });
+
+  it('should list running and exited jobs', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-01-01T00:01:05Z'));
+    const job = {
+      directory: '/project',
+      startTime: new Date('2025-01-01T00:00:00Z'),
+      exitCode: null,
+      signal: null,
+    };
+
+    const result = jobsCommand.action!(
+      contextWithJobs([
+        {
+          ...job,
+          name: 'dev-server',
+          command: 'npm run dev',
+          pid: 1234,
+          status: 'running',
+        },
+        {
+          ...job,
+          name: 'build',
+          command: 'npm run build',
+          pid: 1200,
+          status: 'exited',
+          exitCode: 2,
+        },
+      ]),
+      '',
+    );
+    vi.useRealTimers();
+
+    expect(result).toEqual({
+      type: 'message',
+      messageType: 'info',
+      content: [
+        'Background jobs:',
+        '  - dev-server: running (PID 1234), up 1m 5s',
+        '    $ npm run dev',
+        '  - build: exited with code 2',
+        '    $ npm run build',
+      ].join('\n'),
+    });
+  });
+});
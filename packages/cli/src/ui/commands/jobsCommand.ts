@@ -0,0 +1,38 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { formatJobStatus } from '@samus-code/samus-code-core';
+import { MessageActionReturn, SlashCommand } from './types.js';
+import { formatDuration } from '../utils/formatters.js';
+
+export const jobsCommand: SlashCommand = {
+  name: 'jobs',
+  description: 'list background jobs started in this session',
+  action: (context): MessageActionReturn => {
+    const jobs =
+      context.services.config?.getBackgroundJobService().list() ?? [];
+    if (jobs.length === 0) {
+      return {
+        type: 'message',
+        messageType: 'info',
+        content: 'No background jobs have been started in this session.',
+      };
+    }
+    const now = Date.now();
+    const lines = jobs.map((job) => {
+      const uptime =
+        job.status === 'running'
+          ? `, up ${formatDuration(now - job.startTime.getTime())}`
+          : '';
+      return `  - ${job.name}: ${formatJobStatus(job)}${uptime}\n    $ ${job.command}`;
+    });
+    return {
+      type: 'message',
+      messageType: 'info',
+      content: `Background jobs:\n${lines.join('\n')}`,
+    };
+  },
+};
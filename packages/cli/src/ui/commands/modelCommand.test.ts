@@ -0,0 +1,130 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { vi, describe, it, expect, beforeEach, Mock } from 'vitest';
+import { modelCommand, resetModelListCache } from './modelCommand.js';
+import { type CommandContext } from './types.js';
+import { createMockCommandContext } from '../../test-utils/mockCommandContext.js';
+import { AuthType, listProviderModels } from '@samus-code/samus-code-core';
+
+vi.mock('@samus-code/samus-code-core', async (importOriginal) => {
+  const original =
+    await importOriginal<typeof import('@samus-code/samus-code-core')>();
+  return {
+    ...original,
+    listProviderModels: vi.fn(),
+  };
+});
+
+const MODELS = [
+  {
+    name: 'llama3.2:latest',
+    contextLength: 131_072,
+    quantization: 'Q4_K_M',
+    sizeBytes: 2_019_393_189,
+    supportsTools: false,
+    loaded: false,
+  },
+  {
+    name: 'qwen2.5-coder:32b',
+    contextLength: 32_768,
+    quantization: 'Q4_K_M',
+    sizeBytes: 19_851_337_728,
+    supportsTools: true,
+    loaded: true,
+  },
+];
+
+describe('modelCommand', () => {
+  let mockContext: CommandContext;
+  const mockListProviderModels = listProviderModels as Mock;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetModelListCache();
+    mockContext = createMockCommandContext({
+      services: {
+        config: {
+          getContentGeneratorConfig: () => ({
+            authType: AuthType.USE_OLLAMA,
+            model: 'qwen2.5-coder:32b',
+            baseUrl: 'http://gpu-box:11434',
+          }),
+          getModelSwitchingService: () => ({
+            getTierNames: () => ['weak', 'strong', 'medium'],
+          }),
+        },
+      },
+    });
+  });
+
+  describe('/model list', () => {
+    it('should describe each model from the active provider', async () => {
+      mockListProviderModels.mockResolvedValue(MODELS);
+
+      const result = await modelCommand.action!(mockContext, 'list');
+
+      expect(mockListProviderModels).toHaveBeenCalledWith(
+        AuthType.USE_OLLAMA,
+        'http://gpu-box:11434',
+        undefined,
+      );
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'info',
+        content: [
+          'Models available from ollama:',
+          '  llama3.2:latest - 131,072 ctx, Q4_K_M, 1.88 GB, no tools',
+          '● qwen2.5-coder:32b (current) - 32,768 ctx, Q4_K_M, 18.49 GB, tools',
+          '● = loaded',
+        ].join('\n'),
+      });
+    });
+
+    it('should report when the provider cannot be reached', async () => {
+      mockListProviderModels.mockRejectedValue(new Error('fetch failed'));
+
+      const result = await modelCommand.action!(mockContext, 'list');
+
+      expect(result).toEqual({
+        type: 'message',
+        messageType: 'error',
+        content: 'Failed to list models: fetch failed',
+      });
+    });
+  });
+
+  describe('completion', () => {
+    it('should suggest tiers and the installed models', async () => {
+      mockListProviderModels.mockResolvedValue(MODELS);
+
+      await expect(modelCommand.completion!(mockContext, '')).resolves.toEqual([
+        'list',
+        'weak',
+        'strong',
+        'medium',
+        'llama3.2:latest',
+        'qwen2.5-coder:32b',
+      ]);
+      await expect(
+        modelCommand.completion!(mockContext, 'QWEN'),
+      ).resolves.toEqual(['qwen2.5-coder:32b']);
+      // The second keystroke reuses the first request
+      expect(mockListProviderModels).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to tiers when the provider is unreachable', async () => {
+      mockListProviderModels.mockRejectedValue(new Error('fetch failed'));
+
+      await expect(modelCommand.completion!(mockContext, '')).resolves.toEqual([
+        'list',
+        'weak',
+        'strong',
+        'medium',
+      ]);
+    });
+  });
+});
@@ -10,29 +10,97 @@ import type {
   SlashCommandActionReturn,
 } from './types.js';
 import { 
+  AuthType,
+  ModelInfo,
   ModelSwitchingService, 
-  TaskEvaluationService,
-  ModelStrength
+  ModelStrength,
+  ChatCompressionInfo,
+  listProviderModels,
 } from '@samus-code/samus-code-core';
+import { SettingScope } from '../../config/settings.js';
+import { formatMemoryUsage } from '../utils/formatters.js';
 
-let modelSwitchingService: ModelSwitchingService | null = null;
-let autoSwitchEnabled = true;
+/** How long completion reuses a provider's model list before asking again. */
+const MODEL_LIST_CACHE_TTL_MS = 30_000;
 
-function getModelSwitchingService(context: CommandContext): ModelSwitchingService {
-  if (!modelSwitchingService && context.services.config) {
-    const taskEvaluator = new TaskEvaluationService();
-    modelSwitchingService = new ModelSwitchingService(
-      taskEvaluator,
-      context.services.config,
-      context.services.config.getSessionId()
-    );
+const modelListCache = new Map<
+  string,
+  { fetchedAt: number; models: Promise<ModelInfo[]> }
+>();
+
+/**
+ * Lists the provider's models for completion, sharing one request between
+ * keystrokes.
+ */
+function getCachedModels(
+  provider: AuthType,
+  baseUrl?: string,
+  apiKey?: string,
+): Promise<ModelInfo[]> {
+  const key = `${provider} ${baseUrl ?? ''}`;
+  const cached = modelListCache.get(key);
+  if (cached && Date.now() - cached.fetchedAt < MODEL_LIST_CACHE_TTL_MS) {
+    return cached.models;
   }
-  
-  if (!modelSwitchingService) {
+  const models = listProviderModels(provider, baseUrl, apiKey);
+  modelListCache.set(key, { fetchedAt: Date.now(), models });
+  // Don't keep a failed request around; the server may come up later
+  models.catch(() => modelListCache.delete(key));
+  return models;
+}
+
+/** Clears the completion cache. Exposed for tests. */
+export function resetModelListCache(): void {
+  modelListCache.clear();
+}
+
+function describeModel(model: ModelInfo, currentModel: string): string {
+  const details = [
+    model.contextLength !== undefined
+      ? `${model.contextLength.toLocaleString('en-US')} ctx`
+      : undefined,
+    model.quantization,
+    model.sizeBytes !== undefined ? formatMemoryUsage(model.sizeBytes) : undefined,
+    model.supportsTools === undefined
+      ? undefined
+      : model.supportsTools
+        ? 'tools'
+        : 'no tools',
+  ].filter(Boolean);
+  const marker = model.loaded ? '●' : ' ';
+  const current = model.name === currentModel ? ' (current)' : '';
+  return `${marker} ${model.name}${current}${details.length ? ` - ${details.join(', ')}` : ''}`;
+}
+
+function formatModelList(
+  provider: AuthType,
+  models: ModelInfo[],
+  currentModel: string,
+): string {
+  if (models.length === 0) {
+    return `No models found for ${provider}.`;
+  }
+  const lines = models.map((model) => describeModel(model, currentModel));
+  const legend = models.some((model) => model.loaded) ? '\n● = loaded' : '';
+  return `Models available from ${provider}:\n${lines.join('\n')}${legend}`;
+}
+
+function getModelSwitchingService(context: CommandContext): ModelSwitchingService {
+  if (!context.services.config) {
     throw new Error('Model switching service not available');
   }
-  
-  return modelSwitchingService;
+  return context.services.config.getModelSwitchingService();
+}
+
+function describeCompression(info: ChatCompressionInfo | null): string {
+  if (!info) {
+    return '';
+  }
+  const dropped = info.originalTokenCount - info.newTokenCount;
+  return (
+    ` (history compressed from ${info.originalTokenCount} to ` +
+    `${info.newTokenCount} tokens, ${dropped} dropped)`
+  );
 }
 
 export const modelCommand: SlashCommand = {
@@ -57,11 +125,13 @@ export const modelCommand: SlashCommand = {
       return {
         type: 'message',
         messageType: 'info',
-        content: 'Usage: /model <model-name> or /model weak|strong',
+        content: 'Usage: /model <model-name>, /model <tier> (weak, strong or a tier from the modelSwitching setting) or /model list',
       };
     }
 
     const modelArg = args.trim().toLowerCase();
+    // Model names are case-sensitive for some providers, e.g. LM Studio
+    const modelName = args.trim();
     
     try {
       const service = getModelSwitchingService(context);
@@ -76,35 +146,73 @@ export const modelCommand: SlashCommand = {
         };
       }
 
-      // Handle weak/strong switching
-      if (modelArg === 'weak' || modelArg === 'strong') {
-        const strength = modelArg === 'weak' ? ModelStrength.WEAK : ModelStrength.STRONG;
-        await service.switchToStrength(strength, currentProvider, currentConfig);
+      if (modelArg === 'list') {
+        try {
+          const models = await listProviderModels(
+            currentProvider,
+            currentConfig.baseUrl,
+            currentConfig.apiKey,
+          );
+          return {
+            type: 'message',
+            messageType: 'info',
+            content: formatModelList(
+              currentProvider,
+              models,
+              currentConfig.model,
+            ),
+          };
+        } catch (error) {
+          return {
+            type: 'message',
+            messageType: 'error',
+            content: `Failed to list models: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          };
+        }
+      }
+
+      // Handle weak/strong and extra tier switching
+      if (service.getTierNames(currentProvider).includes(modelArg)) {
+        const compression =
+          modelArg === ModelStrength.WEAK || modelArg === ModelStrength.STRONG
+            ? await service.switchToStrength(
+                modelArg as ModelStrength,
+                currentProvider,
+                currentConfig,
+              )
+            : await service.switchToTier(
+                modelArg,
+                currentProvider,
+                currentConfig,
+              );
         
         // Update the config with the new model
-        const modelConfig = service.getModelConfig(currentProvider);
-        if (modelConfig) {
-          const newModel = strength === ModelStrength.WEAK ? modelConfig.weak : modelConfig.strong;
+        const newModel = service.getModelForTier(currentProvider, modelArg);
+        if (newModel) {
           config.setModel(newModel);
         }
         
         return {
           type: 'message',
           messageType: 'info',
-          content: `✓ Switched to ${modelArg} model`,
+          content: `✓ Switched to ${modelArg} model${describeCompression(compression)}`,
         };
       }
       
       // Handle specific model switching
-      await service.switchModel(modelArg, currentProvider, currentConfig);
+      const compression = await service.switchModel(
+        modelName,
+        currentProvider,
+        currentConfig,
+      );
       
       // Update the config with the new model
-      config.setModel(modelArg);
+      config.setModel(modelName);
       
       return {
         type: 'message',
         messageType: 'info',
-        content: `✓ Switched to ${modelArg}`,
+        content: `✓ Switched to ${modelName}${describeCompression(compression)}`,
       };
       
     } catch (error) {
@@ -120,31 +228,38 @@ export const modelCommand: SlashCommand = {
     context: CommandContext,
     partialArg: string
   ): Promise<string[]> => {
-    const suggestions = ['weak', 'strong'];
+    const suggestions = ['list', 'weak', 'strong'];
     
-    // Add model-specific suggestions based on provider
     const { config } = context.services;
-    if (config) {
-      const provider = config.getContentGeneratorConfig()?.authType;
-      
-      // Add common model names based on provider
-      switch (provider) {
-        case 'ollama':
-          suggestions.push('llama3.2', 'llama3.1:70b', 'mistral', 'phi');
-          break;
-        case 'lm-studio':
-          suggestions.push('phi-3-mini', 'mixtral-8x7b');
-          break;
-        case 'openai':
-          suggestions.push('gpt-4', 'gpt-3.5-turbo');
-          break;
-        default:
-          // No additional suggestions for unknown providers
-          break;
+    const currentConfig = config?.getContentGeneratorConfig();
+    const provider = currentConfig?.authType;
+    if (currentConfig && provider) {
+      // Add extra tiers from the modelSwitching setting
+      for (const tier of getModelSwitchingService(context).getTierNames(provider)) {
+        if (!suggestions.includes(tier)) {
+          suggestions.push(tier);
+        }
+      }
+
+      // Add the models the provider actually has
+      try {
+        const models = await getCachedModels(
+          provider,
+          currentConfig.baseUrl,
+          currentConfig.apiKey,
+        );
+        for (const model of models) {
+          if (!suggestions.includes(model.name)) {
+            suggestions.push(model.name);
+          }
+        }
+      } catch {
+        // Provider unreachable or unsupported: offer tiers only
       }
     }
     
-    return suggestions.filter(s => s.startsWith(partialArg.toLowerCase()));
+    const prefix = partialArg.toLowerCase();
+    return suggestions.filter((s) => s.toLowerCase().startsWith(prefix));
   }
 };
 
@@ -156,38 +271,35 @@ export const autoSwitchCommand: SlashCommand = {
     context: CommandContext,
     args: string
   ): Promise<SlashCommandActionReturn | void> => {
-    const arg = args.trim().toLowerCase();
-    
-    if (arg === 'on') {
-      autoSwitchEnabled = true;
+    const { config, settings } = context.services;
+    if (!config) {
       return {
         type: 'message',
-        messageType: 'info',
-        content: '✓ Auto-switching enabled',
+        messageType: 'error',
+        content: 'Configuration not loaded',
       };
-    } else if (arg === 'off') {
-      autoSwitchEnabled = false;
+    }
+
+    const arg = args.trim().toLowerCase();
+    
+    if (arg === 'on' || arg === 'off') {
+      const enabled = arg === 'on';
+      config.setAutoSwitch(enabled);
+      // Persist the choice for future sessions
+      settings.setValue(SettingScope.User, 'autoSwitch', enabled);
       return {
         type: 'message',
         messageType: 'info',
-        content: '✓ Auto-switching disabled',
+        content: `✓ Auto-switching ${enabled ? 'enabled' : 'disabled'}`,
       };
     } else {
       return {
         type: 'message',
         messageType: 'info',
-        content: `Auto-switching is currently ${autoSwitchEnabled ? 'enabled' : 'disabled'}. Use /auto-switch on|off to change.`,
+        content: `Auto-switching is currently ${config.getAutoSwitch() ? 'enabled' : 'disabled'}. Use /auto-switch on|off to change.`,
       };
     }
   },
   
   completion: async (): Promise<string[]> => ['on', 'off']
-};
-
-export function isAutoSwitchEnabled(): boolean {
-  return autoSwitchEnabled;
-}
-
-export function getModelService(): ModelSwitchingService | null {
-  return modelSwitchingService;
-}
\ No newline at end of file
+};
\ No newline at end of file
@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { type PartListUnion } from '@google/genai';
 import { Config, GitService, Logger } from '@samus-code/samus-code-core';
 import { LoadedSettings } from '../../config/settings.js';
 import { UseHistoryManagerReturn } from '../hooks/useHistoryManager.js';
@@ -69,10 +70,20 @@ export interface OpenDialogActionReturn {
   dialog: 'help' | 'auth' | 'theme' | 'privacy';
 }
 
+/**
+ * The return type for a command action that sends a prompt to the model in
+ * place of the command.
+ */
+export interface SubmitPromptActionReturn {
+  type: 'submit_prompt';
+  content: PartListUnion;
+}
+
 export type SlashCommandActionReturn =
   | ToolActionReturn
   | MessageActionReturn
-  | OpenDialogActionReturn;
+  | OpenDialogActionReturn
+  | SubmitPromptActionReturn;
 // The standardized contract for any command in the system.
 export interface SlashCommand {
   name: string;
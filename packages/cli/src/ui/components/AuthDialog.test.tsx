@@ -75,6 +75,10 @@ describe('AuthDialog', () => {
           settings: {},
           path: '',
         },
+        {
+          settings: {},
+          path: '',
+        },
         [],
       );
 
@@ -102,6 +106,10 @@ describe('AuthDialog', () => {
           settings: {},
           path: '',
         },
+        {
+          settings: {},
+          path: '',
+        },
         [],
       );
 
@@ -129,6 +137,10 @@ describe('AuthDialog', () => {
           settings: {},
           path: '',
         },
+        {
+          settings: {},
+          path: '',
+        },
         [],
       );
 
@@ -157,6 +169,10 @@ describe('AuthDialog', () => {
           settings: {},
           path: '',
         },
+        {
+          settings: {},
+          path: '',
+        },
         [],
       );
 
@@ -180,6 +196,10 @@ describe('AuthDialog', () => {
           settings: {},
           path: '',
         },
+        {
+          settings: {},
+          path: '',
+        },
         [],
       );
 
@@ -205,6 +225,10 @@ describe('AuthDialog', () => {
           settings: {},
           path: '',
         },
+        {
+          settings: {},
+          path: '',
+        },
         [],
       );
 
@@ -266,6 +290,10 @@ describe('AuthDialog', () => {
         settings: {},
         path: '',
       },
+      {
+        settings: {},
+        path: '',
+      },
       [],
     );
 
@@ -7,12 +7,16 @@
 import React from 'react';
 import { Text } from 'ink';
 import { Colors } from '../colors.js';
-import { type MCPServerConfig } from '@qwen-code/qwen-code-core';
+import {
+  type MCPServerConfig,
+  MCPServerStatus,
+} from '@qwen-code/qwen-code-core';
 
 interface ContextSummaryDisplayProps {
   geminiMdFileCount: number;
   contextFileNames: string[];
   mcpServers?: Record<string, MCPServerConfig>;
+  mcpServerStatuses?: Map<string, MCPServerStatus>;
   showToolDescriptions?: boolean;
 }
 
@@ -20,6 +24,7 @@ export const ContextSummaryDisplay: React.FC<ContextSummaryDisplayProps> = ({
   geminiMdFileCount,
   contextFileNames,
   mcpServers,
+  mcpServerStatuses,
   showToolDescriptions,
 }) => {
   const mcpServerCount = Object.keys(mcpServers || {}).length;
@@ -39,9 +44,14 @@ export const ContextSummaryDisplay: React.FC<ContextSummaryDisplayProps> = ({
     }`;
   })();
 
+  const disconnectedCount = Object.keys(mcpServers || {}).filter(
+    (name) => mcpServerStatuses?.get(name) === MCPServerStatus.DISCONNECTED,
+  ).length;
   const mcpText =
     mcpServerCount > 0
-      ? `${mcpServerCount} MCP server${mcpServerCount > 1 ? 's' : ''}`
+      ? `${mcpServerCount} MCP server${mcpServerCount > 1 ? 's' : ''}${
+          disconnectedCount > 0 ? `, ${disconnectedCount} disconnected` : ''
+        }`
       : '';
 
   let summaryText = 'Using ';
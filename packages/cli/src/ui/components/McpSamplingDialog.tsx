@@ -0,0 +1,85 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import React from 'react';
+import { Box, Text, useInput } from 'ink';
+import { ToolConfirmationOutcome } from '@samus-code/samus-code-core';
+import { Colors } from '../colors.js';
+import {
+  RadioButtonSelect,
+  RadioSelectItem,
+} from './shared/RadioButtonSelect.js';
+import { MaxSizedBox } from './shared/MaxSizedBox.js';
+import { McpSamplingConfirmation } from '../hooks/useMcpSamplingConfirmation.js';
+
+interface McpSamplingDialogProps {
+  confirmation: McpSamplingConfirmation;
+  availableTerminalHeight?: number;
+  terminalWidth: number;
+}
+
+/** Asks whether an MCP server may have the model answer its messages. */
+export function McpSamplingDialog({
+  confirmation,
+  availableTerminalHeight,
+  terminalWidth,
+}: McpSamplingDialogProps): React.JSX.Element {
+  const { request, onConfirm } = confirmation;
+
+  useInput((_, key) => {
+    if (key.escape) {
+      onConfirm(ToolConfirmationOutcome.Cancel);
+    }
+  });
+
+  const options: Array<RadioSelectItem<ToolConfirmationOutcome>> = [
+    { label: 'Yes, allow once', value: ToolConfirmationOutcome.ProceedOnce },
+    {
+      label: `Yes, always allow server "${request.serverName}" this session`,
+      value: ToolConfirmationOutcome.ProceedAlwaysServer,
+    },
+    { label: 'No (esc)', value: ToolConfirmationOutcome.Cancel },
+  ];
+
+  return (
+    <Box
+      borderStyle="round"
+      borderColor={Colors.AccentYellow}
+      flexDirection="column"
+      padding={1}
+      width={terminalWidth}
+    >
+      <Text bold>
+        MCP server &quot;{request.serverName}&quot; wants to use model{' '}
+        {request.model} (up to {request.maxTokens} tokens)
+      </Text>
+      <Box marginY={1}>
+        <MaxSizedBox
+          maxHeight={
+            availableTerminalHeight !== undefined
+              ? Math.max(availableTerminalHeight - 10, 2)
+              : undefined
+          }
+          maxWidth={Math.max(terminalWidth - 4, 1)}
+        >
+          {request.systemPrompt && (
+            <Box>
+              <Text color={Colors.Gray}>system: {request.systemPrompt}</Text>
+            </Box>
+          )}
+          {request.messages.map((message, index) => (
+            <Box key={index}>
+              <Text color={Colors.AccentCyan}>
+                {message.role}: {message.text}
+              </Text>
+            </Box>
+          ))}
+        </MaxSizedBox>
+      </Box>
+      <RadioButtonSelect items={options} onSelect={onConfirm} isFocused />
+    </Box>
+  );
+}
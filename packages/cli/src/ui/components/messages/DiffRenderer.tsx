@@ -12,7 +12,7 @@ import { colorizeCode } from '../../utils/CodeColorizer.js';
 import { MaxSizedBox } from '../shared/MaxSizedBox.js';
 
 interface DiffLine {
-  type: 'add' | 'del' | 'context' | 'hunk' | 'other';
+  type: 'add' | 'del' | 'context' | 'hunk' | 'file' | 'other';
   oldLine?: number;
   newLine?: number;
   content: string;
@@ -24,11 +24,35 @@ function parseDiffWithLineNumbers(diffContent: string): DiffLine[] {
   let currentOldLine = 0;
   let currentNewLine = 0;
   let inHunk = false;
+  // Name of the file whose hunks follow, from its ---/+++ headers
+  let oldFileName = '';
+  let pendingFileName: string | undefined;
   const hunkHeaderRegex = /^@@ -(\d+),?\d* \+(\d+),?\d* @@/;
 
-  for (const line of lines) {
+  for (const [index, line] of lines.entries()) {
+    // The headers of the next file in a diff of several files
+    if (line.startsWith('--- ') && lines[index + 1]?.startsWith('+++ ')) {
+      inHunk = false;
+    }
+    if (!inHunk && (line.startsWith('--- ') || line.startsWith('+++ '))) {
+      const name = line
+        .substring(4)
+        .split('\t')[0]
+        .trim()
+        .replace(/^[ab]\//, '');
+      if (line.startsWith('--- ')) {
+        oldFileName = name;
+      } else {
+        pendingFileName = name === '/dev/null' ? oldFileName : name;
+      }
+      continue;
+    }
     const hunkMatch = line.match(hunkHeaderRegex);
     if (hunkMatch) {
+      if (pendingFileName !== undefined) {
+        result.push({ type: 'file', content: pendingFileName });
+        pendingFileName = undefined;
+      }
       currentOldLine = parseInt(hunkMatch[1], 10);
       currentNewLine = parseInt(hunkMatch[2], 10);
       inHunk = true;
@@ -108,7 +132,13 @@ export const DiffRenderer: React.FC<DiffRendererProps> = ({
     return <Text color={Colors.AccentYellow}>No diff content.</Text>;
   }
 
-  const parsedLines = parseDiffWithLineNumbers(diffContent);
+  // File names are only shown when the diff spans several files
+  const allParsedLines = parseDiffWithLineNumbers(diffContent);
+  const isMultiFile =
+    allParsedLines.filter((line) => line.type === 'file').length > 1;
+  const parsedLines = isMultiFile
+    ? allParsedLines
+    : allParsedLines.filter((line) => line.type !== 'file');
 
   if (parsedLines.length === 0) {
     return (
@@ -190,7 +220,7 @@ const renderDiffContent = (
   let baseIndentation = Infinity; // Start high to find the minimum
   for (const line of displayableLines) {
     // Only consider lines with actual content for indentation calculation
-    if (line.content.trim() === '') continue;
+    if (line.type === 'file' || line.content.trim() === '') continue;
 
     const firstCharIndex = line.content.search(/\S/); // Find index of first non-whitespace char
     const currentIndent = firstCharIndex === -1 ? 0 : firstCharIndex; // Indent is 0 if no non-whitespace found
@@ -238,6 +268,18 @@ const renderDiffContent = (
         }
 
         const lineKey = `diff-line-${index}`;
+        if (line.type === 'file') {
+          lastLineNumber = null;
+          acc.push(
+            <Box key={lineKey}>
+              <Text bold color={Colors.AccentBlue} wrap="truncate">
+                {line.content}
+              </Text>
+            </Box>,
+          );
+          return acc;
+        }
+
         let gutterNumStr = '';
         let color: string | undefined = undefined;
         let prefixSymbol = ' ';
@@ -55,4 +55,28 @@ describe('ToolConfirmationMessage', () => {
       '- https://raw.githubusercontent.com/google/gemini-react/main/README.md',
     );
   });
+
+  it('should show why the shell policy asks and not offer to allow always', () => {
+    const confirmationDetails: ToolCallConfirmationDetails = {
+      type: 'exec',
+      title: 'Confirm Shell Command',
+      command: 'git push',
+      rootCommand: 'git',
+      reason:
+        "Command 'git push' needs confirmation because it runs git and passes push.",
+      onConfirm: vi.fn(),
+    };
+
+    const { lastFrame } = render(
+      <ToolConfirmationMessage
+        confirmationDetails={confirmationDetails}
+        availableTerminalHeight={30}
+        terminalWidth={100}
+      />,
+    );
+
+    expect(lastFrame()).toContain('because it runs git and passes push.');
+    expect(lastFrame()).toContain('Yes, allow once');
+    expect(lastFrame()).not.toContain('Yes, allow always');
+  });
 });
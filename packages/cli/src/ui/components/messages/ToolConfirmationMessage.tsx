@@ -133,21 +133,22 @@ export const ToolConfirmationMessage: React.FC<
       confirmationDetails as ToolExecuteConfirmationDetails;
 
     question = `Allow execution?`;
-    options.push(
-      {
-        label: 'Yes, allow once',
-        value: ToolConfirmationOutcome.ProceedOnce,
-      },
-      {
+    options.push({
+      label: 'Yes, allow once',
+      value: ToolConfirmationOutcome.ProceedOnce,
+    });
+    // commands the shell policy asks about are confirmed every time
+    if (!executionProps.reason) {
+      options.push({
         label: `Yes, allow always "${executionProps.rootCommand} ..."`,
         value: ToolConfirmationOutcome.ProceedAlways,
-      },
-      { label: 'No (esc)', value: ToolConfirmationOutcome.Cancel },
-    );
+      });
+    }
+    options.push({ label: 'No (esc)', value: ToolConfirmationOutcome.Cancel });
 
     let bodyContentHeight = availableBodyContentHeight();
     if (bodyContentHeight !== undefined) {
-      bodyContentHeight -= 2; // Account for padding;
+      bodyContentHeight -= executionProps.reason ? 3 : 2; // Account for padding and the reason;
     }
     bodyContent = (
       <Box flexDirection="column">
@@ -161,6 +162,13 @@ export const ToolConfirmationMessage: React.FC<
             </Box>
           </MaxSizedBox>
         </Box>
+        {executionProps.reason && (
+          <Box paddingX={1} marginLeft={1}>
+            <Text color={Colors.AccentYellow} wrap="wrap">
+              {executionProps.reason}
+            </Text>
+          </Box>
+        )}
       </Box>
     );
   } else if (confirmationDetails.type === 'info') {
@@ -41,6 +41,9 @@ const mockGlobTool = {
   getDescription: vi.fn(() => 'Glob tool description'),
 };
 
+const mockHasServer = vi.fn();
+const mockReadResource = vi.fn();
+
 const mockAddItem: Mock<UseHistoryManagerReturn['addItem']> = vi.fn();
 const mockOnDebugMessage: Mock<(message: string) => void> = vi.fn();
 
@@ -103,6 +106,14 @@ describe('handleAtCommand', () => {
     mockConfig.getFileService = vi
       .fn()
       .mockReturnValue(mockFileDiscoveryService);
+
+    mockHasServer.mockImplementation(
+      (serverName: string) => serverName === 'docs',
+    );
+    mockConfig.getMcpRegistry = vi.fn().mockReturnValue({
+      hasServer: mockHasServer,
+      readResource: mockReadResource,
+    });
   });
 
   afterEach(() => {
@@ -576,6 +587,103 @@ describe('handleAtCommand', () => {
     expect(result.shouldProceed).toBe(true);
   });
 
+  describe('MCP resources', () => {
+    it('should read an @server:uri reference through its MCP server', async () => {
+      const query = 'Summarize @docs:docs://guide/intro please';
+      mockReadResource.mockResolvedValue([{ text: 'Welcome to the guide.' }]);
+
+      const result = await handleAtCommand({
+        query,
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 400,
+        signal: abortController.signal,
+      });
+
+      expect(mockReadResource).toHaveBeenCalledWith(
+        'docs',
+        'docs://guide/intro',
+        abortController.signal,
+      );
+      expect(mockReadManyFilesExecute).not.toHaveBeenCalled();
+      expect(mockAddItem).toHaveBeenCalledWith(
+        {
+          type: 'tool_group',
+          tools: [
+            expect.objectContaining({
+              description: 'docs://guide/intro (docs MCP Server)',
+              status: ToolCallStatus.Success,
+            }),
+          ],
+        },
+        400,
+      );
+      expect(result).toEqual({
+        processedQuery: [
+          { text: 'Summarize @docs:docs://guide/intro please' },
+          { text: '\n--- Content from referenced MCP resources ---' },
+          { text: '\nContent from @docs:docs://guide/intro:\n' },
+          { text: 'Welcome to the guide.' },
+          { text: '\n--- End of content ---' },
+        ],
+        shouldProceed: true,
+      });
+    });
+
+    it('should not proceed when a resource cannot be read', async () => {
+      mockReadResource.mockRejectedValue(new Error('Resource not found'));
+
+      const result = await handleAtCommand({
+        query: '@docs:docs://missing',
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 401,
+        signal: abortController.signal,
+      });
+
+      expect(mockAddItem).toHaveBeenCalledWith(
+        {
+          type: 'tool_group',
+          tools: [
+            expect.objectContaining({
+              status: ToolCallStatus.Error,
+              resultDisplay:
+                'Error reading MCP resource docs://missing: Resource not found',
+            }),
+          ],
+        },
+        401,
+      );
+      expect(result).toEqual({ processedQuery: null, shouldProceed: false });
+    });
+
+    it('should treat a prefix that is not a server name as a path', async () => {
+      const query = '@notes:todo.txt';
+      mockReadManyFilesExecute.mockResolvedValue({
+        llmContent: ['--- notes:todo.txt ---\n\nBuy milk\n\n'],
+        returnDisplay: 'Read 1 file.',
+      });
+
+      await handleAtCommand({
+        query,
+        config: mockConfig,
+        addItem: mockAddItem,
+        onDebugMessage: mockOnDebugMessage,
+        messageId: 402,
+        signal: abortController.signal,
+      });
+
+      expect(mockHasServer).toHaveBeenCalledWith('notes');
+      expect(mockReadResource).not.toHaveBeenCalled();
+      expect(mockReadManyFilesExecute).toHaveBeenCalledWith(
+        { paths: ['notes:todo.txt'], respect_git_ignore: true },
+        abortController.signal,
+      );
+    });
+  });
+
   describe('git-aware filtering', () => {
     it('should skip git-ignored files in @ commands', async () => {
       const gitIgnoredFile = 'node_modules/package.json';
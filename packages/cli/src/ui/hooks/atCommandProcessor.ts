@@ -34,6 +34,11 @@ interface HandleAtCommandResult {
   shouldProceed: boolean;
 }
 
+interface McpResourceReference {
+  serverName: string;
+  uri: string;
+}
+
 interface AtCommandPart {
   type: 'text' | 'atPath';
   content: string;
@@ -105,11 +110,32 @@ function parseAllAtCommands(query: string): AtCommandPart[] {
   );
 }
 
+/**
+ * Recognizes '@<server>:<uri>' references to MCP resources, where <server> is
+ * the name of a connected MCP server.
+ */
+function parseMcpResourceReference(
+  pathName: string,
+  config: Config,
+): McpResourceReference | null {
+  const colonIndex = pathName.indexOf(':');
+  if (colonIndex <= 0) {
+    return null;
+  }
+  const serverName = pathName.substring(0, colonIndex);
+  const uri = pathName.substring(colonIndex + 1);
+  if (!uri || !config.getMcpRegistry().hasServer(serverName)) {
+    return null;
+  }
+  return { serverName, uri };
+}
+
 /**
  * Processes user input potentially containing one or more '@<path>' commands.
  * If found, it attempts to read the specified files/directories using the
- * 'read_many_files' tool. The user query is modified to include resolved paths,
- * and the content of the files is appended in a structured block.
+ * 'read_many_files' tool, and the specified MCP resources ('@<server>:<uri>')
+ * through their servers. The user query is modified to include resolved paths,
+ * and the content of the files and resources is appended in structured blocks.
  *
  * @returns An object indicating whether the main hook should proceed with an
  *          LLM call and the processed query parts (including file content).
@@ -139,6 +165,7 @@ export async function handleAtCommand({
   const respectGitIgnore = config.getFileFilteringRespectGitIgnore();
 
   const pathSpecsToRead: string[] = [];
+  const resourcesToRead: McpResourceReference[] = [];
   const atPathToResolvedSpecMap = new Map<string, string>();
   const contentLabelsForDisplay: string[] = [];
   const ignoredPaths: string[] = [];
@@ -181,6 +208,16 @@ export async function handleAtCommand({
       return { processedQuery: null, shouldProceed: false };
     }
 
+    const resourceReference = parseMcpResourceReference(pathName, config);
+    if (resourceReference) {
+      onDebugMessage(
+        `Path ${pathName} refers to a resource of MCP server ${resourceReference.serverName}.`,
+      );
+      resourcesToRead.push(resourceReference);
+      atPathToResolvedSpecMap.set(originalAtPath, pathName);
+      continue;
+    }
+
     // Check if path should be ignored based on filtering options
     if (fileDiscovery.shouldIgnoreFile(pathName, { respectGitIgnore })) {
       const reason = respectGitIgnore ? 'git-ignored' : 'custom-ignored';
@@ -327,7 +364,7 @@ export async function handleAtCommand({
   }
 
   // Fallback for lone "@" or completely invalid @-commands resulting in empty initialQueryText
-  if (pathSpecsToRead.length === 0) {
+  if (pathSpecsToRead.length === 0 && resourcesToRead.length === 0) {
     onDebugMessage('No valid file paths found in @ commands to read.');
     if (initialQueryText === '@' && query.trim() === '@') {
       // If the only thing was a lone @, pass original query (which might have spaces)
@@ -345,79 +382,134 @@ export async function handleAtCommand({
 
   const processedQueryParts: PartUnion[] = [{ text: initialQueryText }];
 
-  const toolArgs = {
-    paths: pathSpecsToRead,
-    respect_git_ignore: respectGitIgnore, // Use configuration setting
-  };
-  let toolCallDisplay: IndividualToolCallDisplay;
-
-  try {
-    const result = await readManyFilesTool.execute(toolArgs, signal);
-    toolCallDisplay = {
-      callId: `client-read-${userMessageTimestamp}`,
-      name: readManyFilesTool.displayName,
-      description: readManyFilesTool.getDescription(toolArgs),
-      status: ToolCallStatus.Success,
-      resultDisplay:
-        result.returnDisplay ||
-        `Successfully read: ${contentLabelsForDisplay.join(', ')}`,
-      confirmationDetails: undefined,
+  if (pathSpecsToRead.length > 0) {
+    const toolArgs = {
+      paths: pathSpecsToRead,
+      respect_git_ignore: respectGitIgnore, // Use configuration setting
     };
+    let toolCallDisplay: IndividualToolCallDisplay;
 
-    if (Array.isArray(result.llmContent)) {
-      const fileContentRegex = /^--- (.*?) ---\n\n([\s\S]*?)\n\n$/;
-      processedQueryParts.push({
-        text: '\n--- Content from referenced files ---',
-      });
-      for (const part of result.llmContent) {
-        if (typeof part === 'string') {
-          const match = fileContentRegex.exec(part);
-          if (match) {
-            const filePathSpecInContent = match[1]; // This is a resolved pathSpec
-            const fileActualContent = match[2].trim();
-            processedQueryParts.push({
-              text: `\nContent from @${filePathSpecInContent}:\n`,
-            });
-            processedQueryParts.push({ text: fileActualContent });
+    try {
+      const result = await readManyFilesTool.execute(toolArgs, signal);
+      toolCallDisplay = {
+        callId: `client-read-${userMessageTimestamp}`,
+        name: readManyFilesTool.displayName,
+        description: readManyFilesTool.getDescription(toolArgs),
+        status: ToolCallStatus.Success,
+        resultDisplay:
+          result.returnDisplay ||
+          `Successfully read: ${contentLabelsForDisplay.join(', ')}`,
+        confirmationDetails: undefined,
+      };
+
+      if (Array.isArray(result.llmContent)) {
+        const fileContentRegex = /^--- (.*?) ---\n\n([\s\S]*?)\n\n$/;
+        processedQueryParts.push({
+          text: '\n--- Content from referenced files ---',
+        });
+        for (const part of result.llmContent) {
+          if (typeof part === 'string') {
+            const match = fileContentRegex.exec(part);
+            if (match) {
+              const filePathSpecInContent = match[1]; // This is a resolved pathSpec
+              const fileActualContent = match[2].trim();
+              processedQueryParts.push({
+                text: `\nContent from @${filePathSpecInContent}:\n`,
+              });
+              processedQueryParts.push({ text: fileActualContent });
+            } else {
+              processedQueryParts.push({ text: part });
+            }
           } else {
-            processedQueryParts.push({ text: part });
+            // part is a Part object.
+            processedQueryParts.push(part);
           }
-        } else {
-          // part is a Part object.
-          processedQueryParts.push(part);
         }
+        processedQueryParts.push({ text: '\n--- End of content ---' });
+      } else {
+        onDebugMessage(
+          'read_many_files tool returned no content or empty content.',
+        );
       }
-      processedQueryParts.push({ text: '\n--- End of content ---' });
-    } else {
-      onDebugMessage(
-        'read_many_files tool returned no content or empty content.',
+
+      addItem(
+        { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
+          HistoryItem,
+          'id'
+        >,
+        userMessageTimestamp,
+      );
+    } catch (error: unknown) {
+      toolCallDisplay = {
+        callId: `client-read-${userMessageTimestamp}`,
+        name: readManyFilesTool.displayName,
+        description: readManyFilesTool.getDescription(toolArgs),
+        status: ToolCallStatus.Error,
+        resultDisplay: `Error reading files (${contentLabelsForDisplay.join(', ')}): ${getErrorMessage(error)}`,
+        confirmationDetails: undefined,
+      };
+      addItem(
+        { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
+          HistoryItem,
+          'id'
+        >,
+        userMessageTimestamp,
       );
+      return { processedQuery: null, shouldProceed: false };
+    }
+  }
+
+  if (resourcesToRead.length > 0) {
+    const mcpRegistry = config.getMcpRegistry();
+    const resourceDisplays: IndividualToolCallDisplay[] = [];
+    const resourceParts: PartUnion[] = [];
+    let resourceReadFailed = false;
+
+    for (const [index, { serverName, uri }] of resourcesToRead.entries()) {
+      const display = {
+        callId: `client-resource-${userMessageTimestamp}-${index}`,
+        name: 'ReadMcpResource',
+        description: `${uri} (${serverName} MCP Server)`,
+        confirmationDetails: undefined,
+      };
+      try {
+        const parts = await mcpRegistry.readResource(serverName, uri, signal);
+        resourceParts.push(
+          { text: `\nContent from @${serverName}:${uri}:\n` },
+          ...parts,
+        );
+        resourceDisplays.push({
+          ...display,
+          status: ToolCallStatus.Success,
+          resultDisplay: `Successfully read: ${uri}`,
+        });
+      } catch (error: unknown) {
+        resourceDisplays.push({
+          ...display,
+          status: ToolCallStatus.Error,
+          resultDisplay: `Error reading MCP resource ${uri}: ${getErrorMessage(error)}`,
+        });
+        resourceReadFailed = true;
+        break;
+      }
     }
 
     addItem(
-      { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
+      { type: 'tool_group', tools: resourceDisplays } as Omit<
         HistoryItem,
         'id'
       >,
       userMessageTimestamp,
     );
-    return { processedQuery: processedQueryParts, shouldProceed: true };
-  } catch (error: unknown) {
-    toolCallDisplay = {
-      callId: `client-read-${userMessageTimestamp}`,
-      name: readManyFilesTool.displayName,
-      description: readManyFilesTool.getDescription(toolArgs),
-      status: ToolCallStatus.Error,
-      resultDisplay: `Error reading files (${contentLabelsForDisplay.join(', ')}): ${getErrorMessage(error)}`,
-      confirmationDetails: undefined,
-    };
-    addItem(
-      { type: 'tool_group', tools: [toolCallDisplay] } as Omit<
-        HistoryItem,
-        'id'
-      >,
-      userMessageTimestamp,
+    if (resourceReadFailed) {
+      return { processedQuery: null, shouldProceed: false };
+    }
+    processedQueryParts.push(
+      { text: '\n--- Content from referenced MCP resources ---' },
+      ...resourceParts,
+      { text: '\n--- End of content ---' },
     );
-    return { processedQuery: null, shouldProceed: false };
   }
+
+  return { processedQuery: processedQueryParts, shouldProceed: true };
 }
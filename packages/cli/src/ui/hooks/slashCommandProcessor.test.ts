@@ -61,6 +61,7 @@ import { MessageType, SlashCommandProcessorResult } from '../types.js';
 import {
   Config,
   MCPDiscoveryState,
+  MCPRegistry,
   MCPServerStatus,
   getMCPDiscoveryState,
   getMCPServerStatus,
@@ -112,6 +113,7 @@ describe('useSlashCommandProcessor', () => {
   let mockTryCompressChat: ReturnType<typeof vi.fn>;
   let mockGeminiClient: GeminiClient;
   let mockConfig: Config;
+  let mcpRegistry: MCPRegistry;
   let mockCorgiMode: ReturnType<typeof vi.fn>;
   const mockUseSessionStats = useSessionStats as Mock;
 
@@ -144,6 +146,7 @@ describe('useSlashCommandProcessor', () => {
     mockGeminiClient = {
       tryCompressChat: mockTryCompressChat,
     } as unknown as GeminiClient;
+    mcpRegistry = new MCPRegistry();
     mockConfig = {
       getDebugMode: vi.fn(() => false),
       getGeminiClient: () => mockGeminiClient,
@@ -153,6 +156,7 @@ describe('useSlashCommandProcessor', () => {
       getCheckpointingEnabled: vi.fn(() => true),
       getBugCommand: vi.fn(() => undefined),
       getSessionId: vi.fn(() => 'test-session-id'),
+      getMcpRegistry: vi.fn(() => mcpRegistry),
     } as unknown as Config;
     mockCorgiMode = vi.fn();
     mockUseSessionStats.mockReturnValue({
@@ -515,6 +519,63 @@ describe('useSlashCommandProcessor', () => {
     });
   });
 
+  describe('MCP prompt commands', () => {
+    it('should submit a filled-in MCP prompt to the model', async () => {
+      const getPrompt = vi.fn().mockResolvedValue({
+        messages: [
+          { role: 'user', content: { type: 'text', text: 'Fix issue 42' } },
+        ],
+      });
+      const { result } = getProcessorHook();
+
+      act(() => {
+        mcpRegistry.registerServer(
+          'tracker',
+          { getPrompt } as unknown as Parameters<
+            MCPRegistry['registerServer']
+          >[1],
+          {
+            timeout: 1000,
+            resources: [],
+            prompts: [
+              {
+                serverName: 'tracker',
+                name: 'fix',
+                description: 'Fix an issue',
+                arguments: [{ name: 'issue', required: true }],
+              },
+              {
+                serverName: 'tracker',
+                name: 'quit',
+                arguments: [],
+              },
+            ],
+          },
+        );
+      });
+
+      expect(
+        result.current.slashCommands
+          .filter((c) => c.description?.includes('MCP prompt'))
+          .map((c) => c.name),
+      ).toEqual(['fix', 'tracker:quit']);
+
+      let commandResult: SlashCommandProcessorResult | false = false;
+      await act(async () => {
+        commandResult = await result.current.handleSlashCommand('/fix 42');
+      });
+
+      expect(getPrompt).toHaveBeenCalledWith(
+        { name: 'fix', arguments: { issue: '42' } },
+        { signal: undefined, timeout: 1000 },
+      );
+      expect(commandResult).toEqual({
+        type: 'submit_prompt',
+        content: [{ text: 'Fix issue 42' }],
+      });
+    });
+  });
+
   describe('/bug command', () => {
     const originalEnv = process.env;
     beforeEach(() => {
@@ -845,6 +906,33 @@ describe('useSlashCommandProcessor', () => {
       expect(commandResult).toEqual({ type: 'handled' });
     });
 
+    it('should restart an MCP server with /mcp restart', async () => {
+      const restartMcpServer = vi.fn().mockResolvedValue(undefined);
+      mockConfig = {
+        ...mockConfig,
+        getToolRegistry: vi.fn().mockResolvedValue({
+          restartMcpServer,
+          getToolsByServer: vi.fn().mockReturnValue([{}, {}]),
+        }),
+      } as unknown as Config;
+      vi.mocked(getMCPServerStatus).mockReturnValue(MCPServerStatus.CONNECTED);
+
+      const { handleSlashCommand } = getProcessor();
+      await act(async () => {
+        await handleSlashCommand('/mcp restart tracker');
+      });
+
+      expect(restartMcpServer).toHaveBeenCalledWith('tracker');
+      expect(mockAddItem).toHaveBeenNthCalledWith(
+        3,
+        expect.objectContaining({
+          type: MessageType.INFO,
+          text: "MCP server 'tracker' restarted with 2 tool(s).",
+        }),
+        expect.any(Number),
+      );
+    });
+
     it('should display a message with a URL when no MCP servers are configured in a sandbox', async () => {
       process.env.SANDBOX = 'sandbox';
       mockConfig = {
@@ -12,12 +12,14 @@ import { UseHistoryManagerReturn } from './useHistoryManager.js';
 import { useStateAndRef } from './useStateAndRef.js';
 import {
   Config,
+  DiscoveredMCPPrompt,
   GitService,
   Logger,
   MCPDiscoveryState,
   MCPServerStatus,
   getMCPDiscoveryState,
   getMCPServerStatus,
+  getErrorMessage,
 } from '@samus-code/samus-code-core';
 import { useSessionStats } from '../contexts/SessionContext.js';
 import {
@@ -39,6 +41,7 @@ import {
   type SlashCommand,
 } from '../commands/types.js';
 import { CommandService } from '../../services/CommandService.js';
+import { createMcpPromptCommands } from '../../services/mcpPromptCommands.js';
 
 // This interface is for the old, inline command definitions.
 // It will be removed once all commands are migrated to the new system.
@@ -80,6 +83,7 @@ export const useSlashCommandProcessor = (
 ) => {
   const session = useSessionStats();
   const [commands, setCommands] = useState<SlashCommand[]>([]);
+  const [mcpPrompts, setMcpPrompts] = useState<DiscoveredMCPPrompt[]>([]);
   const gitService = useMemo(() => {
     if (!config?.getProjectRoot()) {
       return;
@@ -198,6 +202,17 @@ export const useSlashCommandProcessor = (
     load();
   }, [commandService]);
 
+  useEffect(() => {
+    if (!config) {
+      return;
+    }
+    const mcpRegistry = config.getMcpRegistry();
+    setMcpPrompts(mcpRegistry.getPrompts());
+    return mcpRegistry.addChangeListener(() =>
+      setMcpPrompts(mcpRegistry.getPrompts()),
+    );
+  }, [config]);
+
   const savedChatTags = useCallback(async () => {
     const geminiDir = config?.getProjectTempDir();
     if (!geminiDir) {
@@ -280,7 +295,7 @@ export const useSlashCommandProcessor = (
       },
       {
         name: 'mcp',
-        description: 'list configured MCP servers and tools',
+        description: 'list configured MCP servers and tools, or restart a server',
         action: async (_mainCommand, _subCommand, _args) => {
           // Check if the _subCommand includes a specific flag to control description visibility
           let useShowDescriptions = showToolDescriptions;
@@ -312,6 +327,49 @@ export const useSlashCommandProcessor = (
             return;
           }
 
+          if (_subCommand === 'restart') {
+            const serverName = _args?.trim();
+            if (!serverName) {
+              addMessage({
+                type: MessageType.ERROR,
+                content: 'Usage: /mcp restart <server>',
+                timestamp: new Date(),
+              });
+              return;
+            }
+            addMessage({
+              type: MessageType.INFO,
+              content: `Restarting MCP server '${serverName}'...`,
+              timestamp: new Date(),
+            });
+            try {
+              await toolRegistry.restartMcpServer(serverName);
+            } catch (error) {
+              addMessage({
+                type: MessageType.ERROR,
+                content: getErrorMessage(error),
+                timestamp: new Date(),
+              });
+              return;
+            }
+            if (getMCPServerStatus(serverName) === MCPServerStatus.CONNECTED) {
+              const toolCount =
+                toolRegistry.getToolsByServer(serverName).length;
+              addMessage({
+                type: MessageType.INFO,
+                content: `MCP server '${serverName}' restarted with ${toolCount} tool(s).`,
+                timestamp: new Date(),
+              });
+            } else {
+              addMessage({
+                type: MessageType.ERROR,
+                content: `Could not connect to MCP server '${serverName}'. Retrying in the background.`,
+                timestamp: new Date(),
+              });
+            }
+            return;
+          }
+
           const mcpServers = config?.getMcpServers() || {};
           const serverNames = Object.keys(mcpServers);
 
@@ -1005,6 +1063,17 @@ export const useSlashCommandProcessor = (
     refreshStatic,
   ]);
 
+  const mcpPromptCommands = useMemo(() => {
+    const reservedNames = new Set<string>();
+    for (const command of [...commands, ...legacyCommands]) {
+      reservedNames.add(command.name);
+      if (command.altName) {
+        reservedNames.add(command.altName);
+      }
+    }
+    return createMcpPromptCommands(mcpPrompts, reservedNames);
+  }, [commands, legacyCommands, mcpPrompts]);
+
   const handleSlashCommand = useCallback(
     async (
       rawQuery: PartListUnion,
@@ -1031,7 +1100,7 @@ export const useSlashCommandProcessor = (
 
       // --- Start of New Tree Traversal Logic ---
 
-      let currentCommands = commands;
+      let currentCommands = [...commands, ...mcpPromptCommands];
       let commandToExecute: SlashCommand | undefined;
       let pathIndex = 0;
 
@@ -1067,6 +1136,8 @@ export const useSlashCommandProcessor = (
                   toolName: result.toolName,
                   toolArgs: result.toolArgs,
                 };
+              case 'submit_prompt':
+                return { type: 'submit_prompt', content: result.content };
               case 'message':
                 addItem(
                   {
@@ -1173,6 +1244,7 @@ export const useSlashCommandProcessor = (
       openAuthDialog,
       commands,
       legacyCommands,
+      mcpPromptCommands,
       commandContext,
       addMessage,
       openThemeDialog,
@@ -1206,8 +1278,8 @@ export const useSlashCommandProcessor = (
       (c) => !newCommandNames.has(c.name),
     );
 
-    return [...commands, ...filteredAdaptedLegacy];
-  }, [commands, legacyCommands]);
+    return [...commands, ...filteredAdaptedLegacy, ...mcpPromptCommands];
+  }, [commands, legacyCommands, mcpPromptCommands]);
 
   return {
     handleSlashCommand,
@@ -314,6 +314,7 @@ describe('useGeminiStream', () => {
       },
       setQuotaErrorOccurred: vi.fn(),
       getQuotaErrorOccurred: vi.fn(() => false),
+      getAutoSwitch: vi.fn(() => false),
       getContentGeneratorConfig: vi
         .fn()
         .mockReturnValue(contentGeneratorConfig),
@@ -1053,6 +1054,27 @@ describe('useGeminiStream', () => {
         expect(mockSendMessageStream).not.toHaveBeenCalled(); // No LLM call made
       });
     });
+    it('should send the content of a submit_prompt action to Gemini', async () => {
+      const promptResult: SlashCommandProcessorResult = {
+        type: 'submit_prompt',
+        content: [{ text: 'Review pull request 123' }],
+      };
+      mockHandleSlashCommand.mockResolvedValue(promptResult);
+
+      const { result } = renderTestHook();
+
+      await act(async () => {
+        await result.current.submitQuery('/review 123');
+      });
+
+      await waitFor(() => {
+        expect(mockSendMessageStream).toHaveBeenCalledWith(
+          [{ text: 'Review pull request 123' }],
+          expect.any(AbortSignal),
+          expect.any(String),
+        );
+      });
+    });
   });
 
   describe('Memory Refresh on save_memory', () => {
@@ -1178,4 +1200,183 @@ describe('useGeminiStream', () => {
       });
     });
   });
+
+  describe('Provider Fallback', () => {
+    it('should say which backend answered after a fallback', async () => {
+      mockSendMessageStream.mockReturnValue(
+        (async function* () {
+          yield {
+            type: 'provider_fallback',
+            value: {
+              fromProvider: 'ollama',
+              fromModel: 'qwen3:32b',
+              toProvider: 'lm-studio',
+              toModel: 'qwen2.5-coder-7b',
+              reason: 'Ollama API error: fetch failed',
+              compression: { originalTokenCount: 9000, newTokenCount: 4000 },
+            },
+          };
+          yield { type: 'content', value: 'Hello' };
+        })(),
+      );
+
+      const { result } = renderHook(() =>
+        useGeminiStream(
+          new MockedGeminiClientClass(mockConfig),
+          [],
+          mockAddItem,
+          mockSetShowHelp,
+          mockConfig,
+          mockOnDebugMessage,
+          mockHandleSlashCommand,
+          false,
+          () => 'vscode' as EditorType,
+          () => {},
+          () => Promise.resolve(),
+          false,
+          () => {},
+        ),
+      );
+
+      await act(async () => {
+        await result.current.submitQuery('test query');
+      });
+
+      await waitFor(() => {
+        expect(mockAddItem).toHaveBeenCalledWith(
+          {
+            type: MessageType.INFO,
+            text: 'ollama model qwen3:32b is unavailable (Ollama API error: fetch failed). Answering with lm-studio model qwen2.5-coder-7b instead. History was compressed from 9000 to 4000 tokens to fit.',
+          },
+          expect.any(Number),
+        );
+      });
+    });
+  });
+
+  describe('Automatic Model Switching', () => {
+    const generatorConfig = {
+      model: 'llama3.2',
+      authType: AuthType.USE_OLLAMA,
+    };
+    const history = [{ role: 'user', parts: [{ text: 'hi' }] }];
+    let mockAutoSwitch: Mock;
+    let testConfig: Config;
+    let tiersConfigured: boolean;
+
+    beforeEach(() => {
+      tiersConfigured = true;
+      mockAutoSwitch = vi.fn().mockResolvedValue({
+        classification: {
+          taskType: 'planning',
+          confidence: 0.75,
+          source: 'heuristic',
+          reason: 'matched "design"',
+        },
+        tier: 'strong',
+        model: 'llama3.1:70b',
+        previousModel: 'llama3.2',
+        switched: true,
+        compression: null,
+      });
+      testConfig = {
+        ...mockConfig,
+        getAutoSwitch: vi.fn(() => true),
+        getContentGeneratorConfig: vi.fn(() => generatorConfig),
+        getModelSwitchingService: vi.fn(() => ({
+          isTierConfigured: vi.fn(() => tiersConfigured),
+          autoSwitchBasedOnTask: mockAutoSwitch,
+        })),
+        setModel: vi.fn(),
+      } as unknown as Config;
+    });
+
+    const renderWithConfig = (config: Config) => {
+      const client = new MockedGeminiClientClass(config);
+      client.getContentGenerator = vi.fn(() => ({}));
+      client.getHistory = vi.fn(() => history);
+      return renderHook(() =>
+        useGeminiStream(
+          client,
+          [],
+          mockAddItem,
+          mockSetShowHelp,
+          config,
+          mockOnDebugMessage,
+          mockHandleSlashCommand,
+          false,
+          () => 'vscode' as EditorType,
+          () => {},
+          () => Promise.resolve(),
+          false,
+          () => {},
+        ),
+      );
+    };
+
+    it('should switch models before sending the prompt and say why', async () => {
+      const { result } = renderWithConfig(testConfig);
+
+      await act(async () => {
+        await result.current.submitQuery('design a plugin system');
+      });
+
+      expect(mockAutoSwitch).toHaveBeenCalledWith(
+        'design a plugin system',
+        history,
+        AuthType.USE_OLLAMA,
+        generatorConfig,
+        expect.anything(),
+        expect.any(String),
+      );
+      expect(testConfig.setModel).toHaveBeenCalledWith('llama3.1:70b');
+      expect(mockAddItem).toHaveBeenCalledWith(
+        {
+          type: MessageType.INFO,
+          text: 'Switched to strong model llama3.1:70b (was llama3.2): this looks like a planning task (75% confidence, matched "design").',
+        },
+        expect.any(Number),
+      );
+      expect(mockSendMessageStream).toHaveBeenCalled();
+    });
+
+    it('should not classify prompts when auto-switching is off', async () => {
+      vi.mocked(testConfig.getAutoSwitch).mockReturnValue(false);
+      const { result } = renderWithConfig(testConfig);
+
+      await act(async () => {
+        await result.current.submitQuery('design a plugin system');
+      });
+
+      expect(mockAutoSwitch).not.toHaveBeenCalled();
+      expect(mockSendMessageStream).toHaveBeenCalled();
+    });
+
+    it('should not switch to built-in default models', async () => {
+      tiersConfigured = false;
+      const { result } = renderWithConfig(testConfig);
+
+      await act(async () => {
+        await result.current.submitQuery('design a plugin system');
+      });
+
+      expect(mockAutoSwitch).not.toHaveBeenCalled();
+      expect(mockSendMessageStream).toHaveBeenCalled();
+    });
+
+    it('should still send the prompt if classification fails', async () => {
+      mockAutoSwitch.mockRejectedValue(new Error('model not found'));
+      const { result } = renderWithConfig(testConfig);
+
+      await act(async () => {
+        await result.current.submitQuery('design a plugin system');
+      });
+
+      expect(mockOnDebugMessage).toHaveBeenCalledWith(
+        'Model switching failed: model not found',
+      );
+      expect(testConfig.setModel).not.toHaveBeenCalled();
+      expect(mockSendMessageStream).toHaveBeenCalled();
+    });
+  });
 });
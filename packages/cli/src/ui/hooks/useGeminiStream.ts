@@ -14,6 +14,7 @@ import {
   ServerGeminiContentEvent as ContentEvent,
   ServerGeminiErrorEvent as ErrorEvent,
   ServerGeminiChatCompressedEvent,
+  ServerGeminiProviderFallbackEvent,
   getErrorMessage,
   isNodeError,
   MessageSenderType,
@@ -25,8 +26,8 @@ import {
   UnauthorizedError,
   UserPromptEvent,
   DEFAULT_FLASH_MODEL,
-  ModelSwitchingService,
-  TaskEvaluationService,
+  AutoSwitchDecision,
+  ModelStrength,
 } from '@samus-code/samus-code-core';
 import { type Part, type PartListUnion } from '@google/genai';
 import {
@@ -113,16 +114,6 @@ export const useGeminiStream = (
     return new GitService(config.getProjectRoot());
   }, [config]);
 
-  const modelSwitchingService = useMemo(() => {
-    try {
-      const taskEvaluator = new TaskEvaluationService();
-      return new ModelSwitchingService(taskEvaluator, config, config.getSessionId());
-    } catch (error) {
-      console.warn('Failed to initialize ModelSwitchingService:', getErrorMessage(error));
-      return null;
-    }
-  }, [config]);
-
   const [toolCalls, scheduleToolCalls, markToolsAsSubmitted] =
     useReactToolScheduler(
       async (completedToolCallsFromScheduler) => {
@@ -251,6 +242,12 @@ export const useGeminiStream = (
         const slashCommandResult = await handleSlashCommand(trimmedQuery);
 
         if (slashCommandResult) {
+          if (slashCommandResult.type === 'submit_prompt') {
+            return {
+              queryToSend: slashCommandResult.content,
+              shouldProceed: true,
+            };
+          }
           if (slashCommandResult.type === 'schedule_tool') {
             const { toolName, toolArgs } = slashCommandResult;
             const toolCallRequest: ToolCallRequestInfo = {
@@ -474,6 +471,22 @@ export const useGeminiStream = (
     );
   }, [addItem]);
 
+  const handleProviderFallbackEvent = useCallback(
+    (eventValue: ServerGeminiProviderFallbackEvent['value']) => {
+      const compression = eventValue.compression
+        ? ` History was compressed from ${eventValue.compression.originalTokenCount} to ${eventValue.compression.newTokenCount} tokens to fit.`
+        : '';
+      addItem(
+        {
+          type: MessageType.INFO,
+          text: `${eventValue.fromProvider} model ${eventValue.fromModel} is unavailable (${eventValue.reason}). Answering with ${eventValue.toProvider} model ${eventValue.toModel} instead.${compression}`,
+        },
+        Date.now(),
+      );
+    },
+    [addItem],
+  );
+
   const processGeminiStreamEvents = useCallback(
     async (
       stream: AsyncIterable<GeminiEvent>,
@@ -513,6 +526,9 @@ export const useGeminiStream = (
           case ServerGeminiEventType.MaxSessionTurns:
             handleMaxSessionTurnsEvent();
             break;
+          case ServerGeminiEventType.ProviderFallback:
+            handleProviderFallbackEvent(event.value);
+            break;
           case ServerGeminiEventType.LoopDetected:
             // handle later because we want to move pending history to history
             // before we add loop detected message to history
@@ -537,9 +553,67 @@ export const useGeminiStream = (
       scheduleToolCalls,
       handleChatCompressionEvent,
       handleMaxSessionTurnsEvent,
+      handleProviderFallbackEvent,
     ],
   );
 
+  const autoSwitchModel = useCallback(
+    async (
+      query: PartListUnion,
+      prompt_id: string,
+      userMessageTimestamp: number,
+    ) => {
+      const currentConfig = config.getContentGeneratorConfig();
+      const authType = currentConfig?.authType;
+      const service = config.getModelSwitchingService();
+      // Only switch between models the user named; the built-in defaults
+      // may not be installed.
+      if (
+        !authType ||
+        !service.isTierConfigured(authType, ModelStrength.WEAK) ||
+        !service.isTierConfigured(authType, ModelStrength.STRONG)
+      ) {
+        return;
+      }
+
+      const queryText = (Array.isArray(query) ? query : [query])
+        .map((part) => (typeof part === 'string' ? part : part.text || ''))
+        .join(' ');
+
+      let decision: AutoSwitchDecision;
+      try {
+        decision = await service.autoSwitchBasedOnTask(
+          queryText,
+          geminiClient.getHistory(),
+          authType,
+          currentConfig,
+          geminiClient.getContentGenerator(),
+          prompt_id,
+        );
+      } catch (error) {
+        onDebugMessage(`Model switching failed: ${getErrorMessage(error)}`);
+        return;
+      }
+      if (!decision.switched) {
+        return;
+      }
+
+      config.setModel(decision.model);
+      const { taskType, confidence, reason } = decision.classification;
+      const compression = decision.compression
+        ? ` History was compressed from ${decision.compression.originalTokenCount} to ${decision.compression.newTokenCount} tokens to fit.`
+        : '';
+      addItem(
+        {
+          type: MessageType.INFO,
+          text: `Switched to ${decision.tier} model ${decision.model} (was ${decision.previousModel}): this looks like a ${taskType} task (${Math.round(confidence * 100)}% confidence, ${reason}).${compression}`,
+        },
+        userMessageTimestamp,
+      );
+    },
+    [config, geminiClient, addItem, onDebugMessage],
+  );
+
   const submitQuery = useCallback(
     async (
       query: PartListUnion,
@@ -586,26 +660,8 @@ export const useGeminiStream = (
       }
 
       // Auto-switch model based on task type before processing
-      if (modelSwitchingService && !options?.isContinuation) {
-        try {
-          const queryText = Array.isArray(queryToSend) 
-            ? queryToSend.map(part => typeof part === 'string' ? part : part.text || '').join(' ')
-            : typeof queryToSend === 'string' ? queryToSend : queryToSend.text || '';
-          
-          const currentConfig = config.getContentGeneratorConfig();
-          const authType = currentConfig?.authType;
-          
-          if (authType) {
-            const taskType = await modelSwitchingService.evaluateTaskType(queryText);
-            const recommendedModel = modelSwitchingService.getModelForTask(taskType, authType);
-            
-            if (recommendedModel !== config.getModel()) {
-              config.setModel(recommendedModel);
-            }
-          }
-        } catch (error) {
-          console.warn('Model switching failed:', getErrorMessage(error));
-        }
+      if (!options?.isContinuation && config.getAutoSwitch()) {
+        await autoSwitchModel(queryToSend, prompt_id!, userMessageTimestamp);
       }
 
       setIsResponding(true);
@@ -673,6 +729,7 @@ export const useGeminiStream = (
       startNewPrompt,
       getPromptCount,
       handleLoopDetectedEvent,
+      autoSwitchModel,
     ],
   );
 
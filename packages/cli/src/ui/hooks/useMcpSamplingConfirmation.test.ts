@@ -0,0 +1,78 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import {
+  Config,
+  McpSamplingConfirmationHandler,
+  McpSamplingConfirmationRequest,
+  ToolConfirmationOutcome,
+} from '@samus-code/samus-code-core';
+import { useMcpSamplingConfirmation } from './useMcpSamplingConfirmation.js';
+
+const request = (serverName: string): McpSamplingConfirmationRequest => ({
+  serverName,
+  model: 'llama3.2',
+  messages: [{ role: 'user', text: 'Summarize this diff' }],
+  maxTokens: 100,
+});
+
+describe('useMcpSamplingConfirmation', () => {
+  it('should drop requests the server cancels', async () => {
+    const setConfirmationHandler = vi.fn();
+    const config = {
+      getMcpSamplingService: () => ({ setConfirmationHandler }),
+    } as unknown as Config;
+
+    const { result } = renderHook(() => useMcpSamplingConfirmation(config));
+    const handler: McpSamplingConfirmationHandler =
+      setConfirmationHandler.mock.calls[0][0];
+    const cancelled = new AbortController();
+    let first!: Promise<ToolConfirmationOutcome>;
+    act(() => {
+      first = handler(request('git'), cancelled.signal);
+      handler(request('tracker'), new AbortController().signal);
+    });
+    expect(result.current?.request.serverName).toBe('git');
+
+    act(() => cancelled.abort());
+    await expect(first).resolves.toBe(ToolConfirmationOutcome.Cancel);
+    expect(result.current?.request.serverName).toBe('tracker');
+    await expect(handler(request('git'), cancelled.signal)).resolves.toBe(
+      ToolConfirmationOutcome.Cancel,
+    );
+    expect(result.current?.request.serverName).toBe('tracker');
+  });
+
+  it('should show requests one at a time until unmounted', async () => {
+    const setConfirmationHandler = vi.fn();
+    const config = {
+      getMcpSamplingService: () => ({ setConfirmationHandler }),
+    } as unknown as Config;
+
+    const { result, unmount } = renderHook(() =>
+      useMcpSamplingConfirmation(config),
+    );
+    expect(result.current).toBeNull();
+
+    const handler: McpSamplingConfirmationHandler =
+      setConfirmationHandler.mock.calls[0][0];
+    let first!: Promise<ToolConfirmationOutcome>;
+    act(() => {
+      first = handler(request('git'), new AbortController().signal);
+      handler(request('tracker'), new AbortController().signal);
+    });
+    expect(result.current?.request.serverName).toBe('git');
+
+    act(() => result.current?.onConfirm(ToolConfirmationOutcome.ProceedOnce));
+    await expect(first).resolves.toBe(ToolConfirmationOutcome.ProceedOnce);
+    expect(result.current?.request.serverName).toBe('tracker');
+
+    unmount();
+    expect(setConfirmationHandler).toHaveBeenLastCalledWith(undefined);
+  });
+});
@@ -0,0 +1,58 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  Config,
+  McpSamplingConfirmationRequest,
+  ToolConfirmationOutcome,
+} from '@samus-code/samus-code-core';
+
+export interface McpSamplingConfirmation {
+  request: McpSamplingConfirmationRequest;
+  onConfirm: (outcome: ToolConfirmationOutcome) => void;
+}
+
+/**
+ * Asks the user to confirm the sampling requests of untrusted MCP servers.
+ * Returns the request to show, if any; requests that arrive meanwhile wait
+ * their turn. Requests the server cancels are dropped, answered with Cancel.
+ */
+export function useMcpSamplingConfirmation(
+  config: Config,
+): McpSamplingConfirmation | null {
+  const [pending, setPending] = useState<McpSamplingConfirmation[]>([]);
+
+  useEffect(() => {
+    const samplingService = config.getMcpSamplingService();
+    samplingService.setConfirmationHandler(
+      (request, abortSignal) =>
+        new Promise((resolve) => {
+          if (abortSignal.aborted) {
+            resolve(ToolConfirmationOutcome.Cancel);
+            return;
+          }
+          const onAbort = () =>
+            confirmation.onConfirm(ToolConfirmationOutcome.Cancel);
+          const confirmation: McpSamplingConfirmation = {
+            request,
+            onConfirm: (outcome) => {
+              abortSignal.removeEventListener('abort', onAbort);
+              setPending((current) =>
+                current.filter((item) => item !== confirmation),
+              );
+              resolve(outcome);
+            },
+          };
+          abortSignal.addEventListener('abort', onAbort, { once: true });
+          setPending((current) => [...current, confirmation]);
+        }),
+    );
+    return () => samplingService.setConfirmationHandler(undefined);
+  }, [config]);
+
+  return pending[0] ?? null;
+}
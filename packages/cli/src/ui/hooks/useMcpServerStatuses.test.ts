@@ -0,0 +1,50 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { act, renderHook } from '@testing-library/react';
+import {
+  MCPServerStatus,
+  addMCPStatusChangeListener,
+  getAllMCPServerStatuses,
+  removeMCPStatusChangeListener,
+} from '@samus-code/samus-code-core';
+import { useMcpServerStatuses } from './useMcpServerStatuses.js';
+
+vi.mock('@samus-code/samus-code-core', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('@samus-code/samus-code-core')>();
+  return {
+    ...actual,
+    addMCPStatusChangeListener: vi.fn(),
+    removeMCPStatusChangeListener: vi.fn(),
+    getAllMCPServerStatuses: vi.fn(),
+  };
+});
+
+describe('useMcpServerStatuses', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(getAllMCPServerStatuses).mockReturnValue(
+      new Map([['tracker', MCPServerStatus.CONNECTED]]),
+    );
+  });
+
+  it('should follow status changes until unmounted', () => {
+    const { result, unmount } = renderHook(() => useMcpServerStatuses());
+    expect(result.current.get('tracker')).toBe(MCPServerStatus.CONNECTED);
+
+    const listener = vi.mocked(addMCPStatusChangeListener).mock.calls[0][0];
+    vi.mocked(getAllMCPServerStatuses).mockReturnValue(
+      new Map([['tracker', MCPServerStatus.DISCONNECTED]]),
+    );
+    act(() => listener('tracker', MCPServerStatus.DISCONNECTED));
+    expect(result.current.get('tracker')).toBe(MCPServerStatus.DISCONNECTED);
+
+    unmount();
+    expect(removeMCPStatusChangeListener).toHaveBeenCalledWith(listener);
+  });
+});
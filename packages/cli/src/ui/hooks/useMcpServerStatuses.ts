@@ -0,0 +1,31 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { useEffect, useState } from 'react';
+import {
+  MCPServerStatus,
+  addMCPStatusChangeListener,
+  getAllMCPServerStatuses,
+  removeMCPStatusChangeListener,
+} from '@samus-code/samus-code-core';
+
+/**
+ * Returns the connection status of every MCP server, updated as servers
+ * connect, disconnect and reconnect.
+ */
+export function useMcpServerStatuses(): Map<string, MCPServerStatus> {
+  const [statuses, setStatuses] = useState(() => getAllMCPServerStatuses());
+
+  useEffect(() => {
+    const updateStatuses = () => setStatuses(getAllMCPServerStatuses());
+    addMCPStatusChangeListener(updateStatuses);
+    // Pick up changes made before the listener was added.
+    updateStatuses();
+    return () => removeMCPStatusChangeListener(updateStatuses);
+  }, []);
+
+  return statuses;
+}
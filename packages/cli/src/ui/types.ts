@@ -4,6 +4,7 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { type PartListUnion } from '@google/genai';
 import {
   ToolCallConfirmationDetails,
   ToolResultDisplay,
@@ -226,6 +227,10 @@ export type SlashCommandProcessorResult =
       toolName: string;
       toolArgs: Record<string, unknown>;
     }
+  | {
+      type: 'submit_prompt';
+      content: PartListUnion;
+    }
   | {
       type: 'handled'; // Indicates the command was processed and no further action is needed.
     };
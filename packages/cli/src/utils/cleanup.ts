@@ -6,7 +6,11 @@
 
 import { promises as fs } from 'fs';
 import { join } from 'path';
-import { getProjectTempDir } from '@samus-code/samus-code-core';
+import {
+  Config,
+  getProjectTempDir,
+  getShellOutputDir,
+} from '@samus-code/samus-code-core';
 
 const cleanupFunctions: Array<() => void> = [];
 
@@ -34,3 +38,24 @@ export async function cleanupCheckpoints() {
     // Ignore errors if the directory doesn't exist or fails to delete.
   }
 }
+
+export async function cleanupShellOutput() {
+  try {
+    await fs.rm(getShellOutputDir(process.cwd()), {
+      recursive: true,
+      force: true,
+    });
+  } catch {
+    // Ignore errors if the directory doesn't exist or fails to delete.
+  }
+}
+
+/**
+ * Stops the background jobs of the session when the CLI exits, including
+ * exits through process.exit() that skip runExitCleanup().
+ */
+export function registerBackgroundJobCleanup(config: Config) {
+  const killJobs = () => config.getBackgroundJobService().killAll();
+  registerCleanup(killJobs);
+  process.on('exit', killJobs);
+}
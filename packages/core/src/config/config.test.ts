@@ -19,6 +19,7 @@ import {
 import { GeminiClient } from '../core/client.js';
 import { GitService } from '../services/gitService.js';
 import { loadServerHierarchicalMemory } from '../utils/memoryDiscovery.js';
+import { ModelSwitchingService } from '../core/modelSwitchingService.js';
 
 // Mock dependencies that might be called during Config construction or createServerConfig
 vi.mock('../tools/tool-registry', () => {
@@ -316,6 +317,73 @@ describe('Server Config (config.ts)', () => {
     });
   });
 
+  describe('getEmbeddingModel', () => {
+    it('should prefer the configured embedding model', () => {
+      const config = new Config(baseParams);
+      config['contentGeneratorConfig'] = {
+        model: 'qwen3:32b',
+        authType: AuthType.USE_OLLAMA,
+      };
+
+      expect(config.getEmbeddingModel()).toBe(EMBEDDING_MODEL);
+    });
+
+    it('should fall back to the embedding model of the active provider', () => {
+      const config = new Config({ ...baseParams, embeddingModel: undefined });
+
+      expect(config.getEmbeddingModel()).toBe('gemini-embedding-001');
+      config['contentGeneratorConfig'] = {
+        model: 'qwen3:32b',
+        authType: AuthType.USE_OLLAMA,
+      };
+      expect(config.getEmbeddingModel()).toBe('nomic-embed-text');
+      config['contentGeneratorConfig'] = {
+        model: 'gpt-4.1',
+        authType: AuthType.USE_OPENAI,
+      };
+      expect(config.getEmbeddingModel()).toBe('text-embedding-3-small');
+    });
+  });
+
+  describe('getUtilityModel', () => {
+    const withWeakTier = (config: Config, weak: string | undefined) => {
+      config['contentGeneratorConfig'] = {
+        model: 'qwen3:32b',
+        authType: AuthType.USE_OLLAMA,
+      };
+      vi.spyOn(config, 'getModelSwitchingService').mockReturnValue({
+        isTierConfigured: vi.fn().mockReturnValue(weak !== undefined),
+        getModelForTier: vi.fn().mockReturnValue(weak ?? 'llama3.2'),
+      } as unknown as ModelSwitchingService);
+    };
+
+    it('should prefer the per-helper override, then the utility model', () => {
+      const config = new Config({
+        ...baseParams,
+        utilityModel: 'qwen3:8b',
+        utilityModels: { compression: 'qwen3:14b' },
+      });
+      withWeakTier(config, 'qwen3:4b');
+
+      expect(config.getUtilityModel('compression')).toBe('qwen3:14b');
+      expect(config.getUtilityModel('nextSpeaker')).toBe('qwen3:8b');
+    });
+
+    it('should fall back to the weak tier of the active provider', () => {
+      const config = new Config(baseParams);
+      withWeakTier(config, 'qwen3:4b');
+
+      expect(config.getUtilityModel('editCorrector')).toBe('qwen3:4b');
+    });
+
+    it('should use the session model when no weak tier is configured', () => {
+      const config = new Config(baseParams);
+      withWeakTier(config, undefined);
+
+      expect(config.getUtilityModel('summarizer')).toBe('qwen3:32b');
+    });
+  });
+
   describe('refreshMemory', () => {
     it('should update memory and file count on successful refresh', async () => {
       const config = new Config(baseParams);
@@ -10,6 +10,7 @@ import {
   AuthType,
   ContentGeneratorConfig,
   createContentGeneratorConfig,
+  getDefaultEmbeddingModel,
 } from '../core/contentGenerator.js';
 import { UserTierId } from '../code_assist/types.js';
 import { ToolRegistry } from '../tools/tool-registry.js';
@@ -17,8 +18,16 @@ import { LSTool } from '../tools/ls.js';
 import { ReadFileTool } from '../tools/read-file.js';
 import { GrepTool } from '../tools/grep.js';
 import { GlobTool } from '../tools/glob.js';
+import { SemanticSearchTool } from '../tools/semantic-search.js';
 import { EditTool } from '../tools/edit.js';
-import { ShellTool } from '../tools/shell.js';
+import { ApplyPatchTool } from '../tools/apply-patch.js';
+import { DEFAULT_SHELL_TIMEOUT_MS, ShellTool } from '../tools/shell.js';
+import {
+  KillBackgroundJobTool,
+  ReadBackgroundJobOutputTool,
+  StartBackgroundJobTool,
+  WaitForBackgroundJobOutputTool,
+} from '../tools/background-jobs.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { WebFetchTool } from '../tools/web-fetch.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
@@ -30,8 +39,12 @@ import {
 import { GeminiClient } from '../core/client.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { GitService } from '../services/gitService.js';
+import { BackgroundJobService } from '../services/backgroundJobService.js';
+import { MCPRegistry } from '../tools/mcp-registry.js';
+import { McpSamplingService } from '../tools/mcp-sampling.js';
 import { loadServerHierarchicalMemory } from '../utils/memoryDiscovery.js';
 import { getProjectTempDir } from '../utils/paths.js';
+import { ShellPolicySettings } from '../utils/shellPolicy.js';
 import {
   initializeTelemetry,
   DEFAULT_TELEMETRY_TARGET,
@@ -39,11 +52,21 @@ import {
   TelemetryTarget,
   StartSessionEvent,
 } from '../telemetry/index.js';
-import {
-  DEFAULT_EMBEDDING_MODEL,
-  DEFAULT_FLASH_MODEL,
-} from './models.js';
+import { DEFAULT_FLASH_MODEL } from './models.js';
 import { ClearcutLogger } from '../telemetry/clearcut-logger/clearcut-logger.js';
+import {
+  FallbackChainEntry,
+  ModelStrength,
+  ModelSwitchingSettings,
+  TaskTypeDefinition,
+  UtilityHelper,
+} from '../core/modelTypes.js';
+import { ModelSwitchingService } from '../core/modelSwitchingService.js';
+import { TaskEvaluationService } from '../core/taskEvaluationService.js';
+import {
+  ModelCapabilities,
+  modelCapabilityRegistry,
+} from '../core/modelCapabilities.js';
 
 export enum ApprovalMode {
   DEFAULT = 'default',
@@ -92,6 +115,8 @@ export class MCPServerConfig {
     readonly description?: string,
     readonly includeTools?: string[],
     readonly excludeTools?: string[],
+    // Answer the server's sampling requests without asking
+    readonly trustSampling?: boolean,
   ) {}
 }
 
@@ -140,6 +165,8 @@ export interface ConfigParameters {
   model: string;
   extensionContextFilePaths?: string[];
   maxSessionTurns?: number;
+  shellTimeoutMs?: number;
+  shellPolicy?: ShellPolicySettings;
   listExtensions?: boolean;
   activeExtensions?: ActiveExtension[];
   noBrowser?: boolean;
@@ -154,13 +181,21 @@ export interface ConfigParameters {
     temperature?: number;
     max_tokens?: number;
   };
+  toolCallParsers?: Record<string, string>;
+  modelSwitching?: ModelSwitchingSettings;
+  autoSwitch?: boolean;
+  taskTypes?: Record<string, TaskTypeDefinition>;
+  fallbackChain?: FallbackChainEntry[];
+  modelCapabilities?: Record<string, ModelCapabilities>;
+  utilityModel?: string;
+  utilityModels?: Partial<Record<UtilityHelper, string>>;
 }
 
 export class Config {
   private toolRegistry!: ToolRegistry;
   private readonly sessionId: string;
   private contentGeneratorConfig!: ContentGeneratorConfig;
-  private readonly embeddingModel: string;
+  private readonly embeddingModel: string | undefined;
   private readonly sandbox: SandboxConfig | undefined;
   private readonly targetDir: string;
   private readonly debugMode: boolean;
@@ -186,6 +221,9 @@ export class Config {
   };
   private fileDiscoveryService: FileDiscoveryService | null = null;
   private gitService: GitService | undefined = undefined;
+  private readonly backgroundJobService = new BackgroundJobService();
+  private readonly mcpSamplingService = new McpSamplingService(this);
+  private readonly mcpRegistry = new MCPRegistry(this.mcpSamplingService);
   private readonly checkpointing: boolean;
   private readonly proxy: string | undefined;
   private readonly cwd: string;
@@ -204,8 +242,18 @@ export class Config {
     temperature?: number;
     max_tokens?: number;
   };
+  private readonly toolCallParsers?: Record<string, string>;
+  private readonly modelSwitching: ModelSwitchingSettings;
+  private autoSwitch: boolean;
+  private readonly taskTypes?: Record<string, TaskTypeDefinition>;
+  private readonly fallbackChain: FallbackChainEntry[];
+  private readonly utilityModel?: string;
+  private readonly utilityModels: Partial<Record<UtilityHelper, string>>;
+  private modelSwitchingService: ModelSwitchingService | null = null;
   private modelSwitchedDuringSession: boolean = false;
   private readonly maxSessionTurns: number;
+  private readonly shellTimeoutMs: number;
+  private readonly shellPolicy: ShellPolicySettings | undefined;
   private readonly listExtensions: boolean;
   private readonly _activeExtensions: ActiveExtension[];
   flashFallbackHandler?: FlashFallbackHandler;
@@ -213,8 +261,7 @@ export class Config {
 
   constructor(params: ConfigParameters) {
     this.sessionId = params.sessionId;
-    this.embeddingModel =
-      params.embeddingModel ?? DEFAULT_EMBEDDING_MODEL;
+    this.embeddingModel = params.embeddingModel;
     this.sandbox = params.sandbox;
     this.targetDir = path.resolve(params.targetDir);
     this.debugMode = params.debugMode;
@@ -252,17 +299,33 @@ export class Config {
     this.model = params.model;
     this.extensionContextFilePaths = params.extensionContextFilePaths ?? [];
     this.maxSessionTurns = params.maxSessionTurns ?? -1;
+    this.shellTimeoutMs =
+      params.shellTimeoutMs && params.shellTimeoutMs > 0
+        ? params.shellTimeoutMs
+        : DEFAULT_SHELL_TIMEOUT_MS;
+    this.shellPolicy = params.shellPolicy;
     this.listExtensions = params.listExtensions ?? false;
     this._activeExtensions = params.activeExtensions ?? [];
     this.noBrowser = params.noBrowser ?? false;
     this.ideMode = params.ideMode ?? false;
     this.enableOpenAILogging = params.enableOpenAILogging ?? false;
     this.sampling_params = params.sampling_params;
+    this.toolCallParsers = params.toolCallParsers;
+    this.modelSwitching = params.modelSwitching ?? {};
+    this.autoSwitch = params.autoSwitch ?? true;
+    this.taskTypes = params.taskTypes;
+    this.fallbackChain = params.fallbackChain ?? [];
+    this.utilityModel = params.utilityModel;
+    this.utilityModels = params.utilityModels ?? {};
 
     if (params.contextFileName) {
       setGeminiMdFilename(params.contextFileName);
     }
 
+    if (params.modelCapabilities) {
+      modelCapabilityRegistry.setOverrides(params.modelCapabilities);
+    }
+
     if (this.telemetrySettings.enabled) {
       initializeTelemetry(this);
     }
@@ -296,10 +359,21 @@ export class Config {
     if (this.sampling_params) {
       this.contentGeneratorConfig.samplingParams = this.sampling_params;
     }
+    if (this.toolCallParsers) {
+      this.contentGeneratorConfig.toolCallParsers = this.toolCallParsers;
+    }
 
     this.geminiClient = new GeminiClient(this);
     await this.geminiClient.initialize(this.contentGeneratorConfig);
 
+    // Refresh the context window in the background; until the provider
+    // answers, token limits come from the cache.
+    void modelCapabilityRegistry.discover(
+      authMethod,
+      this.contentGeneratorConfig.model,
+      this.contentGeneratorConfig.baseUrl,
+    );
+
     // Reset the session flag since we're explicitly changing auth and using default model
     this.modelSwitchedDuringSession = false;
   }
@@ -312,6 +386,69 @@ export class Config {
     return this.contentGeneratorConfig;
   }
 
+  /**
+   * Replaces the settings used by content generators, e.g. after the session
+   * moved to a model on another server or with other sampling parameters.
+   */
+  setContentGeneratorConfig(config: ContentGeneratorConfig): void {
+    this.contentGeneratorConfig = config;
+  }
+
+  getModelSwitchingSettings(): ModelSwitchingSettings {
+    return this.modelSwitching;
+  }
+
+  /**
+   * Returns the service that switches between the weak and strong models of
+   * the current provider, shared by /model and automatic switching.
+   */
+  getModelSwitchingService(): ModelSwitchingService {
+    if (!this.modelSwitchingService) {
+      this.modelSwitchingService = new ModelSwitchingService(
+        new TaskEvaluationService({ taskTypes: this.taskTypes }),
+        this,
+        this.sessionId,
+      );
+    }
+    return this.modelSwitchingService;
+  }
+
+  getTaskTypes(): Record<string, TaskTypeDefinition> | undefined {
+    return this.taskTypes;
+  }
+
+  /** Backends to try, in order, when the current one is unavailable. */
+  getFallbackChain(): FallbackChainEntry[] {
+    return this.fallbackChain;
+  }
+
+  /**
+   * Model for a helper's calls outside the main conversation: the helper's
+   * entry in `utilityModels`, then `utilityModel`, then the weak tier of the
+   * active provider if one is configured, then the session's model.
+   */
+  getUtilityModel(helper: UtilityHelper): string {
+    const configured = this.utilityModels[helper] || this.utilityModel;
+    if (configured) {
+      return configured;
+    }
+    const provider = this.contentGeneratorConfig?.authType;
+    const switching = this.getModelSwitchingService();
+    const weak =
+      provider && switching.isTierConfigured(provider, ModelStrength.WEAK)
+        ? switching.getModelForTier(provider, ModelStrength.WEAK)
+        : undefined;
+    return weak || this.getModel();
+  }
+
+  getAutoSwitch(): boolean {
+    return this.autoSwitch;
+  }
+
+  setAutoSwitch(enabled: boolean): void {
+    this.autoSwitch = enabled;
+  }
+
   getModel(): string {
     return this.contentGeneratorConfig?.model || this.model;
   }
@@ -342,6 +479,16 @@ export class Config {
     return this.maxSessionTurns;
   }
 
+  /** Time a shell command may run when the model does not set a timeout. */
+  getShellTimeoutMs(): number {
+    return this.shellTimeoutMs;
+  }
+
+  /** Rules deciding which shell commands run, need confirmation or are refused. */
+  getShellPolicy(): ShellPolicySettings | undefined {
+    return this.shellPolicy;
+  }
+
   setQuotaErrorOccurred(value: boolean): void {
     this.quotaErrorOccurred = value;
   }
@@ -358,8 +505,15 @@ export class Config {
     return await generator.getTier?.();
   }
 
+  /**
+   * Model for embeddings: the configured one, or the default embedding model
+   * of the active provider.
+   */
   getEmbeddingModel(): string {
-    return this.embeddingModel;
+    return (
+      this.embeddingModel ||
+      getDefaultEmbeddingModel(this.contentGeneratorConfig?.authType)
+    );
   }
 
   getSandbox(): SandboxConfig | undefined {
@@ -536,6 +690,20 @@ export class Config {
     return this.gitService;
   }
 
+  getBackgroundJobService(): BackgroundJobService {
+    return this.backgroundJobService;
+  }
+
+  /** The connected MCP servers with their resources and prompts. */
+  getMcpRegistry(): MCPRegistry {
+    return this.mcpRegistry;
+  }
+
+  /** Answers the sampling requests of MCP servers. */
+  getMcpSamplingService(): McpSamplingService {
+    return this.mcpSamplingService;
+  }
+
   getEnableOpenAILogging(): boolean {
     return this.enableOpenAILogging;
   }
@@ -594,11 +762,17 @@ export class Config {
     registerCoreTool(ReadFileTool, this);
     registerCoreTool(GrepTool, this);
     registerCoreTool(GlobTool, this);
+    registerCoreTool(SemanticSearchTool, this);
     registerCoreTool(EditTool, this);
+    registerCoreTool(ApplyPatchTool, this);
     registerCoreTool(WriteFileTool, this);
     registerCoreTool(WebFetchTool, this);
     registerCoreTool(ReadManyFilesTool, this);
     registerCoreTool(ShellTool, this);
+    registerCoreTool(StartBackgroundJobTool, this);
+    registerCoreTool(ReadBackgroundJobOutputTool, this);
+    registerCoreTool(WaitForBackgroundJobOutputTool, this);
+    registerCoreTool(KillBackgroundJobTool, this);
     registerCoreTool(MemoryTool);
     // registerCoreTool(WebSearchTool, this); // Temporarily disabled
 
@@ -7,3 +7,7 @@
 export const DEFAULT_MODEL = 'qwen/qwen3-coder';
 export const DEFAULT_FLASH_MODEL = 'gemini-2.5-flash';
 export const DEFAULT_EMBEDDING_MODEL = 'gemini-embedding-001';
+export const DEFAULT_OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small';
+export const DEFAULT_OLLAMA_EMBEDDING_MODEL = 'nomic-embed-text';
+export const DEFAULT_LM_STUDIO_EMBEDDING_MODEL =
+  'text-embedding-nomic-embed-text-v1.5';
@@ -0,0 +1,162 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Content } from '@google/genai';
+import { OpenAIContentGenerator } from '../openaiContentGenerator.js';
+import { modelCapabilityRegistry } from '../modelCapabilities.js';
+import { Config } from '../../config/config.js';
+import OpenAI from 'openai';
+
+vi.mock('openai');
+
+vi.mock('../modelCapabilities.js', () => ({
+  modelCapabilityRegistry: { supportsVision: vi.fn() },
+}));
+
+vi.mock('../../telemetry/loggers.js', () => ({
+  logApiResponse: vi.fn(),
+}));
+
+vi.mock('../../utils/openaiLogger.js', () => ({
+  openaiLogger: {
+    logInteraction: vi.fn(),
+  },
+}));
+
+const PNG = { mimeType: 'image/png', data: 'iVBORw0KGgo=' };
+
+describe('OpenAIContentGenerator attachments', () => {
+  let mockConfig: Config;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let mockOpenAIClient: any;
+
+  const sentMessages = async (contents: Content[]) => {
+    const generator = new OpenAIContentGenerator(
+      'key',
+      'qwen2.5-vl',
+      mockConfig,
+    );
+    await generator.generateContent({ model: 'qwen2.5-vl', contents });
+    return mockOpenAIClient.chat.completions.create.mock.calls[0][0].messages;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(modelCapabilityRegistry.supportsVision).mockReturnValue(true);
+    mockConfig = {
+      getContentGeneratorConfig: vi.fn().mockReturnValue({
+        authType: 'openai',
+        enableOpenAILogging: false,
+      }),
+    } as unknown as Config;
+    mockOpenAIClient = {
+      chat: {
+        completions: {
+          create: vi.fn().mockResolvedValue({
+            id: 'completion',
+            object: 'chat.completion',
+            created: 0,
+            model: 'qwen2.5-vl',
+            choices: [
+              {
+                index: 0,
+                message: { role: 'assistant', content: 'A cat.' },
+                finish_reason: 'stop',
+              },
+            ],
+          }),
+        },
+      },
+    };
+    vi.mocked(OpenAI).mockImplementation(() => mockOpenAIClient);
+  });
+
+  it('should send images as data URI content parts', async () => {
+    await expect(
+      sentMessages([
+        {
+          role: 'user',
+          parts: [{ text: 'What is in this picture?' }, { inlineData: PNG }],
+        },
+      ]),
+    ).resolves.toEqual([
+      {
+        role: 'user',
+        content: [
+          { type: 'text', text: 'What is in this picture?' },
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should follow tool results with the images the tool read', async () => {
+    const messages = await sentMessages([
+      {
+        role: 'model',
+        parts: [
+          {
+            functionCall: {
+              id: 'c1',
+              name: 'read_file',
+              args: { absolute_path: '/tmp/cat.png' },
+            },
+          },
+        ],
+      },
+      {
+        role: 'user',
+        parts: [
+          {
+            functionResponse: {
+              id: 'c1',
+              name: 'read_file',
+              response: { output: 'Binary content provided (1 item(s)).' },
+            },
+          },
+          { inlineData: PNG },
+        ],
+      },
+    ]);
+
+    expect(messages.slice(1)).toEqual([
+      {
+        role: 'tool',
+        tool_call_id: 'c1',
+        content: '{"output":"Binary content provided (1 item(s))."}',
+      },
+      {
+        role: 'user',
+        content: [
+          {
+            type: 'image_url',
+            image_url: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+          },
+        ],
+      },
+    ]);
+  });
+
+  it('should tell text-only models that an image was left out', async () => {
+    vi.mocked(modelCapabilityRegistry.supportsVision).mockReturnValue(false);
+
+    await expect(
+      sentMessages([
+        { role: 'user', parts: [{ text: 'Describe it' }, { inlineData: PNG }] },
+      ]),
+    ).resolves.toEqual([
+      {
+        role: 'user',
+        content:
+          'Describe it\n[An image (image/png) was attached, but this model cannot read images.]',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAIContentGenerator } from '../openaiContentGenerator.js';
+import { Config } from '../../config/config.js';
+import OpenAI from 'openai';
+
+vi.mock('openai');
+
+vi.mock('../../telemetry/loggers.js', () => ({
+  logApiResponse: vi.fn(),
+}));
+
+vi.mock('../../utils/openaiLogger.js', () => ({
+  openaiLogger: {
+    logInteraction: vi.fn(),
+  },
+}));
+
+function chunk(delta: Record<string, unknown>, finishReason?: string) {
+  return {
+    id: 'chunk',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'qwen3',
+    choices: [{ index: 0, delta, finish_reason: finishReason ?? null }],
+  };
+}
+
+describe('OpenAIContentGenerator reasoning', () => {
+  let generator: OpenAIContentGenerator;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let mockOpenAIClient: any;
+
+  const streamParts = async (chunks: object[]) => {
+    mockOpenAIClient.chat.completions.create.mockResolvedValue(
+      (async function* () {
+        yield* chunks;
+      })(),
+    );
+    const stream = await generator.generateContentStream({
+      model: 'qwen3',
+      contents: 'hi',
+    });
+    const parts = [];
+    for await (const response of stream) {
+      parts.push(response.candidates?.[0]?.content?.parts ?? []);
+    }
+    return parts;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const mockConfig = {
+      getContentGeneratorConfig: vi.fn().mockReturnValue({
+        authType: 'openai',
+        enableOpenAILogging: false,
+      }),
+    } as unknown as Config;
+    mockOpenAIClient = {
+      chat: {
+        completions: {
+          create: vi.fn(),
+        },
+      },
+    };
+    vi.mocked(OpenAI).mockImplementation(() => mockOpenAIClient);
+    generator = new OpenAIContentGenerator('test-api-key', 'qwen3', mockConfig);
+  });
+
+  it('should turn inline <think> tags split across chunks into thoughts', async () => {
+    const parts = await streamParts([
+      chunk({ content: '<think>Greet' }),
+      chunk({ content: ' back</th' }),
+      chunk({ content: 'ink>\n\nHello' }),
+      chunk({ content: '!' }, 'stop'),
+    ]);
+
+    expect(parts).toEqual([
+      [{ text: 'Greet', thought: true }],
+      [{ text: ' back', thought: true }],
+      [{ text: 'Hello' }],
+      [{ text: '!' }],
+    ]);
+  });
+
+  it('should turn reasoning_content deltas into thoughts', async () => {
+    const parts = await streamParts([
+      chunk({ reasoning_content: 'Greet back' }),
+      chunk({ reasoning_content: '.', content: 'Hello' }),
+      chunk({}, 'stop'),
+    ]);
+
+    expect(parts).toEqual([
+      [{ text: 'Greet back', thought: true }],
+      [{ text: '.', thought: true }],
+      [{ text: 'Hello' }],
+      [],
+    ]);
+  });
+
+  it('should not send thought parts back to the model', async () => {
+    mockOpenAIClient.chat.completions.create.mockResolvedValue({
+      id: 'completion',
+      object: 'chat.completion',
+      created: 0,
+      model: 'qwen3',
+      choices: [
+        {
+          index: 0,
+          message: {
+            role: 'assistant',
+            content: '<think>short answer</think>Fine.',
+          },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+
+    const response = await generator.generateContent({
+      model: 'qwen3',
+      contents: [
+        { role: 'user', parts: [{ text: 'hi' }] },
+        {
+          role: 'model',
+          parts: [{ text: 'be polite', thought: true }, { text: 'Hello' }],
+        },
+        { role: 'user', parts: [{ text: 'how are you?' }] },
+      ],
+    });
+
+    expect(
+      mockOpenAIClient.chat.completions.create.mock.calls[0][0].messages,
+    ).toEqual([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: 'how are you?' },
+    ]);
+    expect(response.candidates?.[0]?.content?.parts).toEqual([
+      { text: 'Fine.' },
+    ]);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { GenerateContentConfig, Type } from '@google/genai';
+import { OpenAIContentGenerator } from '../openaiContentGenerator.js';
+import { LMStudioContentGenerator } from '../lmStudioContentGenerator.js';
+import { Config } from '../../config/config.js';
+import OpenAI from 'openai';
+
+vi.mock('openai');
+
+vi.mock('../../telemetry/loggers.js', () => ({
+  logApiResponse: vi.fn(),
+}));
+
+vi.mock('../../utils/openaiLogger.js', () => ({
+  openaiLogger: {
+    logInteraction: vi.fn(),
+  },
+}));
+
+const NEXT_SPEAKER_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    reasoning: { type: Type.STRING },
+    next_speaker: { type: Type.STRING, enum: ['user', 'model'] },
+  },
+  required: ['reasoning', 'next_speaker'],
+};
+
+describe('OpenAIContentGenerator structured output', () => {
+  let mockConfig: Config;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let mockOpenAIClient: any;
+
+  const sentResponseFormat = async (
+    generator: OpenAIContentGenerator,
+    config: GenerateContentConfig,
+  ) => {
+    await generator.generateContent({ model: 'qwen3', contents: 'hi', config });
+    return mockOpenAIClient.chat.completions.create.mock.calls[0][0]
+      .response_format;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfig = {
+      getContentGeneratorConfig: vi.fn().mockReturnValue({
+        authType: 'openai',
+        enableOpenAILogging: false,
+      }),
+    } as unknown as Config;
+    mockOpenAIClient = {
+      chat: {
+        completions: {
+          create: vi.fn().mockResolvedValue({
+            id: 'completion',
+            object: 'chat.completion',
+            created: 0,
+            model: 'qwen3',
+            choices: [
+              {
+                index: 0,
+                message: { role: 'assistant', content: '{}' },
+                finish_reason: 'stop',
+              },
+            ],
+          }),
+        },
+      },
+    };
+    vi.mocked(OpenAI).mockImplementation(() => mockOpenAIClient);
+  });
+
+  it('should send the response schema as a json_schema response format', async () => {
+    const generator = new OpenAIContentGenerator('key', 'qwen3', mockConfig);
+
+    await expect(
+      sentResponseFormat(generator, {
+        responseMimeType: 'application/json',
+        responseSchema: NEXT_SPEAKER_SCHEMA,
+      }),
+    ).resolves.toEqual({
+      type: 'json_schema',
+      json_schema: {
+        name: 'response',
+        schema: {
+          type: 'object',
+          properties: {
+            reasoning: { type: 'string' },
+            next_speaker: { type: 'string', enum: ['user', 'model'] },
+          },
+          required: ['reasoning', 'next_speaker'],
+        },
+      },
+    });
+  });
+
+  it('should ask for any JSON when there is no schema', async () => {
+    const generator = new OpenAIContentGenerator('key', 'qwen3', mockConfig);
+
+    await expect(
+      sentResponseFormat(generator, { responseMimeType: 'application/json' }),
+    ).resolves.toEqual({ type: 'json_object' });
+  });
+
+  it('should not constrain plain text replies', async () => {
+    const generator = new OpenAIContentGenerator('key', 'qwen3', mockConfig);
+
+    await expect(
+      sentResponseFormat(generator, { temperature: 0 }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should only send schemas to LM Studio', async () => {
+    const generator = new LMStudioContentGenerator(
+      'http://localhost:1234',
+      'qwen3',
+      mockConfig,
+    );
+
+    await expect(
+      sentResponseFormat(generator, { responseMimeType: 'application/json' }),
+    ).resolves.toBeUndefined();
+    mockOpenAIClient.chat.completions.create.mockClear();
+    await expect(
+      sentResponseFormat(generator, {
+        responseMimeType: 'application/json',
+        responseSchema: NEXT_SPEAKER_SCHEMA,
+      }),
+    ).resolves.toMatchObject({ type: 'json_schema' });
+  });
+});
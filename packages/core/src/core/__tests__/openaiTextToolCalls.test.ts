@@ -0,0 +1,153 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { OpenAIContentGenerator } from '../openaiContentGenerator.js';
+import { Config } from '../../config/config.js';
+import OpenAI from 'openai';
+import { Type } from '@google/genai';
+
+vi.mock('openai');
+
+vi.mock('../../telemetry/loggers.js', () => ({
+  logApiResponse: vi.fn(),
+}));
+
+vi.mock('../../utils/openaiLogger.js', () => ({
+  openaiLogger: {
+    logInteraction: vi.fn(),
+  },
+}));
+
+const READ_FILE_TOOL = {
+  functionDeclarations: [
+    {
+      name: 'read_file',
+      description: 'Reads a file',
+      parameters: { type: Type.OBJECT, properties: {} },
+    },
+  ],
+};
+
+function chunk(delta: Record<string, unknown>, finishReason?: string) {
+  return {
+    id: 'chunk',
+    object: 'chat.completion.chunk',
+    created: 0,
+    model: 'qwen3',
+    choices: [{ index: 0, delta, finish_reason: finishReason ?? null }],
+  };
+}
+
+describe('OpenAIContentGenerator text tool calls', () => {
+  let generator: OpenAIContentGenerator;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let mockOpenAIClient: any;
+
+  const streamParts = async (chunks: object[]) => {
+    mockOpenAIClient.chat.completions.create.mockResolvedValue(
+      (async function* () {
+        yield* chunks;
+      })(),
+    );
+    const stream = await generator.generateContentStream({
+      model: 'qwen3',
+      contents: 'list files',
+      config: { tools: [READ_FILE_TOOL] },
+    });
+    const parts = [];
+    for await (const response of stream) {
+      parts.push(response.candidates?.[0]?.content?.parts ?? []);
+    }
+    return parts;
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    const mockConfig = {
+      getContentGeneratorConfig: vi.fn().mockReturnValue({
+        authType: 'openai',
+        enableOpenAILogging: false,
+      }),
+    } as unknown as Config;
+    mockOpenAIClient = {
+      chat: {
+        completions: {
+          create: vi.fn(),
+        },
+      },
+    };
+    vi.mocked(OpenAI).mockImplementation(() => mockOpenAIClient);
+    generator = new OpenAIContentGenerator('test-api-key', 'qwen3', mockConfig);
+  });
+
+  it('should turn Hermes-style calls in streamed content into function calls', async () => {
+    const parts = await streamParts([
+      chunk({ content: 'Checking.<tool_' }),
+      chunk({ content: 'call>{"name": "read_file", "arguments": ' }),
+      chunk({ content: '{"path": "a.ts"}}</tool_call>' }, 'stop'),
+    ]);
+
+    expect(parts.flat()).toEqual([
+      { text: 'Checking.' },
+      {
+        functionCall: {
+          id: expect.stringMatching(/^call_/),
+          name: 'read_file',
+          args: { path: 'a.ts' },
+        },
+      },
+    ]);
+  });
+
+  it('should leave markers alone when no tools were offered', async () => {
+    mockOpenAIClient.chat.completions.create.mockResolvedValue({
+      id: 'completion',
+      object: 'chat.completion',
+      created: 0,
+      model: 'qwen3',
+      choices: [
+        {
+          index: 0,
+          message: { role: 'assistant', content: 'Use <tool_call> tags.' },
+          finish_reason: 'stop',
+        },
+      ],
+    });
+
+    const response = await generator.generateContent({
+      model: 'qwen3',
+      contents: 'how do I call tools?',
+    });
+
+    expect(response.candidates?.[0]?.content?.parts).toEqual([
+      { text: 'Use <tool_call> tags.' },
+    ]);
+  });
+
+  it('should use the parser configured for the model', async () => {
+    generator = new OpenAIContentGenerator('test-api-key', 'mistral-7b', {
+      getContentGeneratorConfig: () => ({
+        toolCallParsers: { 'mistral-7b': 'mistral' },
+      }),
+    } as unknown as Config);
+    const parts = await streamParts([
+      chunk({ content: '<tool_call>{"name": "read_file"}</tool_call>' }),
+      chunk({ content: '[TOOL_CALLS]read_file[ARGS]{}' }, 'stop'),
+    ]);
+
+    expect(parts.flat()).toEqual([
+      { text: '<tool_call>{"name": "read_file"}</tool_call>' },
+      {
+        functionCall: {
+          id: expect.any(String),
+          name: 'read_file',
+          args: {},
+        },
+      },
+    ]);
+  });
+});
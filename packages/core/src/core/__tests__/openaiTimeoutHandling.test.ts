@@ -7,6 +7,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { OpenAIContentGenerator } from '../openaiContentGenerator.js';
 import { Config } from '../../config/config.js';
+import { isProviderUnavailableError } from '../../utils/providerErrors.js';
 import OpenAI from 'openai';
 
 // Mock OpenAI
@@ -223,6 +224,30 @@ describe('OpenAIContentGenerator Timeout Handling', () => {
         expect(errorMessage).toContain('Consider using non-streaming mode');
       }
     });
+
+    it('should keep a timeout before the first chunk as the cause, for provider fallback', async () => {
+      const timeoutError = new DOMException(
+        'The operation was aborted due to timeout',
+        'TimeoutError',
+      );
+      mockOpenAIClient.chat.completions.create.mockResolvedValue({
+        [Symbol.asyncIterator]: () => ({
+          next: () => Promise.reject(timeoutError),
+        }),
+      });
+
+      const stream = await generator.generateContentStream({
+        contents: [{ role: 'user' as const, parts: [{ text: 'Hello' }] }],
+        model: 'gpt-4',
+      });
+      const error = await stream.next().catch((e: unknown) => e);
+
+      expect(error).toMatchObject({
+        message: expect.stringContaining('Streaming timeout troubleshooting:'),
+        cause: timeoutError,
+      });
+      expect(isProviderUnavailableError(error)).toBe(true);
+    });
   });
 
   describe('timeout configuration', () => {
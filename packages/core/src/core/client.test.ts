@@ -4,7 +4,15 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  describe,
+  it,
+  expect,
+  vi,
+  beforeEach,
+  afterEach,
+  MockInstance,
+} from 'vitest';
 
 import {
   Chat,
@@ -18,11 +26,12 @@ import { AuthType, ContentGenerator } from './contentGenerator.js';
 import { GeminiChat } from './geminiChat.js';
 import { Config } from '../config/config.js';
 import { GeminiEventType, Turn } from './turn.js';
-import { getCoreSystemPrompt } from './prompts.js';
+import { getCoreSystemPrompt, getCompressionPrompt } from './prompts.js';
 import { DEFAULT_FLASH_MODEL } from '../config/models.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
 import { setSimulate429 } from '../utils/testUtils.js';
 import { tokenLimit } from './tokenLimits.js';
+import { logUtilityModelCall } from '../telemetry/loggers.js';
 
 // --- Mocks ---
 const mockChatCreateFn = vi.fn();
@@ -48,6 +57,8 @@ vi.mock('./turn', () => {
     GeminiEventType: {
       MaxSessionTurns: 'MaxSessionTurns',
       ChatCompressed: 'ChatCompressed',
+      Error: 'error',
+      ProviderFallback: 'provider_fallback',
     },
   };
 });
@@ -71,6 +82,10 @@ vi.mock('../telemetry/index.js', () => ({
   logApiResponse: vi.fn(),
   logApiError: vi.fn(),
 }));
+vi.mock('../telemetry/loggers.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../telemetry/loggers.js')>()),
+  logUtilityModelCall: vi.fn(),
+}));
 
 describe('findIndexAfterFraction', () => {
   const history: Content[] = [
@@ -168,6 +183,7 @@ describe('Gemini Client (client.ts)', () => {
     const mockToolRegistry = {
       getFunctionDeclarations: vi.fn().mockReturnValue([]),
       getTool: vi.fn().mockReturnValue(null),
+      addChangeListener: vi.fn(),
     };
     const fileService = new FileDiscoveryService('/test/dir');
     const MockedConfig = vi.mocked(Config, true);
@@ -198,6 +214,7 @@ describe('Gemini Client (client.ts)', () => {
         getQuotaErrorOccurred: vi.fn().mockReturnValue(false),
         setQuotaErrorOccurred: vi.fn(),
         getNoBrowser: vi.fn().mockReturnValue(false),
+        getFallbackChain: vi.fn().mockReturnValue([]),
       };
       return mock as unknown as Config;
     });
@@ -419,6 +436,141 @@ describe('Gemini Client (client.ts)', () => {
         contents,
       });
     });
+    it('should recover JSON that the model wrapped in chatter', async () => {
+      const mockGenerator: Partial<ContentGenerator> = {
+        countTokens: vi.fn().mockResolvedValue({ totalTokens: 1 }),
+        generateContent: mockGenerateContentFn.mockResolvedValueOnce({
+          candidates: [
+            {
+              content: {
+                parts: [
+                  {
+                    text: 'Here you go:\n```json\n{"next_speaker": "user",}\n```',
+                  },
+                ],
+              },
+            },
+          ],
+        }),
+      };
+      client['contentGenerator'] = mockGenerator as ContentGenerator;
+
+      await expect(
+        client.generateJson(
+          [{ role: 'user', parts: [{ text: 'hello' }] }],
+          { type: 'object' },
+          new AbortController().signal,
+        ),
+      ).resolves.toEqual({ next_speaker: 'user' });
+    });
+  });
+
+  describe('generateUtilityJson', () => {
+    const contents = [{ role: 'user', parts: [{ text: 'hello' }] }];
+    const schema = { type: 'object' };
+
+    beforeEach(() => {
+      client['config'].getUtilityModel = vi
+        .fn()
+        .mockReturnValue('utility-model');
+    });
+
+    it('should call the utility model for the helper and log the call', async () => {
+      const mockGenerator: Partial<ContentGenerator> = {
+        generateContent: mockGenerateContentFn.mockResolvedValueOnce({
+          candidates: [{ content: { parts: [{ text: '{"a": 1}' }] } }],
+          usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3 },
+        }),
+      };
+      client['contentGenerator'] = mockGenerator as ContentGenerator;
+
+      await expect(
+        client.generateUtilityJson(
+          contents,
+          schema,
+          new AbortController().signal,
+          'nextSpeaker',
+        ),
+      ).resolves.toEqual({ a: 1 });
+
+      expect(client['config'].getUtilityModel).toHaveBeenCalledWith(
+        'nextSpeaker',
+      );
+      expect(mockGenerateContentFn).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'utility-model' }),
+      );
+      expect(logUtilityModelCall).toHaveBeenCalledWith(
+        client['config'],
+        expect.objectContaining({
+          helper: 'nextSpeaker',
+          model: 'utility-model',
+          input_token_count: 12,
+          output_token_count: 3,
+          success: true,
+        }),
+      );
+    });
+
+    it('should log failed calls', async () => {
+      const mockGenerator: Partial<ContentGenerator> = {
+        generateContent: vi.fn().mockRejectedValue(new Error('offline')),
+      };
+      client['contentGenerator'] = mockGenerator as ContentGenerator;
+
+      await expect(
+        client.generateUtilityJson(
+          contents,
+          schema,
+          new AbortController().signal,
+          'editCorrector',
+        ),
+      ).rejects.toThrow('offline');
+
+      expect(logUtilityModelCall).toHaveBeenCalledWith(
+        client['config'],
+        expect.objectContaining({
+          helper: 'editCorrector',
+          success: false,
+          error: 'Failed to generate JSON content: offline',
+        }),
+      );
+    });
+
+    it('should use a generator of its own for another local model', async () => {
+      const helperGenerator: Partial<ContentGenerator> = {
+        generateContent: vi.fn().mockResolvedValue({
+          candidates: [{ content: { parts: [{ text: '{}' }] } }],
+        }),
+      };
+      const getGeneratorForModel = vi.fn().mockResolvedValue(helperGenerator);
+      const ollamaConfig = {
+        model: 'qwen3:32b',
+        authType: AuthType.USE_OLLAMA,
+      };
+      vi.mocked(client['config'].getContentGeneratorConfig).mockReturnValue(
+        ollamaConfig,
+      );
+      client['config'].getModelSwitchingService = vi
+        .fn()
+        .mockReturnValue({ getGeneratorForModel });
+      client['contentGenerator'] = {
+        generateContent: mockGenerateContentFn,
+      } as unknown as ContentGenerator;
+
+      await client.generateUtilityJson(
+        contents,
+        schema,
+        new AbortController().signal,
+        'summarizer',
+      );
+
+      expect(getGeneratorForModel).toHaveBeenCalledWith(
+        'utility-model',
+        ollamaConfig,
+      );
+      expect(helperGenerator.generateContent).toHaveBeenCalled();
+      expect(mockGenerateContentFn).not.toHaveBeenCalled();
+    });
   });
 
   describe('addHistory', () => {
@@ -467,10 +619,36 @@ describe('Gemini Client (client.ts)', () => {
     });
   });
 
+  describe('switchContentGenerator', () => {
+    it('should use the new generator and replace the history', async () => {
+      const initialChat = client.getChat();
+      const newGenerator = {} as ContentGenerator;
+      const carriedHistory: Content[] = [
+        { role: 'user', parts: [{ text: 'carried over' }] },
+        { role: 'model', parts: [{ text: 'ok' }] },
+      ];
+
+      await client.switchContentGenerator(newGenerator, carriedHistory);
+
+      expect(client.getContentGenerator()).toBe(newGenerator);
+      expect(client.getChat()).not.toBe(initialChat);
+      expect(client.getHistory()).toEqual(carriedHistory);
+    });
+  });
+
   describe('tryCompressChat', () => {
     const mockCountTokens = vi.fn();
-    const mockSendMessage = vi.fn();
     const mockGetHistory = vi.fn();
+    let mockGenerateUtilityContent: MockInstance<
+      GeminiClient['generateUtilityContent']
+    >;
+    const summaryResponse = {
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text: 'This is a summary.' }] },
+        },
+      ],
+    } as GenerateContentResponse;
 
     beforeEach(() => {
       vi.mock('./tokenLimits', () => ({
@@ -485,8 +663,9 @@ describe('Gemini Client (client.ts)', () => {
         getHistory: mockGetHistory,
         addHistory: vi.fn(),
         setHistory: vi.fn(),
-        sendMessage: mockSendMessage,
       } as unknown as GeminiChat;
+
+      mockGenerateUtilityContent = vi.spyOn(client, 'generateUtilityContent');
     });
 
     it('should not trigger summarization if token count is below threshold', async () => {
@@ -523,18 +702,30 @@ describe('Gemini Client (client.ts)', () => {
         .mockResolvedValueOnce({ totalTokens: originalTokenCount }) // First call for the check
         .mockResolvedValueOnce({ totalTokens: newTokenCount }); // Second call for the new history
 
-      // Mock the summary response from the chat
-      mockSendMessage.mockResolvedValue({
-        role: 'model',
-        parts: [{ text: 'This is a summary.' }],
-      });
+      // Mock the summary response from the utility model
+      mockGenerateUtilityContent.mockResolvedValue(summaryResponse);
 
       const initialChat = client.getChat();
       const result = await client.tryCompressChat('prompt-id-3');
       const newChat = client.getChat();
 
       expect(tokenLimit).toHaveBeenCalled();
-      expect(mockSendMessage).toHaveBeenCalled();
+      expect(mockGenerateUtilityContent).toHaveBeenCalledWith(
+        [
+          // The only message starts the kept history, so nothing precedes it
+          {
+            role: 'user',
+            parts: [
+              {
+                text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
+              },
+            ],
+          },
+        ],
+        { systemInstruction: { text: getCompressionPrompt() } },
+        expect.any(AbortSignal),
+        'compression',
+      );
 
       // Assert that summarization happened and returned the correct stats
       expect(result).toEqual({
@@ -575,18 +766,15 @@ describe('Gemini Client (client.ts)', () => {
         .mockResolvedValueOnce({ totalTokens: originalTokenCount }) // First call for the check
         .mockResolvedValueOnce({ totalTokens: newTokenCount }); // Second call for the new history
 
-      // Mock the summary response from the chat
-      mockSendMessage.mockResolvedValue({
-        role: 'model',
-        parts: [{ text: 'This is a summary.' }],
-      });
+      // Mock the summary response from the utility model
+      mockGenerateUtilityContent.mockResolvedValue(summaryResponse);
 
       const initialChat = client.getChat();
       const result = await client.tryCompressChat('prompt-id-3');
       const newChat = client.getChat();
 
       expect(tokenLimit).toHaveBeenCalled();
-      expect(mockSendMessage).toHaveBeenCalled();
+      expect(mockGenerateUtilityContent).toHaveBeenCalled();
 
       // Assert that summarization happened and returned the correct stats
       expect(result).toEqual({
@@ -616,17 +804,14 @@ describe('Gemini Client (client.ts)', () => {
         .mockResolvedValueOnce({ totalTokens: originalTokenCount })
         .mockResolvedValueOnce({ totalTokens: newTokenCount });
 
-      // Mock the summary response from the chat
-      mockSendMessage.mockResolvedValue({
-        role: 'model',
-        parts: [{ text: 'This is a summary.' }],
-      });
+      // Mock the summary response from the utility model
+      mockGenerateUtilityContent.mockResolvedValue(summaryResponse);
 
       const initialChat = client.getChat();
       const result = await client.tryCompressChat('prompt-id-1', true); // force = true
       const newChat = client.getChat();
 
-      expect(mockSendMessage).toHaveBeenCalled();
+      expect(mockGenerateUtilityContent).toHaveBeenCalled();
 
       expect(result).toEqual({
         originalTokenCount,
@@ -828,6 +1013,114 @@ describe('Gemini Client (client.ts)', () => {
       expect(mockTurnRunFn).toHaveBeenCalledTimes(MAX_SESSION_TURNS);
     });
 
+    describe('provider fallback', () => {
+      const fallback = {
+        fromProvider: 'ollama',
+        fromModel: 'qwen3:32b',
+        toProvider: 'lm-studio',
+        toModel: 'qwen2.5-coder-7b',
+        reason: 'Ollama API error: fetch failed',
+        compression: null,
+      };
+      let fallbackToNextProvider: ReturnType<typeof vi.fn>;
+
+      beforeEach(() => {
+        const mockChat: Partial<GeminiChat> = {
+          addHistory: vi.fn(),
+          getHistory: vi.fn().mockReturnValue([]),
+        };
+        client['chat'] = mockChat as GeminiChat;
+        client['contentGenerator'] = {
+          countTokens: vi.fn().mockResolvedValue({ totalTokens: 0 }),
+        } as unknown as ContentGenerator;
+
+        fallbackToNextProvider = vi.fn().mockResolvedValue(fallback);
+        vi.spyOn(client['config'], 'getFallbackChain').mockReturnValue([
+          { provider: AuthType.USE_LM_STUDIO },
+        ]);
+        client['config'].getModelSwitchingService = vi.fn().mockReturnValue({
+          fallbackToNextProvider,
+        });
+      });
+
+      const collect = async () => {
+        const events = [];
+        for await (const event of client.sendMessageStream(
+          [{ text: 'Hi' }],
+          new AbortController().signal,
+          'prompt-id-fallback',
+        )) {
+          events.push(event);
+        }
+        return events;
+      };
+
+      it('should resend the request to the next backend when the server is down', async () => {
+        const error = {
+          message: 'Ollama API error: fetch failed',
+          cause: { code: 'ECONNREFUSED' },
+        };
+        mockTurnRunFn
+          .mockReturnValueOnce(
+            (async function* () {
+              yield { type: 'error', value: { error } };
+            })(),
+          )
+          .mockReturnValueOnce(
+            (async function* () {
+              yield { type: 'content', value: 'Hello' };
+            })(),
+          );
+
+        const events = await collect();
+
+        expect(fallbackToNextProvider).toHaveBeenCalledWith(
+          'Ollama API error: fetch failed',
+          'prompt-id-fallback',
+        );
+        expect(events).toEqual([
+          { type: GeminiEventType.ProviderFallback, value: fallback },
+          { type: 'content', value: 'Hello' },
+        ]);
+        expect(mockTurnRunFn).toHaveBeenCalledTimes(2);
+      });
+
+      it('should report errors that another backend would not fix', async () => {
+        const errorEvent = {
+          type: 'error',
+          value: { error: { message: 'Invalid API key', status: 401 } },
+        };
+        mockTurnRunFn.mockReturnValueOnce(
+          (async function* () {
+            yield errorEvent;
+          })(),
+        );
+
+        const events = await collect();
+
+        expect(fallbackToNextProvider).not.toHaveBeenCalled();
+        expect(events).toEqual([errorEvent]);
+      });
+
+      it('should not resend once part of the answer was shown', async () => {
+        const errorEvent = {
+          type: 'error',
+          value: { error: { message: '502 Bad Gateway', status: 502 } },
+        };
+        mockTurnRunFn.mockReturnValueOnce(
+          (async function* () {
+            yield { type: 'content', value: 'Hel' };
+            yield errorEvent;
+          })(),
+        );
+
+        const events = await collect();
+
+        expect(fallbackToNextProvider).not.toHaveBeenCalled();
+        expect(events).toEqual([{ type: 'content', value: 'Hel' }, errorEvent]);
+      });
+    });
+
     it('should respect MAX_TURNS limit even when turns parameter is set to a large value', async () => {
       // This test verifies that the infinite loop protection works even when
       // someone tries to bypass it by calling with a very large turns value
@@ -942,7 +1235,7 @@ describe('Gemini Client (client.ts)', () => {
   });
 
   describe('tryCompressChat', () => {
-    it('should use current model from config for token counting after sendMessage', async () => {
+    it('should use current model from config for token counting after the summary call', async () => {
       const initialModel = client['config'].getModel();
 
       const mockCountTokens = vi
@@ -950,8 +1243,6 @@ describe('Gemini Client (client.ts)', () => {
         .mockResolvedValueOnce({ totalTokens: 100000 })
         .mockResolvedValueOnce({ totalTokens: 5000 });
 
-      const mockSendMessage = vi.fn().mockResolvedValue({ text: 'Summary' });
-
       const mockChatHistory = [
         { role: 'user', parts: [{ text: 'Long conversation' }] },
         { role: 'model', parts: [{ text: 'Long response' }] },
@@ -960,7 +1251,6 @@ describe('Gemini Client (client.ts)', () => {
       const mockChat: Partial<GeminiChat> = {
         getHistory: vi.fn().mockReturnValue(mockChatHistory),
         setHistory: vi.fn(),
-        sendMessage: mockSendMessage,
       };
 
       const mockGenerator: Partial<ContentGenerator> = {
@@ -977,6 +1267,9 @@ describe('Gemini Client (client.ts)', () => {
       client['chat'] = mockChat as GeminiChat;
       client['contentGenerator'] = mockGenerator as ContentGenerator;
       client['startChat'] = vi.fn().mockResolvedValue(mockChat);
+      vi.spyOn(client, 'generateUtilityContent').mockResolvedValue({
+        candidates: [{ content: { parts: [{ text: 'Summary' }] } }],
+      } as GenerateContentResponse);
 
       const result = await client.tryCompressChat('prompt-id-4', true);
 
@@ -13,6 +13,7 @@ import {
   Content,
   Tool,
   GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
 } from '@google/genai';
 import { getFolderStructure } from '../utils/getFolderStructure.js';
 import {
@@ -20,6 +21,8 @@ import {
   ServerGeminiStreamEvent,
   GeminiEventType,
   ChatCompressionInfo,
+  ProviderFallbackInfo,
+  StructuredError,
 } from './turn.js';
 import { Config } from '../config/config.js';
 import { getCoreSystemPrompt, getCompressionPrompt } from './prompts.js';
@@ -30,6 +33,7 @@ import { reportError } from '../utils/errorReporting.js';
 import { GeminiChat } from './geminiChat.js';
 import { retryWithBackoff } from '../utils/retry.js';
 import { getErrorMessage } from '../utils/errors.js';
+import { isProviderUnavailableError } from '../utils/providerErrors.js';
 import { isFunctionResponse } from '../utils/messageInspectors.js';
 import { tokenLimit } from './tokenLimits.js';
 import {
@@ -41,6 +45,20 @@ import {
 import { ProxyAgent, setGlobalDispatcher } from 'undici';
 import { DEFAULT_FLASH_MODEL } from '../config/models.js';
 import { LoopDetectionService } from '../services/loopDetectionService.js';
+import { parseModelJson } from '../utils/jsonRepair.js';
+import { UtilityHelper } from './modelTypes.js';
+import { logUtilityModelCall } from '../telemetry/loggers.js';
+import { UtilityModelCallEvent } from '../telemetry/types.js';
+
+/**
+ * Providers whose content generators are bound to a single model, so a
+ * helper call on another model needs a generator of its own.
+ */
+const MODEL_BOUND_AUTH_TYPES: ReadonlySet<string> = new Set([
+  AuthType.USE_OLLAMA,
+  AuthType.USE_LM_STUDIO,
+  AuthType.USE_OPENAI,
+]);
 
 function isThinkingSupported(model: string) {
   if (model.startsWith('gemini-2.5')) return true;
@@ -83,6 +101,7 @@ export function findIndexAfterFraction(
 export class GeminiClient {
   private chat?: GeminiChat;
   private contentGenerator?: ContentGenerator;
+  private removeToolsListener?: () => void;
   private embeddingModel: string;
   private generateContentConfig: GenerateContentConfig = {
     temperature: 0,
@@ -120,6 +139,16 @@ export class GeminiClient {
       this.config.getSessionId(),
     );
     this.chat = await this.startChat();
+
+    // Keep the chat's tools in step with the registry, e.g. when MCP servers
+    // come and go or change their tools.
+    const toolRegistry = await this.config.getToolRegistry();
+    this.removeToolsListener?.();
+    this.removeToolsListener = toolRegistry.addChangeListener(() =>
+      this.chat?.setTools([
+        { functionDeclarations: toolRegistry.getFunctionDeclarations() },
+      ]),
+    );
   }
 
   getContentGenerator(): ContentGenerator {
@@ -129,6 +158,25 @@ export class GeminiClient {
     return this.contentGenerator;
   }
 
+  /**
+   * Returns a generator that will actually serve `model`. Gemini takes the
+   * model per request; local and OpenAI-compatible generators are bound to
+   * the model they were created for.
+   */
+  private async getGeneratorForModel(model: string): Promise<ContentGenerator> {
+    const contentGeneratorConfig = this.config.getContentGeneratorConfig();
+    if (
+      !contentGeneratorConfig?.authType ||
+      model === contentGeneratorConfig.model ||
+      !MODEL_BOUND_AUTH_TYPES.has(contentGeneratorConfig.authType)
+    ) {
+      return this.getContentGenerator();
+    }
+    return this.config
+      .getModelSwitchingService()
+      .getGeneratorForModel(model, contentGeneratorConfig);
+  }
+
   async addHistory(content: Content) {
     this.getChat().addHistory(content);
   }
@@ -156,6 +204,19 @@ export class GeminiClient {
     this.chat = await this.startChat();
   }
 
+  /**
+   * Replaces the content generator, e.g. after switching models, and restarts
+   * the chat with the given history in place of the initial context.
+   */
+  async switchContentGenerator(
+    contentGenerator: ContentGenerator,
+    history: Content[],
+  ): Promise<void> {
+    this.contentGenerator = contentGenerator;
+    this.chat = await this.startChat();
+    this.chat.setHistory(history);
+  }
+
   private async getEnvironment(): Promise<Part[]> {
     const cwd = this.config.getWorkingDir();
     const today = new Date().toLocaleDateString(undefined, {
@@ -296,21 +357,42 @@ export class GeminiClient {
     }
 
     // Track the original model from the first call to detect model switching
-    const initialModel = originalModel || this.config.getModel();
+    let initialModel = originalModel || this.config.getModel();
 
     const compressed = await this.tryCompressChat(prompt_id);
 
     if (compressed) {
       yield { type: GeminiEventType.ChatCompressed, value: compressed };
     }
-    const turn = new Turn(this.getChat(), prompt_id);
-    const resultStream = turn.run(request, signal);
-    for await (const event of resultStream) {
-      if (this.loopDetector.addAndCheck(event)) {
-        yield { type: GeminiEventType.LoopDetected };
-        return turn;
+    let turn = new Turn(this.getChat(), prompt_id);
+    for (;;) {
+      let fallback: ProviderFallbackInfo | null = null;
+      let producedOutput = false;
+      const resultStream = turn.run(request, signal);
+      for await (const event of resultStream) {
+        if (event.type === GeminiEventType.Error && !producedOutput) {
+          fallback = await this.tryProviderFallback(
+            event.value.error,
+            prompt_id,
+          );
+          if (fallback) {
+            break;
+          }
+        }
+        if (this.loopDetector.addAndCheck(event)) {
+          yield { type: GeminiEventType.LoopDetected };
+          return turn;
+        }
+        producedOutput = true;
+        yield event;
+      }
+      if (!fallback) {
+        break;
       }
-      yield event;
+      // Nothing reached the user yet, so the request is simply sent again
+      yield { type: GeminiEventType.ProviderFallback, value: fallback };
+      initialModel = this.config.getModel();
+      turn = new Turn(this.getChat(), prompt_id);
     }
     if (!turn.pendingToolCalls.length && signal && !signal.aborted) {
       // Check if model was switched during the call (likely due to quota error)
@@ -349,10 +431,118 @@ export class GeminiClient {
     model?: string,
     config: GenerateContentConfig = {},
   ): Promise<Record<string, unknown>> {
+    const { json } = await this.requestJson(
+      contents,
+      schema,
+      abortSignal,
+      model,
+      config,
+    );
+    return json;
+  }
+
+  /**
+   * Like {@link generateJson}, but on the utility model configured for
+   * `helper`, with the call's time and tokens logged to telemetry.
+   */
+  async generateUtilityJson(
+    contents: Content[],
+    schema: SchemaUnion,
+    abortSignal: AbortSignal,
+    helper: UtilityHelper,
+    config: GenerateContentConfig = {},
+  ): Promise<Record<string, unknown>> {
+    const model = this.config.getUtilityModel(helper);
+    const startTime = Date.now();
+    try {
+      const { json, usage } = await this.requestJson(
+        contents,
+        schema,
+        abortSignal,
+        model,
+        config,
+      );
+      this.logUtilityCall(helper, model, startTime, usage);
+      return json;
+    } catch (error) {
+      this.logUtilityCall(
+        helper,
+        model,
+        startTime,
+        undefined,
+        getErrorMessage(error),
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Like {@link generateContent}, but on the utility model configured for
+   * `helper`, with the call's time and tokens logged to telemetry.
+   */
+  async generateUtilityContent(
+    contents: Content[],
+    generationConfig: GenerateContentConfig,
+    abortSignal: AbortSignal,
+    helper: UtilityHelper,
+  ): Promise<GenerateContentResponse> {
+    const model = this.config.getUtilityModel(helper);
+    const startTime = Date.now();
+    try {
+      const response = await this.generateContent(
+        contents,
+        generationConfig,
+        abortSignal,
+        model,
+      );
+      this.logUtilityCall(helper, model, startTime, response.usageMetadata);
+      return response;
+    } catch (error) {
+      this.logUtilityCall(
+        helper,
+        model,
+        startTime,
+        undefined,
+        getErrorMessage(error),
+      );
+      throw error;
+    }
+  }
+
+  private logUtilityCall(
+    helper: UtilityHelper,
+    model: string,
+    startTime: number,
+    usage?: GenerateContentResponseUsageMetadata,
+    error?: string,
+  ) {
+    logUtilityModelCall(
+      this.config,
+      new UtilityModelCallEvent(
+        helper,
+        model,
+        Date.now() - startTime,
+        usage,
+        error,
+      ),
+    );
+  }
+
+  private async requestJson(
+    contents: Content[],
+    schema: SchemaUnion,
+    abortSignal: AbortSignal,
+    model?: string,
+    config: GenerateContentConfig = {},
+  ): Promise<{
+    json: Record<string, unknown>;
+    usage?: GenerateContentResponseUsageMetadata;
+  }> {
     // Use current model from config instead of hardcoded Flash model
     const modelToUse =
       model || this.config.getModel() || DEFAULT_FLASH_MODEL;
     try {
+      const generator = await this.getGeneratorForModel(modelToUse);
       const userMemory = this.config.getUserMemory();
       const systemInstruction = getCoreSystemPrompt(userMemory);
       const requestConfig = {
@@ -362,7 +552,7 @@ export class GeminiClient {
       };
 
       const apiCall = () =>
-        this.getContentGenerator().generateContent({
+        generator.generateContent({
           model: modelToUse,
           config: {
             ...requestConfig,
@@ -393,30 +583,11 @@ export class GeminiClient {
         throw error;
       }
       try {
-        // Try to extract JSON from various formats
-        const extractors = [
-          // Match ```json ... ``` or ``` ... ``` blocks
-          /```(?:json)?\s*\n?([\s\S]*?)\n?```/,
-          // Match inline code blocks `{...}`
-          /`(\{[\s\S]*?\})`/,
-          // Match raw JSON objects or arrays
-          /(\{[\s\S]*\}|\[[\s\S]*\])/,
-        ];
-
-        for (const regex of extractors) {
-          const match = text.match(regex);
-          if (match && match[1]) {
-            try {
-              return JSON.parse(match[1].trim());
-            } catch {
-              // Continue to next pattern if parsing fails
-              continue;
-            }
-          }
-        }
-
-        // If no patterns matched, try parsing the entire text
-        return JSON.parse(text.trim());
+        // Local models often wrap JSON in a fence, reasoning or chatter
+        return {
+          json: parseModelJson(text) as Record<string, unknown>,
+          usage: result.usageMetadata,
+        };
       } catch (parseError) {
         await reportError(
           parseError,
@@ -470,7 +641,8 @@ export class GeminiClient {
 
     try {
       const userMemory = this.config.getUserMemory();
-      const systemInstruction = getCoreSystemPrompt(userMemory);
+      const systemInstruction =
+        configToUse.systemInstruction ?? getCoreSystemPrompt(userMemory);
 
       const requestConfig = {
         abortSignal,
@@ -478,8 +650,9 @@ export class GeminiClient {
         systemInstruction,
       };
 
+      const generator = await this.getGeneratorForModel(modelToUse);
       const apiCall = () =>
-        this.getContentGenerator().generateContent({
+        generator.generateContent({
           model: modelToUse,
           config: requestConfig,
           contents,
@@ -547,7 +720,7 @@ export class GeminiClient {
   }
 
   async tryCompressChat(
-    prompt_id: string,
+    _prompt_id: string,
     force: boolean = false,
   ): Promise<ChatCompressionInfo | null> {
     const curatedHistory = this.getChat().getHistory(true);
@@ -593,19 +766,23 @@ export class GeminiClient {
     const historyToCompress = curatedHistory.slice(0, compressBeforeIndex);
     const historyToKeep = curatedHistory.slice(compressBeforeIndex);
 
-    this.getChat().setHistory(historyToCompress);
-
-    const { text: summary } = await this.getChat().sendMessage(
-      {
-        message: {
-          text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
-        },
-        config: {
-          systemInstruction: { text: getCompressionPrompt() },
+    const summaryResponse = await this.generateUtilityContent(
+      [
+        ...historyToCompress,
+        {
+          role: 'user',
+          parts: [
+            {
+              text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
+            },
+          ],
         },
-      },
-      prompt_id,
+      ],
+      { systemInstruction: { text: getCompressionPrompt() } },
+      new AbortController().signal,
+      'compression',
     );
+    const summary = getResponseText(summaryResponse) ?? '';
     this.chat = await this.startChat([
       {
         role: 'user',
@@ -620,7 +797,7 @@ export class GeminiClient {
 
     const { totalTokens: newTokenCount } =
       await this.getContentGenerator().countTokens({
-        // model might change after calling `sendMessage`, so we get the newest value from config
+        // model might have changed during the summary call, so we get the newest value from config
         model: this.config.getModel(),
         contents: this.getChat().getHistory(),
       });
@@ -635,6 +812,30 @@ export class GeminiClient {
     };
   }
 
+  /**
+   * Moves the session to the next backend of the `fallbackChain` setting if
+   * `error` means the current one is unavailable.
+   */
+  private async tryProviderFallback(
+    error: StructuredError,
+    prompt_id: string,
+  ): Promise<ProviderFallbackInfo | null> {
+    if (
+      this.config.getFallbackChain().length === 0 ||
+      !isProviderUnavailableError(error)
+    ) {
+      return null;
+    }
+    try {
+      return await this.config
+        .getModelSwitchingService()
+        .fallbackToNextProvider(error.message, prompt_id);
+    } catch (fallbackError) {
+      console.warn('Provider fallback failed:', fallbackError);
+      return null;
+    }
+  }
+
   /**
    * Handles fallback to Flash model when persistent 429 errors occur for OAuth users.
    * Uses a fallback handler if provided by the config, otherwise returns null.
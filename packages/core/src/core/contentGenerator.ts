@@ -14,7 +14,13 @@ import {
   GoogleGenAI,
 } from '@google/genai';
 import { createCodeAssistContentGenerator } from '../code_assist/codeAssist.js';
-import { DEFAULT_MODEL } from '../config/models.js';
+import {
+  DEFAULT_EMBEDDING_MODEL,
+  DEFAULT_LM_STUDIO_EMBEDDING_MODEL,
+  DEFAULT_MODEL,
+  DEFAULT_OLLAMA_EMBEDDING_MODEL,
+  DEFAULT_OPENAI_EMBEDDING_MODEL,
+} from '../config/models.js';
 import { Config } from '../config/config.js';
 import { getEffectiveModel } from './modelCheck.js';
 import { UserTierId } from '../code_assist/types.js';
@@ -59,6 +65,12 @@ export type ContentGeneratorConfig = {
   timeout?: number;
   // Maximum retries for failed requests
   maxRetries?: number;
+  // Ollama context window (options.num_ctx); defaults to the model's context length
+  numCtx?: number;
+  // How long Ollama keeps the model loaded after a request, e.g. '10m' or -1
+  keepAlive?: string | number;
+  // Text tool-call parser per model name ('*' for any other model)
+  toolCallParsers?: Record<string, string>;
   samplingParams?: {
     top_p?: number;
     top_k?: number;
@@ -70,6 +82,23 @@ export type ContentGeneratorConfig = {
   };
 };
 
+/**
+ * The embedding model used when none is configured: one the provider serves
+ * out of the box (or, for Ollama, after `ollama pull nomic-embed-text`).
+ */
+export function getDefaultEmbeddingModel(authType: AuthType | undefined): string {
+  switch (authType) {
+    case AuthType.USE_OPENAI:
+      return DEFAULT_OPENAI_EMBEDDING_MODEL;
+    case AuthType.USE_OLLAMA:
+      return DEFAULT_OLLAMA_EMBEDDING_MODEL;
+    case AuthType.USE_LM_STUDIO:
+      return DEFAULT_LM_STUDIO_EMBEDDING_MODEL;
+    default:
+      return DEFAULT_EMBEDDING_MODEL;
+  }
+}
+
 export async function createContentGeneratorConfig(
   model: string | undefined,
   authType: AuthType | undefined,
@@ -141,12 +170,18 @@ export async function createContentGeneratorConfig(
 
   if (authType === AuthType.USE_OLLAMA) {
     const ollamaBaseUrl = process.env.OLLAMA_BASE_URL || 'http://localhost:11434';
+    const numCtx = Number(process.env.OLLAMA_NUM_CTX) || undefined;
+    const keepAlive = process.env.OLLAMA_KEEP_ALIVE;
     
     return {
       model: effectiveModel,
       apiKey: 'not-required',
       baseUrl: ollamaBaseUrl,
       authType,
+      ...(numCtx ? { numCtx } : {}),
+      ...(keepAlive
+        ? { keepAlive: isNaN(Number(keepAlive)) ? keepAlive : Number(keepAlive) }
+        : {}),
     };
   }
 
@@ -211,7 +246,12 @@ export async function createContentGenerator(
     );
 
     // Always use OpenAIContentGenerator, logging is controlled by enableOpenAILogging flag
-    return new OpenAIContentGenerator(config.apiKey, config.model, gcConfig);
+    return new OpenAIContentGenerator(
+      config.apiKey,
+      config.model,
+      gcConfig,
+      config.baseUrl,
+    );
   }
 
   if (config.authType === AuthType.USE_OLLAMA) {
@@ -223,7 +263,12 @@ export async function createContentGenerator(
       throw new Error('Ollama base URL is required');
     }
     
-    const generator = new OllamaContentGenerator(config.baseUrl, config.model, gcConfig);
+    const generator = new OllamaContentGenerator(
+      config.baseUrl,
+      config.model,
+      gcConfig,
+      { numCtx: config.numCtx, keepAlive: config.keepAlive },
+    );
     
     // Check if server is running
     const isHealthy = await generator.healthCheck();
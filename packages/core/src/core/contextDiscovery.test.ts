@@ -5,7 +5,11 @@
  */
 
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { fetchContextLength } from './contextDiscovery.js';
+import {
+  fetchContextLength,
+  lookupContextLength,
+  lookupVisionSupport
+} from './contextDiscovery.js';
 import { AuthType } from './contentGenerator.js';
 
 // Mock fetch globally
@@ -146,4 +150,91 @@ describe('fetchContextLength', () => {
       expect(result).toBe(32768);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('lookupContextLength', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should prefer the architecture-specific Ollama context length', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      json: async () => ({
+        model_info: {
+          'general.architecture': 'qwen3',
+          'qwen3.context_length': 40960
+        }
+      })
+    });
+
+    const result = await lookupContextLength(AuthType.USE_OLLAMA, 'qwen3:32b');
+
+    expect(result).toBe(40960);
+  });
+
+  it('should return undefined instead of guessing', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('Network error'));
+
+    expect(
+      await lookupContextLength(AuthType.USE_OLLAMA, 'llama3.2')
+    ).toBeUndefined();
+    expect(
+      await lookupContextLength(AuthType.USE_OPENAI, 'unknown-gpt-model')
+    ).toBeUndefined();
+    expect(
+      await lookupContextLength(AuthType.USE_GEMINI, 'gemini-2.5-pro')
+    ).toBeUndefined();
+  });
+});
+
+describe('lookupVisionSupport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should read Ollama model capabilities', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>)
+      .mockResolvedValueOnce({
+        json: async () => ({ capabilities: ['completion', 'vision'] })
+      })
+      .mockResolvedValueOnce({
+        json: async () => ({ capabilities: ['completion', 'tools'] })
+      });
+
+    expect(
+      await lookupVisionSupport(AuthType.USE_OLLAMA, 'qwen2.5vl:7b')
+    ).toBe(true);
+    expect(
+      await lookupVisionSupport(AuthType.USE_OLLAMA, 'qwen3:32b')
+    ).toBe(false);
+  });
+
+  it('should read the LM Studio model type', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ id: 'qwen2.5-vl-7b-instruct', type: 'vlm' })
+    });
+
+    expect(
+      await lookupVisionSupport(
+        AuthType.USE_LM_STUDIO,
+        'qwen2.5-vl-7b-instruct',
+        'http://localhost:1234'
+      )
+    ).toBe(true);
+    expect(global.fetch).toHaveBeenCalledWith(
+      'http://localhost:1234/api/v0/models/qwen2.5-vl-7b-instruct'
+    );
+  });
+
+  it('should return undefined when the provider does not say', async () => {
+    (global.fetch as ReturnType<typeof vi.fn>).mockRejectedValueOnce(new Error('Network error'));
+
+    expect(
+      await lookupVisionSupport(AuthType.USE_OLLAMA, 'llava')
+    ).toBeUndefined();
+    expect(
+      await lookupVisionSupport(AuthType.USE_OPENAI, 'gpt-4o')
+    ).toBeUndefined();
+  });
+});
@@ -6,11 +6,33 @@
 
 import { AuthType } from './contentGenerator.js';
 
+export const DEFAULT_CONTEXT_LENGTH = 32_768;
+
+/**
+ * Returns the context window of `model`, or DEFAULT_CONTEXT_LENGTH if the
+ * provider does not report it.
+ */
 export async function fetchContextLength(
   provider: AuthType,
   model: string,
   baseUrl?: string
 ): Promise<number> {
+  return (
+    (await lookupContextLength(provider, model, baseUrl)) ??
+    DEFAULT_CONTEXT_LENGTH
+  );
+}
+
+/**
+ * Asks the provider for the context window of `model`. Returns undefined if
+ * the provider cannot be reached or does not know the model, so that a guess
+ * is never mistaken for a discovered value.
+ */
+export async function lookupContextLength(
+  provider: AuthType,
+  model: string,
+  baseUrl?: string
+): Promise<number | undefined> {
   switch (provider) {
     case AuthType.USE_OLLAMA: {
       const url = `${baseUrl || 'http://localhost:11434'}/api/show`;
@@ -21,12 +43,14 @@ export async function fetchContextLength(
           body: JSON.stringify({ name: model })
         });
         const data = await res.json();
-        return data.model_info?.['general.context_length'] || 
-               data.context_length || 
-               32_768;
+        const architecture = data.model_info?.['general.architecture'];
+        return data.model_info?.[`${architecture}.context_length`] ||
+               data.model_info?.['general.context_length'] ||
+               data.context_length ||
+               undefined;
       } catch (error) {
         console.warn(`Failed to fetch context length for Ollama model ${model}:`, error);
-        return 32_768;
+        return undefined;
       }
     }
     
@@ -38,10 +62,10 @@ export async function fetchContextLength(
         const modelInfo = data.data?.find((m: { id: string; context_length?: number; max_tokens?: number }) => m.id === model);
         return modelInfo?.context_length || 
                modelInfo?.max_tokens || 
-               32_768;
+               undefined;
       } catch (error) {
         console.warn(`Failed to fetch context length for LM Studio model ${model}:`, error);
-        return 32_768;
+        return undefined;
       }
     }
     
@@ -52,10 +76,10 @@ export async function fetchContextLength(
           const res = await fetch('https://openrouter.ai/api/v1/models');
           const data = await res.json();
           const modelInfo = data.data?.find((m: { id: string; context_length?: number; max_tokens?: number }) => m.id === model);
-          return modelInfo?.context_length || 32_768;
+          return modelInfo?.context_length || undefined;
         } catch (error) {
           console.warn(`Failed to fetch context length for OpenRouter model ${model}:`, error);
-          return 32_768;
+          return undefined;
         }
       }
       // Default for OpenAI models
@@ -63,11 +87,68 @@ export async function fetchContextLength(
     }
     
     default:
-      return 32_768;
+      return undefined;
+  }
+}
+
+/**
+ * Asks the provider whether `model` reads images. Returns undefined if the
+ * provider cannot be reached or does not say.
+ */
+export async function lookupVisionSupport(
+  provider: AuthType,
+  model: string,
+  baseUrl?: string
+): Promise<boolean | undefined> {
+  try {
+    switch (provider) {
+      case AuthType.USE_OLLAMA: {
+        const res = await fetch(`${baseUrl || 'http://localhost:11434'}/api/show`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ name: model })
+        });
+        const data = await res.json();
+        if (Array.isArray(data.capabilities)) {
+          return data.capabilities.includes('vision');
+        }
+        // Servers without capabilities still list the vision projector
+        return data.projector_info ? true : undefined;
+      }
+
+      case AuthType.USE_LM_STUDIO: {
+        const res = await fetch(
+          `${baseUrl || 'http://localhost:1234'}/api/v0/models/${encodeURIComponent(model)}`
+        );
+        if (!res.ok) {
+          return undefined;
+        }
+        const data = await res.json();
+        return typeof data.type === 'string' ? data.type === 'vlm' : undefined;
+      }
+
+      case AuthType.USE_OPENAI: {
+        if (!baseUrl?.includes('openrouter')) {
+          return undefined;
+        }
+        const res = await fetch('https://openrouter.ai/api/v1/models');
+        const data = await res.json();
+        const modelInfo = data.data?.find((m: { id: string }) => m.id === model);
+        const modalities = modelInfo?.architecture?.input_modalities;
+        return Array.isArray(modalities) ? modalities.includes('image') : undefined;
+      }
+
+      default:
+        return undefined;
+    }
+  } catch (error) {
+    // lookupContextLength already warns when the provider is down
+    console.debug(`Failed to fetch vision support for model ${model}:`, error);
+    return undefined;
   }
 }
 
-function getOpenAIContextLength(model: string): number {
+function getOpenAIContextLength(model: string): number | undefined {
   // Known OpenAI model context lengths
   const contextLengths: Record<string, number> = {
     'gpt-4-turbo': 128_000,
@@ -86,5 +167,5 @@ function getOpenAIContextLength(model: string): number {
     }
   }
   
-  return 32_768; // Default fallback
+  return undefined;
 }
\ No newline at end of file
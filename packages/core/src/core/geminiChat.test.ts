@@ -469,4 +469,27 @@ describe('GeminiChat', () => {
       expect(history[1]).toEqual(content2);
     });
   });
+
+  describe('getHistory', () => {
+    it('should strip thought parts from the curated history', () => {
+      chat.setHistory([
+        { role: 'user', parts: [{ text: 'Question' }] },
+        {
+          role: 'model',
+          parts: [{ text: 'reasoning', thought: true }, { text: 'Answer' }],
+        },
+        { role: 'user', parts: [{ text: 'Follow-up' }] },
+        { role: 'model', parts: [{ text: 'only reasoning', thought: true }] },
+        { role: 'model', parts: [{ text: 'Second answer' }] },
+      ]);
+
+      expect(chat.getHistory(true)).toEqual([
+        { role: 'user', parts: [{ text: 'Question' }] },
+        { role: 'model', parts: [{ text: 'Answer' }] },
+        { role: 'user', parts: [{ text: 'Follow-up' }] },
+        { role: 'model', parts: [{ text: 'Second answer' }] },
+      ]);
+      expect(chat.getHistory()).toHaveLength(5);
+    });
+  });
 });
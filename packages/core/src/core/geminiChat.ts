@@ -15,6 +15,7 @@ import {
   createUserContent,
   Part,
   GenerateContentResponseUsageMetadata,
+  Tool,
 } from '@google/genai';
 import { retryWithBackoff } from '../utils/retry.js';
 import { isFunctionResponse } from '../utils/messageInspectors.js';
@@ -79,6 +80,19 @@ function validateHistory(history: Content[]) {
   }
 }
 
+/**
+ * Returns the content without its thought parts, or undefined if nothing but
+ * thoughts is left. Reasoning is shown to the user but never resent to the
+ * model, even when it reached the history through setHistory or addHistory.
+ */
+function withoutThoughtParts(content: Content): Content | undefined {
+  if (!content.parts?.some((part) => part.thought)) {
+    return content;
+  }
+  const parts = content.parts.filter((part) => !part.thought);
+  return parts.length > 0 ? { ...content, parts } : undefined;
+}
+
 /**
  * Extracts the curated (valid) history from a comprehensive history.
  *
@@ -109,7 +123,12 @@ function extractCuratedHistory(comprehensiveHistory: Content[]): Content[] {
         i++;
       }
       if (isValid) {
-        curatedHistory.push(...modelOutput);
+        for (const content of modelOutput) {
+          const answer = withoutThoughtParts(content);
+          if (answer) {
+            curatedHistory.push(answer);
+          }
+        }
       } else {
         // Remove the last user input when model content is invalid.
         curatedHistory.pop();
@@ -498,6 +517,13 @@ export class GeminiChat {
     this.history = history;
   }
 
+  /**
+   * Replaces the tools offered to the model in subsequent requests.
+   */
+  setTools(tools: Tool[]): void {
+    this.generationConfig.tools = tools;
+  }
+
   getFinalUsageMetadata(
     chunks: GenerateContentResponse[],
   ): GenerateContentResponseUsageMetadata | undefined {
@@ -4,25 +4,35 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import OpenAI from 'openai';
+import { GenerateContentParameters } from '@google/genai';
 import { OpenAIContentGenerator } from './openaiContentGenerator.js';
 import { Config } from '../config/config.js';
 
 /**
  * Content generator for LM Studio local LLM server.
  * LM Studio provides an OpenAI-compatible API, so we use OpenAIContentGenerator
- * by setting the appropriate environment variables.
+ * pointed at LM Studio's v1 endpoint.
  */
 export class LMStudioContentGenerator extends OpenAIContentGenerator {
   private baseUrl: string;
 
   constructor(baseUrl: string, model: string, config: Config) {
-    // Set environment variable for OpenAI base URL to LM Studio's v1 endpoint
-    process.env.OPENAI_BASE_URL = `${baseUrl}/v1`;
-    
     // Call parent constructor with dummy API key (not needed for LM Studio)
-    super('not-required', model, config);
+    super('not-required', model, config, `${baseUrl}/v1`);
     this.baseUrl = baseUrl;
   }
+
+  /**
+   * LM Studio enforces `json_schema` with a grammar but rejects `json_object`,
+   * so JSON without a schema is left to the prompt.
+   */
+  protected buildResponseFormat(
+    request: GenerateContentParameters,
+  ): OpenAI.Chat.ChatCompletionCreateParams['response_format'] {
+    const responseFormat = super.buildResponseFormat(request);
+    return responseFormat?.type === 'json_schema' ? responseFormat : undefined;
+  }
   
   /**
    * List available models from LM Studio server
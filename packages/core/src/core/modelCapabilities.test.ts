@@ -0,0 +1,160 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  ModelCapabilityRegistry,
+  modelCapabilityRegistry,
+} from './modelCapabilities.js';
+import {
+  lookupContextLength,
+  lookupVisionSupport,
+} from './contextDiscovery.js';
+import { AuthType } from './contentGenerator.js';
+import { tokenLimit } from './tokenLimits.js';
+
+vi.mock('./contextDiscovery.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./contextDiscovery.js')>();
+  return {
+    ...actual,
+    lookupContextLength: vi.fn(),
+    lookupVisionSupport: vi.fn(),
+  };
+});
+
+describe('ModelCapabilityRegistry', () => {
+  let tempDir: string;
+  let cachePath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-capabilities-'));
+    cachePath = path.join(tempDir, 'model_capabilities.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should cache discovered context lengths on disk', async () => {
+    vi.mocked(lookupContextLength).mockResolvedValue(40_960);
+    const registry = new ModelCapabilityRegistry(cachePath);
+
+    await expect(
+      registry.discover(
+        AuthType.USE_OLLAMA,
+        'qwen3:32b',
+        'http://gpu-box:11434',
+      ),
+    ).resolves.toEqual({ contextLength: 40_960 });
+
+    expect(lookupContextLength).toHaveBeenCalledWith(
+      AuthType.USE_OLLAMA,
+      'qwen3:32b',
+      'http://gpu-box:11434',
+    );
+    expect(JSON.parse(fs.readFileSync(cachePath, 'utf-8'))).toEqual({
+      'qwen3:32b': { contextLength: 40_960 },
+    });
+    // A new session knows the limit before asking the provider
+    expect(
+      new ModelCapabilityRegistry(cachePath).getContextLength('qwen3:32b'),
+    ).toBe(40_960);
+  });
+
+  it('should keep cached values when the provider does not answer', async () => {
+    fs.writeFileSync(
+      cachePath,
+      JSON.stringify({ 'qwen3:32b': { contextLength: 40_960 } }),
+    );
+    vi.mocked(lookupContextLength).mockResolvedValue(undefined);
+    const registry = new ModelCapabilityRegistry(cachePath);
+
+    await expect(
+      registry.resolveContextLength(AuthType.USE_OLLAMA, 'qwen3:32b'),
+    ).resolves.toBe(40_960);
+    await expect(
+      registry.resolveContextLength(AuthType.USE_OLLAMA, 'llama3.2'),
+    ).resolves.toBe(32_768);
+  });
+
+  it('should let settings override discovered values', async () => {
+    vi.mocked(lookupContextLength).mockResolvedValue(131_072);
+    const registry = new ModelCapabilityRegistry(cachePath);
+    registry.setOverrides({ 'llama3.2': { contextLength: 8192 } });
+
+    await expect(
+      registry.resolveContextLength(AuthType.USE_OLLAMA, 'llama3.2'),
+    ).resolves.toBe(8192);
+    expect(lookupContextLength).not.toHaveBeenCalled();
+    expect(registry.get('llama3.2')).toEqual({ contextLength: 8192 });
+  });
+
+  it('should share a lookup between concurrent callers', async () => {
+    vi.mocked(lookupContextLength).mockResolvedValue(40_960);
+    const registry = new ModelCapabilityRegistry(cachePath);
+
+    await Promise.all([
+      registry.discover(AuthType.USE_OLLAMA, 'qwen3:32b'),
+      registry.discover(AuthType.USE_OLLAMA, 'qwen3:32b'),
+    ]);
+
+    expect(lookupContextLength).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not ask Gemini providers', async () => {
+    const registry = new ModelCapabilityRegistry(cachePath);
+
+    await expect(
+      registry.discover(AuthType.USE_GEMINI, 'gemini-2.5-pro'),
+    ).resolves.toEqual({});
+    expect(lookupContextLength).not.toHaveBeenCalled();
+    expect(fs.existsSync(cachePath)).toBe(false);
+  });
+
+  it('should record whether a model reads images', async () => {
+    vi.mocked(lookupContextLength).mockResolvedValue(32_768);
+    vi.mocked(lookupVisionSupport).mockResolvedValue(true);
+    const registry = new ModelCapabilityRegistry(cachePath);
+    registry.setOverrides({ 'gemma3:27b': { vision: false } });
+
+    await registry.discover(AuthType.USE_OLLAMA, 'qwen2.5vl:7b');
+    await registry.discover(AuthType.USE_OLLAMA, 'gemma3:27b');
+
+    expect(registry.supportsVision('qwen2.5vl:7b')).toBe(true);
+    expect(registry.supportsVision('gemma3:27b')).toBe(false);
+    expect(lookupVisionSupport).toHaveBeenCalledTimes(1);
+    // Unknown models are judged by their name
+    expect(registry.supportsVision('llava:13b')).toBe(true);
+    expect(registry.supportsVision('qwen3:32b')).toBe(false);
+  });
+
+  it('should start fresh from a corrupted cache file', () => {
+    fs.writeFileSync(cachePath, '{not json');
+
+    expect(
+      new ModelCapabilityRegistry(cachePath).get('qwen3:32b'),
+    ).toBeUndefined();
+  });
+});
+
+describe('tokenLimit', () => {
+  afterEach(() => {
+    modelCapabilityRegistry.setOverrides({});
+  });
+
+  it('should read the context length from the registry', () => {
+    modelCapabilityRegistry.setOverrides({
+      'qwen3:32b': { contextLength: 40_960 },
+    });
+
+    expect(tokenLimit('qwen3:32b')).toBe(40_960);
+    expect(tokenLimit('gemini-1.5-pro')).toBe(2_097_152);
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import path from 'node:path';
+import { promises as fsp, readFileSync } from 'node:fs';
+import * as os from 'os';
+import { AuthType } from './contentGenerator.js';
+import {
+  DEFAULT_CONTEXT_LENGTH,
+  lookupContextLength,
+  lookupVisionSupport,
+} from './contextDiscovery.js';
+import { GEMINI_DIR } from '../utils/paths.js';
+
+export const MODEL_CAPABILITIES_FILENAME = 'model_capabilities.json';
+
+/** What is known about a model, either discovered or set in settings. */
+export interface ModelCapabilities {
+  /** Size of the context window in tokens. */
+  contextLength?: number;
+  /** Whether the model reads images. */
+  vision?: boolean;
+}
+
+// Families of vision models, for models whose provider does not say
+const VISION_MODEL_PATTERN =
+  /llava|vision|[-.:]vl\b|-vl[-:]|minicpm-v|moondream|pixtral|gemma3|llama4|mistral-small3\.[12]|gpt-4o|gpt-4\.1|gpt-4-turbo|claude-3|gemini/i;
+
+// Providers that can report capabilities. Gemini limits come from the
+// static table in tokenLimits.ts.
+const DISCOVERABLE_PROVIDERS = new Set<AuthType>([
+  AuthType.USE_OLLAMA,
+  AuthType.USE_LM_STUDIO,
+  AuthType.USE_OPENAI,
+]);
+
+function getDefaultCachePath(): string {
+  return path.join(os.homedir(), GEMINI_DIR, MODEL_CAPABILITIES_FILENAME);
+}
+
+/**
+ * Capabilities of the models used in this session, keyed by model name.
+ *
+ * Discovered values are cached on disk so that limits are known before the
+ * provider answers, or when it cannot be reached. Overrides from settings
+ * take precedence over anything discovered.
+ */
+export class ModelCapabilityRegistry {
+  private discovered?: Record<string, ModelCapabilities>;
+  private overrides: Record<string, ModelCapabilities> = {};
+  private readonly pending = new Map<string, Promise<ModelCapabilities>>();
+
+  /** @param cachePath defaults to model_capabilities.json in ~/.qwen */
+  constructor(private readonly cachePath?: string) {}
+
+  setOverrides(overrides: Record<string, ModelCapabilities>): void {
+    this.overrides = { ...overrides };
+  }
+
+  /** Returns the known capabilities of `model`, or undefined if none are. */
+  get(model: string): ModelCapabilities | undefined {
+    const discovered = this.loadCache()[model];
+    const override = this.overrides[model];
+    if (!discovered && !override) {
+      return undefined;
+    }
+    return { ...discovered, ...override };
+  }
+
+  getContextLength(model: string): number | undefined {
+    return this.get(model)?.contextLength;
+  }
+
+  /**
+   * Whether `model` reads images, as set in settings or reported by the
+   * provider, and otherwise guessed from well-known vision model names.
+   */
+  supportsVision(model: string): boolean {
+    return this.get(model)?.vision ?? VISION_MODEL_PATTERN.test(model);
+  }
+
+  /**
+   * Asks the provider for the capabilities of `model` and caches them.
+   * Falls back to the cached values if the provider does not answer.
+   */
+  discover(
+    provider: AuthType,
+    model: string,
+    baseUrl?: string,
+  ): Promise<ModelCapabilities> {
+    const override = this.overrides[model];
+    if (
+      !DISCOVERABLE_PROVIDERS.has(provider) ||
+      (override?.contextLength !== undefined && override.vision !== undefined)
+    ) {
+      return Promise.resolve(this.get(model) ?? {});
+    }
+
+    // Startup and the first request of a generator often ask at once
+    const key = `${provider} ${model} ${baseUrl ?? ''}`;
+    let request = this.pending.get(key);
+    if (!request) {
+      request = this.fetchCapabilities(provider, model, baseUrl).finally(() =>
+        this.pending.delete(key),
+      );
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  /**
+   * Resolves the context window of `model`, discovering it if needed and
+   * falling back to DEFAULT_CONTEXT_LENGTH.
+   */
+  async resolveContextLength(
+    provider: AuthType,
+    model: string,
+    baseUrl?: string,
+  ): Promise<number> {
+    const capabilities = await this.discover(provider, model, baseUrl);
+    return capabilities.contextLength ?? DEFAULT_CONTEXT_LENGTH;
+  }
+
+  private async fetchCapabilities(
+    provider: AuthType,
+    model: string,
+    baseUrl?: string,
+  ): Promise<ModelCapabilities> {
+    // Only ask for what settings do not already decide
+    const override = this.overrides[model] ?? {};
+    const [contextLength, vision] = await Promise.all([
+      override.contextLength === undefined
+        ? lookupContextLength(provider, model, baseUrl)
+        : undefined,
+      override.vision === undefined
+        ? lookupVisionSupport(provider, model, baseUrl)
+        : undefined,
+    ]);
+    const cache = this.loadCache();
+    const found: ModelCapabilities = {};
+    if (contextLength !== undefined) found.contextLength = contextLength;
+    if (vision !== undefined) found.vision = vision;
+    if (
+      Object.entries(found).some(
+        ([key, value]) =>
+          cache[model]?.[key as keyof ModelCapabilities] !== value,
+      )
+    ) {
+      cache[model] = { ...cache[model], ...found };
+      await this.saveCache(cache);
+    }
+    return this.get(model) ?? {};
+  }
+
+  private getCachePath(): string {
+    return this.cachePath ?? getDefaultCachePath();
+  }
+
+  private loadCache(): Record<string, ModelCapabilities> {
+    if (this.discovered) {
+      return this.discovered;
+    }
+    let discovered: Record<string, ModelCapabilities> = {};
+    try {
+      const content = readFileSync(this.getCachePath(), 'utf-8');
+      if (content.trim()) {
+        discovered = JSON.parse(content);
+      }
+    } catch (error) {
+      if (
+        !(error instanceof Error && 'code' in error && error.code === 'ENOENT')
+      ) {
+        // File is corrupted or not valid JSON, start with a fresh object.
+        console.debug('Could not read model capabilities cache.', error);
+      }
+    }
+    this.discovered = discovered;
+    return discovered;
+  }
+
+  private async saveCache(
+    cache: Record<string, ModelCapabilities>,
+  ): Promise<void> {
+    try {
+      const cachePath = this.getCachePath();
+      await fsp.mkdir(path.dirname(cachePath), { recursive: true });
+      await fsp.writeFile(cachePath, JSON.stringify(cache, null, 2), 'utf-8');
+    } catch (error) {
+      // The in-memory values still apply for this session
+      console.debug('Could not write model capabilities cache.', error);
+    }
+  }
+}
+
+export const modelCapabilityRegistry = new ModelCapabilityRegistry();
@@ -0,0 +1,208 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { listProviderModels } from './modelDiscovery.js';
+import { AuthType } from './contentGenerator.js';
+
+type Routes = Record<string, unknown>;
+
+function mockFetch(routes: Routes) {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => {
+    const key =
+      init?.body !== undefined
+        ? `${url} ${JSON.parse(init.body as string).name}`
+        : url;
+    if (!(key in routes)) {
+      return { ok: false, status: 404, statusText: 'Not Found' };
+    }
+    return { ok: true, json: async () => routes[key] };
+  });
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+describe('listProviderModels', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should describe installed and loaded Ollama models', async () => {
+    mockFetch({
+      'http://gpu-box:11434/api/tags': {
+        models: [
+          {
+            name: 'qwen2.5-coder:32b',
+            size: 19_851_337_728,
+            details: { quantization_level: 'Q4_K_M' },
+          },
+          {
+            name: 'llama3.2:latest',
+            size: 2_019_393_189,
+            details: { quantization_level: 'Q4_K_M' },
+          },
+        ],
+      },
+      'http://gpu-box:11434/api/ps': {
+        models: [{ name: 'qwen2.5-coder:32b' }],
+      },
+      'http://gpu-box:11434/api/show qwen2.5-coder:32b': {
+        capabilities: ['completion', 'tools'],
+        model_info: {
+          'general.architecture': 'qwen2',
+          'qwen2.context_length': 32_768,
+        },
+      },
+      'http://gpu-box:11434/api/show llama3.2:latest': {
+        capabilities: ['completion'],
+        model_info: { 'general.context_length': 131_072 },
+      },
+    });
+
+    const models = await listProviderModels(
+      AuthType.USE_OLLAMA,
+      'http://gpu-box:11434/',
+    );
+
+    expect(models).toEqual([
+      {
+        name: 'llama3.2:latest',
+        contextLength: 131_072,
+        quantization: 'Q4_K_M',
+        sizeBytes: 2_019_393_189,
+        supportsTools: false,
+        loaded: false,
+      },
+      {
+        name: 'qwen2.5-coder:32b',
+        contextLength: 32_768,
+        quantization: 'Q4_K_M',
+        sizeBytes: 19_851_337_728,
+        supportsTools: true,
+        loaded: true,
+      },
+    ]);
+  });
+
+  it('should still list Ollama models whose details cannot be fetched', async () => {
+    mockFetch({
+      'http://localhost:11434/api/tags': { models: [{ name: 'mistral' }] },
+    });
+
+    const models = await listProviderModels(AuthType.USE_OLLAMA);
+
+    expect(models).toEqual([
+      {
+        name: 'mistral',
+        contextLength: undefined,
+        quantization: undefined,
+        sizeBytes: undefined,
+        supportsTools: undefined,
+        loaded: false,
+      },
+    ]);
+  });
+
+  it('should read LM Studio models from its native API', async () => {
+    mockFetch({
+      'http://localhost:1234/api/v0/models': {
+        data: [
+          {
+            id: 'qwen2.5-7b-instruct',
+            type: 'llm',
+            quantization: 'Q4_K_M',
+            state: 'loaded',
+            max_context_length: 32_768,
+            capabilities: ['tool_use'],
+          },
+          { id: 'nomic-embed-text', type: 'embeddings', state: 'loaded' },
+          { id: 'phi-3-mini', type: 'llm', state: 'not-loaded' },
+        ],
+      },
+    });
+
+    const models = await listProviderModels(AuthType.USE_LM_STUDIO);
+
+    expect(models.map((m) => [m.name, m.loaded, m.supportsTools])).toEqual([
+      ['phi-3-mini', false, undefined],
+      ['qwen2.5-7b-instruct', true, true],
+    ]);
+    expect(models[1]).toMatchObject({
+      contextLength: 32_768,
+      quantization: 'Q4_K_M',
+    });
+  });
+
+  it('should fall back to the OpenAI-compatible LM Studio endpoint', async () => {
+    mockFetch({
+      'http://localhost:1234/v1/models': { data: [{ id: 'mixtral-8x7b' }] },
+    });
+
+    const models = await listProviderModels(AuthType.USE_LM_STUDIO);
+
+    expect(models).toEqual([
+      {
+        name: 'mixtral-8x7b',
+        contextLength: undefined,
+        quantization: undefined,
+        supportsTools: undefined,
+        loaded: undefined,
+      },
+    ]);
+  });
+
+  it('should send the API key when listing OpenAI-compatible models', async () => {
+    const fetchMock = mockFetch({
+      'https://openrouter.ai/api/v1/models': {
+        data: [
+          {
+            id: 'qwen/qwen-2.5-coder-32b-instruct',
+            context_length: 32_768,
+            supported_parameters: ['temperature', 'tools'],
+          },
+        ],
+      },
+    });
+
+    const models = await listProviderModels(
+      AuthType.USE_OPENAI,
+      'https://openrouter.ai/api/v1',
+      'sk-test',
+    );
+
+    expect(models).toEqual([
+      {
+        name: 'qwen/qwen-2.5-coder-32b-instruct',
+        contextLength: 32_768,
+        supportsTools: true,
+      },
+    ]);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://openrouter.ai/api/v1/models',
+      expect.objectContaining({
+        headers: { Authorization: 'Bearer sk-test' },
+      }),
+    );
+  });
+
+  it('should fail when the provider cannot be reached', async () => {
+    mockFetch({});
+
+    await expect(listProviderModels(AuthType.USE_OLLAMA)).rejects.toThrow(
+      'Request to http://localhost:11434/api/tags failed: 404 Not Found',
+    );
+  });
+
+  it('should reject providers without a model listing', async () => {
+    await expect(listProviderModels(AuthType.USE_GEMINI)).rejects.toThrow(
+      'Listing models is not supported for gemini-api-key.',
+    );
+  });
+});
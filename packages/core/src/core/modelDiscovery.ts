@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { AuthType } from './contentGenerator.js';
+
+/** A model offered by a provider, with whatever details it reports. */
+export interface ModelInfo {
+  name: string;
+  contextLength?: number;
+  quantization?: string;
+  sizeBytes?: number;
+  supportsTools?: boolean;
+  /** Whether the model is currently loaded into memory. */
+  loaded?: boolean;
+}
+
+const DISCOVERY_TIMEOUT_MS = 5000;
+
+const DEFAULT_BASE_URLS: Partial<Record<AuthType, string>> = {
+  [AuthType.USE_OLLAMA]: 'http://localhost:11434',
+  [AuthType.USE_LM_STUDIO]: 'http://localhost:1234',
+  [AuthType.USE_OPENAI]: 'https://api.openai.com/v1',
+};
+
+async function getJson<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    signal: AbortSignal.timeout(DISCOVERY_TIMEOUT_MS),
+  });
+  if (!response.ok) {
+    throw new Error(
+      `Request to ${url} failed: ${response.status} ${response.statusText}`,
+    );
+  }
+  return (await response.json()) as T;
+}
+
+interface OllamaTagsResponse {
+  models?: Array<{
+    name: string;
+    size?: number;
+    details?: { quantization_level?: string };
+  }>;
+}
+
+interface OllamaShowResponse {
+  capabilities?: string[];
+  model_info?: Record<string, unknown>;
+}
+
+function ollamaContextLength(
+  modelInfo: Record<string, unknown> | undefined,
+): number | undefined {
+  if (!modelInfo) {
+    return undefined;
+  }
+  const architecture = modelInfo['general.architecture'];
+  const value =
+    (typeof architecture === 'string'
+      ? modelInfo[`${architecture}.context_length`]
+      : undefined) ?? modelInfo['general.context_length'];
+  return typeof value === 'number' ? value : undefined;
+}
+
+async function listOllamaModels(baseUrl: string): Promise<ModelInfo[]> {
+  const [tags, running] = await Promise.all([
+    getJson<OllamaTagsResponse>(`${baseUrl}/api/tags`),
+    getJson<OllamaTagsResponse>(`${baseUrl}/api/ps`).catch(() => ({
+      models: [],
+    })),
+  ]);
+  const loaded = new Set((running.models ?? []).map((m) => m.name));
+
+  return Promise.all(
+    (tags.models ?? []).map(async (model): Promise<ModelInfo> => {
+      // Details are best effort; a model that fails to describe itself is
+      // still listed.
+      const show = await getJson<OllamaShowResponse>(`${baseUrl}/api/show`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: model.name }),
+      }).catch((): OllamaShowResponse => ({}));
+      return {
+        name: model.name,
+        contextLength: ollamaContextLength(show.model_info),
+        quantization: model.details?.quantization_level,
+        sizeBytes: model.size,
+        supportsTools: show.capabilities
+          ? show.capabilities.includes('tools')
+          : undefined,
+        loaded: loaded.has(model.name),
+      };
+    }),
+  );
+}
+
+interface LMStudioModelsResponse {
+  data?: Array<{
+    id: string;
+    type?: string;
+    quantization?: string;
+    state?: string;
+    max_context_length?: number;
+    capabilities?: string[];
+  }>;
+}
+
+async function listLMStudioModels(baseUrl: string): Promise<ModelInfo[]> {
+  let models: LMStudioModelsResponse;
+  try {
+    // The native REST API reports load state, quantization and context size
+    models = await getJson<LMStudioModelsResponse>(`${baseUrl}/api/v0/models`);
+  } catch {
+    // Older versions only have the OpenAI-compatible endpoint
+    models = await getJson<LMStudioModelsResponse>(`${baseUrl}/v1/models`);
+  }
+  return (models.data ?? [])
+    .filter((model) => model.type !== 'embeddings')
+    .map((model) => ({
+      name: model.id,
+      contextLength: model.max_context_length,
+      quantization: model.quantization,
+      supportsTools: model.capabilities
+        ? model.capabilities.includes('tool_use')
+        : undefined,
+      loaded: model.state === undefined ? undefined : model.state === 'loaded',
+    }));
+}
+
+interface OpenAIModelsResponse {
+  data?: Array<{
+    id: string;
+    context_length?: number;
+    supported_parameters?: string[];
+  }>;
+}
+
+async function listOpenAIModels(
+  baseUrl: string,
+  apiKey?: string,
+): Promise<ModelInfo[]> {
+  const models = await getJson<OpenAIModelsResponse>(`${baseUrl}/models`, {
+    headers: apiKey ? { Authorization: `Bearer ${apiKey}` } : undefined,
+  });
+  // OpenRouter and some other gateways add context and parameter details
+  return (models.data ?? []).map((model) => ({
+    name: model.id,
+    contextLength: model.context_length,
+    supportsTools: model.supported_parameters
+      ? model.supported_parameters.includes('tools')
+      : undefined,
+  }));
+}
+
+/**
+ * Asks a provider which models it offers, sorted by name.
+ *
+ * @throws if the provider cannot be reached or does not support listing.
+ */
+export async function listProviderModels(
+  provider: AuthType,
+  baseUrl?: string,
+  apiKey?: string,
+): Promise<ModelInfo[]> {
+  const url = (baseUrl || DEFAULT_BASE_URLS[provider] || '').replace(
+    /\/+$/,
+    '',
+  );
+  let models: ModelInfo[];
+  switch (provider) {
+    case AuthType.USE_OLLAMA:
+      models = await listOllamaModels(url);
+      break;
+    case AuthType.USE_LM_STUDIO:
+      models = await listLMStudioModels(url);
+      break;
+    case AuthType.USE_OPENAI:
+      models = await listOpenAIModels(url, apiKey);
+      break;
+    default:
+      throw new Error(`Listing models is not supported for ${provider}.`);
+  }
+  return models.sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -4,12 +4,43 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { Content } from '@google/genai';
 import { ModelSwitchingService } from './modelSwitchingService.js';
 import { TaskEvaluationService } from './taskEvaluationService.js';
 import { ModelStrength, TaskType } from './modelTypes.js';
-import { AuthType } from './contentGenerator.js';
+import {
+  AuthType,
+  ContentGenerator,
+  ContentGeneratorConfig,
+  createContentGenerator,
+} from './contentGenerator.js';
+import { modelCapabilityRegistry } from './modelCapabilities.js';
+import { GeminiClient } from './client.js';
+import { GeminiChat } from './geminiChat.js';
 import { Config } from '../config/config.js';
+import { logModelSwitch, logProviderFallback } from '../telemetry/loggers.js';
+
+vi.mock('./modelCapabilities.js', () => ({
+  modelCapabilityRegistry: { resolveContextLength: vi.fn() },
+}));
+
+vi.mock('./contentGenerator.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('./contentGenerator.js')>();
+  return {
+    ...actual,
+    createContentGenerator: vi.fn(),
+  };
+});
+
+vi.mock('../telemetry/loggers.js', () => ({
+  logModelSwitch: vi.fn(),
+  logProviderFallback: vi.fn(),
+}));
+
+vi.mock('./prompts.js', () => ({
+  getCompressionPrompt: vi.fn().mockReturnValue('compression prompt'),
+}));
 
 describe('ModelSwitchingService', () => {
   let service: ModelSwitchingService;
@@ -18,11 +49,14 @@ describe('ModelSwitchingService', () => {
 
   beforeEach(() => {
     mockTaskEvaluator = {
-      evaluateTaskType: vi.fn()
+      evaluateTaskType: vi.fn(),
+      classifyTask: vi.fn(),
     } as unknown as TaskEvaluationService;
     
     mockConfig = {
-      getSessionId: vi.fn().mockReturnValue('test-session')
+      getSessionId: vi.fn().mockReturnValue('test-session'),
+      getGeminiClient: vi.fn().mockReturnValue(undefined),
+      getModelSwitchingSettings: vi.fn().mockReturnValue({}),
     } as unknown as Config;
 
     service = new ModelSwitchingService(mockTaskEvaluator, mockConfig);
@@ -81,4 +115,555 @@ describe('ModelSwitchingService', () => {
       expect(config).toBeUndefined();
     });
   });
-});
\ No newline at end of file
+
+  describe('switchModel', () => {
+    const generatorConfig: ContentGeneratorConfig = {
+      model: 'qwen3:32b',
+      authType: AuthType.USE_OLLAMA,
+      baseUrl: 'http://localhost:11434',
+    };
+
+    // Ten turns of equal size: user prompt followed by model reply.
+    const history: Content[] = Array.from({ length: 20 }, (_, i) => ({
+      role: i % 2 === 0 ? 'user' : 'model',
+      parts: [{ text: `message ${i.toString().padStart(2, '0')}` }],
+    }));
+
+    let sourceGenerator: ContentGenerator;
+    let targetGenerator: ContentGenerator;
+    let mockClient: GeminiClient;
+    let clientHistory: Content[];
+
+    // Approximates a tokenizer: every content costs 100 tokens.
+    const countTokens = vi.fn(async ({ contents }: { contents: Content[] }) => ({
+      totalTokens: contents.length * 100,
+    }));
+
+    beforeEach(() => {
+      countTokens.mockClear();
+      sourceGenerator = {
+        countTokens,
+        generateContent: vi.fn().mockResolvedValue({
+          candidates: [
+            {
+              content: {
+                role: 'model',
+                parts: [{ text: '<state_snapshot>summary</state_snapshot>' }],
+              },
+            },
+          ],
+        }),
+      } as unknown as ContentGenerator;
+      targetGenerator = {} as ContentGenerator;
+      vi.mocked(createContentGenerator).mockResolvedValue(targetGenerator);
+
+      clientHistory = history;
+      mockClient = {
+        isInitialized: vi.fn().mockReturnValue(true),
+        getContentGenerator: vi.fn().mockReturnValue(sourceGenerator),
+        getChat: vi.fn(
+          () =>
+            ({
+              getHistory: vi.fn(() => clientHistory),
+            }) as unknown as GeminiChat,
+        ),
+        switchContentGenerator: vi.fn(
+          async (_generator: ContentGenerator, newHistory: Content[]) => {
+            clientHistory = newHistory;
+          },
+        ),
+      } as unknown as GeminiClient;
+
+      mockConfig = {
+        getSessionId: vi.fn().mockReturnValue('test-session'),
+        getGeminiClient: vi.fn().mockReturnValue(mockClient),
+        getContentGeneratorConfig: vi.fn().mockReturnValue(generatorConfig),
+        setContentGeneratorConfig: vi.fn(),
+        getModelSwitchingSettings: vi.fn().mockReturnValue({
+          [AuthType.USE_OLLAMA]: {
+            tiers: { medium: 'qwen2.5-coder:14b' },
+            baseUrl: 'http://gpu-box:11434',
+            sampling_params: { temperature: 0.2 },
+          },
+        }),
+      } as unknown as Config;
+      service = new ModelSwitchingService(mockTaskEvaluator, mockConfig);
+    });
+
+    it('should carry history over unchanged when it fits the target model', async () => {
+      vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+        131_072,
+      );
+
+      const result = await service.switchModel(
+        'llama3.2',
+        AuthType.USE_OLLAMA,
+        generatorConfig,
+      );
+
+      expect(result).toBeNull();
+      expect(sourceGenerator.generateContent).not.toHaveBeenCalled();
+      expect(mockClient.switchContentGenerator).toHaveBeenCalledWith(
+        targetGenerator,
+        history,
+      );
+    });
+
+    it('should carry over the chat as it is at switch time', async () => {
+      vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+        131_072,
+      );
+      await service.switchModel(
+        'llama3.2',
+        AuthType.USE_OLLAMA,
+        generatorConfig,
+      );
+
+      // /clear replaces the client's chat.
+      const resetHistory: Content[] = [
+        { role: 'user', parts: [{ text: 'fresh start' }] },
+      ];
+      vi.mocked(mockClient.getChat).mockReturnValue({
+        getHistory: vi.fn(() => resetHistory),
+      } as unknown as GeminiChat);
+      await service.switchModel(
+        'llama3.1:70b',
+        AuthType.USE_OLLAMA,
+        generatorConfig,
+      );
+
+      expect(mockClient.switchContentGenerator).toHaveBeenLastCalledWith(
+        targetGenerator,
+        resetHistory,
+      );
+    });
+
+    it('should summarize older turns and keep recent turns verbatim', async () => {
+      // 2000 tokens of history into a 1000 token window: budget is 700 tokens,
+      // of which 300 are reserved for recent turns.
+      vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+        1000,
+      );
+
+      const result = await service.switchModel(
+        'llama3.2',
+        AuthType.USE_OLLAMA,
+        generatorConfig,
+      );
+
+      expect(sourceGenerator.generateContent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'qwen3:32b',
+          config: {
+            systemInstruction: { text: 'compression prompt' },
+          },
+        }),
+      );
+      expect(clientHistory[0]).toEqual({
+        role: 'user',
+        parts: [{ text: '<state_snapshot>summary</state_snapshot>' }],
+      });
+      expect(clientHistory.slice(2)).toEqual(history.slice(-2));
+      expect(clientHistory[2].role).toBe('user');
+      expect(result).toEqual({
+        originalTokenCount: 2000,
+        newTokenCount: 400,
+      });
+    });
+
+    it('should drop the oldest kept turns if the summary alone does not leave room', async () => {
+      // Budget of 280 tokens leaves no room for kept turns next to the summary.
+      vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+        400,
+      );
+
+      const result = await service.switchModel(
+        'llama3.2',
+        AuthType.USE_OLLAMA,
+        generatorConfig,
+      );
+
+      expect(clientHistory).toHaveLength(2);
+      expect(result).toEqual({
+        originalTokenCount: 2000,
+        newTokenCount: 200,
+      });
+    });
+
+    it('should report the compression when switching strength', async () => {
+      vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+        1000,
+      );
+
+      const result = await service.switchToStrength(
+        ModelStrength.STRONG,
+        AuthType.USE_OLLAMA,
+        generatorConfig,
+      );
+
+      expect(service.getCurrentStrength()).toBe(ModelStrength.STRONG);
+      expect(createContentGenerator).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'llama3.1:70b' }),
+        mockConfig,
+        undefined,
+      );
+      expect(result?.newTokenCount).toBeLessThan(result!.originalTokenCount);
+    });
+
+    it('should apply the provider settings to the new generator config', async () => {
+      vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+        131_072,
+      );
+
+      await service.switchToTier('medium', AuthType.USE_OLLAMA, generatorConfig);
+
+      const expected = {
+        model: 'qwen2.5-coder:14b',
+        authType: AuthType.USE_OLLAMA,
+        baseUrl: 'http://gpu-box:11434',
+        samplingParams: { temperature: 0.2 },
+      };
+      expect(createContentGenerator).toHaveBeenCalledWith(
+        expected,
+        mockConfig,
+        undefined,
+      );
+      expect(mockConfig.setContentGeneratorConfig).toHaveBeenCalledWith(
+        expected,
+      );
+    });
+
+    it('should switch to the model the classified task needs', async () => {
+      vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+        131_072,
+      );
+      const classification = {
+        taskType: TaskType.PLANNING,
+        confidence: 0.75,
+        source: 'heuristic' as const,
+        reason: 'matched "design"',
+      };
+      vi.mocked(mockTaskEvaluator.classifyTask).mockResolvedValue(
+        classification,
+      );
+
+      const decision = await service.autoSwitchBasedOnTask(
+        'design a plugin system',
+        [],
+        AuthType.USE_OLLAMA,
+        { ...generatorConfig, model: 'llama3.2' },
+        sourceGenerator,
+        'prompt-1',
+      );
+
+      expect(mockTaskEvaluator.classifyTask).toHaveBeenCalledWith(
+        'design a plugin system',
+        [],
+        sourceGenerator,
+        'llama3.2',
+      );
+      expect(decision).toEqual({
+        classification,
+        tier: ModelStrength.STRONG,
+        model: 'llama3.1:70b',
+        previousModel: 'llama3.2',
+        switched: true,
+        compression: null,
+      });
+      expect(service.getCurrentStrength()).toBe(ModelStrength.STRONG);
+      expect(logModelSwitch).toHaveBeenCalledWith(
+        mockConfig,
+        expect.objectContaining({
+          task_type: TaskType.PLANNING,
+          confidence: 0.75,
+          tier: 'strong',
+          model: 'llama3.1:70b',
+          switched: true,
+          prompt_id: 'prompt-1',
+        }),
+      );
+    });
+
+    it('should evaluate with the weak model and keep a model that fits', async () => {
+      vi.mocked(mockTaskEvaluator.classifyTask).mockResolvedValue({
+        taskType: TaskType.REVIEW,
+        confidence: 0.5,
+        source: 'model',
+        reason: 'asks for a review',
+      });
+      vi.mocked(createContentGenerator).mockClear();
+
+      await service.autoSwitchBasedOnTask(
+        'review this diff',
+        [],
+        AuthType.USE_OLLAMA,
+        { ...generatorConfig, model: 'llama3.1:70b' },
+        sourceGenerator,
+      );
+      const decision = await service.autoSwitchBasedOnTask(
+        'review this diff',
+        [],
+        AuthType.USE_OLLAMA,
+        { ...generatorConfig, model: 'llama3.1:70b' },
+        sourceGenerator,
+      );
+
+      expect(createContentGenerator).toHaveBeenCalledTimes(1);
+      expect(createContentGenerator).toHaveBeenCalledWith(
+        expect.objectContaining({ model: 'llama3.2' }),
+        mockConfig,
+        undefined,
+      );
+      expect(mockTaskEvaluator.classifyTask).toHaveBeenCalledWith(
+        'review this diff',
+        [],
+        targetGenerator,
+        'llama3.2',
+      );
+      expect(decision.switched).toBe(false);
+      expect(mockClient.switchContentGenerator).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown tiers', async () => {
+      await expect(
+        service.switchToTier('huge', AuthType.USE_OLLAMA, generatorConfig),
+      ).rejects.toThrow(
+        'Unknown model tier "huge" for provider ollama. Available tiers: weak, strong, medium',
+      );
+    });
+
+    describe('fallbackToNextProvider', () => {
+      const reachable = new Map<AuthType, boolean>();
+
+      beforeEach(() => {
+        vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+          131_072,
+        );
+        reachable.clear();
+        vi.mocked(createContentGenerator).mockImplementation(
+          async (config) =>
+            ({
+              healthCheck: vi.fn(
+                async () => reachable.get(config.authType!) ?? true,
+              ),
+            }) as unknown as ContentGenerator,
+        );
+        Object.assign(mockConfig, {
+          getFallbackChain: vi.fn().mockReturnValue([
+            { provider: AuthType.USE_OLLAMA, model: 'qwen3:32b' },
+            { provider: AuthType.USE_LM_STUDIO, model: 'qwen2.5-coder-7b' },
+            { provider: AuthType.USE_OLLAMA },
+          ]),
+          setModel: vi.fn(),
+        });
+      });
+
+      it('should move to the next backend in the chain', async () => {
+        const result = await service.fallbackToNextProvider(
+          'Ollama API error: fetch failed',
+          'prompt-1',
+        );
+
+        expect(result).toEqual({
+          fromProvider: AuthType.USE_OLLAMA,
+          fromModel: 'qwen3:32b',
+          toProvider: AuthType.USE_LM_STUDIO,
+          toModel: 'qwen2.5-coder-7b',
+          reason: 'Ollama API error: fetch failed',
+          compression: null,
+        });
+        expect(mockConfig.setContentGeneratorConfig).toHaveBeenCalledWith(
+          expect.objectContaining({
+            authType: AuthType.USE_LM_STUDIO,
+            model: 'qwen2.5-coder-7b',
+            apiKey: 'not-required',
+          }),
+        );
+        expect(mockConfig.setModel).toHaveBeenCalledWith('qwen2.5-coder-7b');
+        expect(mockClient.switchContentGenerator).toHaveBeenCalledWith(
+          expect.anything(),
+          history,
+        );
+        expect(logProviderFallback).toHaveBeenCalledWith(
+          mockConfig,
+          expect.objectContaining({
+            from_provider: AuthType.USE_OLLAMA,
+            to_provider: AuthType.USE_LM_STUDIO,
+            to_model: 'qwen2.5-coder-7b',
+            prompt_id: 'prompt-1',
+          }),
+        );
+      });
+
+      it('should skip backends that fail their health check', async () => {
+        reachable.set(AuthType.USE_LM_STUDIO, false);
+
+        const result = await service.fallbackToNextProvider('503 Service Unavailable');
+
+        // The entry without a model uses the provider's weak model
+        expect(result).toMatchObject({
+          toProvider: AuthType.USE_OLLAMA,
+          toModel: 'llama3.2',
+        });
+        expect(mockConfig.setContentGeneratorConfig).toHaveBeenCalledWith(
+          expect.objectContaining({ baseUrl: 'http://gpu-box:11434' }),
+        );
+      });
+
+      it('should not go back up the chain', async () => {
+        vi.mocked(mockConfig.getContentGeneratorConfig).mockReturnValue({
+          ...generatorConfig,
+          model: 'llama3.2',
+        });
+
+        await expect(
+          service.fallbackToNextProvider('fetch failed'),
+        ).resolves.toBeNull();
+        expect(mockClient.switchContentGenerator).not.toHaveBeenCalled();
+      });
+
+      it('should drop old turns when the failed backend cannot summarize them', async () => {
+        vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+          1000,
+        );
+        vi.mocked(sourceGenerator.generateContent).mockRejectedValue(
+          new Error('fetch failed'),
+        );
+
+        const result = await service.fallbackToNextProvider('fetch failed');
+
+        expect(result?.compression).toEqual({
+          originalTokenCount: 2000,
+          newTokenCount: 200,
+        });
+        expect(clientHistory).toEqual(history.slice(-2));
+      });
+    });
+  });
+
+  describe('task type tiers', () => {
+    it('should map task types to tiers from the taskTypes setting', () => {
+      const configured = new ModelSwitchingService(mockTaskEvaluator, {
+        ...mockConfig,
+        getModelSwitchingSettings: vi.fn().mockReturnValue({
+          [AuthType.USE_OLLAMA]: { tiers: { medium: 'qwen2.5-coder:14b' } },
+        }),
+        getTaskTypes: vi.fn().mockReturnValue({
+          migration: { description: 'Schema migrations', tier: 'medium' },
+          [TaskType.DOCUMENTATION]: { tier: 'strong' },
+          broken: { description: 'Broken', tier: 'huge' },
+        }),
+      } as unknown as Config);
+
+      expect(
+        configured.getModelForTask('migration', AuthType.USE_OLLAMA),
+      ).toBe('qwen2.5-coder:14b');
+      expect(
+        configured.getModelForTask(TaskType.DOCUMENTATION, AuthType.USE_OLLAMA),
+      ).toBe('llama3.1:70b');
+      expect(() =>
+        configured.getModelForTask('broken', AuthType.USE_OLLAMA),
+      ).toThrow('Task type "broken" maps to unknown model tier "huge"');
+    });
+  });
+
+  describe('modelSwitching settings', () => {
+    const ENV_KEYS = ['LM_STUDIO_MODEL_WEAK', 'LM_STUDIO_MODEL_STRONG'];
+
+    beforeEach(() => {
+      for (const key of ENV_KEYS) {
+        vi.stubEnv(key, '');
+      }
+    });
+
+    afterEach(() => {
+      vi.unstubAllEnvs();
+    });
+
+    function createService(settings: Record<string, unknown>) {
+      return new ModelSwitchingService(mockTaskEvaluator, {
+        ...mockConfig,
+        getModelSwitchingSettings: vi.fn().mockReturnValue(settings),
+      } as unknown as Config);
+    }
+
+    it('should prefer settings over environment variables and defaults', () => {
+      vi.stubEnv('LM_STUDIO_MODEL_WEAK', 'env-weak');
+      vi.stubEnv('LM_STUDIO_MODEL_STRONG', 'env-strong');
+
+      const configured = createService({
+        [AuthType.USE_LM_STUDIO]: { strong: 'settings-strong' },
+      });
+
+      expect(configured.getModelConfig(AuthType.USE_LM_STUDIO)).toEqual({
+        weak: 'env-weak',
+        strong: 'settings-strong',
+      });
+      expect(configured.getModelConfig(AuthType.USE_OLLAMA)).toEqual({
+        weak: 'llama3.2',
+        strong: 'llama3.1:70b',
+      });
+    });
+
+    it('should tell configured tiers from built-in defaults', () => {
+      vi.stubEnv('OLLAMA_MODEL_STRONG', 'env-strong');
+
+      const configured = createService({
+        [AuthType.USE_LM_STUDIO]: { weak: 'settings-weak' },
+        [AuthType.USE_OLLAMA]: { tiers: { medium: 'qwen2.5-coder:14b' } },
+      });
+
+      expect(configured.isTierConfigured(AuthType.USE_LM_STUDIO, 'weak')).toBe(
+        true,
+      );
+      expect(
+        configured.isTierConfigured(AuthType.USE_LM_STUDIO, 'strong'),
+      ).toBe(false);
+      expect(configured.isTierConfigured(AuthType.USE_OLLAMA, 'weak')).toBe(
+        false,
+      );
+      expect(configured.isTierConfigured(AuthType.USE_OLLAMA, 'strong')).toBe(
+        true,
+      );
+      expect(configured.isTierConfigured(AuthType.USE_OLLAMA, 'medium')).toBe(
+        true,
+      );
+      expect(configured.isTierConfigured(AuthType.USE_GEMINI, 'weak')).toBe(
+        false,
+      );
+    });
+
+    it('should expose extra tiers', () => {
+      const configured = createService({
+        [AuthType.USE_OLLAMA]: { tiers: { medium: 'qwen2.5-coder:14b' } },
+      });
+
+      expect(configured.getTierNames(AuthType.USE_OLLAMA)).toEqual([
+        'weak',
+        'strong',
+        'medium',
+      ]);
+      expect(configured.getModelForTier(AuthType.USE_OLLAMA, 'medium')).toBe(
+        'qwen2.5-coder:14b',
+      );
+    });
+
+    it('should add providers without defaults only when both models are set', () => {
+      const configured = createService({
+        [AuthType.USE_GEMINI]: {
+          weak: 'gemini-2.5-flash',
+          strong: 'gemini-2.5-pro',
+        },
+        [AuthType.LOGIN_WITH_GOOGLE]: { weak: 'gemini-2.5-flash' },
+      });
+
+      expect(configured.getModelConfig(AuthType.USE_GEMINI)).toEqual({
+        weak: 'gemini-2.5-flash',
+        strong: 'gemini-2.5-pro',
+      });
+      expect(
+        configured.getModelConfig(AuthType.LOGIN_WITH_GOOGLE),
+      ).toBeUndefined();
+    });
+  });
+});
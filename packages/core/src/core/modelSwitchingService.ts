@@ -8,15 +8,30 @@ import {
   ContentGenerator, 
   ContentGeneratorConfig, 
   AuthType,
-  createContentGenerator
+  createContentGenerator,
+  createContentGeneratorConfig,
 } from './contentGenerator.js';
 import { TaskEvaluationService } from './taskEvaluationService.js';
-import { ModelStrength, TaskType, ModelConfig } from './modelTypes.js';
-import { fetchContextLength } from './contextDiscovery.js';
-import { Turn } from './turn.js';
+import {
+  DEFAULT_TASK_TIERS,
+  ModelStrength,
+  TaskType,
+  ModelConfig,
+  ModelSwitchingProviderSettings,
+  TaskClassification,
+} from './modelTypes.js';
+import { modelCapabilityRegistry } from './modelCapabilities.js';
+import { ChatCompressionInfo, ProviderFallbackInfo } from './turn.js';
 import { GeminiChat } from './geminiChat.js';
+import { findIndexAfterFraction } from './client.js';
+import { getCompressionPrompt } from './prompts.js';
 import { Config } from '../config/config.js';
+import { isFunctionResponse } from '../utils/messageInspectors.js';
+import { getResponseText } from '../utils/generateContentResponseUtilities.js';
 import { Content } from '@google/genai';
+import { logModelSwitch, logProviderFallback } from '../telemetry/loggers.js';
+import { ModelSwitchEvent, ProviderFallbackEvent } from '../telemetry/types.js';
+import { getErrorMessage } from '../utils/errors.js';
 
 export interface SessionSnapshot {
   history: Content[];
@@ -26,12 +41,78 @@ export interface SessionSnapshot {
   timestamp: Date;
 }
 
+export interface CompressedSessionSnapshot {
+  snapshot: SessionSnapshot;
+  /** Null when the history already fit the target model's context window. */
+  compressionInfo: ChatCompressionInfo | null;
+}
+
+/**
+ * Fraction of the target model's context window the carried-over history may
+ * occupy, leaving room for the system prompt, tool declarations and the reply.
+ */
+const SWITCH_TOKEN_THRESHOLD = 0.7;
+
+/**
+ * Fraction of the target model's context window reserved for the most recent
+ * turns, which are kept verbatim rather than summarized.
+ */
+const SWITCH_PRESERVE_THRESHOLD = 0.3;
+
+/** The outcome of {@link ModelSwitchingService.autoSwitchBasedOnTask}. */
+export interface AutoSwitchDecision {
+  classification: TaskClassification;
+  /** Tier the task type maps to: weak, strong or an extra tier. */
+  tier: string;
+  /** Model used for the prompt. */
+  model: string;
+  /** Model in use before the prompt. */
+  previousModel: string;
+  switched: boolean;
+  /** How the history was compressed to fit the new model, if it was. */
+  compression: ChatCompressionInfo | null;
+}
+
+/**
+ * Models used when neither the `modelSwitching` setting nor the environment
+ * names one, with the environment variable prefix for each provider.
+ */
+const PROVIDER_DEFAULTS: Array<{
+  provider: AuthType;
+  envPrefix: string;
+  weak: string;
+  strong: string;
+}> = [
+  {
+    provider: AuthType.USE_OLLAMA,
+    envPrefix: 'OLLAMA',
+    weak: 'llama3.2',
+    strong: 'llama3.1:70b',
+  },
+  {
+    provider: AuthType.USE_LM_STUDIO,
+    envPrefix: 'LM_STUDIO',
+    weak: 'phi-3-mini',
+    strong: 'mixtral-8x7b',
+  },
+  // OpenRouter uses OpenAI auth type
+  {
+    provider: AuthType.USE_OPENAI,
+    envPrefix: 'OPENAI',
+    weak: 'mistralai/Mistral-7B-Instruct-v0.2',
+    strong: 'anthropic/claude-3.5-sonnet',
+  },
+];
+
 export class ModelSwitchingService {
   private modelConfigs: Map<AuthType, ModelConfig> = new Map();
+  /** Tiers whose model the settings or environment name, per provider. */
+  private configuredTiers = new Map<AuthType, Set<string>>();
   private taskEvaluator: TaskEvaluationService;
   private currentStrength: ModelStrength = ModelStrength.WEAK;
   private currentGenerator: ContentGenerator | null = null;
   private currentChat: GeminiChat | null = null;
+  private helperGenerators = new Map<string, Promise<ContentGenerator>>();
   private gcConfig: Config;
   private sessionId?: string;
 
@@ -46,25 +127,78 @@ export class ModelSwitchingService {
     this.loadModelConfigs();
   }
 
+  /**
+   * Loads the model tiers of each provider from the `modelSwitching`
+   * settings, then the `<PROVIDER>_MODEL_WEAK`/`_STRONG` environment
+   * variables, then the built-in defaults.
+   */
   private loadModelConfigs() {
-    // Load from environment variables
-    this.modelConfigs.set(AuthType.USE_OLLAMA, {
-      weak: process.env.OLLAMA_MODEL_WEAK || 'llama3.2',
-      strong: process.env.OLLAMA_MODEL_STRONG || 'llama3.1:70b'
-    });
-    
-    this.modelConfigs.set(AuthType.USE_LM_STUDIO, {
-      weak: process.env.LM_STUDIO_MODEL_WEAK || 'phi-3-mini',
-      strong: process.env.LM_STUDIO_MODEL_STRONG || 'mixtral-8x7b'
-    });
-    
-    // OpenRouter uses OpenAI auth type
-    this.modelConfigs.set(AuthType.USE_OPENAI, {
-      weak: process.env.OPENAI_MODEL_WEAK || 
-            'mistralai/Mistral-7B-Instruct-v0.2',
-      strong: process.env.OPENAI_MODEL_STRONG || 
-              'anthropic/claude-3.5-sonnet'
-    });
+    const settings = this.gcConfig.getModelSwitchingSettings();
+
+    for (const { provider, envPrefix, weak, strong } of PROVIDER_DEFAULTS) {
+      const envWeak = process.env[`${envPrefix}_MODEL_WEAK`];
+      const envStrong = process.env[`${envPrefix}_MODEL_STRONG`];
+      this.modelConfigs.set(
+        provider,
+        this.toModelConfig(settings[provider], {
+          weak: envWeak || weak,
+          strong: envStrong || strong,
+        }),
+      );
+      const configured = new Set(Object.keys(settings[provider]?.tiers ?? {}));
+      if (settings[provider]?.weak || envWeak) {
+        configured.add(ModelStrength.WEAK);
+      }
+      if (settings[provider]?.strong || envStrong) {
+        configured.add(ModelStrength.STRONG);
+      }
+      this.configuredTiers.set(provider, configured);
+    }
+
+    // Providers without defaults, e.g. Gemini, only switch when configured.
+    for (const [provider, providerSettings] of Object.entries(settings)) {
+      if (
+        !this.modelConfigs.has(provider as AuthType) &&
+        providerSettings?.weak &&
+        providerSettings.strong
+      ) {
+        this.modelConfigs.set(
+          provider as AuthType,
+          this.toModelConfig(providerSettings, {
+            weak: providerSettings.weak,
+            strong: providerSettings.strong,
+          }),
+        );
+        this.configuredTiers.set(
+          provider as AuthType,
+          new Set([
+            ModelStrength.WEAK,
+            ModelStrength.STRONG,
+            ...Object.keys(providerSettings.tiers ?? {}),
+          ]),
+        );
+      }
+    }
+  }
+
+  private toModelConfig(
+    settings: ModelSwitchingProviderSettings | undefined,
+    defaults: ModelConfig,
+  ): ModelConfig {
+    const config: ModelConfig = {
+      weak: settings?.weak || defaults.weak,
+      strong: settings?.strong || defaults.strong,
+    };
+    if (settings?.tiers && Object.keys(settings.tiers).length > 0) {
+      config.tiers = settings.tiers;
+    }
+    if (settings?.baseUrl) {
+      config.baseUrl = settings.baseUrl;
+    }
+    if (settings?.sampling_params) {
+      config.samplingParams = settings.sampling_params;
+    }
+    return config;
   }
 
   getCurrentStrength(): ModelStrength {
@@ -75,25 +209,95 @@ export class ModelSwitchingService {
     return this.modelConfigs.get(provider);
   }
 
-  getModelForTask(taskType: TaskType, provider: AuthType): string {
+  /**
+   * Names of the tiers available for `provider`: weak, strong and any extra
+   * tiers from the settings.
+   */
+  getTierNames(provider: AuthType): string[] {
+    const config = this.modelConfigs.get(provider);
+    if (!config) {
+      return [];
+    }
+    return [
+      ModelStrength.WEAK,
+      ModelStrength.STRONG,
+      ...Object.keys(config.tiers ?? {}),
+    ];
+  }
+
+  /**
+   * Whether the settings or environment name the model of `tier`, as opposed
+   * to it being one of the built-in defaults, which may not be installed.
+   */
+  isTierConfigured(provider: AuthType, tier: string): boolean {
+    return this.configuredTiers.get(provider)?.has(tier) ?? false;
+  }
+
+  /** Returns the model of the named tier, or undefined if there is none. */
+  getModelForTier(provider: AuthType, tier: string): string | undefined {
+    const config = this.modelConfigs.get(provider);
+    if (tier === ModelStrength.WEAK) {
+      return config?.weak;
+    }
+    if (tier === ModelStrength.STRONG) {
+      return config?.strong;
+    }
+    return config?.tiers?.[tier];
+  }
+
+  getModelForTask(taskType: string, provider: AuthType): string {
     const config = this.modelConfigs.get(provider);
     if (!config) throw new Error(`No model config for provider ${provider}`);
     
-    switch (taskType) {
-      case TaskType.EXPLORATION:
-      case TaskType.PLANNING:
-      case TaskType.TROUBLESHOOTING:
-      case TaskType.REVIEW:
-        return config.strong;
-      case TaskType.DOCUMENTATION:
-      case TaskType.IMPLEMENTATION:
-      default:
-        return config.weak;
+    const tier = this.getTierForTask(taskType);
+    const model = this.getModelForTier(provider, tier);
+    if (!model) {
+      throw new Error(
+        `Task type "${taskType}" maps to unknown model tier "${tier}" for provider ${provider}. ` +
+          `Available tiers: ${this.getTierNames(provider).join(', ')}`,
+      );
+    }
+    return model;
+  }
+
+  /**
+   * Returns the tier a task type runs on: from the `taskTypes` setting, then
+   * the built-in mapping, then weak.
+   */
+  getTierForTask(taskType: string): string {
+    return (
+      this.gcConfig.getTaskTypes?.()?.[taskType]?.tier ??
+      DEFAULT_TASK_TIERS[taskType as TaskType] ??
+      ModelStrength.WEAK
+    );
+  }
+
+  /**
+   * Returns the generator and chat currently carrying the session. Before the
+   * first switch these belong to the live GeminiClient.
+   */
+  private getActiveSession(): {
+    generator: ContentGenerator;
+    chat: GeminiChat;
+  } | null {
+    // The client's chat is replaced by /clear and compression, so it is read
+    // anew for every switch.
+    const client = this.gcConfig.getGeminiClient();
+    if (client?.isInitialized()) {
+      return {
+        generator: client.getContentGenerator(),
+        chat: client.getChat(),
+      };
+    }
+    if (this.currentChat && this.currentGenerator) {
+      return { generator: this.currentGenerator, chat: this.currentChat };
     }
+    return null;
   }
 
   private serializeSession(): SessionSnapshot | null {
-    if (!this.currentChat || !this.currentGenerator) {
+    const session = this.getActiveSession();
+    if (!session) {
       return null;
     }
 
@@ -101,7 +305,7 @@ export class ModelSwitchingService {
     const currentConfig = this.gcConfig.getContentGeneratorConfig();
 
     return {
-      history: this.currentChat.getHistory(),
+      history: session.chat.getHistory(true),
       config: currentConfig || {} as ContentGeneratorConfig,
       currentModel: currentConfig?.model || '',
       currentProvider: currentConfig?.authType || AuthType.USE_GEMINI,
@@ -109,122 +313,488 @@ export class ModelSwitchingService {
     };
   }
 
+  /**
+   * Fits the snapshot history into `contextLimit` tokens of the target model.
+   *
+   * Older turns are summarized into a `<state_snapshot>` by the current
+   * (source) model, which can still see the whole history, while the most
+   * recent turns are carried over verbatim. If the summary plus the kept turns
+   * still do not fit, the oldest kept turns are dropped.
+   */
   private async compress(
-    snapshot: SessionSnapshot, 
-    _contextLimit: number
-  ): Promise<SessionSnapshot> {
-    // TODO: Implement conversation compression logic
-    // For now, return the snapshot as-is
-    // This should integrate with the existing /compress logic
-    return snapshot;
+    snapshot: SessionSnapshot,
+    contextLimit: number,
+  ): Promise<CompressedSessionSnapshot> {
+    const history = snapshot.history;
+    const session = this.getActiveSession();
+    if (history.length === 0 || !session) {
+      return { snapshot, compressionInfo: null };
+    }
+    const { generator } = session;
+
+    const originalTokenCount = await this.countHistoryTokens(
+      generator,
+      snapshot.currentModel,
+      history,
+    );
+    const budget = Math.floor(contextLimit * SWITCH_TOKEN_THRESHOLD);
+    if (originalTokenCount === undefined || originalTokenCount <= budget) {
+      return { snapshot, compressionInfo: null };
+    }
+
+    const keepFraction = Math.min(
+      (contextLimit * SWITCH_PRESERVE_THRESHOLD) / originalTokenCount,
+      SWITCH_PRESERVE_THRESHOLD,
+    );
+    let compressBeforeIndex =
+      keepFraction > 0
+        ? findIndexAfterFraction(history, 1 - keepFraction)
+        : history.length;
+    compressBeforeIndex = this.findTurnStart(history, compressBeforeIndex);
+
+    const historyToCompress = history.slice(0, compressBeforeIndex);
+    let historyToKeep = history.slice(compressBeforeIndex);
+
+    let summary = '';
+    if (historyToCompress.length > 0) {
+      try {
+        summary = await this.summarize(
+          generator,
+          snapshot.currentModel,
+          historyToCompress,
+        );
+      } catch (error) {
+        // The source model may be the one that went down; drop the oldest
+        // turns below instead of summarizing them.
+        console.warn('Failed to summarize history for model switch:', error);
+      }
+    }
+    const summaryHistory: Content[] = summary
+      ? [
+          { role: 'user', parts: [{ text: summary }] },
+          {
+            role: 'model',
+            parts: [{ text: 'Got it. Thanks for the additional context!' }],
+          },
+        ]
+      : [];
+
+    let newHistory = [...summaryHistory, ...historyToKeep];
+    let newTokenCount =
+      (await this.countHistoryTokens(
+        generator,
+        snapshot.currentModel,
+        newHistory,
+      )) ?? originalTokenCount;
+
+    // Drop the oldest verbatim turns until the result fits.
+    while (newTokenCount > budget && historyToKeep.length > 0) {
+      const nextTurnStart = this.findTurnStart(historyToKeep, 1);
+      historyToKeep = historyToKeep.slice(nextTurnStart);
+      newHistory = [...summaryHistory, ...historyToKeep];
+      newTokenCount =
+        (await this.countHistoryTokens(
+          generator,
+          snapshot.currentModel,
+          newHistory,
+        )) ?? 0;
+    }
+
+    return {
+      snapshot: { ...snapshot, history: newHistory },
+      compressionInfo: { originalTokenCount, newTokenCount },
+    };
+  }
+
+  /**
+   * Returns the first index at or after `index` that starts a new turn, i.e.
+   * a user message that is not a function response.
+   */
+  private findTurnStart(history: Content[], index: number): number {
+    while (
+      index < history.length &&
+      (history[index]?.role === 'model' || isFunctionResponse(history[index]))
+    ) {
+      index++;
+    }
+    return index;
+  }
+
+  private async countHistoryTokens(
+    generator: ContentGenerator,
+    model: string,
+    contents: Content[],
+  ): Promise<number | undefined> {
+    if (contents.length === 0) {
+      return 0;
+    }
+    try {
+      const { totalTokens } = await generator.countTokens({ model, contents });
+      return totalTokens;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async summarize(
+    generator: ContentGenerator,
+    model: string,
+    historyToCompress: Content[],
+  ): Promise<string> {
+    const response = await generator.generateContent({
+      model,
+      contents: [
+        ...historyToCompress,
+        {
+          role: 'user',
+          parts: [
+            {
+              text: 'First, reason in your scratchpad. Then, generate the <state_snapshot>.',
+            },
+          ],
+        },
+      ],
+      config: {
+        systemInstruction: { text: getCompressionPrompt() },
+      },
+    });
+    return getResponseText(response) ?? '';
   }
 
   private async rehydrate(
-    generator: ContentGenerator, 
-    snapshot: SessionSnapshot
+    generator: ContentGenerator,
+    snapshot: SessionSnapshot,
   ): Promise<void> {
-    // Create new chat with the preserved history
-    this.currentChat = new GeminiChat(this.gcConfig, generator, {}, snapshot.history);
+    const client = this.gcConfig.getGeminiClient();
+    if (client?.isInitialized()) {
+      // Carry the live session over so the next prompt goes to the new model.
+      await client.switchContentGenerator(generator, snapshot.history);
+      this.currentChat = client.getChat();
+    } else {
+      // Create new chat with the preserved history
+      this.currentChat = new GeminiChat(
+        this.gcConfig,
+        generator,
+        {},
+        snapshot.history,
+      );
+    }
     this.currentGenerator = generator;
   }
 
+  /**
+   * Switches the session to `newModel`, compressing the history first if it
+   * would not fit the new model's context window.
+   *
+   * @returns Token counts before and after compression, or null if the
+   *   history was carried over unchanged.
+   */
   async switchModel(
     newModel: string,
     newProvider: AuthType,
     config: ContentGeneratorConfig
-  ): Promise<void> {
+  ): Promise<ChatCompressionInfo | null> {
     // 1. Snapshot current state
     const snapshot = this.serializeSession();
 
     // 2. Get new context length
-    const limit = await fetchContextLength(newProvider, newModel, config.baseUrl);
+    const limit = await modelCapabilityRegistry.resolveContextLength(
+      newProvider,
+      newModel,
+      config.baseUrl
+    );
 
-    // 3. Compress if needed
+    // 3. Compress if needed, using the current model before it is replaced
     const compressed = snapshot ? await this.compress(snapshot, limit) : null;
 
     // 4. Re-initialize provider
-    const newConfig = { ...config, model: newModel, authType: newProvider };
+    const newConfig = this.configForProvider(newModel, newProvider, config);
     const newGenerator = await createContentGenerator(
       newConfig,
       this.gcConfig,
       this.sessionId
     );
+    // Generators read sampling parameters from the active config.
+    this.gcConfig.setContentGeneratorConfig(newConfig);
 
     // 5. Re-hydrate conversation
     if (compressed) {
-      await this.rehydrate(newGenerator, compressed);
+      await this.rehydrate(newGenerator, compressed.snapshot);
     } else {
       // Fresh start
       this.currentChat = new GeminiChat(this.gcConfig, newGenerator);
       this.currentGenerator = newGenerator;
     }
+
+    return compressed?.compressionInfo ?? null;
+  }
+
+  /**
+   * Returns a generator for `model` on the provider of `config`, for helper
+   * calls that do not use the session's model. Local and OpenAI-compatible
+   * generators are bound to one model, so each model gets its own, created
+   * on first use and then reused.
+   */
+  getGeneratorForModel(
+    model: string,
+    config: ContentGeneratorConfig,
+  ): Promise<ContentGenerator> {
+    const provider = config.authType as AuthType;
+    const key = `${provider} ${model}`;
+    let generator = this.helperGenerators.get(key);
+    if (!generator) {
+      generator = createContentGenerator(
+        this.configForProvider(model, provider, config),
+        this.gcConfig,
+        this.sessionId,
+      );
+      // Let the next call try again
+      generator.catch(() => this.helperGenerators.delete(key));
+      this.helperGenerators.set(key, generator);
+    }
+    return generator;
+  }
+
+  /**
+   * Applies the provider's `modelSwitching` settings (base URL, sampling
+   * parameters) on top of `config` for a switch to `model`.
+   */
+  private configForProvider(
+    model: string,
+    provider: AuthType,
+    config: ContentGeneratorConfig,
+  ): ContentGeneratorConfig {
+    const modelConfig = this.modelConfigs.get(provider);
+    return {
+      ...config,
+      model,
+      authType: provider,
+      ...(modelConfig?.baseUrl ? { baseUrl: modelConfig.baseUrl } : {}),
+      ...(modelConfig?.samplingParams
+        ? { samplingParams: modelConfig.samplingParams }
+        : {}),
+    };
   }
 
   async switchToStrength(
     strength: ModelStrength,
     provider: AuthType,
     config: ContentGeneratorConfig
-  ): Promise<void> {
-    const modelConfig = this.modelConfigs.get(provider);
-    if (!modelConfig) throw new Error(`No model config for provider ${provider}`);
-    
-    const model = strength === ModelStrength.WEAK ? modelConfig.weak : modelConfig.strong;
+  ): Promise<ChatCompressionInfo | null> {
+    const compression = await this.switchToTier(strength, provider, config);
     this.currentStrength = strength;
-    await this.switchModel(model, provider, config);
+    return compression;
+  }
+
+  /**
+   * Switches to the model of a named tier: weak, strong or an extra tier
+   * from the `modelSwitching` settings.
+   */
+  async switchToTier(
+    tier: string,
+    provider: AuthType,
+    config: ContentGeneratorConfig,
+  ): Promise<ChatCompressionInfo | null> {
+    if (!this.modelConfigs.has(provider)) {
+      throw new Error(`No model config for provider ${provider}`);
+    }
+    const model = this.getModelForTier(provider, tier);
+    if (!model) {
+      throw new Error(
+        `Unknown model tier "${tier}" for provider ${provider}. ` +
+          `Available tiers: ${this.getTierNames(provider).join(', ')}`,
+      );
+    }
+    return this.switchModel(model, provider, config);
   }
 
+  /**
+   * Classifies `userPrompt` with the weak model and moves the session to the
+   * model of the strength the task needs, carrying the history over.
+   */
   async autoSwitchBasedOnTask(
     userPrompt: string,
-    conversationHistory: Turn[],
+    conversationHistory: Content[],
     provider: AuthType,
     config: ContentGeneratorConfig,
-    currentGenerator: ContentGenerator
-  ): Promise<boolean> {
+    currentGenerator: ContentGenerator,
+    promptId?: string
+  ): Promise<AutoSwitchDecision> {
+    const modelConfig = this.modelConfigs.get(provider);
+    if (!modelConfig) throw new Error(`No model config for provider ${provider}`);
+
     // Always use weak model for task evaluation (more efficient)
     let evaluatorGenerator = currentGenerator;
     
-    // If we're currently on strong model, temporarily create weak for evaluation
-    if (this.currentStrength === ModelStrength.STRONG) {
-      const modelConfig = this.modelConfigs.get(provider);
-      if (!modelConfig) throw new Error(`No model config for provider ${provider}`);
-      
-      const weakConfig = { ...config, model: modelConfig.weak, authType: provider };
-      evaluatorGenerator = await createContentGenerator(
-        weakConfig,
-        this.gcConfig,
-        this.sessionId
+    // If we're not on the weak model, use the one kept for helper calls
+    if (config.model !== modelConfig.weak) {
+      evaluatorGenerator = await this.getGeneratorForModel(
+        modelConfig.weak,
+        config,
       );
     }
     
-    // Use weak model to evaluate the task
-    const taskType = await this.taskEvaluator.evaluateTaskType(
+    // Use weak model to evaluate the task, unless keywords settle it
+    const classification = await this.taskEvaluator.classifyTask(
       userPrompt,
       conversationHistory,
-      evaluatorGenerator
+      evaluatorGenerator,
+      modelConfig.weak
     );
     
-    const requiredStrength = this.getStrengthForTask(taskType);
-    
-    // Only switch if we need a different strength
-    if (requiredStrength !== this.currentStrength) {
-      await this.switchToStrength(requiredStrength, provider, config);
-      return true; // Switched
+    const tier = this.getTierForTask(classification.taskType);
+    const model = this.getModelForTask(classification.taskType, provider);
+    const decision: AutoSwitchDecision = {
+      classification,
+      tier,
+      model,
+      previousModel: config.model,
+      switched: false,
+      compression: null,
+    };
+
+    // Only switch if the task needs a different model
+    if (model !== config.model) {
+      decision.compression = await this.switchModel(model, provider, config);
+      decision.switched = true;
     }
-    
-    return false; // No switch needed
+    if (tier === ModelStrength.WEAK || tier === ModelStrength.STRONG) {
+      this.currentStrength = tier;
+    }
+
+    logModelSwitch(
+      this.gcConfig,
+      new ModelSwitchEvent(
+        classification,
+        tier,
+        model,
+        config.model,
+        provider,
+        promptId,
+      ),
+    );
+    return decision;
   }
 
-  private getStrengthForTask(taskType: TaskType): ModelStrength {
-    switch (taskType) {
-      case TaskType.EXPLORATION:
-      case TaskType.PLANNING:
-      case TaskType.TROUBLESHOOTING:
-      case TaskType.REVIEW:
-        return ModelStrength.STRONG;
-      case TaskType.DOCUMENTATION:
-      case TaskType.IMPLEMENTATION:
-      default:
-        return ModelStrength.WEAK;
+  /**
+   * Moves the session to the next reachable backend of the `fallbackChain`
+   * setting after the current one failed, carrying the history over.
+   *
+   * Backends before the current one in the chain are not tried again, so a
+   * prompt walks down the chain at most once.
+   *
+   * @returns The backend that took over, or null if none could.
+   */
+  async fallbackToNextProvider(
+    reason: string,
+    promptId?: string,
+  ): Promise<ProviderFallbackInfo | null> {
+    const chain = this.gcConfig.getFallbackChain();
+    const current = this.gcConfig.getContentGeneratorConfig();
+    if (chain.length === 0 || !current?.authType) {
+      return null;
+    }
+    const fromProvider = current.authType;
+    const fromModel = current.model;
+    const currentIndex = chain.findIndex(
+      (entry) =>
+        entry.provider === fromProvider &&
+        this.getFallbackModel(entry.provider, entry.model) === fromModel,
+    );
+
+    for (const entry of chain.slice(currentIndex + 1)) {
+      const model = this.getFallbackModel(entry.provider, entry.model);
+      if (!model || (entry.provider === fromProvider && model === fromModel)) {
+        continue;
+      }
+      const candidate = await this.createFallbackConfig(
+        model,
+        entry.provider,
+        current,
+      );
+      if (!(await this.isReachable(candidate))) {
+        continue;
+      }
+
+      let compression: ChatCompressionInfo | null;
+      try {
+        compression = await this.switchModel(model, entry.provider, candidate);
+      } catch (error) {
+        console.warn(
+          `Failed to fall back to ${entry.provider} model ${model}: ${getErrorMessage(error)}`,
+        );
+        continue;
+      }
+      this.gcConfig.setModel(model);
+
+      logProviderFallback(
+        this.gcConfig,
+        new ProviderFallbackEvent(
+          fromProvider,
+          fromModel,
+          entry.provider,
+          model,
+          reason,
+          promptId,
+        ),
+      );
+      return {
+        fromProvider,
+        fromModel,
+        toProvider: entry.provider,
+        toModel: model,
+        reason,
+        compression,
+      };
+    }
+    return null;
+  }
+
+  /** Chain entries without a model use the provider's current-strength model. */
+  private getFallbackModel(
+    provider: AuthType,
+    model: string | undefined,
+  ): string | undefined {
+    return model ?? this.getModelForTier(provider, this.currentStrength);
+  }
+
+  /**
+   * Builds the settings for another provider from its environment and
+   * `modelSwitching` entry, keeping the provider-independent ones.
+   */
+  private async createFallbackConfig(
+    model: string,
+    provider: AuthType,
+    current: ContentGeneratorConfig,
+  ): Promise<ContentGeneratorConfig> {
+    const config = await createContentGeneratorConfig(model, provider);
+    return this.configForProvider(model, provider, {
+      ...config,
+      enableOpenAILogging: current.enableOpenAILogging,
+      samplingParams: current.samplingParams,
+      toolCallParsers: current.toolCallParsers,
+    });
+  }
+
+  /**
+   * Checks that a backend can take over, using the health check of the local
+   * servers. Remote providers are assumed up if their client can be created.
+   */
+  private async isReachable(config: ContentGeneratorConfig): Promise<boolean> {
+    try {
+      const generator = await createContentGenerator(
+        config,
+        this.gcConfig,
+        this.sessionId,
+      );
+      const { healthCheck } = generator as {
+        healthCheck?: () => Promise<boolean>;
+      };
+      return typeof healthCheck === 'function'
+        ? await healthCheck.call(generator)
+        : true;
+    } catch {
+      return false;
     }
   }
 
@@ -235,43 +805,4 @@ export class ModelSwitchingService {
   getCurrentChat(): GeminiChat | null {
     return this.currentChat;
   }
-
-  async evaluateTaskType(userPrompt: string): Promise<TaskType> {
-    // Use simple keyword-based classification
-    const prompt = userPrompt.toLowerCase();
-    
-    // Check for exploration keywords
-    if (prompt.includes('understand') || prompt.includes('explore') || prompt.includes('find') || 
-        prompt.includes('discover') || prompt.includes('show me') || prompt.includes('what is') ||
-        prompt.includes('how does') || prompt.includes('explain')) {
-      return TaskType.EXPLORATION;
-    }
-    
-    // Check for planning keywords  
-    if (prompt.includes('plan') || prompt.includes('design') || prompt.includes('architect') ||
-        prompt.includes('approach') || prompt.includes('strategy') || prompt.includes('break down')) {
-      return TaskType.PLANNING;
-    }
-    
-    // Check for troubleshooting keywords
-    if (prompt.includes('debug') || prompt.includes('fix') || prompt.includes('error') ||
-        prompt.includes('issue') || prompt.includes('problem') || prompt.includes('troubleshoot')) {
-      return TaskType.TROUBLESHOOTING;
-    }
-    
-    // Check for review keywords
-    if (prompt.includes('review') || prompt.includes('analyze') || prompt.includes('audit') ||
-        prompt.includes('suggestions') || prompt.includes('improve') || prompt.includes('optimize')) {
-      return TaskType.REVIEW;
-    }
-    
-    // Check for documentation keywords
-    if (prompt.includes('document') || prompt.includes('readme') || prompt.includes('comment') ||
-        prompt.includes('docs') || prompt.includes('api doc')) {
-      return TaskType.DOCUMENTATION;
-    }
-    
-    // Default to implementation
-    return TaskType.IMPLEMENTATION;
-  }
 }
\ No newline at end of file
@@ -4,6 +4,8 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import type { AuthType, ContentGeneratorConfig } from './contentGenerator.js';
+
 export enum ModelStrength {
   WEAK = 'weak',
   STRONG = 'strong'
@@ -18,7 +20,87 @@ export enum TaskType {
   IMPLEMENTATION = 'implementation'
 }
 
+/** Model strength each built-in task type runs on. */
+export const DEFAULT_TASK_TIERS: Record<TaskType, ModelStrength> = {
+  [TaskType.EXPLORATION]: ModelStrength.STRONG,
+  [TaskType.PLANNING]: ModelStrength.STRONG,
+  [TaskType.TROUBLESHOOTING]: ModelStrength.STRONG,
+  [TaskType.REVIEW]: ModelStrength.STRONG,
+  [TaskType.DOCUMENTATION]: ModelStrength.WEAK,
+  [TaskType.IMPLEMENTATION]: ModelStrength.WEAK,
+};
+
+/**
+ * A `taskTypes` settings entry. Built-in task types may override any field;
+ * user-defined ones need a description and a tier.
+ */
+export interface TaskTypeDefinition {
+  /** Shown to the classifier model. */
+  description?: string;
+  /** `weak`, `strong` or an extra tier from the `modelSwitching` setting. */
+  tier?: string;
+  /** Words or phrases that classify a prompt without asking a model. */
+  keywords?: string[];
+}
+
+export interface TaskClassification {
+  /** A {@link TaskType} or a user-defined task type. */
+  taskType: string;
+  /** From 0 to 1. */
+  confidence: number;
+  /** Whether keywords, the classifier model or the fallback decided. */
+  source: 'heuristic' | 'model' | 'default';
+  /** Why the task was classified this way, for display. */
+  reason: string;
+}
+
+export type SamplingParams = NonNullable<
+  ContentGeneratorConfig['samplingParams']
+>;
+
 export interface ModelConfig {
   weak: string;
   strong: string;
-}
\ No newline at end of file
+  /** Extra named tiers beyond weak and strong, e.g. `{ medium: 'qwen2.5-coder:14b' }`. */
+  tiers?: Record<string, string>;
+  /** Server for this provider's models, overriding the environment. */
+  baseUrl?: string;
+  samplingParams?: SamplingParams;
+}
+
+/**
+ * The `modelSwitching` settings entry for one provider. Unset models fall
+ * back to the `<PROVIDER>_MODEL_WEAK`/`_STRONG` environment variables.
+ */
+export interface ModelSwitchingProviderSettings {
+  weak?: string;
+  strong?: string;
+  tiers?: Record<string, string>;
+  baseUrl?: string;
+  sampling_params?: SamplingParams;
+}
+
+/** The `modelSwitching` settings block, keyed by `AuthType` value. */
+export type ModelSwitchingSettings = Partial<
+  Record<AuthType, ModelSwitchingProviderSettings>
+>;
+/**
+ * A backend in the `fallbackChain` setting. The server address and sampling
+ * parameters come from the provider's `modelSwitching` entry.
+ */
+export interface FallbackChainEntry {
+  provider: AuthType;
+  /** Defaults to the provider's model of the current strength. */
+  model?: string;
+}
+
+/** Helpers that call a model outside the main conversation. */
+export const UTILITY_HELPERS = [
+  'editCorrector',
+  'nextSpeaker',
+  'summarizer',
+  'compression',
+  'mcpSampling',
+] as const;
+
+export type UtilityHelper = (typeof UTILITY_HELPERS)[number];
@@ -0,0 +1,638 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { FinishReason, GenerateContentResponse, Type } from '@google/genai';
+import { OllamaContentGenerator } from './ollamaContentGenerator.js';
+import { modelCapabilityRegistry } from './modelCapabilities.js';
+import { Config } from '../config/config.js';
+import { logApiResponse } from '../telemetry/loggers.js';
+
+vi.mock('./modelCapabilities.js', () => ({
+  modelCapabilityRegistry: {
+    resolveContextLength: vi.fn(),
+    supportsVision: vi.fn(),
+  },
+}));
+
+vi.mock('../telemetry/loggers.js', () => ({
+  logApiResponse: vi.fn(),
+}));
+
+function ndjsonResponse(lines: object[]): Response {
+  const encoder = new TextEncoder();
+  const text = lines.map((line) => JSON.stringify(line)).join('\n') + '\n';
+  // Split mid-line to exercise buffering across chunk boundaries.
+  const middle = Math.floor(text.length / 2);
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(text.slice(0, middle)));
+      controller.enqueue(encoder.encode(text.slice(middle)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status: 200 });
+}
+
+function jsonResponse(data: object, status = 200): Response {
+  return new Response(JSON.stringify(data), { status });
+}
+
+describe('OllamaContentGenerator', () => {
+  let mockConfig: Config;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  const sentBody = (call = 0) =>
+    JSON.parse(fetchMock.mock.calls[call][1].body as string);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfig = {
+      getContentGeneratorConfig: vi.fn().mockReturnValue({
+        model: 'qwen3:32b',
+        samplingParams: { top_k: 20, repetition_penalty: 1.1 },
+      }),
+    } as unknown as Config;
+    vi.mocked(modelCapabilityRegistry.resolveContextLength).mockResolvedValue(
+      40_960,
+    );
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send a native /api/chat request with Ollama options', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'qwen3:32b',
+        message: { role: 'assistant', content: '{"ok": true}' },
+        done: true,
+        done_reason: 'stop',
+        prompt_eval_count: 12,
+        eval_count: 5,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434/',
+      'qwen3:32b',
+      mockConfig,
+      { keepAlive: '10m' },
+    );
+
+    const response = await generator.generateContent({
+      model: 'qwen3:32b',
+      contents: [{ role: 'user', parts: [{ text: 'hi' }] }],
+      config: {
+        systemInstruction: 'be brief',
+        responseMimeType: 'application/json',
+        maxOutputTokens: 256,
+      },
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/chat');
+    expect(sentBody()).toEqual({
+      model: 'qwen3:32b',
+      messages: [
+        { role: 'system', content: 'be brief' },
+        { role: 'user', content: 'hi' },
+      ],
+      stream: false,
+      format: 'json',
+      keep_alive: '10m',
+      options: {
+        temperature: 0,
+        top_p: 1,
+        top_k: 20,
+        repeat_penalty: 1.1,
+        num_predict: 256,
+        num_ctx: 40_960,
+      },
+    });
+    expect(response.text).toBe('{"ok": true}');
+    expect(response.usageMetadata).toEqual({
+      promptTokenCount: 12,
+      candidatesTokenCount: 5,
+      totalTokenCount: 17,
+    });
+    expect(logApiResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send response schemas as the Ollama format', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'qwen3:32b',
+        message: { role: 'assistant', content: '{"next_speaker": "user"}' },
+        done: true,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    await generator.generateContent({
+      model: 'qwen3:32b',
+      contents: 'hi',
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { next_speaker: { type: Type.STRING } },
+          required: ['next_speaker'],
+        },
+      },
+    });
+
+    expect(sentBody().format).toEqual({
+      type: 'object',
+      properties: { next_speaker: { type: 'string' } },
+      required: ['next_speaker'],
+    });
+  });
+
+  it('should prefer a configured num_ctx over the discovered context length', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'qwen3:32b',
+        message: { role: 'assistant', content: '' },
+        done: true,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+      { numCtx: 16_384 },
+    );
+
+    await generator.generateContent({ model: 'qwen3:32b', contents: 'hi' });
+
+    expect(sentBody().options.num_ctx).toBe(16_384);
+    expect(modelCapabilityRegistry.resolveContextLength).not.toHaveBeenCalled();
+  });
+
+  it('should stream content, tool calls and final usage', async () => {
+    fetchMock.mockResolvedValue(
+      ndjsonResponse([
+        {
+          model: 'm',
+          message: { role: 'assistant', content: 'Let me ' },
+          done: false,
+        },
+        {
+          model: 'm',
+          message: { role: 'assistant', content: 'check.' },
+          done: false,
+        },
+        {
+          model: 'm',
+          message: {
+            role: 'assistant',
+            content: '',
+            tool_calls: [
+              { function: { name: 'read_file', arguments: { path: 'a.ts' } } },
+            ],
+          },
+          done: false,
+        },
+        {
+          model: 'm',
+          message: { role: 'assistant', content: '' },
+          done: true,
+          done_reason: 'stop',
+          prompt_eval_count: 100,
+          eval_count: 20,
+        },
+      ]),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    const stream = await generator.generateContentStream({
+      model: 'qwen3:32b',
+      contents: 'read a.ts',
+      config: {
+        tools: [
+          {
+            functionDeclarations: [
+              {
+                name: 'read_file',
+                description: 'Reads a file',
+                parameters: {
+                  type: Type.OBJECT,
+                  properties: { path: { type: Type.STRING } },
+                },
+              },
+            ],
+          },
+        ],
+      },
+    });
+    const responses: GenerateContentResponse[] = [];
+    for await (const response of stream) {
+      responses.push(response);
+    }
+
+    expect(sentBody().stream).toBe(true);
+    expect(sentBody().tools).toEqual([
+      {
+        type: 'function',
+        function: {
+          name: 'read_file',
+          description: 'Reads a file',
+          parameters: {
+            type: 'object',
+            properties: { path: { type: 'string' } },
+          },
+        },
+      },
+    ]);
+    expect(responses.map((r) => r.text ?? '').join('')).toBe('Let me check.');
+    const functionCall = responses[2].functionCalls?.[0];
+    expect(functionCall?.name).toBe('read_file');
+    expect(functionCall?.args).toEqual({ path: 'a.ts' });
+    expect(functionCall?.id).toMatch(/^call_/);
+    const last = responses[responses.length - 1];
+    expect(last.candidates?.[0].finishReason).toBe(FinishReason.STOP);
+    expect(last.usageMetadata?.promptTokenCount).toBe(100);
+    expect(last.usageMetadata?.candidatesTokenCount).toBe(20);
+  });
+
+  it('should stream <think> reasoning as separate thought responses', async () => {
+    const line = (content: string, done = false) => ({
+      model: 'm',
+      message: { role: 'assistant', content },
+      done,
+    });
+    fetchMock.mockResolvedValue(
+      ndjsonResponse([
+        line('<thi'),
+        line('nk>The user'),
+        line(' says hi</thi'),
+        line('nk>\n\nHello'),
+        line('!', true),
+      ]),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    const stream = await generator.generateContentStream({
+      model: 'qwen3:32b',
+      contents: 'hi',
+    });
+    const parts = [];
+    for await (const response of stream) {
+      parts.push(...(response.candidates?.[0].content?.parts ?? []));
+    }
+
+    expect(parts).toEqual([
+      { text: 'The user', thought: true },
+      { text: ' says hi', thought: true },
+      { text: 'Hello' },
+      { text: '!' },
+    ]);
+  });
+
+  it('should drop reasoning from non-streamed responses', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'm',
+        message: {
+          role: 'assistant',
+          content: '<think>pick a format</think>{"ok": true}',
+          thinking: 'more reasoning',
+        },
+        done: true,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    const response = await generator.generateContent({
+      model: 'qwen3:32b',
+      contents: 'hi',
+    });
+
+    expect(response.candidates?.[0].content?.parts).toEqual([
+      { text: '{"ok": true}' },
+    ]);
+  });
+
+  it('should turn tool calls written as text into function calls', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'm',
+        message: {
+          role: 'assistant',
+          content:
+            '<tool_call>\n{"name": "read_file", "arguments": {"path": "a.ts"}}\n</tool_call>',
+        },
+        done: true,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    const response = await generator.generateContent({
+      model: 'qwen3:32b',
+      contents: 'read a.ts',
+      config: {
+        tools: [
+          {
+            functionDeclarations: [
+              { name: 'read_file', description: 'Reads a file' },
+            ],
+          },
+        ],
+      },
+    });
+
+    expect(response.candidates?.[0].content?.parts).toEqual([
+      {
+        functionCall: {
+          id: expect.stringMatching(/^call_/),
+          name: 'read_file',
+          args: { path: 'a.ts' },
+        },
+      },
+    ]);
+  });
+
+  it('should not send thought parts back to the model', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'm',
+        message: { role: 'assistant', content: 'ok' },
+        done: true,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    await generator.generateContent({
+      model: 'qwen3:32b',
+      contents: [
+        { role: 'user', parts: [{ text: 'hi' }] },
+        {
+          role: 'model',
+          parts: [{ text: 'greet back', thought: true }, { text: 'Hello' }],
+        },
+        { role: 'user', parts: [{ text: 'again' }] },
+      ],
+    });
+
+    expect(sentBody().messages).toEqual([
+      { role: 'user', content: 'hi' },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: 'again' },
+    ]);
+  });
+
+  it('should convert function calls and responses into Ollama messages', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'm',
+        message: { role: 'assistant', content: 'done' },
+        done: true,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    await generator.generateContent({
+      model: 'qwen3:32b',
+      contents: [
+        { role: 'user', parts: [{ text: 'list files' }] },
+        {
+          role: 'model',
+          parts: [
+            { functionCall: { id: 'c1', name: 'ls', args: { path: '.' } } },
+          ],
+        },
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'c1',
+                name: 'ls',
+                response: { output: 'a.ts' },
+              },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(sentBody().messages).toEqual([
+      { role: 'user', content: 'list files' },
+      {
+        role: 'assistant',
+        content: '',
+        tool_calls: [{ function: { name: 'ls', arguments: { path: '.' } } }],
+      },
+      { role: 'tool', tool_name: 'ls', content: '{"output":"a.ts"}' },
+    ]);
+  });
+
+  it('should send images a tool read to vision models', async () => {
+    vi.mocked(modelCapabilityRegistry.supportsVision).mockReturnValue(true);
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'm',
+        message: { role: 'assistant', content: 'A cat.' },
+        done: true,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen2.5vl:7b',
+      mockConfig,
+    );
+
+    await generator.generateContent({
+      model: 'qwen2.5vl:7b',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            {
+              functionResponse: {
+                id: 'c1',
+                name: 'read_file',
+                response: { output: 'Binary content provided (1 item(s)).' },
+              },
+            },
+            { inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+          ],
+        },
+      ],
+    });
+
+    expect(sentBody().messages).toEqual([
+      {
+        role: 'tool',
+        tool_name: 'read_file',
+        content: '{"output":"Binary content provided (1 item(s))."}',
+      },
+      { role: 'user', content: '', images: ['iVBORw0KGgo='] },
+    ]);
+  });
+
+  it('should replace images with a note for text-only models', async () => {
+    vi.mocked(modelCapabilityRegistry.supportsVision).mockReturnValue(false);
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        model: 'm',
+        message: { role: 'assistant', content: 'ok' },
+        done: true,
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    await generator.generateContent({
+      model: 'qwen3:32b',
+      contents: [
+        {
+          role: 'user',
+          parts: [
+            { text: 'What is in this picture?' },
+            { inlineData: { mimeType: 'image/jpeg', data: '/9j/4AAQ' } },
+          ],
+        },
+      ],
+    });
+
+    expect(sentBody().messages).toEqual([
+      {
+        role: 'user',
+        content:
+          'What is in this picture?\n[An image (image/jpeg) was attached, but this model cannot read images.]',
+      },
+    ]);
+  });
+
+  it('should surface HTTP errors and log them', async () => {
+    fetchMock.mockResolvedValue(
+      new Response('model "nope" not found', { status: 404 }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'nope',
+      mockConfig,
+    );
+
+    await expect(
+      generator.generateContent({ model: 'nope', contents: 'hi' }),
+    ).rejects.toThrow('Ollama API error: 404 model "nope" not found');
+    expect(logApiResponse).toHaveBeenCalledTimes(1);
+  });
+
+  it('should count tokens with the tokenize endpoint when available', async () => {
+    fetchMock.mockResolvedValue(jsonResponse({ tokens: [1, 2, 3] }));
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    const { totalTokens } = await generator.countTokens({
+      model: 'qwen3:32b',
+      contents: [{ role: 'user', parts: [{ text: 'hi there' }] }],
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe(
+      'http://localhost:11434/api/tokenize',
+    );
+    expect(sentBody()).toEqual({
+      model: 'qwen3:32b',
+      content: 'user\nhi there',
+    });
+    expect(totalTokens).toBe(3 + 4);
+  });
+
+  it('should fall back to the bundled tokenizer without a tokenize endpoint', async () => {
+    fetchMock.mockResolvedValue(new Response('not found', { status: 404 }));
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    const first = await generator.countTokens({
+      model: 'qwen3:32b',
+      contents: 'hello world',
+    });
+    await generator.countTokens({ model: 'qwen3:32b', contents: 'again' });
+
+    // 'user', '\n', 'hello', ' world' plus the message overhead.
+    expect(first.totalTokens).toBe(4 + 4);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('should embed each text with the requested model', async () => {
+    fetchMock.mockResolvedValue(
+      jsonResponse({
+        embeddings: [
+          [0.1, 0.2],
+          [0.3, 0.4],
+        ],
+      }),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'qwen3:32b',
+      mockConfig,
+    );
+
+    const response = await generator.embedContent({
+      model: 'mxbai-embed-large',
+      contents: ['first', 'second'],
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/api/embed');
+    expect(sentBody()).toEqual({
+      model: 'mxbai-embed-large',
+      input: ['first', 'second'],
+    });
+    expect(response.embeddings).toEqual([
+      { values: [0.1, 0.2] },
+      { values: [0.3, 0.4] },
+    ]);
+  });
+
+  it('should not touch OPENAI_BASE_URL', () => {
+    const before = process.env.OPENAI_BASE_URL;
+    new OllamaContentGenerator('http://localhost:11434', 'm', mockConfig);
+    expect(process.env.OPENAI_BASE_URL).toBe(before);
+  });
+});
@@ -4,26 +4,301 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { OpenAIContentGenerator } from './openaiContentGenerator.js';
+import {
+  CallableTool,
+  Content,
+  ContentListUnion,
+  CountTokensParameters,
+  CountTokensResponse,
+  EmbedContentParameters,
+  EmbedContentResponse,
+  FinishReason,
+  FunctionCall,
+  GenerateContentParameters,
+  GenerateContentResponse,
+  GenerateContentResponseUsageMetadata,
+  Part,
+  Tool,
+  ToolListUnion,
+} from '@google/genai';
+import { AuthType, ContentGenerator } from './contentGenerator.js';
+import { modelCapabilityRegistry } from './modelCapabilities.js';
+import { getResponseJsonSchema, toJsonSchema } from '../utils/jsonSchema.js';
+import { toContentArray } from '../utils/tokenCounter.js';
+import { prepareAttachments } from '../utils/attachments.js';
 import { Config } from '../config/config.js';
+import { DEFAULT_OLLAMA_EMBEDDING_MODEL } from '../config/models.js';
+import { logApiResponse } from '../telemetry/loggers.js';
+import { ApiResponseEvent } from '../telemetry/types.js';
+import { getErrorMessage } from '../utils/errors.js';
+import {
+  ThinkTagParser,
+  splitThoughtResponse,
+} from '../utils/thinkTagParser.js';
+import {
+  TextToolCallParser,
+  createTextToolCallParser,
+  resolveToolCallParser,
+} from '../utils/textToolCallParser.js';
+import {
+  TokenCounter,
+  Tokenizer,
+  createBpeTokenizer,
+} from '../utils/tokenCounter.js';
+
+/**
+ * Ollama-specific request options that have no equivalent in the Gemini API.
+ */
+export interface OllamaOptions {
+  /**
+   * Context window to request from Ollama. Defaults to the model's context
+   * length as reported by `/api/show`, instead of Ollama's 2k/4k default.
+   */
+  numCtx?: number;
+  /** How long the model stays loaded after a request, e.g. `'10m'` or `-1`. */
+  keepAlive?: string | number;
+}
+
+interface OllamaToolCall {
+  function: {
+    name: string;
+    arguments: Record<string, unknown>;
+  };
+}
+
+interface OllamaMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool';
+  content: string;
+  tool_calls?: OllamaToolCall[];
+  tool_name?: string;
+  /** Base64-encoded images, for vision models. */
+  images?: string[];
+}
+
+interface OllamaTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+interface OllamaChatRequest {
+  model: string;
+  messages: OllamaMessage[];
+  stream: boolean;
+  tools?: OllamaTool[];
+  format?: 'json' | Record<string, unknown>;
+  keep_alive?: string | number;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Parsers that pull reasoning and text-written tool calls out of a response's
+ * content. A streamed response shares one set across all of its chunks.
+ */
+interface ContentParsers {
+  thinkTags: ThinkTagParser;
+  toolCalls?: TextToolCallParser;
+}
+
+/**
+ * A single response object from `/api/chat`. When streaming, one is sent per
+ * line and only the last one (`done: true`) carries the token counts.
+ */
+interface OllamaChatResponse {
+  model: string;
+  message?: {
+    role: 'assistant';
+    content: string;
+    /** Reasoning, when the model runs with Ollama's `think` option. */
+    thinking?: string;
+    tool_calls?: OllamaToolCall[];
+  };
+  done: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+}
 
 /**
  * Content generator for Ollama local LLM server.
- * Ollama provides an OpenAI-compatible API, so we use OpenAIContentGenerator
- * by setting the appropriate environment variables.
+ * Talks to Ollama's native `/api/chat` endpoint rather than its OpenAI
+ * compatibility layer, so that Ollama-only request options (`num_ctx`,
+ * `keep_alive`, `format`) and real token counts are available.
  */
-export class OllamaContentGenerator extends OpenAIContentGenerator {
-  private baseUrl: string;
-
-  constructor(baseUrl: string, model: string, config: Config) {
-    // Set environment variable for OpenAI base URL to Ollama's v1 endpoint
-    process.env.OPENAI_BASE_URL = `${baseUrl}/v1`;
-    
-    // Call parent constructor with dummy API key (not needed for Ollama)
-    super('not-required', model, config);
-    this.baseUrl = baseUrl;
-  }
-  
+export class OllamaContentGenerator implements ContentGenerator {
+  private readonly baseUrl: string;
+  private readonly model: string;
+  private readonly config: Config;
+  private readonly options: OllamaOptions;
+  private numCtx?: Promise<number>;
+  private readonly bpeTokenizer: Tokenizer;
+  private readonly tokenCounter = new TokenCounter((text) =>
+    this.tokenize(text),
+  );
+  private tokenizeEndpointAvailable = true;
+  private toolCallCounter = 0;
+
+  constructor(
+    baseUrl: string,
+    model: string,
+    config: Config,
+    options: OllamaOptions = {},
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.config = config;
+    this.options = options;
+    this.bpeTokenizer = createBpeTokenizer(model);
+  }
+
+  async generateContent(
+    request: GenerateContentParameters,
+  ): Promise<GenerateContentResponse> {
+    const startTime = Date.now();
+    try {
+      const chatRequest = await this.buildChatRequest(request, false);
+      const httpResponse = await this.postChat(
+        chatRequest,
+        request.config?.abortSignal,
+      );
+      const data = (await httpResponse.json()) as OllamaChatResponse;
+      if (data.error) {
+        throw new Error(data.error);
+      }
+      // Non-streaming callers (generateJson, compression) only want the
+      // answer, so reasoning is dropped.
+      const response = this.convertToGeminiFormat(
+        data,
+        this.createContentParsers(chatRequest),
+        false,
+      );
+      this.logResponse(startTime, response.usageMetadata);
+      return response;
+    } catch (error) {
+      this.logResponse(startTime, undefined, error);
+      throw Object.assign(
+        new Error(`Ollama API error: ${getErrorMessage(error)}`),
+        { cause: error },
+      );
+    }
+  }
+
+  async generateContentStream(
+    request: GenerateContentParameters,
+  ): Promise<AsyncGenerator<GenerateContentResponse>> {
+    const startTime = Date.now();
+    let httpResponse: Response;
+    let parsers: ContentParsers;
+    try {
+      const chatRequest = await this.buildChatRequest(request, true);
+      parsers = this.createContentParsers(chatRequest);
+      httpResponse = await this.postChat(
+        chatRequest,
+        request.config?.abortSignal,
+      );
+    } catch (error) {
+      this.logResponse(startTime, undefined, error);
+      throw Object.assign(
+        new Error(`Ollama API error: ${getErrorMessage(error)}`),
+        { cause: error },
+      );
+    }
+
+    const body = httpResponse.body;
+    if (!body) {
+      throw new Error('Ollama API error: response has no body');
+    }
+
+    return async function* (this: OllamaContentGenerator) {
+      let usageMetadata: GenerateContentResponseUsageMetadata | undefined;
+      try {
+        for await (const chunk of readNdjson(body)) {
+          if (chunk.error) {
+            throw new Error(chunk.error);
+          }
+          const response = this.convertToGeminiFormat(chunk, parsers, true);
+          usageMetadata = response.usageMetadata ?? usageMetadata;
+          yield* splitThoughtResponse(response);
+        }
+        this.logResponse(startTime, usageMetadata);
+      } catch (error) {
+        this.logResponse(startTime, usageMetadata, error);
+        throw Object.assign(
+          new Error(`Ollama API error: ${getErrorMessage(error)}`),
+          { cause: error },
+        );
+      }
+    }.call(this);
+  }
+
+  async countTokens(
+    request: CountTokensParameters,
+  ): Promise<CountTokensResponse> {
+    return {
+      totalTokens: await this.tokenCounter.countTokens(request.contents),
+    };
+  }
+
+  /**
+   * Counts tokens with the model's own tokenizer through `/api/tokenize`,
+   * which only some Ollama builds provide. Otherwise, and after the first
+   * failure, the bundled BPE ranks closest to the model family are used.
+   */
+  private async tokenize(text: string): Promise<number> {
+    if (this.tokenizeEndpointAvailable) {
+      try {
+        const response = await fetch(`${this.baseUrl}/api/tokenize`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model: this.model, content: text }),
+        });
+        if (response.ok) {
+          const data = (await response.json()) as { tokens?: number[] };
+          if (Array.isArray(data.tokens)) {
+            return data.tokens.length;
+          }
+        }
+      } catch {
+        // Fall through to the bundled tokenizer.
+      }
+      this.tokenizeEndpointAvailable = false;
+    }
+    return this.bpeTokenizer(text);
+  }
+
+  async embedContent(
+    request: EmbedContentParameters,
+  ): Promise<EmbedContentResponse> {
+    const input = toContentArray(request.contents).map(contentText);
+    const response = await fetch(`${this.baseUrl}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: request.model || DEFAULT_OLLAMA_EMBEDDING_MODEL,
+        input,
+        ...(this.options.keepAlive !== undefined
+          ? { keep_alive: this.options.keepAlive }
+          : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(
+          `Ollama API error: ${response.status} ${await response.text()}`,
+        ),
+        { status: response.status },
+      );
+    }
+    const data = (await response.json()) as { embeddings?: number[][] };
+    return {
+      embeddings: (data.embeddings ?? []).map((values) => ({ values })),
+    };
+  }
+
   /**
    * List available models from Ollama server
    */
@@ -33,8 +308,10 @@ export class OllamaContentGenerator extends OpenAIContentGenerator {
       if (!response.ok) {
         throw new Error(`Failed to fetch models: ${response.statusText}`);
       }
-      const data = await response.json();
-      return data.models?.map((m: any) => m.name) || [];
+      const data = (await response.json()) as {
+        models?: Array<{ name: string }>;
+      };
+      return data.models?.map((m) => m.name) || [];
     } catch (error) {
       console.error('Failed to list Ollama models:', error);
       return [];
@@ -55,4 +332,363 @@ export class OllamaContentGenerator extends OpenAIContentGenerator {
       return false;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Resolves the context window sent as `options.num_ctx`. Looked up once per
+   * generator, since it only changes with the model.
+   */
+  private getNumCtx(): Promise<number> {
+    if (this.options.numCtx) {
+      return Promise.resolve(this.options.numCtx);
+    }
+    if (!this.numCtx) {
+      this.numCtx = modelCapabilityRegistry.resolveContextLength(
+        AuthType.USE_OLLAMA,
+        this.model,
+        this.baseUrl,
+      );
+    }
+    return this.numCtx;
+  }
+
+  private async postChat(
+    body: OllamaChatRequest,
+    signal?: AbortSignal,
+  ): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}/api/chat`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw Object.assign(
+        new Error(`${response.status} ${await response.text()}`),
+        { status: response.status },
+      );
+    }
+    return response;
+  }
+
+  private async buildChatRequest(
+    request: GenerateContentParameters,
+    stream: boolean,
+  ): Promise<OllamaChatRequest> {
+    const chatRequest: OllamaChatRequest = {
+      model: this.model,
+      messages: this.convertToOllamaMessages(
+        await prepareAttachments(
+          request,
+          modelCapabilityRegistry.supportsVision(this.model),
+        ),
+      ),
+      stream,
+      options: {
+        ...this.buildSamplingOptions(request),
+        num_ctx: await this.getNumCtx(),
+      },
+    };
+    if (request.config?.tools) {
+      chatRequest.tools = await this.convertTools(request.config.tools);
+    }
+    // Ollama constrains the reply to a JSON Schema, or to any JSON
+    const schema = getResponseJsonSchema(request.config);
+    if (schema) {
+      chatRequest.format = schema;
+    } else if (request.config?.responseMimeType === 'application/json') {
+      chatRequest.format = 'json';
+    }
+    if (this.options.keepAlive !== undefined) {
+      chatRequest.keep_alive = this.options.keepAlive;
+    }
+    return chatRequest;
+  }
+
+  /**
+   * Maps the configured sampling parameters onto Ollama's option names,
+   * with the same config > request > default priority as the OpenAI
+   * generator.
+   */
+  private buildSamplingOptions(
+    request: GenerateContentParameters,
+  ): Record<string, unknown> {
+    const configParams =
+      this.config.getContentGeneratorConfig()?.samplingParams ?? {};
+    const options: Record<string, unknown> = {
+      temperature:
+        configParams.temperature ?? request.config?.temperature ?? 0.0,
+      top_p: configParams.top_p ?? request.config?.topP ?? 1.0,
+    };
+    const numPredict =
+      configParams.max_tokens ?? request.config?.maxOutputTokens;
+    if (numPredict !== undefined) {
+      options.num_predict = numPredict;
+    }
+    if (configParams.top_k !== undefined) {
+      options.top_k = configParams.top_k;
+    }
+    if (configParams.repetition_penalty !== undefined) {
+      options.repeat_penalty = configParams.repetition_penalty;
+    }
+    if (configParams.presence_penalty !== undefined) {
+      options.presence_penalty = configParams.presence_penalty;
+    }
+    if (configParams.frequency_penalty !== undefined) {
+      options.frequency_penalty = configParams.frequency_penalty;
+    }
+    return options;
+  }
+
+  private convertToOllamaMessages(
+    request: GenerateContentParameters,
+  ): OllamaMessage[] {
+    const messages: OllamaMessage[] = [];
+
+    const systemInstruction = request.config?.systemInstruction;
+    if (systemInstruction) {
+      const systemText = toContentArray(systemInstruction as ContentListUnion)
+        .map(contentText)
+        .join('\n');
+      if (systemText) {
+        messages.push({ role: 'system', content: systemText });
+      }
+    }
+
+    for (const content of toContentArray(request.contents)) {
+      const textParts: string[] = [];
+      const toolCalls: OllamaToolCall[] = [];
+      const images: string[] = [];
+
+      for (const part of content.parts ?? []) {
+        if (part.thought) {
+          // Reasoning is never sent back to the model.
+          continue;
+        } else if (part.text) {
+          textParts.push(part.text);
+        } else if (part.functionCall) {
+          toolCalls.push({
+            function: {
+              name: part.functionCall.name ?? '',
+              arguments: part.functionCall.args ?? {},
+            },
+          });
+        } else if (part.inlineData?.mimeType?.startsWith('image/')) {
+          // Images that reach here were kept by prepareAttachments
+          images.push(part.inlineData.data ?? '');
+        } else if (part.functionResponse) {
+          const response = part.functionResponse.response;
+          messages.push({
+            role: 'tool',
+            tool_name: part.functionResponse.name,
+            content:
+              typeof response === 'string'
+                ? response
+                : JSON.stringify(response),
+          });
+        }
+      }
+
+      const text = textParts.join('\n');
+      if (content.role === 'model') {
+        if (text || toolCalls.length > 0) {
+          messages.push({
+            role: 'assistant',
+            content: text,
+            ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+          });
+        }
+      } else if (images.length > 0) {
+        // Images a tool read follow its results, as tool messages are text
+        messages.push({ role: 'user', content: text, images });
+      } else if (text) {
+        messages.push({ role: 'user', content: text });
+      }
+    }
+
+    return messages;
+  }
+
+  private async convertTools(tools: ToolListUnion): Promise<OllamaTool[]> {
+    const ollamaTools: OllamaTool[] = [];
+    for (const tool of tools) {
+      const actualTool: Tool =
+        'tool' in tool ? await (tool as CallableTool).tool() : (tool as Tool);
+      for (const func of actualTool.functionDeclarations ?? []) {
+        if (func.name && func.description) {
+          ollamaTools.push({
+            type: 'function',
+            function: {
+              name: func.name,
+              description: func.description,
+              parameters: toJsonSchema(func.parameters ?? {}),
+            },
+          });
+        }
+      }
+    }
+    return ollamaTools;
+  }
+
+  private createContentParsers(chatRequest: OllamaChatRequest): ContentParsers {
+    return {
+      thinkTags: new ThinkTagParser(),
+      toolCalls: createTextToolCallParser(
+        resolveToolCallParser(
+          this.config.getContentGeneratorConfig()?.toolCallParsers,
+          this.model,
+        ),
+        (chatRequest.tools ?? []).map((tool) => tool.function.name),
+      ),
+    };
+  }
+
+  private convertToGeminiFormat(
+    chunk: OllamaChatResponse,
+    parsers: ContentParsers,
+    includeThoughts: boolean,
+  ): GenerateContentResponse {
+    const response = new GenerateContentResponse();
+    const parts: Part[] = [];
+
+    // Reasoning arrives in `thinking` when Ollama parses it, and as inline
+    // <think> tags otherwise.
+    const split = parsers.thinkTags.push(chunk.message?.content ?? '');
+    if (chunk.done) {
+      const rest = parsers.thinkTags.flush();
+      split.thought += rest.thought;
+      split.content += rest.content;
+    }
+    const thought = (chunk.message?.thinking ?? '') + split.thought;
+    if (thought && includeThoughts) {
+      parts.push({ text: thought, thought: true });
+    }
+
+    // Models whose template ignores `tools` write their calls as text.
+    let content = split.content;
+    const textToolCalls: FunctionCall[] = [];
+    if (parsers.toolCalls) {
+      const parsed = parsers.toolCalls.push(content);
+      if (chunk.done) {
+        const rest = parsers.toolCalls.flush();
+        parsed.content += rest.content;
+        parsed.functionCalls.push(...rest.functionCalls);
+      }
+      content = parsed.content;
+      textToolCalls.push(...parsed.functionCalls);
+    }
+    if (content) {
+      parts.push({ text: content });
+    }
+    for (const functionCall of textToolCalls) {
+      parts.push({ functionCall });
+    }
+    // Ollama sends complete tool calls without ids, so generate our own to
+    // pair them with their responses.
+    for (const toolCall of chunk.message?.tool_calls ?? []) {
+      parts.push({
+        functionCall: {
+          id: `call_${Date.now()}_${this.toolCallCounter++}`,
+          name: toolCall.function.name,
+          args: toolCall.function.arguments ?? {},
+        },
+      });
+    }
+
+    response.candidates = [
+      {
+        content: { parts, role: 'model' },
+        finishReason: chunk.done
+          ? this.mapFinishReason(chunk.done_reason)
+          : FinishReason.FINISH_REASON_UNSPECIFIED,
+        index: 0,
+        safetyRatings: [],
+      },
+    ];
+    response.modelVersion = this.model;
+    response.promptFeedback = { safetyRatings: [] };
+
+    if (chunk.done) {
+      const promptTokens = chunk.prompt_eval_count ?? 0;
+      const completionTokens = chunk.eval_count ?? 0;
+      response.usageMetadata = {
+        promptTokenCount: promptTokens,
+        candidatesTokenCount: completionTokens,
+        totalTokenCount: promptTokens + completionTokens,
+      };
+    }
+
+    return response;
+  }
+
+  private mapFinishReason(doneReason?: string): FinishReason {
+    switch (doneReason) {
+      case 'stop':
+        return FinishReason.STOP;
+      case 'length':
+        return FinishReason.MAX_TOKENS;
+      default:
+        return FinishReason.STOP;
+    }
+  }
+
+  private logResponse(
+    startTime: number,
+    usageMetadata?: GenerateContentResponseUsageMetadata,
+    error?: unknown,
+  ): void {
+    logApiResponse(
+      this.config,
+      new ApiResponseEvent(
+        this.model,
+        Date.now() - startTime,
+        `ollama-${Date.now()}`,
+        AuthType.USE_OLLAMA,
+        usageMetadata,
+        undefined,
+        error === undefined ? undefined : getErrorMessage(error),
+      ),
+    );
+  }
+}
+
+/**
+ * Parses a newline-delimited JSON stream, as returned by `/api/chat` with
+ * `stream: true`.
+ */
+async function* readNdjson(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<OllamaChatResponse> {
+  const decoder = new TextDecoder();
+  const reader = body.getReader();
+  let buffer = '';
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      let newline: number;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline).trim();
+        buffer = buffer.slice(newline + 1);
+        if (line) {
+          yield JSON.parse(line) as OllamaChatResponse;
+        }
+      }
+    }
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      yield JSON.parse(buffer) as OllamaChatResponse;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+function contentText(content: Content): string {
+  return (content.parts ?? [])
+    .map((part) => part.text ?? '')
+    .filter(Boolean)
+    .join('\n');
+}
@@ -30,6 +30,23 @@ import { logApiResponse } from '../telemetry/loggers.js';
 import { ApiResponseEvent } from '../telemetry/types.js';
 import { Config } from '../config/config.js';
 import { openaiLogger } from '../utils/openaiLogger.js';
+import { isTimeoutError } from '../utils/providerErrors.js';
+import {
+  ThinkTagParser,
+  splitThinkTags,
+  splitThoughtResponse,
+} from '../utils/thinkTagParser.js';
+import {
+  TextToolCallParser,
+  createTextToolCallParser,
+  parseTextToolCalls,
+  resolveToolCallParser,
+} from '../utils/textToolCallParser.js';
+import { TokenCounter, createBpeTokenizer } from '../utils/tokenCounter.js';
+import { getResponseJsonSchema } from '../utils/jsonSchema.js';
+import { prepareAttachments } from '../utils/attachments.js';
+import { modelCapabilityRegistry } from './modelCapabilities.js';
+import { DEFAULT_OPENAI_EMBEDDING_MODEL } from '../config/models.js';
 
 // OpenAI API type definitions for logging
 interface OpenAIToolCall {
@@ -67,6 +84,16 @@ interface OpenAIRequestFormat {
   max_tokens?: number;
   top_p?: number;
   tools?: unknown[];
+  response_format?: unknown;
+}
+
+/**
+ * Reasoning fields that OpenAI-compatible servers (vLLM, DeepSeek, LM Studio,
+ * OpenRouter) add to streamed deltas outside the official schema.
+ */
+interface ReasoningFields {
+  reasoning_content?: string | null;
+  reasoning?: string | null;
 }
 
 interface OpenAIResponseFormat {
@@ -90,11 +117,19 @@ export class OpenAIContentGenerator implements ContentGenerator {
       arguments: string;
     }
   > = new Map();
-
-  constructor(apiKey: string, model: string, config: Config) {
+  private thinkTagParser = new ThinkTagParser();
+  private textToolCallParser?: TextToolCallParser;
+  private tokenCounter: TokenCounter;
+
+  constructor(
+    apiKey: string,
+    model: string,
+    config: Config,
+    baseURL: string = process.env.OPENAI_BASE_URL || '',
+  ) {
     this.model = model;
     this.config = config;
-    const baseURL = process.env.OPENAI_BASE_URL || '';
+    this.tokenCounter = new TokenCounter(createBpeTokenizer(model));
 
     // Configure timeout settings - using progressive timeouts
     const timeoutConfig = {
@@ -123,44 +158,16 @@ export class OpenAIContentGenerator implements ContentGenerator {
     });
   }
 
-  /**
-   * Check if an error is a timeout error
-   */
-  private isTimeoutError(error: unknown): boolean {
-    if (!error) return false;
-
-    const errorMessage =
-      error instanceof Error
-        ? error.message.toLowerCase()
-        : String(error).toLowerCase();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const errorCode = (error as any)?.code;
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const errorType = (error as any)?.type;
-
-    // Check for common timeout indicators
-    return (
-      errorMessage.includes('timeout') ||
-      errorMessage.includes('timed out') ||
-      errorMessage.includes('connection timeout') ||
-      errorMessage.includes('request timeout') ||
-      errorMessage.includes('read timeout') ||
-      errorMessage.includes('etimedout') || // Include ETIMEDOUT in message check
-      errorMessage.includes('esockettimedout') || // Include ESOCKETTIMEDOUT in message check
-      errorCode === 'ETIMEDOUT' ||
-      errorCode === 'ESOCKETTIMEDOUT' ||
-      errorType === 'timeout' ||
-      // OpenAI specific timeout indicators
-      errorMessage.includes('request timed out') ||
-      errorMessage.includes('deadline exceeded')
-    );
-  }
-
   async generateContent(
     request: GenerateContentParameters,
   ): Promise<GenerateContentResponse> {
     const startTime = Date.now();
-    const messages = this.convertToOpenAIFormat(request);
+    const messages = this.convertToOpenAIFormat(
+      await prepareAttachments(
+        request,
+        modelCapabilityRegistry.supportsVision(this.model),
+      ),
+    );
 
     try {
       // Build sampling parameters with clear priority:
@@ -182,12 +189,19 @@ export class OpenAIContentGenerator implements ContentGenerator {
           request.config.tools,
         );
       }
+      const responseFormat = this.buildResponseFormat(request);
+      if (responseFormat) {
+        createParams.response_format = responseFormat;
+      }
       // console.log('createParams', createParams);
       const completion = (await this.client.chat.completions.create(
         createParams,
       )) as ChatCompletion;
 
-      const response = this.convertToGeminiFormat(completion);
+      const response = this.convertToGeminiFormat(
+        completion,
+        this.getToolNames(createParams.tools),
+      );
       const durationMs = Date.now() - startTime;
 
       // Log API response event for UI telemetry
@@ -213,8 +227,8 @@ export class OpenAIContentGenerator implements ContentGenerator {
       const durationMs = Date.now() - startTime;
 
       // Identify timeout errors specifically
-      const isTimeoutError = this.isTimeoutError(error);
-      const errorMessage = isTimeoutError
+      const isTimeout = isTimeoutError(error);
+      const errorMessage = isTimeout
         ? `Request timeout after ${Math.round(durationMs / 1000)}s. Try reducing input length or increasing timeout in config.`
         : error instanceof Error
           ? error.message
@@ -269,17 +283,22 @@ export class OpenAIContentGenerator implements ContentGenerator {
       console.error('OpenAI API Error:', errorMessage);
 
       // Provide helpful timeout-specific error message
-      if (isTimeoutError) {
-        throw new Error(
-          `${errorMessage}\n\nTroubleshooting tips:\n` +
-            `- Reduce input length or complexity\n` +
-            `- Increase timeout in config: contentGenerator.timeout\n` +
-            `- Check network connectivity\n` +
-            `- Consider using streaming mode for long responses`,
+      if (isTimeout) {
+        throw Object.assign(
+          new Error(
+            `${errorMessage}\n\nTroubleshooting tips:\n` +
+              `- Reduce input length or complexity\n` +
+              `- Increase timeout in config: contentGenerator.timeout\n` +
+              `- Check network connectivity\n` +
+              `- Consider using streaming mode for long responses`,
+          ),
+          { cause: error },
         );
       }
 
-      throw new Error(`OpenAI API error: ${errorMessage}`);
+      throw Object.assign(new Error(`OpenAI API error: ${errorMessage}`), {
+        cause: error,
+      });
     }
   }
 
@@ -287,7 +306,12 @@ export class OpenAIContentGenerator implements ContentGenerator {
     request: GenerateContentParameters,
   ): Promise<AsyncGenerator<GenerateContentResponse>> {
     const startTime = Date.now();
-    const messages = this.convertToOpenAIFormat(request);
+    const messages = this.convertToOpenAIFormat(
+      await prepareAttachments(
+        request,
+        modelCapabilityRegistry.supportsVision(this.model),
+      ),
+    );
 
     try {
       // Build sampling parameters with clear priority
@@ -308,6 +332,10 @@ export class OpenAIContentGenerator implements ContentGenerator {
           request.config.tools,
         );
       }
+      const responseFormat = this.buildResponseFormat(request);
+      if (responseFormat) {
+        createParams.response_format = responseFormat;
+      }
 
       // console.log('createParams', createParams);
 
@@ -315,7 +343,10 @@ export class OpenAIContentGenerator implements ContentGenerator {
         createParams,
       )) as AsyncIterable<ChatCompletionChunk>;
 
-      const originalStream = this.streamGenerator(stream);
+      const originalStream = this.streamGenerator(
+        stream,
+        this.getToolNames(createParams.tools),
+      );
 
       // Collect all responses for final logging (don't log during streaming)
       const responses: GenerateContentResponse[] = [];
@@ -362,8 +393,8 @@ export class OpenAIContentGenerator implements ContentGenerator {
           const durationMs = Date.now() - startTime;
 
           // Identify timeout errors specifically for streaming
-          const isTimeoutError = this.isTimeoutError(error);
-          const errorMessage = isTimeoutError
+          const isTimeout = isTimeoutError(error);
+          const errorMessage = isTimeout
             ? `Streaming request timeout after ${Math.round(durationMs / 1000)}s. Try reducing input length or increasing timeout in config.`
             : error instanceof Error
               ? error.message
@@ -416,13 +447,16 @@ export class OpenAIContentGenerator implements ContentGenerator {
           }
 
           // Provide helpful timeout-specific error message for streaming
-          if (isTimeoutError) {
-            throw new Error(
-              `${errorMessage}\n\nStreaming timeout troubleshooting:\n` +
-                `- Reduce input length or complexity\n` +
-                `- Increase timeout in config: contentGenerator.timeout\n` +
-                `- Check network stability for streaming connections\n` +
-                `- Consider using non-streaming mode for very long inputs`,
+          if (isTimeout) {
+            throw Object.assign(
+              new Error(
+                `${errorMessage}\n\nStreaming timeout troubleshooting:\n` +
+                  `- Reduce input length or complexity\n` +
+                  `- Increase timeout in config: contentGenerator.timeout\n` +
+                  `- Check network stability for streaming connections\n` +
+                  `- Consider using non-streaming mode for very long inputs`,
+              ),
+              { cause: error },
             );
           }
 
@@ -435,8 +469,8 @@ export class OpenAIContentGenerator implements ContentGenerator {
       const durationMs = Date.now() - startTime;
 
       // Identify timeout errors specifically for streaming setup
-      const isTimeoutError = this.isTimeoutError(error);
-      const errorMessage = isTimeoutError
+      const isTimeout = isTimeoutError(error);
+      const errorMessage = isTimeout
         ? `Streaming setup timeout after ${Math.round(durationMs / 1000)}s. Try reducing input length or increasing timeout in config.`
         : error instanceof Error
           ? error.message
@@ -480,31 +514,55 @@ export class OpenAIContentGenerator implements ContentGenerator {
       console.error('OpenAI API Streaming Error:', errorMessage);
 
       // Provide helpful timeout-specific error message for streaming setup
-      if (isTimeoutError) {
-        throw new Error(
-          `${errorMessage}\n\nStreaming setup timeout troubleshooting:\n` +
-            `- Reduce input length or complexity\n` +
-            `- Increase timeout in config: contentGenerator.timeout\n` +
-            `- Check network connectivity and firewall settings\n` +
-            `- Consider using non-streaming mode for very long inputs`,
+      if (isTimeout) {
+        throw Object.assign(
+          new Error(
+            `${errorMessage}\n\nStreaming setup timeout troubleshooting:\n` +
+              `- Reduce input length or complexity\n` +
+              `- Increase timeout in config: contentGenerator.timeout\n` +
+              `- Check network connectivity and firewall settings\n` +
+              `- Consider using non-streaming mode for very long inputs`,
+          ),
+          { cause: error },
         );
       }
 
-      throw new Error(`OpenAI API error: ${errorMessage}`);
+      throw Object.assign(new Error(`OpenAI API error: ${errorMessage}`), {
+        cause: error,
+      });
     }
   }
 
   private async *streamGenerator(
     stream: AsyncIterable<ChatCompletionChunk>,
+    toolNames: string[],
   ): AsyncGenerator<GenerateContentResponse> {
-    // Reset the accumulator for each new stream
+    // Reset the accumulators for each new stream
     this.streamingToolCalls.clear();
+    this.thinkTagParser.reset();
+    this.textToolCallParser = createTextToolCallParser(
+      this.getToolCallParserName(),
+      toolNames,
+    );
 
     for await (const chunk of stream) {
-      yield this.convertStreamChunkToGeminiFormat(chunk);
+      yield* splitThoughtResponse(this.convertStreamChunkToGeminiFormat(chunk));
     }
   }
 
+  private getToolCallParserName(): string {
+    return resolveToolCallParser(
+      this.config.getContentGeneratorConfig()?.toolCallParsers,
+      this.model,
+    );
+  }
+
+  private getToolNames(
+    tools: OpenAI.Chat.ChatCompletionTool[] | undefined,
+  ): string[] {
+    return (tools ?? []).map((tool) => tool.function.name);
+  }
+
   /**
    * Combine streaming responses for logging purposes
    */
@@ -529,7 +587,9 @@ export class OpenAIContentGenerator implements ContentGenerator {
     for (const response of responses) {
       if (response.candidates?.[0]?.content?.parts) {
         for (const part of response.candidates[0].content.parts) {
-          if ('text' in part && part.text) {
+          if (part.thought) {
+            continue;
+          } else if ('text' in part && part.text) {
             combinedText += part.text;
           } else if ('functionCall' in part && part.functionCall) {
             functionCalls.push(part);
@@ -571,64 +631,41 @@ export class OpenAIContentGenerator implements ContentGenerator {
   async countTokens(
     request: CountTokensParameters,
   ): Promise<CountTokensResponse> {
-    // OpenAI doesn't have a direct token counting endpoint
-    // We'll estimate based on the tiktoken library or a rough calculation
-    // For now, return a rough estimate
-    const content = JSON.stringify(request.contents);
-    const estimatedTokens = Math.ceil(content.length / 4); // Rough estimate: 1 token ≈ 4 characters
-
+    // OpenAI doesn't have a token counting endpoint, so count locally with
+    // the model family's BPE tokenizer
     return {
-      totalTokens: estimatedTokens,
+      totalTokens: await this.tokenCounter.countTokens(request.contents),
     };
   }
 
   async embedContent(
     request: EmbedContentParameters,
   ): Promise<EmbedContentResponse> {
-    // Extract text from contents
-    let text = '';
-    if (Array.isArray(request.contents)) {
-      text = request.contents
-        .map((content) => {
-          if (typeof content === 'string') return content;
-          if ('parts' in content && content.parts) {
-            return content.parts
-              .map((part) =>
-                typeof part === 'string'
-                  ? part
-                  : 'text' in part
-                    ? (part as { text?: string }).text || ''
-                    : '',
-              )
-              .join(' ');
-          }
-          return '';
-        })
-        .join(' ');
-    } else if (request.contents) {
-      if (typeof request.contents === 'string') {
-        text = request.contents;
-      } else if ('parts' in request.contents && request.contents.parts) {
-        text = request.contents.parts
-          .map((part: Part) =>
-            typeof part === 'string' ? part : 'text' in part ? part.text : '',
-          )
-          .join(' ');
+    // One input per content, so a batch gets one embedding per text
+    const partText = (part: Part | string) =>
+      typeof part === 'string' ? part : part.text || '';
+    const contentText = (content: Content | Part | string) => {
+      if (typeof content === 'string') return content;
+      if ('parts' in content && content.parts) {
+        return content.parts.map(partText).join(' ');
       }
-    }
+      return partText(content as Part);
+    };
+    const contents = request.contents;
+    const input = Array.isArray(contents)
+      ? contents.map(contentText)
+      : [contentText(contents as Content | Part | string)];
 
     try {
       const embedding = await this.client.embeddings.create({
-        model: 'text-embedding-ada-002', // Default embedding model
-        input: text,
+        model: request.model || DEFAULT_OPENAI_EMBEDDING_MODEL,
+        input,
       });
 
       return {
-        embeddings: [
-          {
-            values: embedding.data[0].embedding,
-          },
-        ],
+        embeddings: [...embedding.data]
+          .sort((a, b) => a.index - b.index)
+          .map((item) => ({ values: item.embedding })),
       };
     } catch (error) {
       console.error('OpenAI API Embedding Error:', error);
@@ -805,16 +842,33 @@ export class OpenAIContentGenerator implements ContentGenerator {
           const functionCalls: FunctionCall[] = [];
           const functionResponses: FunctionResponse[] = [];
           const textParts: string[] = [];
+          const imageParts: OpenAI.Chat.ChatCompletionContentPartImage[] = [];
 
           for (const part of content.parts || []) {
             if (typeof part === 'string') {
               textParts.push(part);
+            } else if (part.thought) {
+              // Reasoning is never sent back to the model.
+              continue;
             } else if ('text' in part && part.text) {
               textParts.push(part.text);
             } else if ('functionCall' in part && part.functionCall) {
               functionCalls.push(part.functionCall);
             } else if ('functionResponse' in part && part.functionResponse) {
               functionResponses.push(part.functionResponse);
+            } else if (part.inlineData?.mimeType?.startsWith('image/')) {
+              // Images that reach here were kept by prepareAttachments
+              imageParts.push({
+                type: 'image_url',
+                image_url: {
+                  url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`,
+                },
+              });
+            } else if (part.fileData?.mimeType?.startsWith('image/')) {
+              imageParts.push({
+                type: 'image_url',
+                image_url: { url: part.fileData.fileUri || '' },
+              });
             }
           }
 
@@ -830,6 +884,20 @@ export class OpenAIContentGenerator implements ContentGenerator {
                     : JSON.stringify(funcResponse.response),
               });
             }
+            // Tool messages only carry text, so files a tool read follow
+            // in a user message
+            if (imageParts.length > 0) {
+              messages.push({
+                role: 'user' as const,
+                content: [
+                  ...textParts.map((text) => ({
+                    type: 'text' as const,
+                    text,
+                  })),
+                  ...imageParts,
+                ],
+              });
+            }
           }
           // Handle model messages with function calls
           else if (content.role === 'model' && functionCalls.length > 0) {
@@ -855,7 +923,15 @@ export class OpenAIContentGenerator implements ContentGenerator {
                 ? ('assistant' as const)
                 : ('user' as const);
             const text = textParts.join('\n');
-            if (text) {
+            if (role === 'user' && imageParts.length > 0) {
+              messages.push({
+                role,
+                content: [
+                  ...(text ? [{ type: 'text' as const, text }] : []),
+                  ...imageParts,
+                ],
+              });
+            } else if (text) {
               messages.push({ role, content: text });
             }
           }
@@ -1092,15 +1168,27 @@ export class OpenAIContentGenerator implements ContentGenerator {
 
   private convertToGeminiFormat(
     openaiResponse: ChatCompletion,
+    toolNames: string[] = [],
   ): GenerateContentResponse {
     const choice = openaiResponse.choices[0];
     const response = new GenerateContentResponse();
 
     const parts: Part[] = [];
 
-    // Handle text content
-    if (choice.message.content) {
-      parts.push({ text: choice.message.content });
+    // Handle text content. Non-streaming callers (generateJson, compression)
+    // only want the answer, so inline <think> reasoning is dropped.
+    const { content, functionCalls } = parseTextToolCalls(
+      this.getToolCallParserName(),
+      toolNames,
+      splitThinkTags(choice.message.content || '').content,
+    );
+    if (content) {
+      parts.push({ text: content });
+    }
+
+    // Handle tool calls the model wrote as text instead of using the tools API
+    for (const functionCall of functionCalls) {
+      parts.push({ functionCall });
     }
 
     // Handle tool calls
@@ -1185,9 +1273,42 @@ export class OpenAIContentGenerator implements ContentGenerator {
     if (choice) {
       const parts: Part[] = [];
 
-      // Handle text content
-      if (choice.delta?.content) {
-        parts.push({ text: choice.delta.content });
+      // Handle reasoning, either as a separate delta field or inline <think>
+      // tags that may be split across chunks
+      const delta = choice.delta as
+        | (ChatCompletionChunk.Choice.Delta & ReasoningFields)
+        | undefined;
+      const split = this.thinkTagParser.push(delta?.content || '');
+      if (choice.finish_reason) {
+        const rest = this.thinkTagParser.flush();
+        split.thought += rest.thought;
+        split.content += rest.content;
+      }
+      const thought =
+        (delta?.reasoning_content || delta?.reasoning || '') + split.thought;
+      if (thought) {
+        parts.push({ text: thought, thought: true });
+      }
+
+      // Handle text content, minus any tool calls the model wrote as text
+      // instead of using the tools API
+      let content = split.content;
+      const textToolCalls: FunctionCall[] = [];
+      if (this.textToolCallParser) {
+        const parsed = this.textToolCallParser.push(content);
+        if (choice.finish_reason) {
+          const rest = this.textToolCallParser.flush();
+          parsed.content += rest.content;
+          parsed.functionCalls.push(...rest.functionCalls);
+        }
+        content = parsed.content;
+        textToolCalls.push(...parsed.functionCalls);
+      }
+      if (content) {
+        parts.push({ text: content });
+      }
+      for (const functionCall of textToolCalls) {
+        parts.push({ functionCall });
       }
 
       // Handle tool calls - only accumulate during streaming, emit when complete
@@ -1299,6 +1420,26 @@ export class OpenAIContentGenerator implements ContentGenerator {
     return response;
   }
 
+  /**
+   * Maps Gemini's JSON output options onto `response_format`, so that
+   * servers with structured output constrain the reply to the schema.
+   */
+  protected buildResponseFormat(
+    request: GenerateContentParameters,
+  ): OpenAI.Chat.ChatCompletionCreateParams['response_format'] {
+    const schema = getResponseJsonSchema(request.config);
+    if (schema) {
+      return {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema },
+      };
+    }
+    if (request.config?.responseMimeType === 'application/json') {
+      return { type: 'json_object' };
+    }
+    return undefined;
+  }
+
   /**
    * Build sampling parameters with clear priority:
    * 1. Config-level sampling parameters (highest priority)
@@ -1437,6 +1578,9 @@ export class OpenAIContentGenerator implements ContentGenerator {
           for (const part of content.parts || []) {
             if (typeof part === 'string') {
               textParts.push(part);
+            } else if (part.thought) {
+              // Reasoning is never sent back to the model.
+              continue;
             } else if ('text' in part && part.text) {
               textParts.push(part.text);
             } else if ('functionCall' in part && part.functionCall) {
@@ -1523,6 +1667,11 @@ export class OpenAIContentGenerator implements ContentGenerator {
       );
     }
 
+    const responseFormat = this.buildResponseFormat(request);
+    if (responseFormat) {
+      openaiRequest.response_format = responseFormat;
+    }
+
     return openaiRequest;
   }
 
@@ -8,7 +8,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { TaskEvaluationService } from './taskEvaluationService.js';
 import { TaskType } from './modelTypes.js';
 import { ContentGenerator } from './contentGenerator.js';
-import { Turn } from './turn.js';
+import { Content, GenerateContentResponse } from '@google/genai';
 
 describe('TaskEvaluationService', () => {
   let service: TaskEvaluationService;
@@ -140,7 +140,11 @@ describe('TaskEvaluationService', () => {
   });
 
   it('should include conversation history in evaluation', async () => {
-    const history: Turn[] = [];
+    const history: Content[] = [
+      { role: 'user', parts: [{ text: 'The checkout page crashes' }] },
+      { role: 'model', parts: [{ functionCall: { name: 'ls', args: {} } }] },
+      { role: 'model', parts: [{ text: 'It throws in cart.ts' }] },
+    ];
 
     vi.mocked(mockContentGenerator.generateContent).mockResolvedValueOnce({
       text: () => 'EXPLORATION'
@@ -152,7 +156,117 @@ describe('TaskEvaluationService', () => {
       mockContentGenerator
     );
 
-    // Verify that generateContent was called
-    expect(mockContentGenerator.generateContent).toHaveBeenCalled();
+    // Verify that generateContent was called with the recent turns
+    const request = vi.mocked(mockContentGenerator.generateContent).mock
+      .calls[0][0];
+    const prompt = (request.contents as Content[])[0].parts![0].text;
+    expect(prompt).toContain(
+      'Recent conversation:\nUser: The checkout page crashes\nAssistant: It throws in cart.ts',
+    );
+  });
+
+  describe('classifyTask', () => {
+    it('should classify by keywords without asking the model', async () => {
+      const result = await service.classifyTask(
+        'Fix the failing login test',
+        [],
+        mockContentGenerator,
+      );
+
+      expect(result).toEqual({
+        taskType: TaskType.TROUBLESHOOTING,
+        confidence: 0.9,
+        source: 'heuristic',
+        reason: 'matched "fix", "fail"',
+      });
+      expect(mockContentGenerator.generateContent).not.toHaveBeenCalled();
+    });
+
+    it('should ask the model with a schema when keywords are ambiguous', async () => {
+      vi.mocked(mockContentGenerator.generateContent).mockResolvedValueOnce({
+        text: '```json\n{"taskType": "REVIEW", "confidence": 0.8, "reason": "asks for an audit"}\n```',
+      } as unknown as GenerateContentResponse);
+
+      const result = await service.classifyTask(
+        'Review the error handling',
+        [],
+        mockContentGenerator,
+        'llama3.2',
+      );
+
+      expect(result).toEqual({
+        taskType: TaskType.REVIEW,
+        confidence: 0.8,
+        source: 'model',
+        reason: 'asks for an audit',
+      });
+      expect(mockContentGenerator.generateContent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'llama3.2',
+          config: expect.objectContaining({
+            responseMimeType: 'application/json',
+            responseSchema: expect.objectContaining({
+              required: ['taskType', 'confidence'],
+            }),
+          }),
+        }),
+      );
+    });
+
+    it('should fall back to the keywords when the model answer is unusable', async () => {
+      vi.mocked(mockContentGenerator.generateContent).mockResolvedValueOnce({
+        text: 'I am not sure',
+      } as unknown as GenerateContentResponse);
+
+      const result = await service.classifyTask(
+        'Review the error handling',
+        [],
+        mockContentGenerator,
+      );
+
+      expect(result).toMatchObject({
+        source: 'heuristic',
+        confidence: 0.38,
+      });
+    });
+
+    it('should report the fallback when nothing classified the prompt', async () => {
+      vi.mocked(mockContentGenerator.generateContent).mockRejectedValueOnce(
+        new Error('API error'),
+      );
+
+      const result = await service.classifyTask(
+        'Some task',
+        [],
+        mockContentGenerator,
+      );
+
+      expect(result).toMatchObject({
+        taskType: TaskType.IMPLEMENTATION,
+        confidence: 0,
+        source: 'default',
+      });
+    });
+
+    it('should support user-defined task types', async () => {
+      const custom = new TaskEvaluationService({
+        taskTypes: {
+          migration: {
+            description: 'Database schema migrations',
+            tier: 'strong',
+            keywords: ['migration', 'schema'],
+          },
+        },
+      });
+      vi.mocked(mockContentGenerator.generateContent).mockResolvedValueOnce({
+        text: '{"taskType": "migration", "confidence": 0.9}',
+      } as unknown as GenerateContentResponse);
+
+      expect(custom.getTaskTypeNames()).toContain('migration');
+      expect(
+        (await custom.classifyTask('Write a schema migration', [], mockContentGenerator))
+          .taskType,
+      ).toBe('migration');
+    });
   });
 });
\ No newline at end of file
@@ -5,53 +5,368 @@
  */
 
 import { ContentGenerator } from './contentGenerator.js';
-import { TaskType } from './modelTypes.js';
-import { Turn } from './turn.js';
-import { Content } from '@google/genai';
+import {
+  DEFAULT_TASK_TIERS,
+  TaskClassification,
+  TaskType,
+  TaskTypeDefinition,
+} from './modelTypes.js';
+import { Content, SchemaUnion, Type } from '@google/genai';
+import { parseModelJson } from '../utils/jsonRepair.js';
+
+/** Heuristic results at or above this confidence skip the classifier model. */
+const DEFAULT_CONFIDENCE_THRESHOLD = 0.7;
+
+/** Number of recent user/model exchanges shown to the classifier model. */
+const DEFAULT_HISTORY_TURNS = 3;
+
+const MAX_HISTORY_MESSAGE_LENGTH = 500;
+
+const BUILT_IN_TASK_TYPES: Record<TaskType, Required<TaskTypeDefinition>> = {
+  [TaskType.EXPLORATION]: {
+    description:
+      'Understanding codebase structure, finding files, discovering patterns',
+    tier: DEFAULT_TASK_TIERS[TaskType.EXPLORATION],
+    keywords: [
+      'understand',
+      'explore',
+      'find',
+      'discover',
+      'show me',
+      'what is',
+      'how does',
+      'explain',
+      'where is',
+      'walk me through',
+    ],
+  },
+  [TaskType.PLANNING]: {
+    description:
+      'Designing features, architectural decisions, breaking down complex tasks',
+    tier: DEFAULT_TASK_TIERS[TaskType.PLANNING],
+    keywords: [
+      'plan',
+      'design',
+      'architect',
+      'approach',
+      'strategy',
+      'break down',
+      'roadmap',
+    ],
+  },
+  [TaskType.TROUBLESHOOTING]: {
+    description: 'Debugging, fixing errors, investigating issues',
+    tier: DEFAULT_TASK_TIERS[TaskType.TROUBLESHOOTING],
+    keywords: [
+      'debug',
+      'fix',
+      'error',
+      'issue',
+      'problem',
+      'troubleshoot',
+      'fail',
+      'broken',
+      'crash',
+      'bug',
+      'stack trace',
+    ],
+  },
+  [TaskType.REVIEW]: {
+    description:
+      'Code review, analysis, security audits, performance evaluation',
+    tier: DEFAULT_TASK_TIERS[TaskType.REVIEW],
+    keywords: [
+      'review',
+      'analyze',
+      'analyse',
+      'audit',
+      'suggestion',
+      'improve',
+      'optimize',
+      'security',
+    ],
+  },
+  [TaskType.DOCUMENTATION]: {
+    description: 'Writing docs, README files, comments, API documentation',
+    tier: DEFAULT_TASK_TIERS[TaskType.DOCUMENTATION],
+    keywords: [
+      'document',
+      'documentation',
+      'readme',
+      'comment',
+      'docs',
+      'docstring',
+      'changelog',
+    ],
+  },
+  [TaskType.IMPLEMENTATION]: {
+    description: 'Writing code, making edits, executing planned changes',
+    tier: DEFAULT_TASK_TIERS[TaskType.IMPLEMENTATION],
+    keywords: [
+      'implement',
+      'add',
+      'create',
+      'write',
+      'refactor',
+      'rename',
+      'update',
+      'change',
+    ],
+  },
+};
+
+export interface TaskEvaluationOptions {
+  /** User-defined task types, and overrides of the built-in ones. */
+  taskTypes?: Record<string, TaskTypeDefinition>;
+  historyTurns?: number;
+  confidenceThreshold?: number;
+}
+
+interface ResolvedTaskType {
+  name: string;
+  description: string;
+  keywords: string[];
+  patterns: RegExp[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function keywordPattern(keyword: string): RegExp {
+  // Allow simple inflections, so "fix" also matches "fixes" and "fixing".
+  return new RegExp(`\\b${escapeRegExp(keyword)}(?:s|es|ed|ing)?\\b`, 'i');
+}
 
 export class TaskEvaluationService {
+  private readonly taskTypes: ResolvedTaskType[];
+  private readonly historyTurns: number;
+  private readonly confidenceThreshold: number;
+
+  constructor(options: TaskEvaluationOptions = {}) {
+    const definitions: Record<string, TaskTypeDefinition> = {
+      ...BUILT_IN_TASK_TYPES,
+    };
+    for (const [name, definition] of Object.entries(options.taskTypes ?? {})) {
+      definitions[name] = { ...definitions[name], ...definition };
+    }
+    this.taskTypes = Object.entries(definitions).map(([name, definition]) => {
+      const keywords = definition.keywords ?? [];
+      return {
+        name,
+        description: definition.description ?? name,
+        keywords,
+        patterns: keywords.map(keywordPattern),
+      };
+    });
+    this.historyTurns = options.historyTurns ?? DEFAULT_HISTORY_TURNS;
+    this.confidenceThreshold =
+      options.confidenceThreshold ?? DEFAULT_CONFIDENCE_THRESHOLD;
+  }
+
+  /** Names of the built-in and user-defined task types. */
+  getTaskTypeNames(): string[] {
+    return this.taskTypes.map((taskType) => taskType.name);
+  }
+
   async evaluateTaskType(
     userPrompt: string,
-    conversationHistory: Turn[],
-    evaluatorModel: ContentGenerator
-  ): Promise<TaskType> {
+    conversationHistory: Content[],
+    evaluatorModel: ContentGenerator,
+  ): Promise<string> {
+    const classification = await this.classifyTask(
+      userPrompt,
+      conversationHistory,
+      evaluatorModel,
+    );
+    return classification.taskType;
+  }
+
+  /**
+   * Classifies a prompt by keywords first, and asks `evaluatorModel` only
+   * when they are inconclusive.
+   */
+  async classifyTask(
+    userPrompt: string,
+    conversationHistory: Content[],
+    evaluatorModel: ContentGenerator,
+    model = 'default',
+  ): Promise<TaskClassification> {
+    const heuristic = this.classifyWithHeuristics(userPrompt);
+    if (heuristic && heuristic.confidence >= this.confidenceThreshold) {
+      return heuristic;
+    }
+
+    const classified = await this.classifyWithModel(
+      userPrompt,
+      conversationHistory,
+      evaluatorModel,
+      model,
+    );
+    if (classified) {
+      return classified;
+    }
+    if (heuristic) {
+      return heuristic;
+    }
+    return {
+      taskType: TaskType.IMPLEMENTATION,
+      confidence: 0,
+      source: 'default',
+      reason: 'no keywords matched and the classifier gave no usable answer',
+    };
+  }
+
+  /**
+   * Scores each task type by the keywords found in the prompt. Confidence
+   * grows with the number of matches and shrinks when other task types
+   * matched too.
+   */
+  classifyWithHeuristics(userPrompt: string): TaskClassification | undefined {
+    const scored = this.taskTypes
+      .map((taskType) => ({
+        taskType,
+        matched: taskType.keywords.filter((_, i) =>
+          taskType.patterns[i].test(userPrompt),
+        ),
+      }))
+      .filter(({ matched }) => matched.length > 0)
+      .sort((a, b) => b.matched.length - a.matched.length);
+    if (scored.length === 0) {
+      return undefined;
+    }
+
+    const [best, runnerUp] = scored;
+    const score = best.matched.length;
+    const competing = runnerUp?.matched.length ?? 0;
+    const confidence =
+      Math.min(0.95, 0.6 + 0.15 * score) * (score / (score + competing));
+    return {
+      taskType: best.taskType.name,
+      confidence: Math.round(confidence * 100) / 100,
+      source: 'heuristic',
+      reason: `matched ${best.matched.map((keyword) => `"${keyword}"`).join(', ')}`,
+    };
+  }
+
+  private async classifyWithModel(
+    userPrompt: string,
+    conversationHistory: Content[],
+    evaluatorModel: ContentGenerator,
+    model: string,
+  ): Promise<TaskClassification | undefined> {
+    const taskTypeList = this.taskTypes
+      .map(({ name, description }) => `- ${name}: ${description}`)
+      .join('\n');
+    const recentTurns = this.renderRecentTurns(conversationHistory);
     const evaluationPrompt = `Given the following user request and conversation history, classify the task type.
-      
-Task Types:
-- EXPLORATION: Understanding codebase structure, finding files, discovering patterns
-- PLANNING: Designing features, architectural decisions, breaking down complex tasks  
-- TROUBLESHOOTING: Debugging, fixing errors, investigating issues
-- REVIEW: Code review, analysis, security audits, performance evaluation
-- DOCUMENTATION: Writing docs, README files, comments, API documentation
-- IMPLEMENTATION: Writing code, making edits, executing planned changes
 
+Task Types:
+${taskTypeList}
+${recentTurns ? `\nRecent conversation:\n${recentTurns}\n` : ''}
 User Request: "${userPrompt}"
 
-Respond with only the task type, nothing else.`;
-    
+Respond *only* in JSON format according to the following schema, with a confidence between 0 and 1:
+{"taskType": "<task type>", "confidence": <number>, "reason": "<short reason>"}`;
+
+    const schema: SchemaUnion = {
+      type: Type.OBJECT,
+      properties: {
+        taskType: { type: Type.STRING, enum: this.getTaskTypeNames() },
+        confidence: { type: Type.NUMBER },
+        reason: { type: Type.STRING },
+      },
+      required: ['taskType', 'confidence'],
+    };
+
     try {
-      // Convert Turn[] to Content[] for the API
-      const contents: Content[] = [{
-        role: 'user',
-        parts: [{ text: evaluationPrompt }]
-      }];
-      
       const response = await evaluatorModel.generateContent({
-        model: 'default', // Will use the model configured in the content generator
-        contents,
+        model,
+        contents: [{ role: 'user', parts: [{ text: evaluationPrompt }] }],
         config: {
-          temperature: 0.1 // Low temperature for consistent classification
-        }
+          temperature: 0.1, // Low temperature for consistent classification
+          responseMimeType: 'application/json',
+          responseSchema: schema,
+        },
       });
-      
-      const responseText = response.text?.trim() || '';
-      const taskType = responseText.toUpperCase();
-      const result = TaskType[taskType as keyof typeof TaskType] || TaskType.IMPLEMENTATION;
-      
-      return result;
+      const text = typeof response.text === 'string' ? response.text : '';
+      return this.parseClassification(text);
     } catch (error) {
-      console.warn('Failed to evaluate task type, defaulting to IMPLEMENTATION:', error);
-      return TaskType.IMPLEMENTATION;
+      console.warn('Failed to evaluate task type:', error);
+      return undefined;
     }
   }
-}
\ No newline at end of file
+
+  /**
+   * Reads the classifier's answer, accepting a bare task type name from
+   * models that ignore the requested format.
+   */
+  private parseClassification(text: string): TaskClassification | undefined {
+    if (text.includes('{')) {
+      try {
+        const parsed = parseModelJson(text) as Record<string, unknown>;
+        const taskType = this.findTaskType(parsed.taskType);
+        if (taskType) {
+          const confidence =
+            typeof parsed.confidence === 'number'
+              ? Math.min(1, Math.max(0, parsed.confidence))
+              : 0.5;
+          return {
+            taskType,
+            confidence,
+            source: 'model',
+            reason:
+              typeof parsed.reason === 'string' && parsed.reason
+                ? parsed.reason
+                : 'classified by the weak model',
+          };
+        }
+      } catch {
+        // Fall through to the bare name
+      }
+    }
+
+    const taskType = this.findTaskType(text.trim());
+    return taskType
+      ? {
+          taskType,
+          confidence: 0.5,
+          source: 'model',
+          reason: 'classified by the weak model',
+        }
+      : undefined;
+  }
+
+  private findTaskType(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+      return undefined;
+    }
+    const name = value.trim().toLowerCase();
+    return this.taskTypes.find(
+      (taskType) => taskType.name.toLowerCase() === name,
+    )?.name;
+  }
+
+  /** Renders the text of the last exchanges, skipping tool calls. */
+  private renderRecentTurns(history: Content[]): string {
+    const messages = history
+      .map((content) => ({
+        role: content.role === 'model' ? 'Assistant' : 'User',
+        text: (content.parts ?? [])
+          .filter((part) => part.text && !part.thought)
+          .map((part) => part.text)
+          .join(''),
+      }))
+      .filter(({ text }) => text.trim());
+    return messages
+      .slice(-this.historyTurns * 2)
+      .map(({ role, text }) => {
+        const truncated =
+          text.length > MAX_HISTORY_MESSAGE_LENGTH
+            ? `${text.slice(0, MAX_HISTORY_MESSAGE_LENGTH)}...`
+            : text;
+        return `${role}: ${truncated}`;
+      })
+      .join('\n');
+  }
+}
@@ -4,12 +4,20 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
+import { modelCapabilityRegistry } from './modelCapabilities.js';
+
 type Model = string;
 type TokenCount = number;
 
 export const DEFAULT_TOKEN_LIMIT = 1_048_576;
 
 export function tokenLimit(model: Model): TokenCount {
+  // Settings overrides and limits reported by the provider come first
+  const contextLength = modelCapabilityRegistry.getContextLength(model);
+  if (contextLength !== undefined) {
+    return contextLength;
+  }
+
   // Add other models as they become relevant or if specified by config
   // Pulled from https://ai.google.dev/gemini-api/docs/models
   switch (model) {
@@ -50,11 +50,14 @@ export enum GeminiEventType {
   Thought = 'thought',
   MaxSessionTurns = 'max_session_turns',
   LoopDetected = 'loop_detected',
+  ProviderFallback = 'provider_fallback',
 }
 
 export interface StructuredError {
   message: string;
   status?: number;
+  /** The error that was thrown, e.g. for its code or status. */
+  cause?: unknown;
 }
 
 export interface GeminiErrorEventValue {
@@ -138,6 +141,23 @@ export type ServerGeminiLoopDetectedEvent = {
   type: GeminiEventType.LoopDetected;
 };
 
+/** The session moved to the next backend of the fallback chain. */
+export interface ProviderFallbackInfo {
+  fromProvider: string;
+  fromModel: string;
+  toProvider: string;
+  toModel: string;
+  /** The error that made the previous backend unusable. */
+  reason: string;
+  /** How the history was compressed to fit the new model, if it was. */
+  compression: ChatCompressionInfo | null;
+}
+
+export type ServerGeminiProviderFallbackEvent = {
+  type: GeminiEventType.ProviderFallback;
+  value: ProviderFallbackInfo;
+};
+
 // The original union type, now composed of the individual types
 export type ServerGeminiStreamEvent =
   | ServerGeminiContentEvent
@@ -149,7 +169,8 @@ export type ServerGeminiStreamEvent =
   | ServerGeminiChatCompressedEvent
   | ServerGeminiThoughtEvent
   | ServerGeminiMaxSessionTurnsEvent
-  | ServerGeminiLoopDetectedEvent;
+  | ServerGeminiLoopDetectedEvent
+  | ServerGeminiProviderFallbackEvent;
 
 // A turn manages the agentic loop turn within the server context.
 export class Turn {
@@ -251,6 +272,7 @@ export class Turn {
       const structuredError: StructuredError = {
         message: getErrorMessage(error),
         status,
+        cause: error,
       };
       yield { type: GeminiEventType.Error, value: { error: structuredError } };
       return;
@@ -19,6 +19,8 @@ export * from './core/geminiRequest.js';
 export * from './core/coreToolScheduler.js';
 export * from './core/nonInteractiveToolExecutor.js';
 export * from './core/contextDiscovery.js';
+export * from './core/modelDiscovery.js';
+export * from './core/modelCapabilities.js';
 export * from './core/modelTypes.js';
 export * from './core/taskEvaluationService.js';
 export * from './core/modelSwitchingService.js';
@@ -37,10 +39,13 @@ export * from './utils/memoryDiscovery.js';
 export * from './utils/gitIgnoreParser.js';
 export * from './utils/editor.js';
 export * from './utils/quotaErrorDetection.js';
+export * from './utils/shellPolicy.js';
 
 // Export services
 export * from './services/fileDiscoveryService.js';
 export * from './services/gitService.js';
+export * from './services/backgroundJobService.js';
+export * from './services/semanticIndexService.js';
 
 // Export base tool definitions
 export * from './tools/tools.js';
@@ -51,19 +56,25 @@ export * from './tools/read-file.js';
 export * from './tools/ls.js';
 export * from './tools/grep.js';
 export * from './tools/glob.js';
+export * from './tools/semantic-search.js';
 export * from './tools/edit.js';
+export * from './tools/apply-patch.js';
 export * from './tools/write-file.js';
 export * from './tools/web-fetch.js';
 export * from './tools/memoryTool.js';
 export * from './tools/shell.js';
+export * from './tools/background-jobs.js';
 export * from './tools/web-search.js';
 export * from './tools/read-many-files.js';
 export * from './tools/mcp-client.js';
 export * from './tools/mcp-tool.js';
+export * from './tools/mcp-registry.js';
+export * from './tools/mcp-sampling.js';
 
 // Export telemetry functions
 export * from './telemetry/index.js';
 export { sessionId } from './utils/session.js';
+export { getToolCallParserNames } from './utils/textToolCallParser.js';
 
 // OpenAI Logging Utilities
 export { OpenAILogger, openaiLogger } from './utils/openaiLogger.js';
@@ -0,0 +1,103 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import {
+  BackgroundJobService,
+  formatJobStatus,
+} from './backgroundJobService.js';
+
+describe.skipIf(os.platform() === 'win32')('BackgroundJobService', () => {
+  let service: BackgroundJobService;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    service = new BackgroundJobService();
+  });
+
+  afterEach(() => {
+    service.killAll();
+  });
+
+  it('should capture stdout and stderr until the job exits', async () => {
+    service.start('greet', 'echo one; echo two >&2; exit 3', os.tmpdir());
+
+    const result = await service.waitForOutput(
+      'greet',
+      /never printed/,
+      5000,
+      signal,
+    );
+
+    expect(result.reason).toBe('exited');
+    expect(result.job.status).toBe('exited');
+    expect(formatJobStatus(result.job)).toBe('exited with code 3');
+    expect(service.tail('greet', 10)).toBe('one\ntwo');
+    expect(service.tail('greet', 1)).toBe('two');
+  });
+
+  it('should wait for output that matches a pattern', async () => {
+    service.start(
+      'server',
+      'sleep 0.2; echo "listening on 8080"; sleep 30',
+      os.tmpdir(),
+    );
+
+    const result = await service.waitForOutput(
+      'server',
+      /listening on (\d+)/,
+      5000,
+      signal,
+    );
+
+    expect(result.match).toBe('listening on 8080');
+    expect(result.job.status).toBe('running');
+  });
+
+  it('should time out when the pattern does not appear', async () => {
+    service.start('quiet', 'sleep 30', os.tmpdir());
+
+    const result = await service.waitForOutput('quiet', /ready/, 100, signal);
+
+    expect(result).toMatchObject({ reason: 'timeout' });
+  });
+
+  it('should kill a job and the processes it started', async () => {
+    service.start('tree', 'sleep 30 & sleep 30; wait', os.tmpdir());
+
+    const job = await service.kill('tree');
+
+    expect(job.status).toBe('exited');
+    expect(formatJobStatus(job)).toBe('terminated by SIGTERM');
+  });
+
+  it('should not start two running jobs with the same name', async () => {
+    service.start('dup', 'sleep 30', os.tmpdir());
+
+    expect(() => service.start('dup', 'sleep 30', os.tmpdir())).toThrow(
+      'A background job named "dup" is already running',
+    );
+
+    await service.kill('dup');
+    expect(service.start('dup', 'true', os.tmpdir()).status).toBe('running');
+  });
+
+  it('should list running jobs before exited ones', async () => {
+    service.start('done', 'true', os.tmpdir());
+    await service.waitForOutput('done', /x/, 5000, signal);
+    service.start('alive', 'sleep 30', os.tmpdir());
+
+    expect(service.list().map((job) => job.name)).toEqual(['alive', 'done']);
+  });
+
+  it('should reject unknown jobs', async () => {
+    expect(service.tail('missing', 10)).toBeUndefined();
+    await expect(service.kill('missing')).rejects.toThrow(
+      'There is no background job named "missing".',
+    );
+  });
+});
@@ -0,0 +1,305 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import os from 'os';
+import { ChildProcess, spawn } from 'child_process';
+import stripAnsi from 'strip-ansi';
+
+/** Characters of output kept per job; older output is dropped. */
+export const MAX_JOB_OUTPUT_LENGTH = 1024 * 1024;
+/** Time a job has to exit after SIGTERM before it is sent SIGKILL. */
+const KILL_GRACE_PERIOD_MS = 2000;
+
+export type BackgroundJobStatus = 'running' | 'exited';
+
+/** A snapshot of a background job. */
+export interface BackgroundJobInfo {
+  name: string;
+  command: string;
+  /** Absolute directory the command runs in */
+  directory: string;
+  pid: number | undefined;
+  status: BackgroundJobStatus;
+  startTime: Date;
+  exitCode: number | null;
+  signal: NodeJS.Signals | null;
+  /** Error that kept the command from starting, if any */
+  error?: string;
+}
+
+export interface WaitForOutputResult {
+  /** The matching text, if the pattern was found */
+  match?: string;
+  /** Why the wait ended without a match */
+  reason?: 'exited' | 'timeout' | 'aborted';
+  job: BackgroundJobInfo;
+}
+
+interface BackgroundJob extends BackgroundJobInfo {
+  process: ChildProcess;
+  /** Combined stdout and stderr, without ANSI escapes */
+  output: string;
+  exited: Promise<void>;
+  listeners: Set<() => void>;
+}
+
+/**
+ * Runs named, long-lived commands such as dev servers and watchers in the
+ * background, keeps their output, and stops them when asked or when the
+ * session ends. Each job leads its own process group, so stopping a job
+ * also stops the processes it started.
+ */
+export class BackgroundJobService {
+  private readonly jobs = new Map<string, BackgroundJob>();
+
+  /**
+   * Starts `command` as the job `name`. A job that exited is replaced by a
+   * new one with the same name.
+   *
+   * @throws If a job with the same name is still running
+   */
+  start(name: string, command: string, directory: string): BackgroundJobInfo {
+    const existing = this.jobs.get(name);
+    if (existing?.status === 'running') {
+      throw new Error(
+        `A background job named "${name}" is already running (PID ${existing.pid}).`,
+      );
+    }
+
+    const isWindows = os.platform() === 'win32';
+    const child = isWindows
+      ? spawn('cmd.exe', ['/c', command], {
+          stdio: ['ignore', 'pipe', 'pipe'],
+          cwd: directory,
+        })
+      : spawn('bash', ['-c', command], {
+          stdio: ['ignore', 'pipe', 'pipe'],
+          detached: true, // lead a process group, so the job can be killed as a whole
+          cwd: directory,
+        });
+
+    let resolveExited: () => void;
+    const job: BackgroundJob = {
+      name,
+      command,
+      directory,
+      pid: child.pid,
+      status: 'running',
+      startTime: new Date(),
+      exitCode: null,
+      signal: null,
+      process: child,
+      output: '',
+      exited: new Promise((resolve) => (resolveExited = resolve)),
+      listeners: new Set(),
+    };
+    this.jobs.set(name, job);
+
+    const append = (data: Buffer) => {
+      job.output += stripAnsi(data.toString());
+      if (job.output.length > MAX_JOB_OUTPUT_LENGTH) {
+        job.output = job.output.slice(-MAX_JOB_OUTPUT_LENGTH);
+      }
+      this.notify(job);
+    };
+    child.stdout?.on('data', append);
+    child.stderr?.on('data', append);
+
+    const finish = () => {
+      if (job.status === 'exited') {
+        return;
+      }
+      job.status = 'exited';
+      resolveExited();
+      this.notify(job);
+    };
+    child.on('error', (error: Error) => {
+      job.error = error.message;
+      finish();
+    });
+    // 'close' rather than 'exit', so the job only ends once all of its
+    // output has been read
+    child.on('close', (code, signal) => {
+      job.exitCode = code;
+      job.signal = signal;
+      finish();
+    });
+
+    return this.snapshot(job);
+  }
+
+  get(name: string): BackgroundJobInfo | undefined {
+    const job = this.jobs.get(name);
+    return job && this.snapshot(job);
+  }
+
+  /** All jobs of the session, running ones first, oldest first. */
+  list(): BackgroundJobInfo[] {
+    return [...this.jobs.values()]
+      .sort(
+        (a, b) =>
+          Number(a.status === 'exited') - Number(b.status === 'exited') ||
+          a.startTime.getTime() - b.startTime.getTime(),
+      )
+      .map((job) => this.snapshot(job));
+  }
+
+  /**
+   * Returns the last `lines` lines of the output of a job, or undefined if
+   * there is no job named `name`.
+   */
+  tail(name: string, lines: number): string | undefined {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return undefined;
+    }
+    const output = job.output.endsWith('\n')
+      ? job.output.slice(0, -1)
+      : job.output;
+    return output.split('\n').slice(-lines).join('\n');
+  }
+
+  /**
+   * Waits until the output of a job matches `pattern`, checking the output
+   * it already printed first. Gives up when the job exits, after
+   * `timeoutMs`, or when `abortSignal` is aborted.
+   *
+   * @throws If there is no job named `name`
+   */
+  waitForOutput(
+    name: string,
+    pattern: RegExp,
+    timeoutMs: number,
+    abortSignal: AbortSignal,
+  ): Promise<WaitForOutputResult> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      return Promise.reject(
+        new Error(`There is no background job named "${name}".`),
+      );
+    }
+
+    return new Promise((resolve) => {
+      const done = (result: Omit<WaitForOutputResult, 'job'>) => {
+        clearTimeout(timer);
+        abortSignal.removeEventListener('abort', onAbort);
+        job.listeners.delete(check);
+        resolve({ ...result, job: this.snapshot(job) });
+      };
+      const check = () => {
+        const match = pattern.exec(job.output);
+        if (match) {
+          done({ match: match[0] });
+        } else if (job.status === 'exited') {
+          done({ reason: 'exited' });
+        }
+      };
+      const onAbort = () => done({ reason: 'aborted' });
+      const timer = setTimeout(() => done({ reason: 'timeout' }), timeoutMs);
+
+      abortSignal.addEventListener('abort', onAbort);
+      job.listeners.add(check);
+      if (abortSignal.aborted) {
+        onAbort();
+      } else {
+        check();
+      }
+    });
+  }
+
+  /**
+   * Stops a job and the processes it started with SIGTERM, then SIGKILL if
+   * they are still running after a grace period.
+   *
+   * @throws If there is no job named `name`
+   */
+  async kill(name: string): Promise<BackgroundJobInfo> {
+    const job = this.jobs.get(name);
+    if (!job) {
+      throw new Error(`There is no background job named "${name}".`);
+    }
+    if (job.status === 'running') {
+      this.signal(job, 'SIGTERM');
+      const timer = setTimeout(
+        () => this.signal(job, 'SIGKILL'),
+        KILL_GRACE_PERIOD_MS,
+      );
+      await job.exited;
+      clearTimeout(timer);
+    }
+    return this.snapshot(job);
+  }
+
+  /**
+   * Sends SIGTERM to every running job without waiting for them to exit,
+   * so it can run while the process is exiting.
+   */
+  killAll(): void {
+    for (const job of this.jobs.values()) {
+      if (job.status === 'running') {
+        this.signal(job, 'SIGTERM');
+      }
+    }
+  }
+
+  private signal(job: BackgroundJob, signal: NodeJS.Signals): void {
+    if (!job.pid || job.status === 'exited') {
+      return;
+    }
+    if (os.platform() === 'win32') {
+      // taskkill kills the whole process tree
+      spawn('taskkill', ['/pid', job.pid.toString(), '/f', '/t']);
+      return;
+    }
+    try {
+      process.kill(-job.pid, signal);
+    } catch (_e) {
+      // the group is gone; fall back to the job's own process
+      try {
+        job.process.kill(signal);
+      } catch (_e) {
+        // already exited
+      }
+    }
+  }
+
+  private notify(job: BackgroundJob): void {
+    for (const listener of [...job.listeners]) {
+      listener();
+    }
+  }
+
+  private snapshot(job: BackgroundJob): BackgroundJobInfo {
+    return {
+      name: job.name,
+      command: job.command,
+      directory: job.directory,
+      pid: job.pid,
+      status: job.status,
+      startTime: job.startTime,
+      exitCode: job.exitCode,
+      signal: job.signal,
+      ...(job.error ? { error: job.error } : {}),
+    };
+  }
+}
+
+/**
+ * Describes the state of a job, e.g. "running (PID 123)" or "exited with
+ * code 1".
+ */
+export function formatJobStatus(job: BackgroundJobInfo): string {
+  if (job.status === 'running') {
+    return `running (PID ${job.pid ?? 'unknown'})`;
+  }
+  if (job.error) {
+    return `failed to start: ${job.error}`;
+  }
+  if (job.signal) {
+    return `terminated by ${job.signal}`;
+  }
+  return `exited with code ${job.exitCode ?? 'unknown'}`;
+}
@@ -0,0 +1,172 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+import {
+  EmbedFunction,
+  SemanticIndexService,
+  chunkLines,
+} from './semanticIndexService.js';
+
+const VOCABULARY = ['password', 'login', 'sum', 'numbers', 'render', 'button'];
+
+/** Embeds a text as the counts of a few words, enough to rank by topic. */
+const embedWords: EmbedFunction = async (texts) =>
+  texts.map((text) =>
+    VOCABULARY.map((word) => text.split(word).length - 1 + 0.01),
+  );
+
+describe('chunkLines', () => {
+  it('should split lines into overlapping chunks', () => {
+    expect(chunkLines(0)).toEqual([]);
+    expect(chunkLines(10)).toEqual([{ startLine: 1, endLine: 10 }]);
+    expect(chunkLines(75)).toEqual([
+      { startLine: 1, endLine: 40 },
+      { startLine: 31, endLine: 70 },
+      { startLine: 61, endLine: 75 },
+    ]);
+  });
+});
+
+describe('SemanticIndexService', () => {
+  let rootDir: string;
+  let indexDir: string;
+  let embed: ReturnType<typeof vi.fn>;
+  const signal = new AbortController().signal;
+
+  const createService = (model = 'test-embedding-model') =>
+    new SemanticIndexService({
+      rootDir,
+      indexDir,
+      model,
+      fileService: new FileDiscoveryService(rootDir),
+      embed: embed as unknown as EmbedFunction,
+    });
+  const writeFile = (filePath: string, content: string | Buffer) => {
+    fs.mkdirSync(path.dirname(path.join(rootDir, filePath)), {
+      recursive: true,
+    });
+    fs.writeFileSync(path.join(rootDir, filePath), content);
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-root-'));
+    indexDir = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-index-'));
+    embed = vi.fn(embedWords);
+    writeFile(
+      'src/auth.ts',
+      'function login(user, password) {\n  check(password);\n}\n',
+    );
+    writeFile(
+      'src/math.ts',
+      'export function sum(numbers) {\n  return 0;\n}\n',
+    );
+    writeFile('ui/view.tsx', 'export const View = () => render(button);\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    fs.rmSync(indexDir, { recursive: true, force: true });
+  });
+
+  it('should return the most similar chunks with their line ranges', async () => {
+    const service = createService();
+
+    expect(await service.update(signal)).toEqual({
+      files: 3,
+      embeddedFiles: 3,
+      removedFiles: 0,
+      skippedFiles: 0,
+      chunks: 3,
+    });
+    const matches = await service.search('check the login password', {
+      limit: 2,
+    });
+
+    expect(matches).toHaveLength(2);
+    expect(matches[0]).toMatchObject({
+      filePath: path.join('src', 'auth.ts'),
+      startLine: 1,
+      endLine: 4,
+      text: 'function login(user, password) {\n  check(password);\n}\n',
+    });
+    expect(matches[0].score).toBeGreaterThan(matches[1].score);
+  });
+
+  it('should leave out ignored, binary and empty files', async () => {
+    writeFile('.geminiignore', 'secret.ts\n');
+    writeFile('secret.ts', 'const password = "hunter2";\n');
+    writeFile('logo.png', Buffer.from([0x89, 0x50, 0x4e, 0x47, 0, 0, 0, 0]));
+    writeFile('empty.ts', '\n\n');
+    const service = createService();
+
+    const update = await service.update(signal);
+    const matches = await service.search('password', { limit: 10 });
+
+    expect(update.chunks).toBe(4);
+    expect(matches.map((match) => match.filePath)).not.toContain('secret.ts');
+    expect(matches.map((match) => match.filePath)).not.toContain('logo.png');
+  });
+
+  it('should only embed files that changed since the last update', async () => {
+    await createService().update(signal);
+    embed.mockClear();
+
+    // A new instance loads the index from disk.
+    const service = createService();
+    expect((await service.update(signal)).embeddedFiles).toBe(0);
+    expect(embed).not.toHaveBeenCalled();
+
+    writeFile('src/math.ts', 'export function sum(numbers, more) {}\n');
+    fs.rmSync(path.join(rootDir, 'ui'), { recursive: true });
+    const update = await service.update(signal);
+
+    expect(update).toMatchObject({
+      files: 2,
+      embeddedFiles: 1,
+      removedFiles: 1,
+    });
+    expect(embed).toHaveBeenCalledWith([
+      `${path.join('src', 'math.ts')}:1-2\nexport function sum(numbers, more) {}\n`,
+    ]);
+  });
+
+  it('should rebuild the index for another embedding model', async () => {
+    await createService().update(signal);
+
+    const update = await createService('other-model').update(signal);
+
+    expect(update.embeddedFiles).toBe(3);
+  });
+
+  it('should search only the requested directory', async () => {
+    const service = createService();
+    await service.update(signal);
+
+    const matches = await service.search('password', {
+      limit: 10,
+      directory: 'ui',
+    });
+
+    expect(matches.map((match) => match.filePath)).toEqual([
+      path.join('ui', 'view.tsx'),
+    ]);
+  });
+
+  it('should embed the files again after an embedding error', async () => {
+    const service = createService();
+    embed.mockRejectedValueOnce(new Error('model not found'));
+
+    await expect(service.update(signal)).rejects.toThrow('model not found');
+    embed.mockImplementation(embedWords);
+
+    expect((await service.update(signal)).embeddedFiles).toBe(3);
+  });
+});
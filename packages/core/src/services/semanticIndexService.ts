@@ -0,0 +1,483 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { glob } from 'glob';
+import { FileDiscoveryService } from './fileDiscoveryService.js';
+import { isBinaryFile } from '../utils/fileUtils.js';
+
+/** Lines per chunk of a file. */
+export const CHUNK_LINES = 40;
+/** Lines a chunk shares with the previous one, so code at a boundary is found. */
+export const CHUNK_OVERLAP_LINES = 10;
+/** Characters of a chunk that are embedded; the rest only shows in results. */
+const MAX_CHUNK_CHARS = 2000;
+/** Files larger than this are not indexed. */
+const MAX_FILE_BYTES = 256 * 1024;
+/** Files beyond this count are not indexed. */
+export const MAX_INDEXED_FILES = 5000;
+/** Texts sent to the embedding endpoint per request. */
+const EMBED_BATCH_SIZE = 64;
+const INDEX_FILE_NAME = 'index.json';
+const INDEX_VERSION = 1;
+
+/** Embeds texts, returning one vector per text in the same order. */
+export type EmbedFunction = (texts: string[]) => Promise<number[][]>;
+
+export interface SemanticIndexOptions {
+  /** Directory whose files are indexed */
+  rootDir: string;
+  /** Directory the index is stored in */
+  indexDir: string;
+  /** Model the vectors come from; an index built with another is rebuilt */
+  model: string;
+  fileService: FileDiscoveryService;
+  embed: EmbedFunction;
+}
+
+/** Line range of a chunk, 1-based and inclusive. */
+export interface ChunkRange {
+  startLine: number;
+  endLine: number;
+}
+
+export interface SemanticIndexUpdate {
+  /** Files in the index after the update */
+  files: number;
+  /** Files that were (re-)embedded because they are new or changed */
+  embeddedFiles: number;
+  /** Files that were dropped because they were deleted or are now ignored */
+  removedFiles: number;
+  /** Files left out because the project has more than MAX_INDEXED_FILES */
+  skippedFiles: number;
+  chunks: number;
+}
+
+export interface SemanticSearchMatch extends ChunkRange {
+  /** Path relative to the root directory */
+  filePath: string;
+  /** Cosine similarity between the query and the chunk */
+  score: number;
+  text: string;
+}
+
+export interface SemanticSearchOptions {
+  limit: number;
+  /** Only search files in this directory, relative to the root directory */
+  directory?: string;
+}
+
+interface IndexedChunk extends ChunkRange {
+  /** Unit-length embedding */
+  vector: Float32Array;
+}
+
+interface IndexedFile {
+  mtimeMs: number;
+  size: number;
+  chunks: IndexedChunk[];
+}
+
+/** The index as stored on disk, with vectors as base64 float32 arrays. */
+interface StoredIndex {
+  version: number;
+  model: string;
+  files: Record<
+    string,
+    {
+      mtimeMs: number;
+      size: number;
+      chunks: Array<ChunkRange & { vector: string }>;
+    }
+  >;
+}
+
+interface PendingFile extends IndexedFile {
+  filePath: string;
+  texts: string[];
+  remaining: number;
+}
+
+/**
+ * Splits text with `lineCount` lines into overlapping chunks of
+ * CHUNK_LINES lines.
+ */
+export function chunkLines(lineCount: number): ChunkRange[] {
+  const ranges: ChunkRange[] = [];
+  const step = CHUNK_LINES - CHUNK_OVERLAP_LINES;
+  for (let start = 0; start < lineCount; start += step) {
+    const end = Math.min(start + CHUNK_LINES, lineCount);
+    ranges.push({ startLine: start + 1, endLine: end });
+    if (end === lineCount) {
+      break;
+    }
+  }
+  return ranges;
+}
+
+function normalize(values: number[]): Float32Array {
+  const vector = Float32Array.from(values);
+  const length = Math.sqrt(dot(vector, vector));
+  if (length > 0) {
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] /= length;
+    }
+  }
+  return vector;
+}
+
+function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+function encodeVector(vector: Float32Array): string {
+  return Buffer.from(
+    vector.buffer,
+    vector.byteOffset,
+    vector.byteLength,
+  ).toString('base64');
+}
+
+function decodeVector(encoded: string): Float32Array {
+  const bytes = Buffer.from(encoded, 'base64');
+  return new Float32Array(
+    bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength),
+  );
+}
+
+/**
+ * Keeps embeddings of the project's files in an index on disk, so code can be
+ * found by meaning rather than by name. Files are split into overlapping
+ * chunks of lines; only files whose modification time or size changed since
+ * the last update are embedded again.
+ */
+export class SemanticIndexService {
+  private files: Map<string, IndexedFile> | undefined;
+  private updating: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly options: SemanticIndexOptions) {}
+
+  get model(): string {
+    return this.options.model;
+  }
+
+  private get indexPath(): string {
+    return path.join(this.options.indexDir, INDEX_FILE_NAME);
+  }
+
+  /**
+   * Brings the index up to date with the files on disk. Updates run one at a
+   * time; progress made before an abort or an embedding error is kept.
+   */
+  update(signal: AbortSignal): Promise<SemanticIndexUpdate> {
+    const run = this.updating.then(() => this.runUpdate(signal));
+    this.updating = run.catch(() => {});
+    return run;
+  }
+
+  /**
+   * Returns the chunks most similar to `query`, best first. Overlapping
+   * chunks of a file are reported once. Call `update` first.
+   */
+  async search(
+    query: string,
+    { limit, directory }: SemanticSearchOptions,
+  ): Promise<SemanticSearchMatch[]> {
+    const files = await this.load();
+    const [queryValues] = await this.options.embed([query]);
+    const queryVector = normalize(queryValues);
+    const prefix =
+      directory && directory !== '.'
+        ? path.normalize(directory).replace(/[\\/]+$/, '') + path.sep
+        : '';
+
+    const scored: Array<{
+      filePath: string;
+      chunk: IndexedChunk;
+      score: number;
+    }> = [];
+    for (const [filePath, file] of files) {
+      if (!filePath.startsWith(prefix)) {
+        continue;
+      }
+      for (const chunk of file.chunks) {
+        scored.push({ filePath, chunk, score: dot(queryVector, chunk.vector) });
+      }
+    }
+    scored.sort((a, b) => b.score - a.score);
+
+    const matches: SemanticSearchMatch[] = [];
+    for (const { filePath, chunk, score } of scored) {
+      if (matches.length >= limit) {
+        break;
+      }
+      const overlaps = matches.some(
+        (match) =>
+          match.filePath === filePath &&
+          match.startLine <= chunk.endLine &&
+          chunk.startLine <= match.endLine,
+      );
+      if (overlaps) {
+        continue;
+      }
+      const text = await this.readChunk(filePath, chunk);
+      if (text !== undefined) {
+        matches.push({
+          filePath,
+          startLine: chunk.startLine,
+          endLine: chunk.endLine,
+          score,
+          text,
+        });
+      }
+    }
+    return matches;
+  }
+
+  private async runUpdate(signal: AbortSignal): Promise<SemanticIndexUpdate> {
+    const files = await this.load();
+    const entries = await this.listFiles(signal);
+    const current = new Map(
+      entries
+        .slice(0, MAX_INDEXED_FILES)
+        .map((entry) => [entry.filePath, entry]),
+    );
+
+    let removedFiles = 0;
+    for (const filePath of files.keys()) {
+      if (!current.has(filePath)) {
+        files.delete(filePath);
+        removedFiles++;
+      }
+    }
+    const stale = [...current.values()].filter((entry) => {
+      const indexed = files.get(entry.filePath);
+      return (
+        !indexed ||
+        indexed.mtimeMs !== entry.mtimeMs ||
+        indexed.size !== entry.size
+      );
+    });
+
+    let embeddedFiles = 0;
+    let batch: Array<{ file: PendingFile; index: number }> = [];
+    const flush = async () => {
+      if (batch.length === 0) {
+        return;
+      }
+      const vectors = await this.options.embed(
+        batch.map(({ file, index }) => file.texts[index]),
+      );
+      if (vectors.length !== batch.length) {
+        throw new Error(
+          `The embedding model returned ${vectors.length} embeddings for ${batch.length} texts.`,
+        );
+      }
+      batch.forEach(({ file, index }, i) => {
+        file.chunks[index].vector = normalize(vectors[i]);
+        if (--file.remaining === 0) {
+          files.set(file.filePath, {
+            mtimeMs: file.mtimeMs,
+            size: file.size,
+            chunks: file.chunks,
+          });
+          embeddedFiles++;
+        }
+      });
+      batch = [];
+    };
+
+    try {
+      for (const entry of stale) {
+        if (signal.aborted) {
+          break;
+        }
+        const file = await this.readFile(entry);
+        if (file.remaining === 0) {
+          files.set(entry.filePath, {
+            mtimeMs: entry.mtimeMs,
+            size: entry.size,
+            chunks: [],
+          });
+          continue;
+        }
+        for (let index = 0; index < file.texts.length; index++) {
+          batch.push({ file, index });
+          if (batch.length >= EMBED_BATCH_SIZE) {
+            await flush();
+            if (signal.aborted) {
+              break;
+            }
+          }
+        }
+      }
+      if (!signal.aborted) {
+        await flush();
+      }
+    } finally {
+      if (stale.length > 0 || removedFiles > 0) {
+        await this.save(files);
+      }
+    }
+
+    let chunks = 0;
+    for (const file of files.values()) {
+      chunks += file.chunks.length;
+    }
+    return {
+      files: files.size,
+      embeddedFiles,
+      removedFiles,
+      skippedFiles: entries.length - current.size,
+      chunks,
+    };
+  }
+
+  /** Files to index, relative to the root, without ignored ones. */
+  private async listFiles(
+    signal: AbortSignal,
+  ): Promise<Array<{ filePath: string; mtimeMs: number; size: number }>> {
+    const paths = await glob('**/*', {
+      cwd: this.options.rootDir,
+      withFileTypes: true,
+      nodir: true,
+      stat: true,
+      dot: true,
+      ignore: ['**/node_modules/**', '**/.git/**'],
+      follow: false,
+      signal,
+    });
+    const byPath = new Map(
+      paths.map((entry) => [
+        path.relative(this.options.rootDir, entry.fullpath()),
+        entry,
+      ]),
+    );
+    return this.options.fileService
+      .filterFiles([...byPath.keys()])
+      .sort()
+      .map((filePath) => {
+        const entry = byPath.get(filePath)!;
+        return {
+          filePath,
+          mtimeMs: entry.mtimeMs ?? 0,
+          size: entry.size ?? 0,
+        };
+      });
+  }
+
+  /** Reads and chunks a file; binary and very large files get no chunks. */
+  private async readFile(entry: {
+    filePath: string;
+    mtimeMs: number;
+    size: number;
+  }): Promise<PendingFile> {
+    const file: PendingFile = { ...entry, chunks: [], texts: [], remaining: 0 };
+    const absolutePath = path.join(this.options.rootDir, entry.filePath);
+    if (entry.size > MAX_FILE_BYTES || isBinaryFile(absolutePath)) {
+      return file;
+    }
+    let content: string;
+    try {
+      content = await fs.promises.readFile(absolutePath, 'utf8');
+    } catch {
+      return file;
+    }
+    const lines = content.split(/\r?\n/);
+    for (const range of chunkLines(lines.length)) {
+      const text = lines.slice(range.startLine - 1, range.endLine).join('\n');
+      if (text.trim() === '') {
+        continue;
+      }
+      file.chunks.push({ ...range, vector: new Float32Array() });
+      file.texts.push(
+        `${entry.filePath}:${range.startLine}-${range.endLine}\n${text}`.slice(
+          0,
+          MAX_CHUNK_CHARS,
+        ),
+      );
+    }
+    file.remaining = file.chunks.length;
+    return file;
+  }
+
+  private async readChunk(
+    filePath: string,
+    range: ChunkRange,
+  ): Promise<string | undefined> {
+    try {
+      const content = await fs.promises.readFile(
+        path.join(this.options.rootDir, filePath),
+        'utf8',
+      );
+      return content
+        .split(/\r?\n/)
+        .slice(range.startLine - 1, range.endLine)
+        .join('\n');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async load(): Promise<Map<string, IndexedFile>> {
+    if (this.files) {
+      return this.files;
+    }
+    this.files = new Map();
+    let stored: StoredIndex;
+    try {
+      stored = JSON.parse(
+        await fs.promises.readFile(this.indexPath, 'utf8'),
+      ) as StoredIndex;
+    } catch {
+      // No index yet, or an unreadable one that is rebuilt.
+      return this.files;
+    }
+    if (stored.version !== INDEX_VERSION || stored.model !== this.model) {
+      return this.files;
+    }
+    for (const [filePath, file] of Object.entries(stored.files ?? {})) {
+      this.files.set(filePath, {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        chunks: file.chunks.map(({ startLine, endLine, vector }) => ({
+          startLine,
+          endLine,
+          vector: decodeVector(vector),
+        })),
+      });
+    }
+    return this.files;
+  }
+
+  private async save(files: Map<string, IndexedFile>): Promise<void> {
+    const stored: StoredIndex = {
+      version: INDEX_VERSION,
+      model: this.model,
+      files: {},
+    };
+    for (const [filePath, file] of files) {
+      stored.files[filePath] = {
+        mtimeMs: file.mtimeMs,
+        size: file.size,
+        chunks: file.chunks.map(({ startLine, endLine, vector }) => ({
+          startLine,
+          endLine,
+          vector: encodeVector(vector),
+        })),
+      };
+    }
+    await fs.promises.mkdir(this.options.indexDir, { recursive: true });
+    const tempPath = `${this.indexPath}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(stored));
+    await fs.promises.rename(tempPath, this.indexPath);
+  }
+}
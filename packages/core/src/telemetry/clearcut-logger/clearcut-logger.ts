@@ -16,6 +16,10 @@ import {
   ApiErrorEvent,
   FlashFallbackEvent,
   LoopDetectedEvent,
+  ModelSwitchEvent,
+  ProviderFallbackEvent,
+  UtilityModelCallEvent,
+  McpSamplingEvent,
 } from '../types.js';
 import { EventMetadataKey } from './event-metadata-key.js';
 import { Config } from '../../config/config.js';
@@ -35,6 +39,10 @@ const api_error_event_name = 'api_error';
 const end_session_event_name = 'end_session';
 const flash_fallback_event_name = 'flash_fallback';
 const loop_detected_event_name = 'loop_detected';
+const model_switch_event_name = 'model_switch';
+const provider_fallback_event_name = 'provider_fallback';
+const utility_model_call_event_name = 'utility_model_call';
+const mcp_sampling_event_name = 'mcp_sampling';
 
 export interface LogResponse {
   nextRequestWaitMs?: number;
@@ -462,6 +470,142 @@ export class ClearcutLogger {
     this.flushIfNeeded();
   }
 
+  logModelSwitchEvent(event: ModelSwitchEvent): void {
+    const data = [
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_MODEL_SWITCH_TASK_TYPE,
+        value: JSON.stringify(event.task_type),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_MODEL_SWITCH_TIER,
+        value: JSON.stringify(event.tier),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_MODEL_SWITCH_CONFIDENCE,
+        value: JSON.stringify(event.confidence),
+      },
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_MODEL_SWITCH_CLASSIFICATION_SOURCE,
+        value: JSON.stringify(event.classification_source),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_MODEL_SWITCH_MODEL,
+        value: JSON.stringify(event.model),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_MODEL_SWITCH_SWITCHED,
+        value: JSON.stringify(event.switched),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_PROMPT_ID,
+        value: JSON.stringify(event.prompt_id),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_AUTH_TYPE,
+        value: JSON.stringify(event.auth_type),
+      },
+    ];
+
+    this.enqueueLogEvent(this.createLogEvent(model_switch_event_name, data));
+    this.flushIfNeeded();
+  }
+
+  logProviderFallbackEvent(event: ProviderFallbackEvent): void {
+    const data = [
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_PROVIDER_FALLBACK_FROM_PROVIDER,
+        value: JSON.stringify(event.from_provider),
+      },
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_PROVIDER_FALLBACK_TO_PROVIDER,
+        value: JSON.stringify(event.to_provider),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_PROVIDER_FALLBACK_TO_MODEL,
+        value: JSON.stringify(event.to_model),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_PROMPT_ID,
+        value: JSON.stringify(event.prompt_id),
+      },
+    ];
+
+    this.enqueueLogEvent(
+      this.createLogEvent(provider_fallback_event_name, data),
+    );
+    this.flushIfNeeded();
+  }
+
+  logUtilityModelCallEvent(event: UtilityModelCallEvent): void {
+    const data = [
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_UTILITY_MODEL_CALL_HELPER,
+        value: JSON.stringify(event.helper),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_UTILITY_MODEL_CALL_MODEL,
+        value: JSON.stringify(event.model),
+      },
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_UTILITY_MODEL_CALL_DURATION_MS,
+        value: JSON.stringify(event.duration_ms),
+      },
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_UTILITY_MODEL_CALL_INPUT_TOKEN_COUNT,
+        value: JSON.stringify(event.input_token_count),
+      },
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_UTILITY_MODEL_CALL_OUTPUT_TOKEN_COUNT,
+        value: JSON.stringify(event.output_token_count),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_UTILITY_MODEL_CALL_SUCCESS,
+        value: JSON.stringify(event.success),
+      },
+    ];
+
+    this.enqueueLogEvent(
+      this.createLogEvent(utility_model_call_event_name, data),
+    );
+    this.flushIfNeeded();
+  }
+
+  logMcpSamplingEvent(event: McpSamplingEvent): void {
+    const data = [
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_MCP_SAMPLING_MODEL,
+        value: JSON.stringify(event.model),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_MCP_SAMPLING_DURATION_MS,
+        value: JSON.stringify(event.duration_ms),
+      },
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_MCP_SAMPLING_INPUT_TOKEN_COUNT,
+        value: JSON.stringify(event.input_token_count),
+      },
+      {
+        gemini_cli_key:
+          EventMetadataKey.GEMINI_CLI_MCP_SAMPLING_OUTPUT_TOKEN_COUNT,
+        value: JSON.stringify(event.output_token_count),
+      },
+      {
+        gemini_cli_key: EventMetadataKey.GEMINI_CLI_MCP_SAMPLING_SUCCESS,
+        value: JSON.stringify(event.success),
+      },
+    ];
+
+    this.enqueueLogEvent(this.createLogEvent(mcp_sampling_event_name, data));
+    this.flushIfNeeded();
+  }
+
   logEndSessionEvent(event: EndSessionEvent): void {
     const data = [
       {
@@ -157,6 +157,82 @@ export enum EventMetadataKey {
 
   // Logs the type of loop detected.
   GEMINI_CLI_LOOP_DETECTED_TYPE = 38,
+
+  // ==========================================================================
+  // Model Switch Event Keys
+  // ===========================================================================
+
+  // Logs the task type the prompt was classified as.
+  GEMINI_CLI_MODEL_SWITCH_TASK_TYPE = 39,
+
+  // Logs the model tier picked for the task.
+  GEMINI_CLI_MODEL_SWITCH_TIER = 40,
+
+  // Logs the model picked for the task.
+  GEMINI_CLI_MODEL_SWITCH_MODEL = 41,
+
+  // Logs whether the model was changed.
+  GEMINI_CLI_MODEL_SWITCH_SWITCHED = 42,
+
+  // Logs the confidence of the task classification.
+  GEMINI_CLI_MODEL_SWITCH_CONFIDENCE = 43,
+
+  // Logs whether keywords or the classifier model decided the task type.
+  GEMINI_CLI_MODEL_SWITCH_CLASSIFICATION_SOURCE = 44,
+
+  // ==========================================================================
+  // Provider Fallback Event Keys
+  // ===========================================================================
+
+  // Logs the provider that failed.
+  GEMINI_CLI_PROVIDER_FALLBACK_FROM_PROVIDER = 45,
+
+  // Logs the provider the session moved to.
+  GEMINI_CLI_PROVIDER_FALLBACK_TO_PROVIDER = 46,
+
+  // Logs the model the session moved to.
+  GEMINI_CLI_PROVIDER_FALLBACK_TO_MODEL = 47,
+
+  // ==========================================================================
+  // Utility Model Call Event Keys
+  // ===========================================================================
+
+  // Logs the helper that made the call, e.g. editCorrector.
+  GEMINI_CLI_UTILITY_MODEL_CALL_HELPER = 48,
+
+  // Logs the model the helper used.
+  GEMINI_CLI_UTILITY_MODEL_CALL_MODEL = 49,
+
+  // Logs the duration of the call in milliseconds.
+  GEMINI_CLI_UTILITY_MODEL_CALL_DURATION_MS = 50,
+
+  // Logs the input tokens of the call.
+  GEMINI_CLI_UTILITY_MODEL_CALL_INPUT_TOKEN_COUNT = 51,
+
+  // Logs the output tokens of the call.
+  GEMINI_CLI_UTILITY_MODEL_CALL_OUTPUT_TOKEN_COUNT = 52,
+
+  // Logs whether the call succeeded.
+  GEMINI_CLI_UTILITY_MODEL_CALL_SUCCESS = 53,
+
+  // ==========================================================================
+  // MCP Sampling Event Keys
+  // ===========================================================================
+
+  // Logs the model that answered the MCP server's sampling request.
+  GEMINI_CLI_MCP_SAMPLING_MODEL = 54,
+
+  // Logs the duration of the request in milliseconds.
+  GEMINI_CLI_MCP_SAMPLING_DURATION_MS = 55,
+
+  // Logs the input tokens of the request.
+  GEMINI_CLI_MCP_SAMPLING_INPUT_TOKEN_COUNT = 56,
+
+  // Logs the output tokens of the request.
+  GEMINI_CLI_MCP_SAMPLING_OUTPUT_TOKEN_COUNT = 57,
+
+  // Logs whether the request succeeded.
+  GEMINI_CLI_MCP_SAMPLING_SUCCESS = 58,
 }
 
 export function getEventMetadataKey(
@@ -13,6 +13,10 @@ export const EVENT_API_ERROR = 'gemini_cli.api_error';
 export const EVENT_API_RESPONSE = 'gemini_cli.api_response';
 export const EVENT_CLI_CONFIG = 'gemini_cli.config';
 export const EVENT_FLASH_FALLBACK = 'gemini_cli.flash_fallback';
+export const EVENT_MODEL_SWITCH = 'gemini_cli.model_switch';
+export const EVENT_PROVIDER_FALLBACK = 'gemini_cli.provider_fallback';
+export const EVENT_UTILITY_MODEL_CALL = 'gemini_cli.utility_model_call';
+export const EVENT_MCP_SAMPLING = 'gemini_cli.mcp_sampling';
 
 export const METRIC_TOOL_CALL_COUNT = 'gemini_cli.tool.call.count';
 export const METRIC_TOOL_CALL_LATENCY = 'gemini_cli.tool.call.latency';
@@ -26,6 +26,10 @@ export {
   logApiError,
   logApiResponse,
   logFlashFallback,
+  logModelSwitch,
+  logProviderFallback,
+  logUtilityModelCall,
+  logMcpSampling,
 } from './loggers.js';
 export {
   StartSessionEvent,
@@ -37,6 +41,10 @@ export {
   ApiResponseEvent,
   TelemetryEvent,
   FlashFallbackEvent,
+  ModelSwitchEvent,
+  ProviderFallbackEvent,
+  UtilityModelCallEvent,
+  McpSamplingEvent,
 } from './types.js';
 export { SpanStatusCode, ValueType } from '@opentelemetry/api';
 export { SemanticAttributes } from '@opentelemetry/semantic-conventions';
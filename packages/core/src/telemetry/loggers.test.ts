@@ -24,6 +24,7 @@ import {
   EVENT_TOOL_CALL,
   EVENT_USER_PROMPT,
   EVENT_FLASH_FALLBACK,
+  EVENT_MODEL_SWITCH,
 } from './constants.js';
 import {
   logApiRequest,
@@ -32,6 +33,7 @@ import {
   logUserPrompt,
   logToolCall,
   logFlashFallback,
+  logModelSwitch,
 } from './loggers.js';
 import {
   ApiRequestEvent,
@@ -41,6 +43,7 @@ import {
   ToolCallEvent,
   UserPromptEvent,
   FlashFallbackEvent,
+  ModelSwitchEvent,
 } from './types.js';
 import * as metrics from './metrics.js';
 import * as sdk from './sdk.js';
@@ -376,6 +379,49 @@ describe('loggers', () => {
     });
   });
 
+  describe('logModelSwitch', () => {
+    const mockConfig = {
+      getSessionId: () => 'test-session-id',
+      getUsageStatisticsEnabled: () => true,
+    } as unknown as Config;
+
+    it('should log model switch event', () => {
+      const event = new ModelSwitchEvent(
+        {
+          taskType: 'planning',
+          confidence: 0.75,
+          source: 'heuristic',
+          reason: 'matched "design"',
+        },
+        'strong',
+        'llama3.1:70b',
+        'llama3.2',
+        AuthType.USE_OLLAMA,
+        'prompt-id-7',
+      );
+
+      logModelSwitch(mockConfig, event);
+
+      expect(mockLogger.emit).toHaveBeenCalledWith({
+        body: 'Switched to strong model llama3.1:70b for planning task.',
+        attributes: {
+          'session.id': 'test-session-id',
+          'event.name': EVENT_MODEL_SWITCH,
+          'event.timestamp': '2025-01-01T00:00:00.000Z',
+          task_type: 'planning',
+          confidence: 0.75,
+          classification_source: 'heuristic',
+          tier: 'strong',
+          model: 'llama3.1:70b',
+          previous_model: 'llama3.2',
+          switched: true,
+          auth_type: 'ollama',
+          prompt_id: 'prompt-id-7',
+        },
+      });
+    });
+  });
+
   describe('logToolCall', () => {
     const cfg1 = {
       getSessionId: () => 'test-session-id',
@@ -15,6 +15,10 @@ import {
   EVENT_TOOL_CALL,
   EVENT_USER_PROMPT,
   EVENT_FLASH_FALLBACK,
+  EVENT_MODEL_SWITCH,
+  EVENT_PROVIDER_FALLBACK,
+  EVENT_UTILITY_MODEL_CALL,
+  EVENT_MCP_SAMPLING,
   SERVICE_NAME,
 } from './constants.js';
 import {
@@ -26,6 +30,10 @@ import {
   UserPromptEvent,
   FlashFallbackEvent,
   LoopDetectedEvent,
+  ModelSwitchEvent,
+  ProviderFallbackEvent,
+  UtilityModelCallEvent,
+  McpSamplingEvent,
 } from './types.js';
 import {
   recordApiErrorMetrics,
@@ -182,6 +190,96 @@ export function logFlashFallback(
   logger.emit(logRecord);
 }
 
+export function logModelSwitch(config: Config, event: ModelSwitchEvent): void {
+  ClearcutLogger.getInstance(config)?.logModelSwitchEvent(event);
+  if (!isTelemetrySdkInitialized()) return;
+
+  const attributes: LogAttributes = {
+    ...getCommonAttributes(config),
+    ...event,
+    'event.name': EVENT_MODEL_SWITCH,
+    'event.timestamp': new Date().toISOString(),
+  };
+
+  const logger = logs.getLogger(SERVICE_NAME);
+  const logRecord: LogRecord = {
+    body: event.switched
+      ? `Switched to ${event.tier} model ${event.model} for ${event.task_type} task.`
+      : `Kept ${event.tier} model ${event.model} for ${event.task_type} task.`,
+    attributes,
+  };
+  logger.emit(logRecord);
+}
+
+export function logProviderFallback(
+  config: Config,
+  event: ProviderFallbackEvent,
+): void {
+  ClearcutLogger.getInstance(config)?.logProviderFallbackEvent(event);
+  if (!isTelemetrySdkInitialized()) return;
+
+  const attributes: LogAttributes = {
+    ...getCommonAttributes(config),
+    ...event,
+    'event.name': EVENT_PROVIDER_FALLBACK,
+    'event.timestamp': new Date().toISOString(),
+  };
+
+  const logger = logs.getLogger(SERVICE_NAME);
+  const logRecord: LogRecord = {
+    body: `Fell back from ${event.from_provider} to ${event.to_provider} model ${event.to_model}.`,
+    attributes,
+  };
+  logger.emit(logRecord);
+}
+
+export function logUtilityModelCall(
+  config: Config,
+  event: UtilityModelCallEvent,
+): void {
+  ClearcutLogger.getInstance(config)?.logUtilityModelCallEvent(event);
+  if (!isTelemetrySdkInitialized()) return;
+
+  const attributes: LogAttributes = {
+    ...getCommonAttributes(config),
+    ...event,
+    'event.name': EVENT_UTILITY_MODEL_CALL,
+    'event.timestamp': new Date().toISOString(),
+  };
+  if (event.error) {
+    attributes['error.message'] = event.error;
+  }
+
+  const logger = logs.getLogger(SERVICE_NAME);
+  const logRecord: LogRecord = {
+    body: `${event.helper} call to ${event.model}. Duration: ${event.duration_ms}ms.`,
+    attributes,
+  };
+  logger.emit(logRecord);
+}
+
+export function logMcpSampling(config: Config, event: McpSamplingEvent): void {
+  ClearcutLogger.getInstance(config)?.logMcpSamplingEvent(event);
+  if (!isTelemetrySdkInitialized()) return;
+
+  const attributes: LogAttributes = {
+    ...getCommonAttributes(config),
+    ...event,
+    'event.name': EVENT_MCP_SAMPLING,
+    'event.timestamp': new Date().toISOString(),
+  };
+  if (event.error) {
+    attributes['error.message'] = event.error;
+  }
+
+  const logger = logs.getLogger(SERVICE_NAME);
+  const logRecord: LogRecord = {
+    body: `Sampling request from MCP server ${event.server_name} answered by ${event.model}. Duration: ${event.duration_ms}ms.`,
+    attributes,
+  };
+  logger.emit(logRecord);
+}
+
 export function logApiError(config: Config, event: ApiErrorEvent): void {
   const uiEvent = {
     ...event,
@@ -9,6 +9,7 @@ import { Config } from '../config/config.js';
 import { CompletedToolCall } from '../core/coreToolScheduler.js';
 import { ToolConfirmationOutcome } from '../tools/tools.js';
 import { AuthType } from '../core/contentGenerator.js';
+import { TaskClassification } from '../core/modelTypes.js';
 
 export enum ToolCallDecision {
   ACCEPT = 'accept',
@@ -263,6 +264,132 @@ export class LoopDetectedEvent {
   }
 }
 
+export class ModelSwitchEvent {
+  'event.name': 'model_switch';
+  'event.timestamp': string; // ISO 8601
+  task_type: string;
+  confidence: number;
+  classification_source: string;
+  tier: string;
+  model: string;
+  previous_model: string;
+  switched: boolean;
+  auth_type: string;
+  prompt_id?: string;
+
+  constructor(
+    classification: TaskClassification,
+    tier: string,
+    model: string,
+    previous_model: string,
+    auth_type: string,
+    prompt_id?: string,
+  ) {
+    this['event.name'] = 'model_switch';
+    this['event.timestamp'] = new Date().toISOString();
+    this.task_type = classification.taskType;
+    this.confidence = classification.confidence;
+    this.classification_source = classification.source;
+    this.tier = tier;
+    this.model = model;
+    this.previous_model = previous_model;
+    this.switched = model !== previous_model;
+    this.auth_type = auth_type;
+    this.prompt_id = prompt_id;
+  }
+}
+
+export class ProviderFallbackEvent {
+  'event.name': 'provider_fallback';
+  'event.timestamp': string; // ISO 8601
+  from_provider: string;
+  from_model: string;
+  to_provider: string;
+  to_model: string;
+  error: string;
+  prompt_id?: string;
+
+  constructor(
+    from_provider: string,
+    from_model: string,
+    to_provider: string,
+    to_model: string,
+    error: string,
+    prompt_id?: string,
+  ) {
+    this['event.name'] = 'provider_fallback';
+    this['event.timestamp'] = new Date().toISOString();
+    this.from_provider = from_provider;
+    this.from_model = from_model;
+    this.to_provider = to_provider;
+    this.to_model = to_model;
+    this.error = error;
+    this.prompt_id = prompt_id;
+  }
+}
+
+export class UtilityModelCallEvent {
+  'event.name': 'utility_model_call';
+  'event.timestamp': string; // ISO 8601
+  helper: string;
+  model: string;
+  duration_ms: number;
+  input_token_count: number;
+  output_token_count: number;
+  success: boolean;
+  error?: string;
+
+  constructor(
+    helper: string,
+    model: string,
+    duration_ms: number,
+    usage_data?: GenerateContentResponseUsageMetadata,
+    error?: string,
+  ) {
+    this['event.name'] = 'utility_model_call';
+    this['event.timestamp'] = new Date().toISOString();
+    this.helper = helper;
+    this.model = model;
+    this.duration_ms = duration_ms;
+    this.input_token_count = usage_data?.promptTokenCount ?? 0;
+    this.output_token_count = usage_data?.candidatesTokenCount ?? 0;
+    this.success = error === undefined;
+    this.error = error;
+  }
+}
+
+export class McpSamplingEvent {
+  'event.name': 'mcp_sampling';
+  'event.timestamp': string; // ISO 8601
+  server_name: string;
+  model: string;
+  duration_ms: number;
+  input_token_count: number;
+  output_token_count: number;
+  total_token_count: number;
+  success: boolean;
+  error?: string;
+
+  constructor(
+    server_name: string,
+    model: string,
+    duration_ms: number,
+    usage_data?: GenerateContentResponseUsageMetadata,
+    error?: string,
+  ) {
+    this['event.name'] = 'mcp_sampling';
+    this['event.timestamp'] = new Date().toISOString();
+    this.server_name = server_name;
+    this.model = model;
+    this.duration_ms = duration_ms;
+    this.input_token_count = usage_data?.promptTokenCount ?? 0;
+    this.output_token_count = usage_data?.candidatesTokenCount ?? 0;
+    this.total_token_count = usage_data?.totalTokenCount ?? 0;
+    this.success = error === undefined;
+    this.error = error;
+  }
+}
+
 export type TelemetryEvent =
   | StartSessionEvent
   | EndSessionEvent
@@ -272,4 +399,8 @@ export type TelemetryEvent =
   | ApiErrorEvent
   | ApiResponseEvent
   | FlashFallbackEvent
-  | LoopDetectedEvent;
+  | LoopDetectedEvent
+  | ModelSwitchEvent
+  | ProviderFallbackEvent
+  | UtilityModelCallEvent
+  | McpSamplingEvent;
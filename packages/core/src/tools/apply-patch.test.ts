@@ -0,0 +1,212 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import path from 'path';
+import fs from 'fs';
+import os from 'os';
+import { ApplyPatchTool } from './apply-patch.js';
+import { FileDiff, ToolEditConfirmationDetails } from './tools.js';
+import { ApprovalMode, Config } from '../config/config.js';
+
+describe('ApplyPatchTool', () => {
+  let tool: ApplyPatchTool;
+  let tempDir: string;
+  let rootDir: string;
+  let mockConfig: Config;
+  const signal = new AbortController().signal;
+
+  const readFile = (name: string) =>
+    fs.readFileSync(path.join(rootDir, name), 'utf8');
+
+  beforeEach(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'apply-patch-test-'));
+    rootDir = path.join(tempDir, 'root');
+    fs.mkdirSync(path.join(rootDir, 'src'), { recursive: true });
+    fs.writeFileSync(
+      path.join(rootDir, 'src/a.ts'),
+      'const a = 1;\nconst b = 2;\nconst c = 3;\n',
+    );
+    fs.writeFileSync(path.join(rootDir, 'src/old.ts'), 'obsolete\n');
+
+    mockConfig = {
+      getTargetDir: () => rootDir,
+      getApprovalMode: vi.fn().mockReturnValue(ApprovalMode.DEFAULT),
+      setApprovalMode: vi.fn(),
+    } as unknown as Config;
+    tool = new ApplyPatchTool(mockConfig);
+  });
+
+  afterEach(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  const MULTI_FILE_PATCH = `diff --git a/src/a.ts b/src/a.ts
+--- a/src/a.ts
++++ b/src/a.ts
+@@ -1,3 +1,3 @@
+ const a = 1;
+-const b = 2;
++const b = a * 2;
+ const c = 3;
+--- /dev/null
++++ b/src/new.ts
+@@ -0,0 +1,1 @@
++export const created = true;
+--- a/src/old.ts
++++ /dev/null
+@@ -1,1 +0,0 @@
+-obsolete
+`;
+
+  describe('validateToolParams', () => {
+    it('should accept a unified diff of files in the root', () => {
+      expect(tool.validateToolParams({ patch: MULTI_FILE_PATCH })).toBeNull();
+    });
+
+    it('should reject text without hunks', () => {
+      expect(tool.validateToolParams({ patch: 'just some text' })).toMatch(
+        /contains no hunks/,
+      );
+    });
+
+    it('should reject files outside the root', () => {
+      const patch = `--- ../outside.ts
++++ ../outside.ts
+@@ -1 +1 @@
+-a
++b
+`;
+      expect(tool.validateToolParams({ patch })).toMatch(
+        /must be within the root directory/,
+      );
+    });
+  });
+
+  describe('execute', () => {
+    it('should modify, create and delete files', async () => {
+      const result = await tool.execute({ patch: MULTI_FILE_PATCH }, signal);
+
+      expect(readFile('src/a.ts')).toBe(
+        'const a = 1;\nconst b = a * 2;\nconst c = 3;\n',
+      );
+      expect(readFile('src/new.ts')).toBe('export const created = true;\n');
+      expect(fs.existsSync(path.join(rootDir, 'src/old.ts'))).toBe(false);
+      expect(result.llmContent).toBe(
+        `Successfully applied patch to 3 file(s): ${path.join(rootDir, 'src/a.ts')} (modified), ${path.join(rootDir, 'src/new.ts')} (created), ${path.join(rootDir, 'src/old.ts')} (deleted).`,
+      );
+      const display = result.returnDisplay as FileDiff;
+      expect(display.fileName).toBe('3 files');
+      expect(display.fileDiff).toContain('+const b = a * 2;');
+      expect(display.fileDiff).toContain('+export const created = true;');
+      expect(display.fileDiff).toContain('-obsolete');
+    });
+
+    it('should change no file if any hunk does not match', async () => {
+      const patch = `${MULTI_FILE_PATCH}--- a/src/a.ts
++++ b/src/a.ts
+@@ -3,1 +3,1 @@
+-const c = 30;
++const c = 4;
+`;
+
+      const result = await tool.execute({ patch }, signal);
+
+      expect(result.llmContent).toMatch(
+        /hunk @@ -3,1 \+3,1 @@ does not match the content of src\/a.ts.*No files were changed\.$/,
+      );
+      expect(result.returnDisplay).toBe(
+        'Error: Failed to apply patch, hunk @@ -3,1 +3,1 @@ does not match src/a.ts.',
+      );
+      expect(readFile('src/a.ts')).toBe(
+        'const a = 1;\nconst b = 2;\nconst c = 3;\n',
+      );
+      expect(readFile('src/old.ts')).toBe('obsolete\n');
+      expect(fs.existsSync(path.join(rootDir, 'src/new.ts'))).toBe(false);
+    });
+
+    it('should refuse to create a file that exists', async () => {
+      const patch = `--- /dev/null
++++ b/src/a.ts
+@@ -0,0 +1 @@
++replaced
+`;
+
+      const result = await tool.execute({ patch }, signal);
+
+      expect(result.returnDisplay).toBe(
+        'Error: Failed to apply patch, src/a.ts already exists.',
+      );
+    });
+
+    it('should restore written files if a later write fails', async () => {
+      const writeFileSync = fs.writeFileSync;
+      vi.spyOn(fs, 'writeFileSync').mockImplementation((file, data) => {
+        if (String(file).endsWith('new.ts')) {
+          throw new Error('disk full');
+        }
+        writeFileSync(file, data);
+      });
+
+      const result = await tool.execute({ patch: MULTI_FILE_PATCH }, signal);
+      vi.restoreAllMocks();
+
+      expect(result.llmContent).toBe(
+        'Error applying patch: disk full. All files were restored.',
+      );
+      expect(readFile('src/a.ts')).toBe(
+        'const a = 1;\nconst b = 2;\nconst c = 3;\n',
+      );
+      expect(readFile('src/old.ts')).toBe('obsolete\n');
+    });
+  });
+
+  describe('shouldConfirmExecute', () => {
+    it('should show every file in one diff', async () => {
+      const confirmation = (await tool.shouldConfirmExecute(
+        { patch: MULTI_FILE_PATCH },
+        signal,
+      )) as ToolEditConfirmationDetails;
+
+      expect(confirmation.title).toBe('Confirm Patch: 3 files');
+      expect(confirmation.fileDiff.match(/^Index: /gm)).toHaveLength(3);
+    });
+
+    it('should not ask in auto edit mode or for a patch that does not apply', async () => {
+      await expect(
+        tool.shouldConfirmExecute(
+          {
+            patch: `--- a/src/a.ts
++++ b/src/a.ts
+@@ -1 +1 @@
+-const z = 1;
++const z = 2;
+`,
+          },
+          signal,
+        ),
+      ).resolves.toBe(false);
+
+      vi.mocked(mockConfig.getApprovalMode).mockReturnValue(
+        ApprovalMode.AUTO_EDIT,
+      );
+      await expect(
+        tool.shouldConfirmExecute({ patch: MULTI_FILE_PATCH }, signal),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('getDescription', () => {
+    it('should list the files the patch touches', () => {
+      expect(tool.getDescription({ patch: MULTI_FILE_PATCH })).toBe(
+        `Patch ${path.join('src', 'a.ts')}, ${path.join('src', 'new.ts')}, ${path.join('src', 'old.ts')}`,
+      );
+      expect(tool.getDescription({ patch: '' })).toBe(
+        'Model did not provide a valid patch',
+      );
+    });
+  });
+});
@@ -0,0 +1,428 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import * as path from 'path';
+import * as Diff from 'diff';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolEditConfirmationDetails,
+  ToolResult,
+} from './tools.js';
+import { Type } from '@google/genai';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { getErrorMessage, isNodeError } from '../utils/errors.js';
+import { Config, ApprovalMode } from '../config/config.js';
+import { DEFAULT_DIFF_OPTIONS } from './diffOptions.js';
+import { ReadFileTool } from './read-file.js';
+import { isWithinRoot } from '../utils/fileUtils.js';
+
+/**
+ * Parameters for the ApplyPatch tool
+ */
+export interface ApplyPatchToolParams {
+  /**
+   * A unified diff of one or more files
+   */
+  patch: string;
+}
+
+/**
+ * A file changed by a patch
+ */
+interface PatchedFile {
+  /** Absolute path of the file */
+  filePath: string;
+  /** Content before the patch, or null if the patch creates the file */
+  originalContent: string | null;
+  /** Content after the patch, or null if the patch deletes the file */
+  newContent: string | null;
+}
+
+interface CalculatedPatch {
+  files: PatchedFile[];
+  error?: { display: string; raw: string };
+}
+
+const DEV_NULL = '/dev/null';
+
+/**
+ * Implementation of the ApplyPatch tool logic
+ */
+export class ApplyPatchTool extends BaseTool<ApplyPatchToolParams, ToolResult> {
+  static readonly Name = 'apply_patch';
+
+  constructor(private readonly config: Config) {
+    super(
+      ApplyPatchTool.Name,
+      'ApplyPatch',
+      `Applies a unified diff to one or more files, as produced by \`diff -u\` or \`git diff\`. Prefer it over several calls to the replace tool when a change spans many places or files. Always use the ${ReadFileTool.Name} tool to examine the current content of the files first.
+
+Each file starts with \`--- <old path>\` and \`+++ <new path>\` headers, followed by hunks that start with \`@@ -<old start>,<old lines> +<new start>,<new lines> @@\`. Paths are relative to the project root or absolute, and may carry git's \`a/\` and \`b/\` prefixes. Use \`/dev/null\` as the old path to create a file and as the new path to delete one.
+Context lines (starting with a space) and removed lines (starting with \`-\`) MUST match the current content exactly, including whitespace. Hunks may be found a few lines away from their stated position, but not with different content.
+The patch is applied all at once: if any hunk does not match, no file is changed.`,
+      {
+        properties: {
+          patch: {
+            description:
+              'The unified diff to apply, with `---`/`+++` file headers and `@@` hunk headers for every file.',
+            type: Type.STRING,
+          },
+        },
+        required: ['patch'],
+        type: Type.OBJECT,
+      },
+    );
+  }
+
+  /**
+   * Validates the parameters for the ApplyPatch tool
+   * @param params Parameters to validate
+   * @returns Error message string or null if valid
+   */
+  validateToolParams(params: ApplyPatchToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+
+    let diffs: Diff.ParsedDiff[];
+    try {
+      diffs = this.parsePatch(params.patch);
+    } catch (error) {
+      return `Invalid patch: ${getErrorMessage(error)}`;
+    }
+    if (diffs.length === 0) {
+      return 'The patch contains no hunks. Provide a unified diff with `---`/`+++` file headers and `@@` hunk headers.';
+    }
+
+    for (const diff of diffs) {
+      for (const name of [diff.oldFileName, diff.newFileName]) {
+        if (!name) {
+          return 'Every file in the patch needs `---` and `+++` headers.';
+        }
+        if (name === DEV_NULL) {
+          continue;
+        }
+        const filePath = this.resolvePatchPath(name);
+        if (!isWithinRoot(filePath, this.config.getTargetDir())) {
+          return `File path must be within the root directory (${this.config.getTargetDir()}): ${name}`;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private parsePatch(patch: string): Diff.ParsedDiff[] {
+    // Headers without hunks, such as a commit message, change nothing
+    return Diff.parsePatch(patch).filter((diff) => diff.hunks.length > 0);
+  }
+
+  /**
+   * Resolves a path from a patch header against the project root. git's
+   * `a/` and `b/` prefixes are dropped unless the prefixed path exists.
+   */
+  private resolvePatchPath(name: string): string {
+    const targetDir = this.config.getTargetDir();
+    const filePath = path.resolve(targetDir, name);
+    if (/^[ab]\//.test(name) && !fs.existsSync(filePath)) {
+      return path.resolve(targetDir, name.slice(2));
+    }
+    return filePath;
+  }
+
+  private relativePath(filePath: string): string {
+    return makeRelative(filePath, this.config.getTargetDir());
+  }
+
+  /**
+   * Applies the patch in memory.
+   * @param params Parameters for the patch operation
+   * @returns The files the patch changes, or the reason it does not apply
+   * @throws File system errors if reading a file fails unexpectedly (e.g., permissions)
+   */
+  private calculatePatch(params: ApplyPatchToolParams): CalculatedPatch {
+    const files = new Map<string, PatchedFile>();
+    const getFile = (filePath: string): PatchedFile => {
+      let file = files.get(filePath);
+      if (!file) {
+        let content: string | null = null;
+        try {
+          content = fs.readFileSync(filePath, 'utf8');
+        } catch (err: unknown) {
+          if (!isNodeError(err) || err.code !== 'ENOENT') {
+            throw err;
+          }
+        }
+        file = { filePath, originalContent: content, newContent: content };
+        files.set(filePath, file);
+      }
+      return file;
+    };
+    const fail = (display: string, raw: string): CalculatedPatch => ({
+      files: [],
+      error: {
+        display: `Failed to apply patch, ${display}`,
+        raw: `Failed to apply patch, ${raw} No files were changed.`,
+      },
+    });
+
+    for (const diff of this.parsePatch(params.patch)) {
+      const isNewFile = diff.oldFileName === DEV_NULL;
+      const isDeleted = diff.newFileName === DEV_NULL;
+      const source = getFile(
+        this.resolvePatchPath(
+          (isNewFile ? diff.newFileName : diff.oldFileName) ?? '',
+        ),
+      );
+      const target =
+        isNewFile || isDeleted
+          ? source
+          : getFile(this.resolvePatchPath(diff.newFileName ?? ''));
+      const relativePath = this.relativePath(source.filePath);
+
+      if (isNewFile && source.newContent !== null) {
+        return fail(
+          `${relativePath} already exists.`,
+          `the patch creates ${relativePath}, which already exists.`,
+        );
+      }
+      if (!isNewFile && source.newContent === null) {
+        return fail(
+          `${relativePath} not found.`,
+          `file not found: ${relativePath}. Use ${DEV_NULL} as the old path to create a file.`,
+        );
+      }
+      if (target !== source && target.newContent !== null) {
+        const targetPath = this.relativePath(target.filePath);
+        return fail(
+          `${targetPath} already exists.`,
+          `the patch renames ${relativePath} to ${targetPath}, which already exists.`,
+        );
+      }
+
+      const content = source.newContent ?? '';
+      const patched = Diff.applyPatch(content, diff);
+      if (patched === false) {
+        // Tell the model which hunk to fix
+        const hunk =
+          diff.hunks.find(
+            (h) => Diff.applyPatch(content, { ...diff, hunks: [h] }) === false,
+          ) ?? diff.hunks[0];
+        const header = `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+        return fail(
+          `hunk ${header} does not match ${relativePath}.`,
+          `hunk ${header} does not match the content of ${relativePath}. Its context and removed lines must match the file exactly, including whitespace. Use ${ReadFileTool.Name} tool to verify.`,
+        );
+      }
+
+      source.newContent = null;
+      target.newContent = isDeleted ? null : patched;
+    }
+
+    return {
+      files: [...files.values()].filter(
+        (file) => file.newContent !== file.originalContent,
+      ),
+    };
+  }
+
+  private createFileDiff(files: PatchedFile[]): string {
+    return files
+      .map((file) =>
+        Diff.createPatch(
+          this.relativePath(file.filePath),
+          file.originalContent ?? '',
+          file.newContent ?? '',
+          'Current',
+          'Proposed',
+          DEFAULT_DIFF_OPTIONS,
+        ),
+      )
+      .join('');
+  }
+
+  private describeFiles(files: PatchedFile[]): string {
+    return files.length === 1
+      ? shortenPath(this.relativePath(files[0].filePath))
+      : `${files.length} files`;
+  }
+
+  /**
+   * Handles the confirmation prompt for the ApplyPatch tool in the CLI,
+   * with the changes to every file in one diff.
+   */
+  async shouldConfirmExecute(
+    params: ApplyPatchToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.config.getApprovalMode() === ApprovalMode.AUTO_EDIT) {
+      return false;
+    }
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      console.error(
+        `[ApplyPatchTool Wrapper] Attempted confirmation with invalid parameters: ${validationError}`,
+      );
+      return false;
+    }
+
+    let patchData: CalculatedPatch;
+    try {
+      patchData = this.calculatePatch(params);
+    } catch (error) {
+      console.log(`Error preparing patch: ${getErrorMessage(error)}`);
+      return false;
+    }
+
+    if (patchData.error) {
+      console.log(`Error: ${patchData.error.display}`);
+      return false;
+    }
+
+    const confirmationDetails: ToolEditConfirmationDetails = {
+      type: 'edit',
+      title: `Confirm Patch: ${this.describeFiles(patchData.files)}`,
+      fileName: this.describeFiles(patchData.files),
+      fileDiff: this.createFileDiff(patchData.files),
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.config.setApprovalMode(ApprovalMode.AUTO_EDIT);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  getDescription(params: ApplyPatchToolParams): string {
+    let diffs: Diff.ParsedDiff[] = [];
+    try {
+      diffs = params.patch ? this.parsePatch(params.patch) : [];
+    } catch {
+      // Reported by validateToolParams
+    }
+    const names = new Set(
+      diffs.map((diff) =>
+        shortenPath(
+          this.relativePath(
+            this.resolvePatchPath(
+              (diff.newFileName === DEV_NULL
+                ? diff.oldFileName
+                : diff.newFileName) ?? '',
+            ),
+          ),
+        ),
+      ),
+    );
+    if (names.size === 0) {
+      return `Model did not provide a valid patch`;
+    }
+    return `Patch ${[...names].join(', ')}`;
+  }
+
+  /**
+   * Applies the patch. Files are only written once every hunk matched, and
+   * the ones already written are restored if writing another one fails.
+   * @param params Parameters for the patch operation
+   * @returns Result of the patch operation
+   */
+  async execute(
+    params: ApplyPatchToolParams,
+    _signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: `Error: ${validationError}`,
+      };
+    }
+
+    let patchData: CalculatedPatch;
+    try {
+      patchData = this.calculatePatch(params);
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      return {
+        llmContent: `Error preparing patch: ${errorMsg}`,
+        returnDisplay: `Error preparing patch: ${errorMsg}`,
+      };
+    }
+
+    if (patchData.error) {
+      return {
+        llmContent: patchData.error.raw,
+        returnDisplay: `Error: ${patchData.error.display}`,
+      };
+    }
+
+    const written: PatchedFile[] = [];
+    try {
+      for (const file of patchData.files) {
+        // Recorded first so that a partly written file is restored too
+        written.push(file);
+        this.writeContent(file.filePath, file.newContent);
+      }
+    } catch (error) {
+      const errorMsg = getErrorMessage(error);
+      const unrestored = this.rollBack(written);
+      const rollbackMessage =
+        unrestored.length === 0
+          ? 'All files were restored.'
+          : `These files could not be restored: ${unrestored.join(', ')}.`;
+      return {
+        llmContent: `Error applying patch: ${errorMsg}. ${rollbackMessage}`,
+        returnDisplay: `Error writing files: ${errorMsg}. ${rollbackMessage}`,
+      };
+    }
+
+    const changes = patchData.files.map((file) => {
+      const change =
+        file.originalContent === null
+          ? 'created'
+          : file.newContent === null
+            ? 'deleted'
+            : 'modified';
+      return `${file.filePath} (${change})`;
+    });
+    return {
+      llmContent: `Successfully applied patch to ${changes.length} file(s): ${changes.join(', ')}.`,
+      returnDisplay: {
+        fileDiff: this.createFileDiff(patchData.files),
+        fileName: this.describeFiles(patchData.files),
+      },
+    };
+  }
+
+  private writeContent(filePath: string, content: string | null): void {
+    if (content === null) {
+      fs.rmSync(filePath, { force: true });
+      return;
+    }
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content, 'utf8');
+  }
+
+  /**
+   * Restores files to their content before the patch.
+   * @returns Relative paths of the files that could not be restored
+   */
+  private rollBack(files: PatchedFile[]): string[] {
+    const unrestored: string[] = [];
+    for (const file of [...files].reverse()) {
+      try {
+        this.writeContent(file.filePath, file.originalContent);
+      } catch {
+        unrestored.push(this.relativePath(file.filePath));
+      }
+    }
+    return unrestored;
+  }
+}
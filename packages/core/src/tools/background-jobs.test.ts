@@ -0,0 +1,129 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import os from 'os';
+import {
+  KillBackgroundJobTool,
+  ReadBackgroundJobOutputTool,
+  StartBackgroundJobTool,
+  WaitForBackgroundJobOutputTool,
+} from './background-jobs.js';
+import { BackgroundJobService } from '../services/backgroundJobService.js';
+import { Config } from '../config/config.js';
+import { ToolExecuteConfirmationDetails } from './tools.js';
+
+describe.skipIf(os.platform() === 'win32')('background job tools', () => {
+  let service: BackgroundJobService;
+  let excludeTools: string[];
+  let config: Config;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    service = new BackgroundJobService();
+    excludeTools = [];
+    config = {
+      getTargetDir: () => os.tmpdir(),
+      getCoreTools: () => undefined,
+      getExcludeTools: () => excludeTools,
+      getShellPolicy: () => undefined,
+      getBackgroundJobService: () => service,
+    } as unknown as Config;
+  });
+
+  afterEach(() => {
+    service.killAll();
+  });
+
+  describe('StartBackgroundJobTool', () => {
+    it('should reject invalid names and disallowed commands', () => {
+      const tool = new StartBackgroundJobTool(config);
+
+      expect(
+        tool.validateToolParams({ name: 'dev server', command: 'npm start' }),
+      ).toBe('Job name may only contain letters, digits, "_", "-" and ".".');
+
+      excludeTools = ['run_shell_command(rm)'];
+      expect(
+        tool.validateToolParams({ name: 'clean', command: 'rm -rf build' }),
+      ).toBe("Command 'rm -rf build' is blocked by configuration");
+    });
+
+    it('should ask to confirm the command', async () => {
+      const tool = new StartBackgroundJobTool(config);
+
+      const details = (await tool.shouldConfirmExecute(
+        { name: 'dev', command: 'npm run dev' },
+        signal,
+      )) as ToolExecuteConfirmationDetails;
+
+      expect(details).toMatchObject({
+        type: 'exec',
+        title: 'Confirm Background Job: dev',
+        command: 'npm run dev',
+        rootCommand: 'npm',
+      });
+    });
+
+    it('should refuse a name that is already running', async () => {
+      const tool = new StartBackgroundJobTool(config);
+      await tool.execute({ name: 'dev', command: 'sleep 30' }, signal);
+
+      const result = await tool.execute(
+        { name: 'dev', command: 'sleep 30' },
+        signal,
+      );
+
+      expect(result.returnDisplay).toBe(
+        'A background job named "dev" is already running. Kill it first or choose another name.',
+      );
+    });
+  });
+
+  it('should start, wait for, read and kill a job', async () => {
+    const start = await new StartBackgroundJobTool(config).execute(
+      {
+        name: 'server',
+        command: 'echo booting; echo "Listening on 3000"; sleep 30',
+      },
+      signal,
+    );
+    expect(start.llmContent).toMatch(
+      /^Started background job "server" \(PID \d+\): echo booting/,
+    );
+
+    const wait = await new WaitForBackgroundJobOutputTool(config).execute(
+      { name: 'server', pattern: 'listening on \\d+' },
+      signal,
+    );
+    expect(wait.returnDisplay).toBe('Matched: Listening on 3000');
+
+    const read = await new ReadBackgroundJobOutputTool(config).execute(
+      { name: 'server', lines: 1 },
+      signal,
+    );
+    expect(read.llmContent).toMatch(/Status: running \(PID \d+\)/);
+    expect(read.returnDisplay).toBe('Listening on 3000');
+
+    const kill = await new KillBackgroundJobTool(config).execute(
+      { name: 'server' },
+      signal,
+    );
+    expect(kill.returnDisplay).toBe(
+      'Killed background job "server" (terminated by SIGTERM).',
+    );
+  });
+
+  it('should report unknown jobs and invalid patterns', async () => {
+    const wait = new WaitForBackgroundJobOutputTool(config);
+
+    expect(wait.validateToolParams({ name: 'x', pattern: '(' })).toMatch(
+      /^Invalid regular expression/,
+    );
+    const result = await wait.execute({ name: 'x', pattern: 'ready' }, signal);
+    expect(result.returnDisplay).toBe('There is no background job named "x".');
+  });
+});
@@ -0,0 +1,472 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Type } from '@google/genai';
+import { Config } from '../config/config.js';
+import {
+  BaseTool,
+  ToolCallConfirmationDetails,
+  ToolConfirmationOutcome,
+  ToolExecuteConfirmationDetails,
+  ToolResult,
+} from './tools.js';
+import { ShellTool } from './shell.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { formatJobStatus } from '../services/backgroundJobService.js';
+
+const DEFAULT_OUTPUT_LINES = 50;
+const MAX_OUTPUT_LINES = 1000;
+const DEFAULT_WAIT_TIMEOUT_MS = 30_000;
+const MAX_WAIT_TIMEOUT_MS = 10 * 60 * 1000;
+
+const JOB_NAME_PATTERN = /^[\w.-]+$/;
+
+const nameProperty = {
+  type: Type.STRING,
+  description: 'Name of the background job, as given to start_background_job.',
+};
+
+function validateName(name: string): string | null {
+  return JOB_NAME_PATTERN.test(name)
+    ? null
+    : 'Job name may only contain letters, digits, "_", "-" and ".".';
+}
+
+function errorResult(message: string): ToolResult {
+  return { llmContent: `Error: ${message}`, returnDisplay: message };
+}
+
+export interface StartBackgroundJobToolParams {
+  name: string;
+  command: string;
+  description?: string;
+  directory?: string;
+}
+
+/**
+ * Starts a long-running command, such as a dev server or a watcher, as a
+ * named background job whose output can be read later.
+ */
+export class StartBackgroundJobTool extends BaseTool<
+  StartBackgroundJobToolParams,
+  ToolResult
+> {
+  static readonly Name = 'start_background_job';
+  private readonly shellTool: ShellTool;
+  private whitelist: Set<string> = new Set();
+
+  constructor(private readonly config: Config) {
+    super(
+      StartBackgroundJobTool.Name,
+      'StartJob',
+      `Starts a long-running command, such as a dev server, watcher or database, as a named background job and returns immediately. The command runs as \`bash -c <command>\` in its own process group and keeps running across turns until it exits, it is killed with kill_background_job, or the session ends. Its stdout and stderr are captured: use wait_for_background_job_output to wait until it is ready (e.g. until it prints "listening on") and read_background_job_output to read what it printed. Use this instead of \`&\` in run_shell_command for anything you need to check on or stop later.`,
+      {
+        type: Type.OBJECT,
+        properties: {
+          name: {
+            type: Type.STRING,
+            description:
+              'Short unique name for the job, used to refer to it later, e.g. "dev-server". Letters, digits, "_", "-" and "." only.',
+          },
+          command: {
+            type: Type.STRING,
+            description: 'Exact bash command to run as `bash -c <command>`.',
+          },
+          description: {
+            type: Type.STRING,
+            description:
+              'Brief description of the job for the user. Be specific and concise. No line breaks.',
+          },
+          directory: {
+            type: Type.STRING,
+            description:
+              '(OPTIONAL) Directory to run the command in, if not the project root directory. Must be relative to the project root directory and must already exist.',
+          },
+        },
+        required: ['name', 'command'],
+      },
+      false, // output is not markdown
+    );
+    this.shellTool = new ShellTool(config);
+  }
+
+  getDescription(params: StartBackgroundJobToolParams): string {
+    let description = `${params.name}: ${params.command}`;
+    if (params.directory) {
+      description += ` [in ${params.directory}]`;
+    }
+    if (params.description) {
+      description += ` (${params.description.replace(/\n/g, ' ')})`;
+    }
+    return description;
+  }
+
+  validateToolParams(params: StartBackgroundJobToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    const nameError = validateName(params.name);
+    if (nameError) {
+      return nameError;
+    }
+    // Jobs are shell commands, so the shell tool's restrictions apply
+    const commandCheck = this.shellTool.isCommandAllowed(
+      params.command,
+      params.directory,
+    );
+    if (!commandCheck.allowed) {
+      return commandCheck.reason ?? `Command is not allowed: ${params.command}`;
+    }
+    if (!params.command.trim()) {
+      return 'Command cannot be empty.';
+    }
+    if (!this.shellTool.getCommandRoot(params.command)) {
+      return 'Could not identify command root to obtain permission from user.';
+    }
+    if (params.directory) {
+      if (path.isAbsolute(params.directory)) {
+        return 'Directory cannot be absolute. Must be relative to the project root directory.';
+      }
+      if (
+        !fs.existsSync(
+          path.resolve(this.config.getTargetDir(), params.directory),
+        )
+      ) {
+        return 'Directory must exist.';
+      }
+    }
+    if (
+      this.config.getBackgroundJobService().get(params.name)?.status ===
+      'running'
+    ) {
+      return `A background job named "${params.name}" is already running. Kill it first or choose another name.`;
+    }
+    return null;
+  }
+
+  async shouldConfirmExecute(
+    params: StartBackgroundJobToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolCallConfirmationDetails | false> {
+    if (this.validateToolParams(params)) {
+      return false; // skip confirmation, execute call will fail immediately
+    }
+    const policy = this.shellTool.evaluateCommand(
+      params.command,
+      params.directory,
+    );
+    if (policy.decision === 'allow') {
+      return false;
+    }
+    const rootCommand = this.shellTool.getCommandRoot(params.command)!;
+    if (
+      !policy.reason &&
+      this.shellTool.isWhitelisted(params.command, this.whitelist)
+    ) {
+      return false;
+    }
+    const confirmationDetails: ToolExecuteConfirmationDetails = {
+      type: 'exec',
+      title: `Confirm Background Job: ${params.name}`,
+      command: params.command,
+      rootCommand,
+      reason: policy.reason,
+      onConfirm: async (outcome: ToolConfirmationOutcome) => {
+        if (outcome === ToolConfirmationOutcome.ProceedAlways) {
+          this.whitelist.add(rootCommand);
+        }
+      },
+    };
+    return confirmationDetails;
+  }
+
+  async execute(
+    params: StartBackgroundJobToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    try {
+      const job = this.config
+        .getBackgroundJobService()
+        .start(
+          params.name,
+          params.command,
+          path.resolve(this.config.getTargetDir(), params.directory || ''),
+        );
+      return {
+        llmContent: `Started background job "${job.name}" (PID ${job.pid ?? 'unknown'}): ${job.command}`,
+        returnDisplay: `Started background job "${job.name}" (PID ${job.pid ?? 'unknown'}).`,
+      };
+    } catch (error) {
+      return errorResult(getErrorMessage(error));
+    }
+  }
+}
+
+export interface ReadBackgroundJobOutputToolParams {
+  name: string;
+  lines?: number;
+}
+
+/**
+ * Reads the latest output of a background job.
+ */
+export class ReadBackgroundJobOutputTool extends BaseTool<
+  ReadBackgroundJobOutputToolParams,
+  ToolResult
+> {
+  static readonly Name = 'read_background_job_output';
+
+  constructor(private readonly config: Config) {
+    super(
+      ReadBackgroundJobOutputTool.Name,
+      'ReadJobOutput',
+      'Reads the last lines of the combined stdout and stderr of a background job started with start_background_job, and tells whether it is still running.',
+      {
+        type: Type.OBJECT,
+        properties: {
+          name: nameProperty,
+          lines: {
+            type: Type.NUMBER,
+            description: `(OPTIONAL) Number of lines to read from the end of the output. Defaults to ${DEFAULT_OUTPUT_LINES}, at most ${MAX_OUTPUT_LINES}.`,
+          },
+        },
+        required: ['name'],
+      },
+      false, // output is not markdown
+    );
+  }
+
+  getDescription(params: ReadBackgroundJobOutputToolParams): string {
+    return params.name;
+  }
+
+  validateToolParams(params: ReadBackgroundJobOutputToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    if (
+      params.lines !== undefined &&
+      (!Number.isInteger(params.lines) ||
+        params.lines < 1 ||
+        params.lines > MAX_OUTPUT_LINES)
+    ) {
+      return `lines must be a whole number from 1 to ${MAX_OUTPUT_LINES}.`;
+    }
+    return validateName(params.name);
+  }
+
+  async execute(
+    params: ReadBackgroundJobOutputToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    const service = this.config.getBackgroundJobService();
+    const job = service.get(params.name);
+    const output = service.tail(
+      params.name,
+      params.lines ?? DEFAULT_OUTPUT_LINES,
+    );
+    if (!job || output === undefined) {
+      return errorResult(`There is no background job named "${params.name}".`);
+    }
+    return {
+      llmContent: [
+        `Job: ${job.name}`,
+        `Command: ${job.command}`,
+        `Status: ${formatJobStatus(job)}`,
+        `Output: ${output || '(empty)'}`,
+      ].join('\n'),
+      returnDisplay: output || `Job "${job.name}" has not printed anything.`,
+    };
+  }
+}
+
+export interface WaitForBackgroundJobOutputToolParams {
+  name: string;
+  pattern: string;
+  timeout_ms?: number;
+}
+
+/**
+ * Waits until a background job prints a line matching a regular expression,
+ * for example until a server reports that it is listening.
+ */
+export class WaitForBackgroundJobOutputTool extends BaseTool<
+  WaitForBackgroundJobOutputToolParams,
+  ToolResult
+> {
+  static readonly Name = 'wait_for_background_job_output';
+
+  constructor(private readonly config: Config) {
+    super(
+      WaitForBackgroundJobOutputTool.Name,
+      'WaitForJobOutput',
+      'Waits until the output of a background job matches a regular expression, e.g. "listening on|ready in" for a dev server. Output the job already printed is checked too. Returns as soon as it matches, when the job exits, or when the timeout passes.',
+      {
+        type: Type.OBJECT,
+        properties: {
+          name: nameProperty,
+          pattern: {
+            type: Type.STRING,
+            description:
+              'JavaScript regular expression to look for in the output. Matching is case-insensitive.',
+          },
+          timeout_ms: {
+            type: Type.NUMBER,
+            description: `(OPTIONAL) Milliseconds to wait before giving up. Defaults to ${DEFAULT_WAIT_TIMEOUT_MS}, at most ${MAX_WAIT_TIMEOUT_MS}.`,
+          },
+        },
+        required: ['name', 'pattern'],
+      },
+      false, // output is not markdown
+    );
+  }
+
+  getDescription(params: WaitForBackgroundJobOutputToolParams): string {
+    return `${params.name} until /${params.pattern}/`;
+  }
+
+  validateToolParams(
+    params: WaitForBackgroundJobOutputToolParams,
+  ): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    try {
+      new RegExp(params.pattern);
+    } catch (error) {
+      return `Invalid regular expression: ${getErrorMessage(error)}`;
+    }
+    if (
+      params.timeout_ms !== undefined &&
+      (params.timeout_ms <= 0 || params.timeout_ms > MAX_WAIT_TIMEOUT_MS)
+    ) {
+      return `timeout_ms must be greater than 0 and at most ${MAX_WAIT_TIMEOUT_MS}.`;
+    }
+    return validateName(params.name);
+  }
+
+  async execute(
+    params: WaitForBackgroundJobOutputToolParams,
+    abortSignal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    const service = this.config.getBackgroundJobService();
+    const timeoutMs = params.timeout_ms ?? DEFAULT_WAIT_TIMEOUT_MS;
+    let result;
+    try {
+      result = await service.waitForOutput(
+        params.name,
+        new RegExp(params.pattern, 'i'),
+        timeoutMs,
+        abortSignal,
+      );
+    } catch (error) {
+      return errorResult(getErrorMessage(error));
+    }
+
+    const { job, match } = result;
+    let outcome: string;
+    if (match !== undefined) {
+      outcome = `Matched: ${match}`;
+    } else if (result.reason === 'exited') {
+      outcome = `The job stopped without printing a match (${formatJobStatus(job)}).`;
+    } else if (result.reason === 'aborted') {
+      outcome = 'Waiting was cancelled by the user.';
+    } else {
+      outcome = `No match after ${timeoutMs}ms.`;
+    }
+    const output = service.tail(params.name, DEFAULT_OUTPUT_LINES) ?? '';
+    return {
+      llmContent: [
+        `Job: ${job.name}`,
+        `Status: ${formatJobStatus(job)}`,
+        outcome,
+        `Latest output: ${output || '(empty)'}`,
+      ].join('\n'),
+      returnDisplay: outcome,
+    };
+  }
+}
+
+export interface KillBackgroundJobToolParams {
+  name: string;
+}
+
+/**
+ * Stops a background job together with the processes it started.
+ */
+export class KillBackgroundJobTool extends BaseTool<
+  KillBackgroundJobToolParams,
+  ToolResult
+> {
+  static readonly Name = 'kill_background_job';
+
+  constructor(private readonly config: Config) {
+    super(
+      KillBackgroundJobTool.Name,
+      'KillJob',
+      'Stops a background job started with start_background_job, together with every process it started. The job is sent SIGTERM, and SIGKILL if it is still running two seconds later.',
+      {
+        type: Type.OBJECT,
+        properties: {
+          name: nameProperty,
+        },
+        required: ['name'],
+      },
+      false, // output is not markdown
+    );
+  }
+
+  getDescription(params: KillBackgroundJobToolParams): string {
+    return params.name;
+  }
+
+  validateToolParams(params: KillBackgroundJobToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    return validateName(params.name);
+  }
+
+  async execute(
+    params: KillBackgroundJobToolParams,
+    _abortSignal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return errorResult(validationError);
+    }
+    const service = this.config.getBackgroundJobService();
+    const wasRunning = service.get(params.name)?.status === 'running';
+    try {
+      const job = await service.kill(params.name);
+      const message = wasRunning
+        ? `Killed background job "${job.name}" (${formatJobStatus(job)}).`
+        : `Background job "${job.name}" was not running (${formatJobStatus(job)}).`;
+      return { llmContent: message, returnDisplay: message };
+    } catch (error) {
+      return errorResult(getErrorMessage(error));
+    }
+  }
+}
@@ -26,7 +26,7 @@ vi.mock('../utils/editor.js', () => ({
 
 import { describe, it, expect, beforeEach, afterEach, vi, Mock } from 'vitest';
 import { EditTool, EditToolParams } from './edit.js';
-import { FileDiff } from './tools.js';
+import { FileDiff, ToolEditConfirmationDetails } from './tools.js';
 import path from 'path';
 import fs from 'fs';
 import os from 'os';
@@ -610,6 +610,124 @@ describe('EditTool', () => {
     });
   });
 
+  describe('edits', () => {
+    const testFile = 'multi_edit.txt';
+    let filePath: string;
+
+    beforeEach(() => {
+      filePath = path.join(rootDir, testFile);
+      fs.writeFileSync(filePath, 'const a = 1;\nconst b = 2;\n', 'utf8');
+    });
+
+    it('should reject edits combined with old_string or without replacements', () => {
+      expect(
+        tool.validateToolParams({
+          file_path: filePath,
+          old_string: 'a',
+          new_string: 'b',
+          edits: [{ old_string: 'a', new_string: 'b' }],
+        }),
+      ).toMatch(/not both/);
+      expect(
+        tool.validateToolParams({ file_path: filePath, edits: [] }),
+      ).toMatch(/at least one replacement/);
+      expect(
+        tool.validateToolParams({
+          file_path: filePath,
+          edits: [{ old_string: '', new_string: 'b' }],
+        }),
+      ).toMatch(/must not be empty/);
+      expect(tool.validateToolParams({ file_path: filePath })).toMatch(
+        /Provide old_string and new_string, or edits/,
+      );
+    });
+
+    it('should apply every edit in order and write the file once', async () => {
+      const params: EditToolParams = {
+        file_path: filePath,
+        edits: [
+          { old_string: 'const a = 1;', new_string: 'const a = 10;' },
+          { old_string: 'const b = 2;', new_string: 'const b = a * 2;' },
+          { old_string: 'a = 10', new_string: 'alpha = 10' },
+        ],
+      };
+
+      const result = await tool.execute(params, new AbortController().signal);
+
+      expect(result.llmContent).toBe(
+        `Successfully modified file: ${filePath} (3 edits, 3 replacements).`,
+      );
+      expect(fs.readFileSync(filePath, 'utf8')).toBe(
+        'const alpha = 10;\nconst b = a * 2;\n',
+      );
+      expect((result.returnDisplay as FileDiff).fileName).toBe(testFile);
+    });
+
+    it('should leave the file untouched if any edit does not match', async () => {
+      const params: EditToolParams = {
+        file_path: filePath,
+        edits: [
+          { old_string: 'const a = 1;', new_string: 'const a = 10;' },
+          { old_string: 'const c = 3;', new_string: 'const c = 30;' },
+        ],
+      };
+
+      const result = await tool.execute(params, new AbortController().signal);
+
+      expect(result.llmContent).toMatch(
+        /0 occurrences found for old_string in edit 2 of 2/,
+      );
+      expect(result.returnDisplay).toBe(
+        'Error: Failed to edit, could not find the string to replace in edit 2 of 2.',
+      );
+      expect(fs.readFileSync(filePath, 'utf8')).toBe(
+        'const a = 1;\nconst b = 2;\n',
+      );
+    });
+
+    it('should show all edits in one confirmation diff', async () => {
+      const confirmation = (await tool.shouldConfirmExecute(
+        {
+          file_path: filePath,
+          edits: [
+            { old_string: '1', new_string: 'one' },
+            { old_string: '2', new_string: 'two' },
+          ],
+        },
+        new AbortController().signal,
+      )) as ToolEditConfirmationDetails;
+
+      expect(confirmation.fileDiff).toContain('+const a = one;');
+      expect(confirmation.fileDiff).toContain('+const b = two;');
+      expect(tool.getDescription({ file_path: filePath, edits: [] })).toBe(
+        'Model did not provide valid parameters for edit tool',
+      );
+    });
+
+    it('should propose every edit when modifying with an editor', async () => {
+      const modifyContext = tool.getModifyContext(new AbortController().signal);
+      const params: EditToolParams = {
+        file_path: filePath,
+        edits: [
+          { old_string: '1', new_string: 'one' },
+          { old_string: '2', new_string: 'two' },
+        ],
+      };
+
+      await expect(modifyContext.getProposedContent(params)).resolves.toBe(
+        'const a = one;\nconst b = two;\n',
+      );
+      expect(
+        modifyContext.createUpdatedParams('old', 'new', params),
+      ).toMatchObject({
+        old_string: 'old',
+        new_string: 'new',
+        edits: undefined,
+        modified_by_user: true,
+      });
+    });
+  });
+
   describe('getDescription', () => {
     it('should return "No file changes to..." if old_string and new_string are the same', () => {
       const testFileName = 'test.txt';
@@ -26,6 +26,26 @@ import { ReadFileTool } from './read-file.js';
 import { ModifiableTool, ModifyContext } from './modifiable-tool.js';
 import { isWithinRoot } from '../utils/fileUtils.js';
 
+/**
+ * One replacement in the `edits` of an Edit tool call
+ */
+export interface EditReplacement {
+  /**
+   * The text to replace
+   */
+  old_string: string;
+
+  /**
+   * The text to replace it with
+   */
+  new_string: string;
+
+  /**
+   * Number of replacements expected. Defaults to 1 if not specified.
+   */
+  expected_replacements?: number;
+}
+
 /**
  * Parameters for the Edit tool
  */
@@ -36,14 +56,14 @@ export interface EditToolParams {
   file_path: string;
 
   /**
-   * The text to replace
+   * The text to replace. Required unless `edits` is given.
    */
-  old_string: string;
+  old_string?: string;
 
   /**
-   * The text to replace it with
+   * The text to replace it with. Required unless `edits` is given.
    */
-  new_string: string;
+  new_string?: string;
 
   /**
    * Number of replacements expected. Defaults to 1 if not specified.
@@ -51,6 +71,12 @@ export interface EditToolParams {
    */
   expected_replacements?: number;
 
+  /**
+   * Replacements applied in order, each to the result of the ones before
+   * it. The file is only written if all of them match.
+   */
+  edits?: EditReplacement[];
+
   /**
    * Whether the edit was modified manually by the user.
    */
@@ -88,7 +114,8 @@ Expectation for required parameters:
 3. \`new_string\` MUST be the exact literal text to replace \`old_string\` with (also including all whitespace, indentation, newlines, and surrounding code etc.). Ensure the resulting code is correct and idiomatic.
 4. NEVER escape \`old_string\` or \`new_string\`, that would break the exact literal text requirement.
 **Important:** If ANY of the above are not satisfied, the tool will fail. CRITICAL for \`old_string\`: Must uniquely identify the single instance to change. Include at least 3 lines of context BEFORE and AFTER the target text, matching whitespace and indentation precisely. If this string matches multiple locations, or does not match exactly, the tool will fail.
-**Multiple replacements:** Set \`expected_replacements\` to the number of occurrences you want to replace. The tool will replace ALL occurrences that match \`old_string\` exactly. Ensure the number of replacements matches your expectation.`,
+**Multiple replacements:** Set \`expected_replacements\` to the number of occurrences you want to replace. The tool will replace ALL occurrences that match \`old_string\` exactly. Ensure the number of replacements matches your expectation.
+**Multiple edits:** To make several changes to one file in a single call, pass \`edits\`, a list of \`old_string\`/\`new_string\`/\`expected_replacements\` objects, instead of \`old_string\` and \`new_string\`. They are applied in order, each to the result of the ones before it, and the file is only changed if every one of them matches.`,
       {
         properties: {
           file_path: {
@@ -112,8 +139,35 @@ Expectation for required parameters:
               'Number of replacements expected. Defaults to 1 if not specified. Use when you want to replace multiple occurrences.',
             minimum: 1,
           },
+          edits: {
+            description:
+              'Several replacements in the same file, used instead of old_string and new_string. Applied in order, each to the result of the ones before it; if any of them does not match, none are applied.',
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                old_string: {
+                  description:
+                    'The exact literal text to replace, with enough context to identify it.',
+                  type: Type.STRING,
+                },
+                new_string: {
+                  description:
+                    'The exact literal text to replace `old_string` with.',
+                  type: Type.STRING,
+                },
+                expected_replacements: {
+                  type: Type.NUMBER,
+                  description:
+                    'Number of replacements expected. Defaults to 1 if not specified.',
+                  minimum: 1,
+                },
+              },
+              required: ['old_string', 'new_string'],
+            },
+          },
         },
-        required: ['file_path', 'old_string', 'new_string'],
+        required: ['file_path'],
         type: Type.OBJECT,
       },
     );
@@ -138,9 +192,42 @@ Expectation for required parameters:
       return `File path must be within the root directory (${this.config.getTargetDir()}): ${params.file_path}`;
     }
 
+    if (params.edits) {
+      if (params.old_string !== undefined || params.new_string !== undefined) {
+        return 'Provide either old_string and new_string, or edits, but not both.';
+      }
+      if (params.edits.length === 0) {
+        return 'edits must contain at least one replacement.';
+      }
+      if (params.edits.some((edit) => edit.old_string === '')) {
+        return 'old_string must not be empty in edits. To create a file, use old_string and new_string instead.';
+      }
+    } else if (
+      params.old_string === undefined ||
+      params.new_string === undefined
+    ) {
+      return 'Provide old_string and new_string, or edits.';
+    }
+
     return null;
   }
 
+  /**
+   * Returns the replacements of an edit, whether given as `edits` or as a
+   * single `old_string` and `new_string`.
+   */
+  private getReplacements(params: EditToolParams): EditReplacement[] {
+    return (
+      params.edits ?? [
+        {
+          old_string: params.old_string ?? '',
+          new_string: params.new_string ?? '',
+          expected_replacements: params.expected_replacements,
+        },
+      ]
+    );
+  }
+
   private _applyReplacement(
     currentContent: string | null,
     oldString: string,
@@ -171,12 +258,11 @@ Expectation for required parameters:
     params: EditToolParams,
     abortSignal: AbortSignal,
   ): Promise<CalculatedEdit> {
-    const expectedReplacements = params.expected_replacements ?? 1;
+    const replacements = this.getReplacements(params);
     let currentContent: string | null = null;
     let fileExists = false;
     let isNewFile = false;
-    let finalNewString = params.new_string;
-    let finalOldString = params.old_string;
+    let newContent = '';
     let occurrences = 0;
     let error: { display: string; raw: string } | undefined = undefined;
 
@@ -196,6 +282,12 @@ Expectation for required parameters:
     if (params.old_string === '' && !fileExists) {
       // Creating a new file
       isNewFile = true;
+      newContent = this._applyReplacement(
+        currentContent,
+        '',
+        params.new_string ?? '',
+        isNewFile,
+      );
     } else if (!fileExists) {
       // Trying to edit a non-existent file (and old_string is not empty)
       error = {
@@ -203,37 +295,37 @@ Expectation for required parameters:
         raw: `File not found: ${params.file_path}`,
       };
     } else if (currentContent !== null) {
-      // Editing an existing file
-      const correctedEdit = await ensureCorrectEdit(
-        params.file_path,
-        currentContent,
-        params,
-        this.config.getGeminiClient(),
-        abortSignal,
-      );
-      finalOldString = correctedEdit.params.old_string;
-      finalNewString = correctedEdit.params.new_string;
-      occurrences = correctedEdit.occurrences;
-
-      if (params.old_string === '') {
-        // Error: Trying to create a file that already exists
-        error = {
-          display: `Failed to edit. Attempted to create a file that already exists.`,
-          raw: `File already exists, cannot create: ${params.file_path}`,
-        };
-      } else if (occurrences === 0) {
-        error = {
-          display: `Failed to edit, could not find the string to replace.`,
-          raw: `Failed to edit, 0 occurrences found for old_string in ${params.file_path}. No edits made. The exact text in old_string was not found. Ensure you're not escaping content incorrectly and check whitespace, indentation, and context. Use ${ReadFileTool.Name} tool to verify.`,
-        };
-      } else if (occurrences !== expectedReplacements) {
-        const occurenceTerm =
-          expectedReplacements === 1 ? 'occurrence' : 'occurrences';
-
-        error = {
-          display: `Failed to edit, expected ${expectedReplacements} ${occurenceTerm} but found ${occurrences}.`,
-          raw: `Failed to edit, Expected ${expectedReplacements} ${occurenceTerm} but found ${occurrences} for old_string in file: ${params.file_path}`,
-        };
+      // Editing an existing file, one replacement after another. The edits
+      // are only written if all of them match.
+      newContent = currentContent;
+      for (const [index, replacement] of replacements.entries()) {
+        // validateToolParams made sure a single edit has both strings
+        const editParams = params.edits
+          ? { ...replacement, file_path: params.file_path }
+          : (params as EditReplacement & { file_path: string });
+        const correctedEdit = await ensureCorrectEdit(
+          params.file_path,
+          newContent,
+          editParams,
+          this.config.getGeminiClient(),
+          abortSignal,
+        );
+        error = this.checkOccurrences(
+          params,
+          replacement,
+          correctedEdit.occurrences,
+          replacements.length > 1 ? index + 1 : undefined,
+        );
+        if (error) {
+          break;
+        }
+        occurrences += correctedEdit.occurrences;
+        newContent = this._applyReplacement(
+          newContent,
+          correctedEdit.params.old_string,
+          correctedEdit.params.new_string,
+          isNewFile,
+        );
       }
     } else {
       // Should not happen if fileExists and no exception was thrown, but defensively:
@@ -243,13 +335,6 @@ Expectation for required parameters:
       };
     }
 
-    const newContent = this._applyReplacement(
-      currentContent,
-      finalOldString,
-      finalNewString,
-      isNewFile,
-    );
-
     return {
       currentContent,
       newContent,
@@ -259,6 +344,47 @@ Expectation for required parameters:
     };
   }
 
+  /**
+   * Checks that a replacement matched as often as expected.
+   * @param editNumber Position of the replacement in `edits`, if there are several
+   * @returns The error to report, or undefined if the replacement matched
+   */
+  private checkOccurrences(
+    params: EditToolParams,
+    replacement: EditReplacement,
+    occurrences: number,
+    editNumber?: number,
+  ): { display: string; raw: string } | undefined {
+    const expectedReplacements = replacement.expected_replacements ?? 1;
+    const inEdit = editNumber
+      ? ` in edit ${editNumber} of ${params.edits?.length}`
+      : '';
+
+    if (replacement.old_string === '') {
+      // Error: Trying to create a file that already exists
+      return {
+        display: `Failed to edit. Attempted to create a file that already exists.`,
+        raw: `File already exists, cannot create: ${params.file_path}`,
+      };
+    }
+    if (occurrences === 0) {
+      return {
+        display: `Failed to edit, could not find the string to replace${inEdit}.`,
+        raw: `Failed to edit, 0 occurrences found for old_string${inEdit} in ${params.file_path}. No edits made. The exact text in old_string was not found. Ensure you're not escaping content incorrectly and check whitespace, indentation, and context. Use ${ReadFileTool.Name} tool to verify.`,
+      };
+    }
+    if (occurrences !== expectedReplacements) {
+      const occurenceTerm =
+        expectedReplacements === 1 ? 'occurrence' : 'occurrences';
+
+      return {
+        display: `Failed to edit, expected ${expectedReplacements} ${occurenceTerm} but found ${occurrences}${inEdit}.`,
+        raw: `Failed to edit, Expected ${expectedReplacements} ${occurenceTerm} but found ${occurrences} for old_string${inEdit} in file: ${params.file_path}${editNumber ? '. No edits made.' : ''}`,
+      };
+    }
+    return undefined;
+  }
+
   /**
    * Handles the confirmation prompt for the Edit tool in the CLI.
    * It needs to calculate the diff to show the user.
@@ -316,6 +442,13 @@ Expectation for required parameters:
   }
 
   getDescription(params: EditToolParams): string {
+    if (params.file_path && params.edits?.length) {
+      const relativePath = makeRelative(
+        params.file_path,
+        this.config.getTargetDir(),
+      );
+      return `${shortenPath(relativePath)}: ${params.edits.length} edits`;
+    }
     if (!params.file_path || !params.old_string || !params.new_string) {
       return `Model did not provide valid parameters for edit tool`;
     }
@@ -400,7 +533,9 @@ Expectation for required parameters:
       const llmSuccessMessageParts = [
         editData.isNewFile
           ? `Created new file: ${params.file_path} with provided content.`
-          : `Successfully modified file: ${params.file_path} (${editData.occurrences} replacements).`,
+          : params.edits
+            ? `Successfully modified file: ${params.file_path} (${params.edits.length} edits, ${editData.occurrences} replacements).`
+            : `Successfully modified file: ${params.file_path} (${editData.occurrences} replacements).`,
       ];
       if (params.modified_by_user) {
         llmSuccessMessageParts.push(
@@ -445,11 +580,15 @@ Expectation for required parameters:
       getProposedContent: async (params: EditToolParams): Promise<string> => {
         try {
           const currentContent = fs.readFileSync(params.file_path, 'utf8');
-          return this._applyReplacement(
+          return this.getReplacements(params).reduce(
+            (content, replacement) =>
+              this._applyReplacement(
+                content,
+                replacement.old_string,
+                replacement.new_string,
+                replacement.old_string === '' && content === '',
+              ),
             currentContent,
-            params.old_string,
-            params.new_string,
-            params.old_string === '' && currentContent === '',
           );
         } catch (err) {
           if (!isNodeError(err) || err.code !== 'ENOENT') throw err;
@@ -464,6 +603,7 @@ Expectation for required parameters:
         ...originalParams,
         old_string: oldContent,
         new_string: modifiedProposedContent,
+        edits: undefined,
         modified_by_user: true,
       }),
     };
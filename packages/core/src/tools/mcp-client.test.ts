@@ -12,7 +12,20 @@ import {
   generateValidName,
   isEnabled,
   discoverTools,
+  discoverResources,
+  discoverPrompts,
+  connectAndDiscover,
+  getMCPServerStatus,
+  MCPServerStatus,
+  MCP_MAX_RECONNECT_ATTEMPTS,
+  MCP_RECONNECT_MAX_DELAY_MSEC,
+  MCP_RECONNECT_STABLE_MSEC,
 } from './mcp-client.js';
+import { MCPRegistry } from './mcp-registry.js';
+import { WebSocketClientTransport } from './mcp-websocket-transport.js';
+import { ToolRegistry } from './tool-registry.js';
+import { Config } from '../config/config.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
 import { SSEClientTransport } from '@modelcontextprotocol/sdk/client/sse.js';
 import * as SdkClientStdioLib from '@modelcontextprotocol/sdk/client/stdio.js';
 import * as ClientLib from '@modelcontextprotocol/sdk/client/index.js';
@@ -47,6 +60,297 @@ describe('mcp-client', () => {
     });
   });
 
+  describe('discoverResources', () => {
+    it('should list resources across pages', async () => {
+      const mockedClient = {
+        getServerCapabilities: () => ({ resources: {} }),
+        listResources: vi
+          .fn()
+          .mockResolvedValueOnce({
+            resources: [{ uri: 'db://schema', name: 'Schema' }],
+            nextCursor: 'page-2',
+          })
+          .mockResolvedValueOnce({
+            resources: [
+              { uri: 'docs://intro', name: 'Intro', mimeType: 'text/plain' },
+            ],
+          }),
+      } as unknown as ClientLib.Client;
+
+      const resources = await discoverResources('test-server', mockedClient);
+
+      expect(resources).toEqual([
+        {
+          serverName: 'test-server',
+          uri: 'db://schema',
+          name: 'Schema',
+          description: undefined,
+          mimeType: undefined,
+        },
+        {
+          serverName: 'test-server',
+          uri: 'docs://intro',
+          name: 'Intro',
+          description: undefined,
+          mimeType: 'text/plain',
+        },
+      ]);
+      expect(mockedClient.listResources).toHaveBeenLastCalledWith({
+        cursor: 'page-2',
+      });
+    });
+
+    it('should not ask servers without the resources capability', async () => {
+      const mockedClient = {
+        getServerCapabilities: () => ({ tools: {} }),
+        listResources: vi.fn(),
+      } as unknown as ClientLib.Client;
+
+      expect(await discoverResources('test-server', mockedClient)).toEqual([]);
+      expect(mockedClient.listResources).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('discoverPrompts', () => {
+    it('should list prompts with their arguments', async () => {
+      const mockedClient = {
+        getServerCapabilities: () => ({ prompts: {} }),
+        listPrompts: vi.fn().mockResolvedValue({
+          prompts: [
+            {
+              name: 'review',
+              description: 'Review a file',
+              arguments: [{ name: 'file', required: true }],
+            },
+            { name: 'standup' },
+          ],
+        }),
+      } as unknown as ClientLib.Client;
+
+      expect(await discoverPrompts('test-server', mockedClient)).toEqual([
+        {
+          serverName: 'test-server',
+          name: 'review',
+          description: 'Review a file',
+          arguments: [{ name: 'file', description: undefined, required: true }],
+        },
+        {
+          serverName: 'test-server',
+          name: 'standup',
+          description: undefined,
+          arguments: [],
+        },
+      ]);
+    });
+
+    it('should keep the server usable when listing prompts fails', async () => {
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      const mockedClient = {
+        getServerCapabilities: () => ({ prompts: {} }),
+        listPrompts: vi.fn().mockRejectedValue(new Error('boom')),
+      } as unknown as ClientLib.Client;
+
+      expect(await discoverPrompts('test-server', mockedClient)).toEqual([]);
+    });
+  });
+
+  describe('connectAndDiscover', () => {
+    let mockedClient: {
+      connect: ReturnType<typeof vi.fn>;
+      close: ReturnType<typeof vi.fn>;
+      getServerCapabilities: () => object;
+      setNotificationHandler: ReturnType<typeof vi.fn>;
+      onclose?: () => void;
+    };
+    let toolRegistry: ToolRegistry;
+    let mcpRegistry: MCPRegistry;
+
+    const mockToolNames = (...names: string[]) =>
+      vi.mocked(GenAiLib.mcpToTool).mockReturnValue({
+        tool: () => ({ functionDeclarations: names.map((name) => ({ name })) }),
+      } as unknown as GenAiLib.CallableTool);
+
+    const toolNames = () =>
+      toolRegistry.getToolsByServer('tracker').map((tool) => tool.name);
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+      mockedClient = {
+        connect: vi.fn().mockResolvedValue(undefined),
+        close: vi.fn().mockResolvedValue(undefined),
+        getServerCapabilities: () => ({ tools: { listChanged: true } }),
+        setNotificationHandler: vi.fn(),
+      };
+      vi.mocked(ClientLib.Client).mockImplementation(
+        () => mockedClient as unknown as ClientLib.Client,
+      );
+      mockToolNames('create_issue');
+      toolRegistry = new ToolRegistry({} as Config);
+      mcpRegistry = new MCPRegistry();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should retry a failed connection with backoff', async () => {
+      mockedClient.connect
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      await connectAndDiscover(
+        'tracker',
+        { command: 'tracker-mcp' },
+        toolRegistry,
+        false,
+        mcpRegistry,
+      );
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.DISCONNECTED);
+
+      await vi.advanceTimersByTimeAsync(1000);
+      expect(mockedClient.connect).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1999);
+      expect(mockedClient.connect).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1);
+
+      expect(mockedClient.connect).toHaveBeenCalledTimes(3);
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.CONNECTED);
+      expect(toolNames()).toEqual(['tracker__create_issue']);
+      expect(mcpRegistry.hasServer('tracker')).toBe(true);
+    });
+
+    it('should drop the tools of a lost server and reconnect', async () => {
+      await connectAndDiscover(
+        'tracker',
+        { command: 'tracker-mcp' },
+        toolRegistry,
+        false,
+        mcpRegistry,
+      );
+
+      mockedClient.onclose!();
+
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.DISCONNECTED);
+      expect(toolNames()).toEqual([]);
+      expect(mcpRegistry.hasServer('tracker')).toBe(false);
+
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.CONNECTED);
+      expect(toolNames()).toEqual(['tracker__create_issue']);
+    });
+
+    it('should keep a server whose tools are all excluded for its prompts', async () => {
+      mockedClient.getServerCapabilities = () => ({ tools: {}, prompts: {} });
+      Object.assign(mockedClient, {
+        listPrompts: vi.fn().mockResolvedValue({
+          prompts: [{ name: 'standup' }],
+        }),
+      });
+
+      await connectAndDiscover(
+        'tracker',
+        { command: 'tracker-mcp', excludeTools: ['create_issue'] },
+        toolRegistry,
+        false,
+        mcpRegistry,
+      );
+
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.CONNECTED);
+      expect(toolNames()).toEqual([]);
+      expect(mcpRegistry.getPrompts().map((prompt) => prompt.name)).toEqual([
+        'standup',
+      ]);
+      expect(mockedClient.close).not.toHaveBeenCalled();
+    });
+
+    it('should fail servers that offer no tools, resources or prompts', async () => {
+      await connectAndDiscover(
+        'tracker',
+        { command: 'tracker-mcp', excludeTools: ['create_issue'] },
+        toolRegistry,
+        false,
+        mcpRegistry,
+      );
+
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.DISCONNECTED);
+      expect(mockedClient.close).toHaveBeenCalled();
+    });
+
+    it('should give up on a server that fails right after connecting', async () => {
+      await connectAndDiscover(
+        'tracker',
+        { command: 'tracker-mcp' },
+        toolRegistry,
+        false,
+        mcpRegistry,
+      );
+
+      for (let i = 0; i <= MCP_MAX_RECONNECT_ATTEMPTS; i++) {
+        mockedClient.onclose!();
+        await vi.advanceTimersByTimeAsync(MCP_RECONNECT_MAX_DELAY_MSEC);
+      }
+
+      expect(mockedClient.connect).toHaveBeenCalledTimes(
+        MCP_MAX_RECONNECT_ATTEMPTS + 1,
+      );
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.DISCONNECTED);
+    });
+
+    it('should count attempts afresh once a connection has held', async () => {
+      await connectAndDiscover(
+        'tracker',
+        { command: 'tracker-mcp' },
+        toolRegistry,
+        false,
+        mcpRegistry,
+        MCP_MAX_RECONNECT_ATTEMPTS,
+      );
+      await vi.advanceTimersByTimeAsync(MCP_RECONNECT_STABLE_MSEC);
+
+      mockedClient.onclose!();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(mockedClient.connect).toHaveBeenCalledTimes(2);
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.CONNECTED);
+    });
+
+    it('should not retry failures that reconnecting cannot fix', async () => {
+      await connectAndDiscover(
+        'tracker',
+        { command: 'tracker-mcp', excludeTools: ['create_issue'] },
+        toolRegistry,
+        false,
+        mcpRegistry,
+      );
+      await connectAndDiscover('tracker', {}, toolRegistry, false, mcpRegistry);
+      await vi.advanceTimersByTimeAsync(MCP_RECONNECT_MAX_DELAY_MSEC);
+
+      expect(mockedClient.connect).toHaveBeenCalledTimes(1);
+      expect(getMCPServerStatus('tracker')).toBe(MCPServerStatus.DISCONNECTED);
+    });
+
+    it('should discover the tools again when the server lists new ones', async () => {
+      await connectAndDiscover(
+        'tracker',
+        { command: 'tracker-mcp' },
+        toolRegistry,
+        false,
+        mcpRegistry,
+      );
+      const onToolsChanged =
+        mockedClient.setNotificationHandler.mock.calls.find(
+          ([schema]) => schema === ToolListChangedNotificationSchema,
+        )![1];
+
+      mockToolNames('close_issue', 'comment');
+      await onToolsChanged();
+
+      expect(toolNames()).toEqual(['tracker__close_issue', 'tracker__comment']);
+    });
+  });
+
   describe('appendMcpServerCommand', () => {
     it('should do nothing if no MCP servers or command are configured', () => {
       const out = populateMcpServerCommand({}, undefined);
@@ -150,6 +454,25 @@ describe('mcp-client', () => {
       });
     });
 
+    it('should connect via tcp', () => {
+      const transport = createTransport(
+        'test-server',
+        {
+          tcp: 'test-server:8080',
+          headers: { Authorization: 'derp' },
+          timeout: 5000,
+        },
+        false,
+      );
+
+      expect(transport).toEqual(
+        new WebSocketClientTransport(new URL('ws://test-server:8080'), {
+          headers: { Authorization: 'derp' },
+          handshakeTimeout: 5000,
+        }),
+      );
+    });
+
     it('should connect via command', () => {
       const mockedTransport = vi.mocked(SdkClientStdioLib.StdioClientTransport);
 
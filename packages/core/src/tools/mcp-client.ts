@@ -15,14 +15,37 @@ import {
   StreamableHTTPClientTransport,
   StreamableHTTPClientTransportOptions,
 } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { WebSocketClientTransport } from './mcp-websocket-transport.js';
+import {
+  CreateMessageRequestSchema,
+  PromptListChangedNotificationSchema,
+  ResourceListChangedNotificationSchema,
+  ToolListChangedNotificationSchema,
+} from '@modelcontextprotocol/sdk/types.js';
 import { parse } from 'shell-quote';
 import { MCPServerConfig } from '../config/config.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 import { FunctionDeclaration, Type, mcpToTool } from '@google/genai';
 import { sanitizeParameters, ToolRegistry } from './tool-registry.js';
+import {
+  DiscoveredMCPPrompt,
+  DiscoveredMCPResource,
+  MCPRegistry,
+} from './mcp-registry.js';
+import type { McpSamplingService } from './mcp-sampling.js';
 
 export const MCP_DEFAULT_TIMEOUT_MSEC = 10 * 60 * 1000; // default to 10 minutes
 
+/** Reconnection attempts wait 1s, 2s, 4s, ... up to 30s between them. */
+export const MCP_RECONNECT_BASE_DELAY_MSEC = 1000;
+export const MCP_RECONNECT_MAX_DELAY_MSEC = 30 * 1000;
+export const MCP_MAX_RECONNECT_ATTEMPTS = 5;
+/** A connection that lasts this long starts the count of attempts afresh. */
+export const MCP_RECONNECT_STABLE_MSEC = 60 * 1000;
+
+/** A failure that connecting again will not fix, e.g. an invalid configuration. */
+class PermanentMcpError extends Error {}
+
 /**
  * Enum representing the connection status of an MCP server
  */
@@ -57,6 +80,11 @@ const mcpServerStatusesInternal: Map<string, MCPServerStatus> = new Map();
  */
 let mcpDiscoveryState: MCPDiscoveryState = MCPDiscoveryState.NOT_STARTED;
 
+/**
+ * Pending reconnections to MCP servers, keyed by server name
+ */
+const reconnectTimers: Map<string, NodeJS.Timeout> = new Map();
+
 /**
  * Event listeners for MCP server status changes
  */
@@ -132,6 +160,7 @@ export function getMCPDiscoveryState(): MCPDiscoveryState {
  * @param mcpServers A record of named MCP server configurations.
  * @param mcpServerCommand An optional command string for a dynamically specified MCP server.
  * @param toolRegistry The central registry where discovered tools will be registered.
+ * @param mcpRegistry Where connected servers and their resources and prompts are registered.
  * @returns A promise that resolves when the discovery process has been attempted for all servers.
  */
 export async function discoverMcpTools(
@@ -139,8 +168,14 @@ export async function discoverMcpTools(
   mcpServerCommand: string | undefined,
   toolRegistry: ToolRegistry,
   debugMode: boolean,
+  mcpRegistry?: MCPRegistry,
 ): Promise<void> {
   mcpDiscoveryState = MCPDiscoveryState.IN_PROGRESS;
+  // Servers are connected afresh, so pending reconnections are obsolete.
+  for (const timer of reconnectTimers.values()) {
+    clearTimeout(timer);
+  }
+  reconnectTimers.clear();
   try {
     mcpServers = populateMcpServerCommand(mcpServers, mcpServerCommand);
 
@@ -151,6 +186,7 @@ export async function discoverMcpTools(
           mcpServerConfig,
           toolRegistry,
           debugMode,
+          mcpRegistry,
         ),
     );
     await Promise.all(discoveryPromises);
@@ -180,13 +216,21 @@ export function populateMcpServerCommand(
 }
 
 /**
- * Connects to an MCP server and discovers available tools, registering them with the tool registry.
- * This function handles the complete lifecycle of connecting to a server, discovering tools,
- * and cleaning up resources if no tools are found.
+ * Connects to an MCP server and discovers available tools, resources and prompts,
+ * registering them with the tool registry and the MCP registry.
+ * This function handles the complete lifecycle of connecting to a server, discovering them,
+ * and cleaning up if the server offers none.
+ *
+ * Servers registered with an MCP registry are kept up to date: their tools,
+ * resources and prompts are discovered again when the server announces a
+ * change, and when the connection fails or is lost, it is retried with
+ * exponential backoff.
  *
  * @param mcpServerName The name identifier for this MCP server
  * @param mcpServerConfig Configuration object containing connection details
  * @param toolRegistry The registry to register discovered tools with
+ * @param mcpRegistry The registry to register the server's resources and prompts with
+ * @param reconnectAttempt The number of this attempt to reconnect, 0 for the first connection
  * @returns Promise that resolves when discovery is complete
  */
 export async function connectAndDiscover(
@@ -194,7 +238,11 @@ export async function connectAndDiscover(
   mcpServerConfig: MCPServerConfig,
   toolRegistry: ToolRegistry,
   debugMode: boolean,
+  mcpRegistry?: MCPRegistry,
+  reconnectAttempt = 0,
 ): Promise<void> {
+  clearTimeout(reconnectTimers.get(mcpServerName));
+  reconnectTimers.delete(mcpServerName);
   updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTING);
 
   try {
@@ -202,6 +250,7 @@ export async function connectAndDiscover(
       mcpServerName,
       mcpServerConfig,
       debugMode,
+      mcpRegistry?.samplingService,
     );
     try {
       updateMCPServerStatus(mcpServerName, MCPServerStatus.CONNECTED);
@@ -211,14 +260,40 @@ export async function connectAndDiscover(
         updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
       };
 
-      const tools = await discoverTools(
-        mcpServerName,
-        mcpServerConfig,
-        mcpClient,
-      );
+      const resources = await discoverResources(mcpServerName, mcpClient);
+      const prompts = await discoverPrompts(mcpServerName, mcpClient);
+      // A server may offer only resources or prompts, so it only needs
+      // enabled tools when it offers neither.
+      const offersOthers = resources.length > 0 || prompts.length > 0;
+      let tools: DiscoveredMCPTool[] = [];
+      if (!offersOthers) {
+        tools = await discoverTools(mcpServerName, mcpServerConfig, mcpClient);
+      } else if (mcpClient.getServerCapabilities()?.tools) {
+        tools = await discoverEnabledTools(
+          mcpServerName,
+          mcpServerConfig,
+          mcpClient,
+        );
+      }
       for (const tool of tools) {
         toolRegistry.registerTool(tool);
       }
+      if (mcpRegistry) {
+        mcpRegistry.registerServer(mcpServerName, mcpClient, {
+          timeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+          resources,
+          prompts,
+        });
+        watchMcpServer(
+          mcpServerName,
+          mcpServerConfig,
+          mcpClient,
+          toolRegistry,
+          debugMode,
+          mcpRegistry,
+          reconnectAttempt,
+        );
+      }
     } catch (error) {
       mcpClient.close();
       throw error;
@@ -226,7 +301,169 @@ export async function connectAndDiscover(
   } catch (error) {
     console.error(`Error connecting to MCP server '${mcpServerName}':`, error);
     updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+    if (mcpRegistry && !(error instanceof PermanentMcpError)) {
+      scheduleReconnect(
+        mcpServerName,
+        mcpServerConfig,
+        toolRegistry,
+        debugMode,
+        mcpRegistry,
+        reconnectAttempt + 1,
+      );
+    }
+  }
+}
+
+/**
+ * Disconnects from an MCP server, dropping its tools, resources and prompts,
+ * and connects to it again. A pending reconnection is replaced.
+ *
+ * @returns Promise that resolves when the server has been discovered again,
+ *          or the new connection has failed
+ */
+export async function restartMcpServer(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  toolRegistry: ToolRegistry,
+  debugMode: boolean,
+  mcpRegistry: MCPRegistry,
+): Promise<void> {
+  await mcpRegistry.removeServer(mcpServerName);
+  toolRegistry.removeMcpToolsByServer(mcpServerName);
+  await connectAndDiscover(
+    mcpServerName,
+    mcpServerConfig,
+    toolRegistry,
+    debugMode,
+    mcpRegistry,
+  );
+}
+
+/**
+ * Follows a connected server: discovers its tools, resources and prompts
+ * again when it announces a change, and drops them and reconnects when the
+ * connection is lost. A client that is no longer the server's current one,
+ * e.g. after a restart, is ignored.
+ *
+ * @param reconnectAttempt The attempt that made this connection, 0 for the
+ *     first one
+ */
+function watchMcpServer(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  mcpClient: Client,
+  toolRegistry: ToolRegistry,
+  debugMode: boolean,
+  mcpRegistry: MCPRegistry,
+  reconnectAttempt: number,
+): void {
+  const isCurrent = () => mcpRegistry.getClient(mcpServerName) === mcpClient;
+  const connectedAt = Date.now();
+
+  mcpClient.onclose = () => {
+    if (!isCurrent()) {
+      return;
+    }
+    console.error(`MCP server '${mcpServerName}' disconnected.`);
+    updateMCPServerStatus(mcpServerName, MCPServerStatus.DISCONNECTED);
+    toolRegistry.removeMcpToolsByServer(mcpServerName);
+    void mcpRegistry.removeServer(mcpServerName);
+    // A server that keeps failing right after connecting uses up its
+    // attempts like one that cannot be reached.
+    const stable = Date.now() - connectedAt >= MCP_RECONNECT_STABLE_MSEC;
+    scheduleReconnect(
+      mcpServerName,
+      mcpServerConfig,
+      toolRegistry,
+      debugMode,
+      mcpRegistry,
+      stable ? 1 : reconnectAttempt + 1,
+    );
+  };
+
+  mcpClient.setNotificationHandler(
+    ToolListChangedNotificationSchema,
+    async () => {
+      let tools: DiscoveredMCPTool[] = [];
+      try {
+        tools = await discoverEnabledTools(
+          mcpServerName,
+          mcpServerConfig,
+          mcpClient,
+        );
+      } catch (error) {
+        console.error(
+          `Error re-discovering tools of MCP server '${mcpServerName}':`,
+          error,
+        );
+      }
+      if (!isCurrent()) {
+        return;
+      }
+      toolRegistry.removeMcpToolsByServer(mcpServerName);
+      for (const tool of tools) {
+        toolRegistry.registerTool(tool);
+      }
+    },
+  );
+
+  const rediscoverResourcesAndPrompts = async () => {
+    const resources = await discoverResources(mcpServerName, mcpClient);
+    const prompts = await discoverPrompts(mcpServerName, mcpClient);
+    if (isCurrent()) {
+      mcpRegistry.registerServer(mcpServerName, mcpClient, {
+        timeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+        resources,
+        prompts,
+      });
+    }
+  };
+  mcpClient.setNotificationHandler(
+    ResourceListChangedNotificationSchema,
+    rediscoverResourcesAndPrompts,
+  );
+  mcpClient.setNotificationHandler(
+    PromptListChangedNotificationSchema,
+    rediscoverResourcesAndPrompts,
+  );
+}
+
+/**
+ * Schedules another attempt to connect to a server, waiting longer after each
+ * failed attempt, until MCP_MAX_RECONNECT_ATTEMPTS have failed.
+ */
+function scheduleReconnect(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  toolRegistry: ToolRegistry,
+  debugMode: boolean,
+  mcpRegistry: MCPRegistry,
+  attempt: number,
+): void {
+  if (attempt > MCP_MAX_RECONNECT_ATTEMPTS) {
+    console.error(
+      `Giving up on reconnecting to MCP server '${mcpServerName}' after ${MCP_MAX_RECONNECT_ATTEMPTS} attempts.`,
+    );
+    return;
   }
+  const delay = Math.min(
+    MCP_RECONNECT_BASE_DELAY_MSEC * 2 ** (attempt - 1),
+    MCP_RECONNECT_MAX_DELAY_MSEC,
+  );
+  const timer = setTimeout(() => {
+    reconnectTimers.delete(mcpServerName);
+    void connectAndDiscover(
+      mcpServerName,
+      mcpServerConfig,
+      toolRegistry,
+      debugMode,
+      mcpRegistry,
+      attempt,
+    );
+  }, delay);
+  // Pending reconnections must not keep the process alive.
+  timer.unref();
+  reconnectTimers.set(mcpServerName, timer);
 }
 
 /**
@@ -244,6 +481,25 @@ export async function discoverTools(
   mcpServerName: string,
   mcpServerConfig: MCPServerConfig,
   mcpClient: Client,
+): Promise<DiscoveredMCPTool[]> {
+  const discoveredTools = await discoverEnabledTools(
+    mcpServerName,
+    mcpServerConfig,
+    mcpClient,
+  );
+  if (discoveredTools.length === 0) {
+    throw new PermanentMcpError(
+      'Error discovering tools: No enabled tools found',
+    );
+  }
+  return discoveredTools;
+}
+
+/** Like {@link discoverTools}, but an empty list is not an error. */
+async function discoverEnabledTools(
+  mcpServerName: string,
+  mcpServerConfig: MCPServerConfig,
+  mcpClient: Client,
 ): Promise<DiscoveredMCPTool[]> {
   try {
     const mcpCallableTool = mcpToTool(mcpClient);
@@ -276,22 +532,110 @@ export async function discoverTools(
         ),
       );
     }
-    if (discoveredTools.length === 0) {
-      throw Error('No enabled tools found');
-    }
     return discoveredTools;
   } catch (error) {
     throw new Error(`Error discovering tools: ${error}`);
   }
 }
 
+/**
+ * Lists the resources of a connected MCP server, following pagination.
+ * Servers without the resources capability have none; a failure to list
+ * them is logged and leaves the server's tools and prompts usable.
+ *
+ * @param mcpServerName The name of the MCP server.
+ * @param mcpClient The active MCP client instance.
+ * @returns A promise that resolves to the server's resources.
+ */
+export async function discoverResources(
+  mcpServerName: string,
+  mcpClient: Client,
+): Promise<DiscoveredMCPResource[]> {
+  if (!mcpClient.getServerCapabilities()?.resources) {
+    return [];
+  }
+  const resources: DiscoveredMCPResource[] = [];
+  try {
+    let cursor: string | undefined;
+    do {
+      const result = await mcpClient.listResources(
+        cursor ? { cursor } : undefined,
+      );
+      for (const resource of result.resources) {
+        resources.push({
+          serverName: mcpServerName,
+          uri: resource.uri,
+          name: resource.name,
+          description: resource.description,
+          mimeType: resource.mimeType,
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+  } catch (error) {
+    console.error(
+      `Error discovering resources of MCP server '${mcpServerName}':`,
+      error,
+    );
+  }
+  return resources;
+}
+
+/**
+ * Lists the prompts of a connected MCP server, following pagination.
+ * Servers without the prompts capability have none; a failure to list
+ * them is logged and leaves the server's tools and resources usable.
+ *
+ * @param mcpServerName The name of the MCP server.
+ * @param mcpClient The active MCP client instance.
+ * @returns A promise that resolves to the server's prompts.
+ */
+export async function discoverPrompts(
+  mcpServerName: string,
+  mcpClient: Client,
+): Promise<DiscoveredMCPPrompt[]> {
+  if (!mcpClient.getServerCapabilities()?.prompts) {
+    return [];
+  }
+  const prompts: DiscoveredMCPPrompt[] = [];
+  try {
+    let cursor: string | undefined;
+    do {
+      const result = await mcpClient.listPrompts(
+        cursor ? { cursor } : undefined,
+      );
+      for (const prompt of result.prompts) {
+        prompts.push({
+          serverName: mcpServerName,
+          name: prompt.name,
+          description: prompt.description,
+          arguments: (prompt.arguments ?? []).map((argument) => ({
+            name: argument.name,
+            description: argument.description,
+            required: argument.required,
+          })),
+        });
+      }
+      cursor = result.nextCursor;
+    } while (cursor);
+  } catch (error) {
+    console.error(
+      `Error discovering prompts of MCP server '${mcpServerName}':`,
+      error,
+    );
+  }
+  return prompts;
+}
+
 /**
  * Creates and connects an MCP client to a server based on the provided configuration.
- * It determines the appropriate transport (Stdio, SSE, or Streamable HTTP) and
+ * It determines the appropriate transport (Stdio, SSE, Streamable HTTP or WebSocket) and
  * establishes a connection. It also applies a patch to handle request timeouts.
  *
  * @param mcpServerName The name of the MCP server, used for logging and identification.
  * @param mcpServerConfig The configuration specifying how to connect to the server.
+ * @param samplingService If given, the client offers sampling and answers the
+ *     server's `sampling/createMessage` requests with it.
  * @returns A promise that resolves to a connected MCP `Client` instance.
  * @throws An error if the connection fails or the configuration is invalid.
  */
@@ -299,11 +643,28 @@ export async function connectToMcpServer(
   mcpServerName: string,
   mcpServerConfig: MCPServerConfig,
   debugMode: boolean,
+  samplingService?: McpSamplingService,
 ): Promise<Client> {
-  const mcpClient = new Client({
-    name: 'gemini-cli-mcp-client',
-    version: '0.0.1',
-  });
+  const mcpClient = new Client(
+    {
+      name: 'gemini-cli-mcp-client',
+      version: '0.0.1',
+    },
+    samplingService ? { capabilities: { sampling: {} } } : undefined,
+  );
+  // The SDK aborts a sampling request when the server cancels it, but not
+  // when the connection closes.
+  const disconnected = new AbortController();
+  if (samplingService) {
+    mcpClient.setRequestHandler(CreateMessageRequestSchema, (request, extra) =>
+      samplingService.createMessage(
+        mcpServerName,
+        mcpServerConfig,
+        request.params,
+        AbortSignal.any([extra.signal, disconnected.signal]),
+      ),
+    );
+  }
 
   // patch Client.callTool to use request timeout as genai McpCallTool.callTool does not do it
   // TODO: remove this hack once GenAI SDK does callTool with request options
@@ -323,6 +684,8 @@ export async function connectToMcpServer(
       mcpServerConfig,
       debugMode,
     );
+    // The client keeps calling this once it is connected.
+    transport.onclose = () => disconnected.abort();
     try {
       await mcpClient.connect(transport, {
         timeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
@@ -338,6 +701,7 @@ export async function connectToMcpServer(
       command: mcpServerConfig.command,
       url: mcpServerConfig.url,
       httpUrl: mcpServerConfig.httpUrl,
+      tcp: mcpServerConfig.tcp,
       cwd: mcpServerConfig.cwd,
       timeout: mcpServerConfig.timeout,
       trust: mcpServerConfig.trust,
@@ -350,6 +714,9 @@ export async function connectToMcpServer(
     if (process.env.SANDBOX) {
       errorString += `\nMake sure it is available in the sandbox`;
     }
+    if (error instanceof PermanentMcpError) {
+      throw new PermanentMcpError(errorString);
+    }
     throw new Error(errorString);
   }
 }
@@ -368,7 +735,7 @@ export function createTransport(
       };
     }
     return new StreamableHTTPClientTransport(
-      new URL(mcpServerConfig.httpUrl),
+      parseUrl(mcpServerConfig.httpUrl),
       transportOptions,
     );
   }
@@ -381,11 +748,18 @@ export function createTransport(
       };
     }
     return new SSEClientTransport(
-      new URL(mcpServerConfig.url),
+      parseUrl(mcpServerConfig.url),
       transportOptions,
     );
   }
 
+  if (mcpServerConfig.tcp) {
+    return new WebSocketClientTransport(websocketUrl(mcpServerConfig.tcp), {
+      headers: mcpServerConfig.headers,
+      handshakeTimeout: mcpServerConfig.timeout ?? MCP_DEFAULT_TIMEOUT_MSEC,
+    });
+  }
+
   if (mcpServerConfig.command) {
     const transport = new StdioClientTransport({
       command: mcpServerConfig.command,
@@ -406,11 +780,27 @@ export function createTransport(
     return transport;
   }
 
-  throw new Error(
-    `Invalid configuration: missing httpUrl (for Streamable HTTP), url (for SSE), and command (for stdio).`,
+  throw new PermanentMcpError(
+    `Invalid configuration: missing httpUrl (for Streamable HTTP), url (for SSE), tcp (for WebSocket), and command (for stdio).`,
   );
 }
 
+function parseUrl(url: string): URL {
+  try {
+    return new URL(url);
+  } catch {
+    throw new PermanentMcpError(`Invalid configuration: invalid URL '${url}'`);
+  }
+}
+
+/**
+ * Turns the `tcp` setting into a WebSocket URL; a bare `host:port` means
+ * `ws://host:port`.
+ */
+function websocketUrl(tcp: string): URL {
+  return parseUrl(/^wss?:\/\//i.test(tcp) ? tcp : `ws://${tcp}`);
+}
+
 /** Visible for testing */
 export function generateValidName(
   funcDecl: FunctionDeclaration,
@@ -0,0 +1,133 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import {
+  MCPRegistry,
+  promptMessagesToParts,
+  resourceContentsToParts,
+} from './mcp-registry.js';
+
+describe('resourceContentsToParts', () => {
+  it('should turn text into text parts and blobs into inline data', () => {
+    expect(
+      resourceContentsToParts([
+        { uri: 'db://schema', text: 'CREATE TABLE users;' },
+        { uri: 'file:///logo.png', mimeType: 'image/png', blob: 'iVBORw==' },
+      ]),
+    ).toEqual([
+      { text: 'CREATE TABLE users;' },
+      { inlineData: { mimeType: 'image/png', data: 'iVBORw==' } },
+    ]);
+  });
+});
+
+describe('promptMessagesToParts', () => {
+  it('should flatten the messages of a prompt in order', () => {
+    expect(
+      promptMessagesToParts([
+        { role: 'user', content: { type: 'text', text: 'Review this:' } },
+        {
+          role: 'user',
+          content: {
+            type: 'resource',
+            resource: { uri: 'file:///a.ts', text: 'const a = 1;' },
+          },
+        },
+        {
+          role: 'user',
+          content: { type: 'image', mimeType: 'image/png', data: 'AAAA' },
+        },
+      ]),
+    ).toEqual([
+      { text: 'Review this:' },
+      { text: 'const a = 1;' },
+      { inlineData: { mimeType: 'image/png', data: 'AAAA' } },
+    ]);
+  });
+});
+
+describe('MCPRegistry', () => {
+  const createClient = () =>
+    ({
+      readResource: vi.fn().mockResolvedValue({
+        contents: [{ uri: 'docs://intro', text: 'Welcome' }],
+      }),
+      getPrompt: vi.fn().mockResolvedValue({
+        messages: [
+          { role: 'user', content: { type: 'text', text: 'Fix bug 42' } },
+        ],
+      }),
+      close: vi.fn().mockResolvedValue(undefined),
+    }) as unknown as Client;
+
+  it('should list the resources and prompts of every server', () => {
+    const registry = new MCPRegistry();
+    registry.registerServer('docs', createClient(), {
+      timeout: 1000,
+      resources: [{ serverName: 'docs', uri: 'docs://intro', name: 'Intro' }],
+      prompts: [],
+    });
+    registry.registerServer('tracker', createClient(), {
+      timeout: 1000,
+      resources: [],
+      prompts: [{ serverName: 'tracker', name: 'fix', arguments: [] }],
+    });
+
+    expect(registry.hasServer('docs')).toBe(true);
+    expect(registry.getResources().map((r) => r.uri)).toEqual(['docs://intro']);
+    expect(registry.getPrompts().map((p) => p.name)).toEqual(['fix']);
+  });
+
+  it('should fetch resources and prompts from their server', async () => {
+    const registry = new MCPRegistry();
+    const client = createClient();
+    registry.registerServer('docs', client, {
+      timeout: 1000,
+      resources: [],
+      prompts: [],
+    });
+
+    expect(await registry.readResource('docs', 'docs://intro')).toEqual([
+      { text: 'Welcome' },
+    ]);
+    expect(await registry.getPrompt('docs', 'fix', { issue: '42' })).toEqual([
+      { text: 'Fix bug 42' },
+    ]);
+    expect(client.readResource).toHaveBeenCalledWith(
+      { uri: 'docs://intro' },
+      { signal: undefined, timeout: 1000 },
+    );
+    expect(client.getPrompt).toHaveBeenCalledWith(
+      { name: 'fix', arguments: { issue: '42' } },
+      { signal: undefined, timeout: 1000 },
+    );
+    await expect(registry.readResource('other', 'x://y')).rejects.toThrow(
+      "MCP server 'other' is not connected.",
+    );
+  });
+
+  it('should close the clients and notify listeners when cleared', async () => {
+    const registry = new MCPRegistry();
+    const client = createClient();
+    const listener = vi.fn();
+    const removeListener = registry.addChangeListener(listener);
+
+    registry.registerServer('docs', client, {
+      timeout: 1000,
+      resources: [],
+      prompts: [],
+    });
+    await registry.clear();
+    removeListener();
+    await registry.clear();
+
+    expect(client.close).toHaveBeenCalledTimes(1);
+    expect(registry.hasServer('docs')).toBe(false);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Part } from '@google/genai';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import type { McpSamplingService } from './mcp-sampling.js';
+import {
+  GetPromptResult,
+  ReadResourceResult,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/** A resource, such as a document or a database schema, an MCP server lists. */
+export interface DiscoveredMCPResource {
+  serverName: string;
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface MCPPromptArgument {
+  name: string;
+  description?: string;
+  required?: boolean;
+}
+
+/** A canned prompt an MCP server offers, filled in from its arguments. */
+export interface DiscoveredMCPPrompt {
+  serverName: string;
+  name: string;
+  description?: string;
+  arguments: MCPPromptArgument[];
+}
+
+interface RegisteredServer {
+  client: Client;
+  timeout: number;
+  resources: DiscoveredMCPResource[];
+  prompts: DiscoveredMCPPrompt[];
+}
+
+type ResourceContents = ReadResourceResult['contents'][number];
+type PromptContent = GetPromptResult['messages'][number]['content'];
+
+/** Converts the contents of a resource into parts for the model. */
+export function resourceContentsToParts(contents: ResourceContents[]): Part[] {
+  return contents.map((content) =>
+    typeof content.text === 'string'
+      ? { text: content.text }
+      : {
+          inlineData: {
+            mimeType: content.mimeType ?? 'application/octet-stream',
+            data: String(content.blob),
+          },
+        },
+  );
+}
+
+/**
+ * Converts the messages of a prompt into parts of a single user message, in
+ * order. Embedded resources are inlined and linked ones are named by URI.
+ */
+export function promptMessagesToParts(
+  messages: GetPromptResult['messages'],
+): Part[] {
+  return messages.flatMap(({ content }: { content: PromptContent }): Part[] => {
+    switch (content.type) {
+      case 'text':
+        return [{ text: content.text }];
+      case 'image':
+      case 'audio':
+        return [
+          { inlineData: { mimeType: content.mimeType, data: content.data } },
+        ];
+      case 'resource':
+        return resourceContentsToParts([content.resource]);
+      case 'resource_link':
+        return [{ text: `Resource: ${content.uri}` }];
+      default:
+        return [];
+    }
+  });
+}
+
+/**
+ * The MCP servers that are connected, with the resources and prompts they
+ * offer besides tools. Resources and prompts are fetched from the server
+ * when used, so they reflect its current state.
+ */
+export class MCPRegistry {
+  private readonly servers = new Map<string, RegisteredServer>();
+  private readonly listeners = new Set<() => void>();
+
+  /**
+   * @param samplingService Answers the sampling requests of servers connected
+   *     for this registry. Without it, they are not offered sampling.
+   */
+  constructor(readonly samplingService?: McpSamplingService) {}
+
+  /** Adds a connected server, replacing one with the same name. */
+  registerServer(
+    serverName: string,
+    client: Client,
+    options: {
+      timeout: number;
+      resources: DiscoveredMCPResource[];
+      prompts: DiscoveredMCPPrompt[];
+    },
+  ): void {
+    this.servers.set(serverName, { client, ...options });
+    this.notify();
+  }
+
+  /** Disconnects from every server and forgets them. */
+  async clear(): Promise<void> {
+    const clients = [...this.servers.values()].map(({ client }) => client);
+    this.servers.clear();
+    await Promise.allSettled(clients.map((client) => client.close()));
+    this.notify();
+  }
+
+  /** Disconnects from a server and forgets it. */
+  async removeServer(serverName: string): Promise<void> {
+    const server = this.servers.get(serverName);
+    if (!server) {
+      return;
+    }
+    this.servers.delete(serverName);
+    await server.client.close().catch(() => {});
+    this.notify();
+  }
+
+  hasServer(serverName: string): boolean {
+    return this.servers.has(serverName);
+  }
+
+  /** The client of a connected server. */
+  getClient(serverName: string): Client | undefined {
+    return this.servers.get(serverName)?.client;
+  }
+
+  getResources(): DiscoveredMCPResource[] {
+    return [...this.servers.values()].flatMap(({ resources }) => resources);
+  }
+
+  getPrompts(): DiscoveredMCPPrompt[] {
+    return [...this.servers.values()].flatMap(({ prompts }) => prompts);
+  }
+
+  /**
+   * Reads a resource through `resources/read`. The URI need not be one the
+   * server listed, so resources from templates can be read too.
+   */
+  async readResource(
+    serverName: string,
+    uri: string,
+    signal?: AbortSignal,
+  ): Promise<Part[]> {
+    const server = this.getServer(serverName);
+    const result = await server.client.readResource(
+      { uri },
+      { signal, timeout: server.timeout },
+    );
+    return resourceContentsToParts(result.contents);
+  }
+
+  /** Fills in a prompt through `prompts/get`. */
+  async getPrompt(
+    serverName: string,
+    name: string,
+    args: Record<string, string>,
+    signal?: AbortSignal,
+  ): Promise<Part[]> {
+    const server = this.getServer(serverName);
+    const result = await server.client.getPrompt(
+      { name, arguments: args },
+      { signal, timeout: server.timeout },
+    );
+    return promptMessagesToParts(result.messages);
+  }
+
+  /**
+   * Calls `listener` whenever servers, and with them resources and prompts,
+   * come or go. Returns a function that removes the listener.
+   */
+  addChangeListener(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  private getServer(serverName: string): RegisteredServer {
+    const server = this.servers.get(serverName);
+    if (!server) {
+      throw new Error(`MCP server '${serverName}' is not connected.`);
+    }
+    return server;
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
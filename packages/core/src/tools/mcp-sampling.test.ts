@@ -0,0 +1,209 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Content,
+  FinishReason,
+  GenerateContentConfig,
+  GenerateContentResponse,
+} from '@google/genai';
+import { CreateMessageRequest } from '@modelcontextprotocol/sdk/types.js';
+import { McpSamplingService } from './mcp-sampling.js';
+import { ToolConfirmationOutcome } from './tools.js';
+import { Config, MCPServerConfig } from '../config/config.js';
+import { GeminiClient } from '../core/client.js';
+import { OllamaContentGenerator } from '../core/ollamaContentGenerator.js';
+import { logMcpSampling } from '../telemetry/loggers.js';
+import { uiTelemetryService } from '../telemetry/uiTelemetry.js';
+
+vi.mock('../telemetry/loggers.js', async (importOriginal) => {
+  const actual =
+    await importOriginal<typeof import('../telemetry/loggers.js')>();
+  return { ...actual, logMcpSampling: vi.fn(actual.logMcpSampling) };
+});
+
+const params: CreateMessageRequest['params'] = {
+  messages: [
+    { role: 'user', content: { type: 'text', text: 'Summarize this diff' } },
+  ],
+  systemPrompt: 'You write commit messages.',
+  maxTokens: 100,
+};
+
+describe('McpSamplingService', () => {
+  let generateContent: ReturnType<typeof vi.fn>;
+  let service: McpSamplingService;
+  let config: Config;
+  const untrusted = new MCPServerConfig('node', ['server.js']);
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    generateContent = vi.fn().mockResolvedValue({
+      candidates: [
+        {
+          content: { role: 'model', parts: [{ text: 'Fix the parser' }] },
+          finishReason: FinishReason.STOP,
+        },
+      ],
+      usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 3 },
+    } as GenerateContentResponse);
+    config = {
+      getGeminiClient: () =>
+        ({
+          isInitialized: () => true,
+          generateContent,
+        }) as unknown as GeminiClient,
+      getUtilityModel: vi.fn(() => 'llama3.2'),
+      getContentGeneratorConfig: () => ({ model: 'qwen3:32b' }),
+      getUsageStatisticsEnabled: () => false,
+    } as unknown as Config;
+    service = new McpSamplingService(config);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should answer trusted servers with the utility model', async () => {
+    const trusted = {
+      ...untrusted,
+      trustSampling: true,
+    } as MCPServerConfig;
+
+    const result = await service.createMessage(
+      'git',
+      trusted,
+      { ...params, temperature: 0.2 },
+      signal,
+    );
+
+    expect(result).toEqual({
+      role: 'assistant',
+      content: { type: 'text', text: 'Fix the parser' },
+      model: 'llama3.2',
+      stopReason: 'endTurn',
+    });
+    expect(generateContent).toHaveBeenCalledWith(
+      [{ role: 'user', parts: [{ text: 'Summarize this diff' }] }],
+      {
+        systemInstruction: 'You write commit messages.',
+        maxOutputTokens: 100,
+        temperature: 0.2,
+      },
+      signal,
+      'llama3.2',
+    );
+    expect(logMcpSampling).toHaveBeenCalledWith(
+      expect.anything(),
+      expect.objectContaining({
+        server_name: 'git',
+        model: 'llama3.2',
+        input_token_count: 12,
+        output_token_count: 3,
+        success: true,
+      }),
+    );
+  });
+
+  it('should reject untrusted servers when nobody can confirm', async () => {
+    await expect(
+      service.createMessage('git', untrusted, params, signal),
+    ).rejects.toThrow(
+      `Sampling requests from MCP server 'git' need confirmation`,
+    );
+    expect(generateContent).not.toHaveBeenCalled();
+  });
+
+  it('should ask until the user allows the server for the session', async () => {
+    const confirm = vi
+      .fn()
+      .mockResolvedValueOnce(ToolConfirmationOutcome.Cancel)
+      .mockResolvedValueOnce(ToolConfirmationOutcome.ProceedAlwaysServer);
+    service.setConfirmationHandler(confirm);
+
+    await expect(
+      service.createMessage('git', untrusted, params, signal),
+    ).rejects.toThrow('User rejected sampling request');
+    await service.createMessage('git', untrusted, params, signal);
+    await service.createMessage('git', untrusted, params, signal);
+
+    expect(confirm).toHaveBeenCalledTimes(2);
+    expect(confirm).toHaveBeenCalledWith(
+      {
+        serverName: 'git',
+        model: 'llama3.2',
+        systemPrompt: 'You write commit messages.',
+        messages: [{ role: 'user', text: 'Summarize this diff' }],
+        maxTokens: 100,
+      },
+      signal,
+    );
+    expect(generateContent).toHaveBeenCalledTimes(2);
+  });
+
+  it('should count the tokens of a sampling request once', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn(async (url: string) =>
+        url.endsWith('/api/chat')
+          ? new Response(
+              JSON.stringify({
+                model: 'llama3.2',
+                message: { role: 'assistant', content: 'Fix the parser' },
+                done: true,
+                done_reason: 'stop',
+                prompt_eval_count: 12,
+                eval_count: 3,
+              }),
+            )
+          : new Response('{}', { status: 404 }),
+      ),
+    );
+    const generator = new OllamaContentGenerator(
+      'http://localhost:11434',
+      'llama3.2',
+      config,
+    );
+    generateContent.mockImplementation(
+      (
+        contents: Content[],
+        generationConfig: GenerateContentConfig,
+        abortSignal: AbortSignal,
+        model: string,
+      ) =>
+        generator.generateContent({
+          model,
+          contents,
+          config: { ...generationConfig, abortSignal },
+        }),
+    );
+    const trusted = {
+      ...untrusted,
+      trustSampling: true,
+    } as MCPServerConfig;
+
+    await service.createMessage('git', trusted, params, signal);
+
+    expect(logMcpSampling).toHaveBeenCalledTimes(1);
+    expect(uiTelemetryService.getMetrics().models['llama3.2']).toEqual({
+      api: {
+        totalRequests: 1,
+        totalErrors: 0,
+        totalLatencyMs: expect.any(Number),
+      },
+      tokens: {
+        prompt: 12,
+        candidates: 3,
+        total: 15,
+        cached: 0,
+        thoughts: 0,
+        tool: 0,
+      },
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content, FinishReason, GenerateContentConfig } from '@google/genai';
+import {
+  CreateMessageRequest,
+  CreateMessageResult,
+  ErrorCode,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Config, MCPServerConfig } from '../config/config.js';
+import { ToolConfirmationOutcome } from './tools.js';
+import { getResponseText } from '../utils/generateContentResponseUtilities.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { logMcpSampling } from '../telemetry/loggers.js';
+import { McpSamplingEvent } from '../telemetry/types.js';
+
+type SamplingParams = CreateMessageRequest['params'];
+type SamplingMessage = SamplingParams['messages'][number];
+
+/** What the user is asked to approve when an MCP server requests sampling. */
+export interface McpSamplingConfirmationRequest {
+  serverName: string;
+  /** Model that will answer. */
+  model: string;
+  systemPrompt?: string;
+  /** The conversation the server wants a completion for, as text. */
+  messages: Array<{ role: SamplingMessage['role']; text: string }>;
+  maxTokens: number;
+}
+
+/**
+ * Asks the user whether an MCP server may use the model. Answers with
+ * ProceedOnce, ProceedAlwaysServer or Cancel, the latter also when
+ * `abortSignal` aborts because the server cancelled the request or
+ * disconnected.
+ */
+export type McpSamplingConfirmationHandler = (
+  request: McpSamplingConfirmationRequest,
+  abortSignal: AbortSignal,
+) => Promise<ToolConfirmationOutcome>;
+
+/** The code MCP uses for a sampling request the user rejected. */
+const USER_REJECTED_ERROR_CODE = -1;
+
+function toContent(message: SamplingMessage): Content {
+  const { role, content } = message;
+  return {
+    role: role === 'assistant' ? 'model' : 'user',
+    parts: [
+      content.type === 'text'
+        ? { text: content.text }
+        : { inlineData: { mimeType: content.mimeType, data: content.data } },
+    ],
+  };
+}
+
+function describeMessage(message: SamplingMessage): string {
+  return message.content.type === 'text'
+    ? message.content.text
+    : `[${message.content.type}: ${message.content.mimeType}]`;
+}
+
+function toStopReason(finishReason?: FinishReason): string | undefined {
+  switch (finishReason) {
+    case undefined:
+      return undefined;
+    case FinishReason.STOP:
+      return 'endTurn';
+    case FinishReason.MAX_TOKENS:
+      return 'maxTokens';
+    default:
+      return finishReason;
+  }
+}
+
+/**
+ * Answers the `sampling/createMessage` requests of MCP servers with the
+ * session's provider, on the `mcpSampling` utility model, so that servers
+ * can use an LLM without credentials of their own.
+ *
+ * Servers without `trustSampling` need the user's confirmation for each
+ * request, or once for the session. Without a confirmation handler, e.g. in
+ * non-interactive mode, their requests are rejected.
+ */
+export class McpSamplingService {
+  private confirmationHandler?: McpSamplingConfirmationHandler;
+  /** Servers the user allowed to sample for the rest of the session. */
+  private readonly allowedServers = new Set<string>();
+
+  constructor(private readonly config: Config) {}
+
+  setConfirmationHandler(handler?: McpSamplingConfirmationHandler): void {
+    this.confirmationHandler = handler;
+  }
+
+  async createMessage(
+    serverName: string,
+    serverConfig: MCPServerConfig,
+    params: SamplingParams,
+    abortSignal: AbortSignal,
+  ): Promise<CreateMessageResult> {
+    const client = this.config.getGeminiClient();
+    if (!client?.isInitialized()) {
+      throw new McpError(
+        ErrorCode.InternalError,
+        'The model is not available yet.',
+      );
+    }
+    const model = this.config.getUtilityModel('mcpSampling');
+
+    await this.confirm(
+      serverName,
+      serverConfig,
+      {
+        serverName,
+        model,
+        systemPrompt: params.systemPrompt,
+        messages: params.messages.map((message) => ({
+          role: message.role,
+          text: describeMessage(message),
+        })),
+        maxTokens: params.maxTokens,
+      },
+      abortSignal,
+    );
+
+    // An empty system instruction keeps the agent's own prompt out.
+    const generationConfig: GenerateContentConfig = {
+      systemInstruction: params.systemPrompt ?? '',
+      maxOutputTokens: params.maxTokens,
+    };
+    if (params.temperature !== undefined) {
+      generationConfig.temperature = params.temperature;
+    }
+    if (params.stopSequences) {
+      generationConfig.stopSequences = params.stopSequences;
+    }
+
+    const startTime = Date.now();
+    try {
+      const response = await client.generateContent(
+        params.messages.map(toContent),
+        generationConfig,
+        abortSignal,
+        model,
+      );
+      logMcpSampling(
+        this.config,
+        new McpSamplingEvent(
+          serverName,
+          model,
+          Date.now() - startTime,
+          response.usageMetadata,
+        ),
+      );
+      return {
+        role: 'assistant',
+        content: { type: 'text', text: getResponseText(response) ?? '' },
+        model,
+        stopReason: toStopReason(response.candidates?.[0]?.finishReason),
+      };
+    } catch (error) {
+      logMcpSampling(
+        this.config,
+        new McpSamplingEvent(
+          serverName,
+          model,
+          Date.now() - startTime,
+          undefined,
+          getErrorMessage(error),
+        ),
+      );
+      throw error;
+    }
+  }
+
+  private async confirm(
+    serverName: string,
+    serverConfig: MCPServerConfig,
+    request: McpSamplingConfirmationRequest,
+    abortSignal: AbortSignal,
+  ): Promise<void> {
+    if (serverConfig.trustSampling || this.allowedServers.has(serverName)) {
+      return;
+    }
+    if (!this.confirmationHandler) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Sampling requests from MCP server '${serverName}' need confirmation, which is not available here. Set "trustSampling": true for the server to allow them.`,
+      );
+    }
+    const outcome = await this.confirmationHandler(request, abortSignal);
+    switch (outcome) {
+      case ToolConfirmationOutcome.ProceedAlwaysServer:
+        this.allowedServers.add(serverName);
+        return;
+      case ToolConfirmationOutcome.ProceedOnce:
+        return;
+      default:
+        throw new McpError(
+          USER_REJECTED_ERROR_CODE,
+          'User rejected sampling request',
+        );
+    }
+  }
+}
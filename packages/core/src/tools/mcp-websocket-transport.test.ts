@@ -0,0 +1,187 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { AddressInfo, createServer, Server as NetServer, Socket } from 'net';
+import { IncomingMessage } from 'http';
+import WebSocket, { WebSocketServer } from 'ws';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  CallToolRequestSchema,
+  JSONRPCMessage,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import {
+  MCP_WEBSOCKET_SUBPROTOCOL,
+  WebSocketClientTransport,
+} from './mcp-websocket-transport.js';
+import { connectToMcpServer } from './mcp-client.js';
+
+/** Serves MCP over one accepted WebSocket, the server side of the client transport. */
+class WebSocketServerTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private readonly socket: WebSocket) {}
+
+  async start(): Promise<void> {
+    this.socket.on('message', (data) =>
+      this.onmessage?.(JSON.parse(data.toString())),
+    );
+    this.socket.on('close', () => this.onclose?.());
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    this.socket.send(JSON.stringify(message));
+  }
+
+  async close(): Promise<void> {
+    this.socket.close();
+  }
+}
+
+function createMcpServer(): Server {
+  const server = new Server(
+    { name: 'echo-server', version: '1.0.0' },
+    { capabilities: { tools: {} } },
+  );
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({
+    tools: [
+      {
+        name: 'echo',
+        inputSchema: {
+          type: 'object',
+          properties: { text: { type: 'string' } },
+        },
+      },
+    ],
+  }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) => ({
+    content: [{ type: 'text', text: String(request.params.arguments?.text) }],
+  }));
+  return server;
+}
+
+describe('WebSocketClientTransport', () => {
+  let wss: WebSocketServer;
+  let url: string;
+  let serverSockets: WebSocket[];
+
+  beforeEach(async () => {
+    serverSockets = [];
+    wss = new WebSocketServer({
+      port: 0,
+      handleProtocols: (protocols) =>
+        protocols.has(MCP_WEBSOCKET_SUBPROTOCOL)
+          ? MCP_WEBSOCKET_SUBPROTOCOL
+          : false,
+      verifyClient: ({ req }: { req: IncomingMessage }) =>
+        req.headers.authorization === 'Bearer secret-token',
+    });
+    wss.on('connection', (socket) => {
+      serverSockets.push(socket);
+      createMcpServer().connect(new WebSocketServerTransport(socket));
+    });
+    await new Promise((resolve) => wss.once('listening', resolve));
+    url = `ws://127.0.0.1:${(wss.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise((resolve) => wss.close(resolve));
+  });
+
+  it('should list and call tools of a WebSocket MCP server', async () => {
+    const client = await connectToMcpServer(
+      'echo',
+      { tcp: url, headers: { Authorization: 'Bearer secret-token' } },
+      false,
+    );
+
+    const { tools } = await client.listTools();
+    const result = await client.callTool({
+      name: 'echo',
+      arguments: { text: 'hello over websocket' },
+    });
+    await client.close();
+
+    expect(tools.map((tool) => tool.name)).toEqual(['echo']);
+    expect(result.content).toEqual([
+      { type: 'text', text: 'hello over websocket' },
+    ]);
+  });
+
+  it('should accept a bare host and port', async () => {
+    const client = await connectToMcpServer(
+      'echo',
+      {
+        tcp: url.replace('ws://', ''),
+        headers: { Authorization: 'Bearer secret-token' },
+      },
+      false,
+    );
+    await client.close();
+
+    expect(serverSockets).toHaveLength(1);
+  });
+
+  it('should fail to connect when the server rejects the credentials', async () => {
+    await expect(
+      connectToMcpServer(
+        'echo',
+        { tcp: url, headers: { Authorization: 'Bearer wrong' } },
+        false,
+      ),
+    ).rejects.toThrow('Unexpected server response: 401');
+  });
+
+  it('should report when the server closes the connection', async () => {
+    const transport = new WebSocketClientTransport(new URL(url), {
+      headers: { Authorization: 'Bearer secret-token' },
+    });
+    const closed = new Promise<void>((resolve) => {
+      transport.onclose = resolve;
+    });
+
+    await transport.start();
+    serverSockets[0].close();
+
+    await expect(closed).resolves.toBeUndefined();
+    await expect(
+      transport.send({ jsonrpc: '2.0', method: 'ping', id: 1 }),
+    ).rejects.toThrow('Not connected');
+  });
+});
+
+describe('WebSocketClientTransport handshake timeout', () => {
+  let netServer: NetServer;
+  let sockets: Socket[];
+
+  beforeEach(async () => {
+    sockets = [];
+    // Accepts connections but never answers the WebSocket handshake.
+    netServer = createServer((socket) => sockets.push(socket));
+    await new Promise<void>((resolve) => netServer.listen(0, resolve));
+  });
+
+  afterEach(async () => {
+    sockets.forEach((socket) => socket.destroy());
+    await new Promise((resolve) => netServer.close(resolve));
+  });
+
+  it('should give up on a server that does not complete the handshake', async () => {
+    const port = (netServer.address() as AddressInfo).port;
+
+    await expect(
+      connectToMcpServer(
+        'silent',
+        { tcp: `ws://127.0.0.1:${port}`, timeout: 100 },
+        false,
+      ),
+    ).rejects.toThrow('Opening handshake has timed out');
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import WebSocket from 'ws';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import {
+  JSONRPCMessage,
+  JSONRPCMessageSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+
+/** The WebSocket subprotocol MCP servers expect. */
+export const MCP_WEBSOCKET_SUBPROTOCOL = 'mcp';
+
+export interface WebSocketClientTransportOptions {
+  /** Headers sent with the opening handshake, e.g. for authorization. */
+  headers?: Record<string, string>;
+  /** How long to wait for the opening handshake, in milliseconds. */
+  handshakeTimeout?: number;
+}
+
+/**
+ * Client transport that talks to an MCP server over a WebSocket, one JSON-RPC
+ * message per text frame. Unlike the SDK's transport, it can send headers
+ * and gives up on servers that do not complete the handshake in time.
+ */
+export class WebSocketClientTransport implements Transport {
+  private socket?: WebSocket;
+
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(
+    private readonly url: URL,
+    private readonly options: WebSocketClientTransportOptions = {},
+  ) {}
+
+  start(): Promise<void> {
+    if (this.socket) {
+      throw new Error(
+        'WebSocketClientTransport already started! If using Client class, note that connect() calls start() automatically.',
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = new WebSocket(this.url, MCP_WEBSOCKET_SUBPROTOCOL, {
+        headers: this.options.headers,
+        handshakeTimeout: this.options.handshakeTimeout,
+      });
+      this.socket = socket;
+      let opened = false;
+
+      socket.on('open', () => {
+        opened = true;
+        resolve();
+      });
+      socket.on('error', (error) => {
+        if (!opened) {
+          reject(error);
+        }
+        this.onerror?.(error);
+      });
+      socket.on('close', () => {
+        this.onclose?.();
+      });
+      socket.on('message', (data) => {
+        let message: JSONRPCMessage;
+        try {
+          message = JSONRPCMessageSchema.parse(JSON.parse(data.toString()));
+        } catch (error) {
+          this.onerror?.(error as Error);
+          return;
+        }
+        this.onmessage?.(message);
+      });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    const socket = this.socket;
+    if (!socket || socket.readyState !== WebSocket.OPEN) {
+      throw new Error('Not connected');
+    }
+    await new Promise<void>((resolve, reject) => {
+      socket.send(JSON.stringify(message), (error) =>
+        error ? reject(error) : resolve(),
+      );
+    });
+  }
+
+  async close(): Promise<void> {
+    this.socket?.close();
+  }
+}
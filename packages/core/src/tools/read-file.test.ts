@@ -12,6 +12,8 @@ import os from 'os';
 import fs from 'fs'; // For actual fs operations in setup
 import { Config } from '../config/config.js';
 import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+import { AuthType } from '../core/contentGenerator.js';
+import { getShellOutputDir } from '../utils/paths.js';
 
 // Mock fileUtils.processSingleFileContent
 vi.mock('../utils/fileUtils', async () => {
@@ -28,6 +30,7 @@ const mockProcessSingleFileContent = fileUtils.processSingleFileContent as Mock;
 describe('ReadFileTool', () => {
   let tempRootDir: string;
   let tool: ReadFileTool;
+  let authType: AuthType;
   const abortSignal = new AbortController().signal;
 
   beforeEach(() => {
@@ -43,7 +46,10 @@ describe('ReadFileTool', () => {
     const mockConfigInstance = {
       getFileService: () => fileService,
       getTargetDir: () => tempRootDir,
+      getContentGeneratorConfig: () => ({ authType }),
+      getModel: () => 'qwen3:32b',
     } as unknown as Config;
+    authType = AuthType.USE_GEMINI;
     tool = new ReadFileTool(mockConfigInstance);
     mockProcessSingleFileContent.mockReset();
   });
@@ -72,6 +78,16 @@ describe('ReadFileTool', () => {
       expect(tool.validateToolParams(params)).toBeNull();
     });
 
+    it('should return null for saved shell output outside the root', () => {
+      const params: ReadFileToolParams = {
+        absolute_path: path.join(
+          getShellOutputDir(tempRootDir),
+          'shell_1_abcd.log',
+        ),
+      };
+      expect(tool.validateToolParams(params)).toBeNull();
+    });
+
     it('should return error for relative path', () => {
       const params: ReadFileToolParams = { absolute_path: 'test.txt' };
       expect(tool.validateToolParams(params)).toBe(
@@ -219,6 +235,25 @@ describe('ReadFileTool', () => {
       );
     });
 
+    it('should warn when the model cannot read an image file', async () => {
+      authType = AuthType.USE_OLLAMA;
+      const filePath = path.join(tempRootDir, 'image.png');
+      mockProcessSingleFileContent.mockResolvedValue({
+        llmContent: { inlineData: { mimeType: 'image/png', data: 'base64' } },
+        returnDisplay: `Read image file: ${path.basename(filePath)}`,
+      });
+
+      const result = await tool.execute(
+        { absolute_path: filePath },
+        abortSignal,
+      );
+      expect(result.returnDisplay).toBe(
+        `Read image file: ${path.basename(filePath)}\n` +
+          'qwen3:32b cannot read images, so 1 image(s) will be left out. ' +
+          'Switch to a vision model, or set modelCapabilities."qwen3:32b".vision to true if it is one.',
+      );
+    });
+
     it('should pass offset and limit to processSingleFileContent', async () => {
       const filePath = path.join(tempRootDir, 'paginated.txt');
       const params: ReadFileToolParams = {
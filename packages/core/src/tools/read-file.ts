@@ -6,7 +6,11 @@
 
 import path from 'path';
 import { SchemaValidator } from '../utils/schemaValidator.js';
-import { makeRelative, shortenPath } from '../utils/paths.js';
+import {
+  getShellOutputDir,
+  makeRelative,
+  shortenPath,
+} from '../utils/paths.js';
 import { BaseTool, ToolResult } from './tools.js';
 import { Type } from '@google/genai';
 import {
@@ -19,6 +23,7 @@ import {
   recordFileOperationMetric,
   FileOperation,
 } from '../telemetry/metrics.js';
+import { getAttachmentWarning } from '../utils/attachments.js';
 
 /**
  * Parameters for the ReadFile tool
@@ -85,7 +90,11 @@ export class ReadFileTool extends BaseTool<ReadFileToolParams, ToolResult> {
     if (!path.isAbsolute(filePath)) {
       return `File path must be absolute, but was relative: ${filePath}. You must provide an absolute path.`;
     }
-    if (!isWithinRoot(filePath, this.config.getTargetDir())) {
+    if (
+      !isWithinRoot(filePath, this.config.getTargetDir()) &&
+      // Long shell output is saved there for the model to page through
+      !isWithinRoot(filePath, getShellOutputDir(this.config.getTargetDir()))
+    ) {
       return `File path must be within the root directory (${this.config.getTargetDir()}): ${filePath}`;
     }
     if (params.offset !== undefined && params.offset < 0) {
@@ -157,9 +166,12 @@ export class ReadFileTool extends BaseTool<ReadFileToolParams, ToolResult> {
       path.extname(params.absolute_path),
     );
 
+    const warning = getAttachmentWarning(this.config, result.llmContent);
     return {
       llmContent: result.llmContent,
-      returnDisplay: result.returnDisplay,
+      returnDisplay: warning
+        ? `${result.returnDisplay}\n${warning}`
+        : result.returnDisplay,
     };
   }
 }
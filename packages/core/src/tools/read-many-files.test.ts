@@ -13,6 +13,7 @@ import path from 'path';
 import fs from 'fs'; // Actual fs for setup
 import os from 'os';
 import { Config } from '../config/config.js';
+import { AuthType } from '../core/contentGenerator.js';
 
 vi.mock('mime-types', () => {
   const lookup = (filename: string) => {
@@ -60,6 +61,11 @@ describe('ReadManyFilesTool', () => {
       getFileService: () => fileService,
       getFileFilteringRespectGitIgnore: () => true,
       getTargetDir: () => tempRootDir,
+      getContentGeneratorConfig: () => ({
+        model: 'gemini-2.5-pro',
+        authType: AuthType.USE_GEMINI,
+      }),
+      getModel: () => 'gemini-2.5-pro',
     } as Partial<Config> as Config;
 
     tool = new ReadManyFilesTool(mockConfig);
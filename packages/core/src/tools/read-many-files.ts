@@ -22,6 +22,7 @@ import {
   recordFileOperationMetric,
   FileOperation,
 } from '../telemetry/metrics.js';
+import { getAttachmentWarning } from '../utils/attachments.js';
 
 /**
  * Parameters for the ReadManyFilesTool.
@@ -444,6 +445,11 @@ Use this tool when the user's query implies needing the content of several files
       displayMessage += `No files were read and concatenated based on the criteria.\n`;
     }
 
+    const attachmentWarning = getAttachmentWarning(this.config, contentParts);
+    if (attachmentWarning) {
+      displayMessage += `\n**Warning:** ${attachmentWarning}\n`;
+    }
+
     if (contentParts.length === 0) {
       contentParts.push(
         'No files matching the criteria were found or all were skipped.',
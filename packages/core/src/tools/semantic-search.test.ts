@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { SemanticSearchTool } from './semantic-search.js';
+import { Config } from '../config/config.js';
+import { FileDiscoveryService } from '../services/fileDiscoveryService.js';
+
+describe('SemanticSearchTool', () => {
+  let rootDir: string;
+  let tempDir: string;
+  let generateEmbedding: ReturnType<typeof vi.fn>;
+  let tool: SemanticSearchTool;
+  const signal = new AbortController().signal;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-search-'));
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-search-tmp-'));
+    fs.mkdirSync(path.join(rootDir, 'src'));
+    fs.writeFileSync(
+      path.join(rootDir, 'src', 'retry.ts'),
+      'export async function retryWithBackoff() {}\n',
+    );
+    fs.writeFileSync(path.join(rootDir, 'README.md'), '# Project\n');
+    // Texts about retries point one way, everything else the other.
+    generateEmbedding = vi.fn(async (texts: string[]) =>
+      texts.map((text) => (/retr/i.test(text) ? [1, 0] : [0, 1])),
+    );
+    const config = {
+      getTargetDir: () => rootDir,
+      getProjectTempDir: () => tempDir,
+      getEmbeddingModel: () => 'nomic-embed-text',
+      getFileService: () => new FileDiscoveryService(rootDir),
+      getGeminiClient: () => ({ generateEmbedding }),
+    } as unknown as Config;
+    tool = new SemanticSearchTool(config);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it('should validate the query, limit and path', () => {
+    expect(tool.validateToolParams({ query: ' ' })).toBe(
+      "The 'query' parameter cannot be empty.",
+    );
+    expect(tool.validateToolParams({ query: 'x', limit: 0 })).toBe(
+      "The 'limit' parameter must be a whole number from 1 to 30.",
+    );
+    expect(tool.validateToolParams({ query: 'x', path: '/' })).toContain(
+      "resolves outside the tool's root directory",
+    );
+    expect(tool.validateToolParams({ query: 'x', path: 'src' })).toBeNull();
+  });
+
+  it('should return ranked snippets with paths and line ranges', async () => {
+    const result = await tool.execute(
+      { query: 'where are retries handled', limit: 1 },
+      signal,
+    );
+
+    expect(result.llmContent).toBe(
+      `Found 1 snippet(s) for "where are retries handled", most relevant first (embedded 2 new or changed file(s)):\n---\nFile: ${path.join('src', 'retry.ts')} (lines 1-2, score 1.00)\nexport async function retryWithBackoff() {}\n\n---`,
+    );
+    expect(result.returnDisplay).toBe('Found 1 snippet(s)');
+    expect(
+      fs.existsSync(path.join(tempDir, 'semantic-index', 'index.json')),
+    ).toBe(true);
+  });
+
+  it('should explain how to get the embedding model when embedding fails', async () => {
+    generateEmbedding.mockRejectedValue(
+      new Error('model "nomic-embed-text" not found'),
+    );
+
+    const result = await tool.execute({ query: 'retries' }, signal);
+
+    expect(result.llmContent).toContain(
+      'Error during semantic search with embedding model "nomic-embed-text"',
+    );
+    expect(result.llmContent).toContain('ollama pull nomic-embed-text');
+    expect(result.returnDisplay).toBe(
+      'Error: model "nomic-embed-text" not found',
+    );
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Type } from '@google/genai';
+import { BaseTool, ToolResult } from './tools.js';
+import { SchemaValidator } from '../utils/schemaValidator.js';
+import { makeRelative, shortenPath } from '../utils/paths.js';
+import { isWithinRoot } from '../utils/fileUtils.js';
+import { getErrorMessage } from '../utils/errors.js';
+import { Config } from '../config/config.js';
+import { GrepTool } from './grep.js';
+import {
+  MAX_INDEXED_FILES,
+  SemanticIndexService,
+} from '../services/semanticIndexService.js';
+
+const DEFAULT_LIMIT = 8;
+const MAX_LIMIT = 30;
+
+/**
+ * Parameters for the SemanticSearchTool
+ */
+export interface SemanticSearchToolParams {
+  /**
+   * What to look for, described in natural language or as code
+   */
+  query: string;
+
+  /**
+   * The directory to search in (optional, defaults to the root directory)
+   */
+  path?: string;
+
+  /**
+   * Maximum number of snippets to return (optional)
+   */
+  limit?: number;
+}
+
+/**
+ * Finds code by meaning using embeddings of the project's files, kept in an
+ * index under the project's temp directory.
+ */
+export class SemanticSearchTool extends BaseTool<
+  SemanticSearchToolParams,
+  ToolResult
+> {
+  static readonly Name = 'semantic_search';
+
+  private index: SemanticIndexService | undefined;
+
+  constructor(private readonly config: Config) {
+    super(
+      SemanticSearchTool.Name,
+      'SemanticSearch',
+      `Finds code and text by meaning rather than exact wording, e.g. "where are retries with backoff handled" or "parse the settings file". Returns the most relevant snippets with their file paths and line ranges, best first. Use it to locate code when you don't know the names involved; use '${GrepTool.Name}' for exact strings or regular expressions. The first search in a project embeds all its files, which can take a while; later searches only embed files that changed.`,
+      {
+        properties: {
+          query: {
+            description:
+              'What to look for, described in natural language or as a piece of code.',
+            type: Type.STRING,
+          },
+          path: {
+            description:
+              'Optional: The absolute path to the directory to search within. If omitted, searches the whole project.',
+            type: Type.STRING,
+          },
+          limit: {
+            description: `Optional: Maximum number of snippets to return. Defaults to ${DEFAULT_LIMIT}, at most ${MAX_LIMIT}.`,
+            type: Type.NUMBER,
+          },
+        },
+        required: ['query'],
+        type: Type.OBJECT,
+      },
+    );
+  }
+
+  validateToolParams(params: SemanticSearchToolParams): string | null {
+    const errors = SchemaValidator.validate(this.schema.parameters, params);
+    if (errors) {
+      return errors;
+    }
+    if (params.query.trim() === '') {
+      return "The 'query' parameter cannot be empty.";
+    }
+    if (
+      params.limit !== undefined &&
+      (!Number.isInteger(params.limit) ||
+        params.limit < 1 ||
+        params.limit > MAX_LIMIT)
+    ) {
+      return `The 'limit' parameter must be a whole number from 1 to ${MAX_LIMIT}.`;
+    }
+
+    const searchDir = path.resolve(
+      this.config.getTargetDir(),
+      params.path || '.',
+    );
+    if (!isWithinRoot(searchDir, this.config.getTargetDir())) {
+      return `Search path ("${searchDir}") resolves outside the tool's root directory ("${this.config.getTargetDir()}").`;
+    }
+    try {
+      if (!fs.statSync(searchDir).isDirectory()) {
+        return `Search path is not a directory: ${searchDir}`;
+      }
+    } catch {
+      return `Search path does not exist ${searchDir}`;
+    }
+    return null;
+  }
+
+  getDescription(params: SemanticSearchToolParams): string {
+    let description = `"${params.query}"`;
+    if (params.path) {
+      const searchDir = path.resolve(this.config.getTargetDir(), params.path);
+      description += ` within ${shortenPath(makeRelative(searchDir, this.config.getTargetDir()))}`;
+    }
+    return description;
+  }
+
+  async execute(
+    params: SemanticSearchToolParams,
+    signal: AbortSignal,
+  ): Promise<ToolResult> {
+    const validationError = this.validateToolParams(params);
+    if (validationError) {
+      return {
+        llmContent: `Error: Invalid parameters provided. Reason: ${validationError}`,
+        returnDisplay: validationError,
+      };
+    }
+
+    const index = this.getIndex();
+    const directory = path.relative(
+      this.config.getTargetDir(),
+      path.resolve(this.config.getTargetDir(), params.path || '.'),
+    );
+    try {
+      const update = await index.update(signal);
+      if (signal.aborted) {
+        return {
+          llmContent:
+            'Semantic search was cancelled while indexing. The files embedded so far are kept for the next search.',
+          returnDisplay: 'Cancelled while indexing.',
+        };
+      }
+      const matches = await index.search(params.query, {
+        limit: params.limit ?? DEFAULT_LIMIT,
+        directory,
+      });
+
+      let notes = '';
+      if (update.embeddedFiles > 0) {
+        notes += ` (embedded ${update.embeddedFiles} new or changed file(s))`;
+      }
+      if (update.skippedFiles > 0) {
+        notes += `. ${update.skippedFiles} file(s) beyond the first ${MAX_INDEXED_FILES} were not indexed; use ${GrepTool.Name} to search them`;
+      }
+      if (matches.length === 0) {
+        return {
+          llmContent: `No indexed content found for "${params.query}"${notes}.`,
+          returnDisplay: 'No matches found',
+        };
+      }
+
+      let llmContent = `Found ${matches.length} snippet(s) for "${params.query}", most relevant first${notes}:\n---\n`;
+      for (const match of matches) {
+        llmContent += `File: ${match.filePath} (lines ${match.startLine}-${match.endLine}, score ${match.score.toFixed(2)})\n`;
+        llmContent += `${match.text}\n---\n`;
+      }
+      return {
+        llmContent: llmContent.trim(),
+        returnDisplay: `Found ${matches.length} snippet(s)`,
+      };
+    } catch (error) {
+      const errorMessage = getErrorMessage(error);
+      return {
+        llmContent: `Error during semantic search with embedding model "${index.model}": ${errorMessage}. Check that the model is available from the provider (on Ollama: ollama pull ${index.model}), or set "embeddingModel" in settings.`,
+        returnDisplay: `Error: ${errorMessage}`,
+      };
+    }
+  }
+
+  /** The index for the current embedding model, which can change with auth. */
+  private getIndex(): SemanticIndexService {
+    const model = this.config.getEmbeddingModel();
+    if (this.index?.model !== model) {
+      this.index = new SemanticIndexService({
+        rootDir: this.config.getTargetDir(),
+        indexDir: path.join(this.config.getProjectTempDir(), 'semantic-index'),
+        model,
+        fileService: this.config.getFileService(),
+        embed: (texts) =>
+          this.config.getGeminiClient().generateEmbedding(texts),
+      });
+    }
+    return this.index;
+  }
+}
@@ -4,17 +4,28 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import { expect, describe, it, vi, beforeEach } from 'vitest';
+import { expect, describe, it, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
 import { ShellTool } from './shell.js';
 import { Config } from '../config/config.js';
 import * as summarizer from '../utils/summarizer.js';
 import { GeminiClient } from '../core/client.js';
+import { getShellOutputDir } from '../utils/paths.js';
+import { modelCapabilityRegistry } from '../core/modelCapabilities.js';
+import { ShellPolicySettings } from '../utils/shellPolicy.js';
+import {
+  ToolConfirmationOutcome,
+  ToolExecuteConfirmationDetails,
+} from './tools.js';
 
 describe('ShellTool', () => {
   it('should allow a command if no restrictions are provided', async () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => undefined,
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('ls -l');
@@ -25,6 +36,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool(ls -l)'],
       getExcludeTools: () => undefined,
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('ls -l');
@@ -35,6 +48,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool(ls -l)'],
       getExcludeTools: () => undefined,
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('rm -rf /');
@@ -48,6 +63,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('rm -rf /');
@@ -61,6 +78,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('ls -l');
@@ -71,6 +90,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool(rm -rf /)'],
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('rm -rf /');
@@ -84,6 +105,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('any command');
@@ -94,6 +117,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => [],
       getExcludeTools: () => ['ShellTool'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('any command');
@@ -107,6 +132,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(ls -l)'],
       getExcludeTools: () => undefined,
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('ls -l');
@@ -117,6 +144,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => ['run_shell_command(rm -rf /)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('rm -rf /');
@@ -130,6 +159,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => [],
       getExcludeTools: () => ['run_shell_command'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('any command');
@@ -143,6 +174,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command()'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('any command');
@@ -156,6 +189,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool()'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('any command');
@@ -169,6 +204,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed(' rm  -rf  / ');
@@ -182,6 +219,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool', 'ShellTool(ls)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('any command');
@@ -192,6 +231,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool'],
       getExcludeTools: () => ['ShellTool(rm -rf /)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('rm -rf /');
@@ -205,6 +246,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['ShellTool(gh issue edit)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed(
@@ -217,6 +260,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(gh issue edit)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed(
@@ -229,6 +274,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(gh issue edit)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('gh issue edit&&rm -rf /');
@@ -242,6 +289,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(gh issue edit)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('gh issue');
@@ -255,6 +304,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => [],
       getExcludeTools: () => ['run_shell_command(gh issue edit)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('gh issue');
@@ -265,6 +316,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(gh issue list)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('gh issue list | rm -rf /');
@@ -278,6 +331,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(gh issue list)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('gh issue list; rm -rf /');
@@ -291,6 +346,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(echo "hello")'],
       getExcludeTools: () => ['run_shell_command(rm)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('echo "hello" && rm -rf /');
@@ -304,6 +361,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(git push)'],
       getExcludeTools: () => ['run_shell_command(git)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('git push');
@@ -317,6 +376,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(echo)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('ECHO "hello"');
@@ -330,6 +391,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(ls -l)'],
       getExcludeTools: () => ['run_shell_command(rm)'],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('ls -l  ;  rm -rf /');
@@ -346,39 +409,49 @@ describe('ShellTool', () => {
         'run_shell_command(ls -l)',
       ],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('echo "hello" && ls -l');
     expect(result.allowed).toBe(true);
   });
 
-  it('should allow a command with command substitution using backticks', async () => {
+  it('should check commands in backtick command substitutions', async () => {
     const config = {
       getCoreTools: () => ['run_shell_command(echo)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('echo `rm -rf /`');
-    expect(result.allowed).toBe(true);
+    expect(result.allowed).toBe(false);
+    expect(result.reason).toBe(
+      "Command 'rm -rf /' is not in the allowed commands list",
+    );
   });
 
-  it('should block a command with command substitution using $()', async () => {
+  it('should check commands in $() command substitutions', async () => {
     const config = {
       getCoreTools: () => ['run_shell_command(echo)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
-    const result = shellTool.isCommandAllowed('echo $(rm -rf /)');
-    expect(result.allowed).toBe(false);
-    expect(result.reason).toBe(
-      'Command substitution using $() is not allowed for security reasons',
-    );
+    expect(shellTool.isCommandAllowed('echo $(date)').allowed).toBe(false);
+    expect(
+      shellTool.isCommandAllowed('echo "$(echo nested)" > out.txt').allowed,
+    ).toBe(true);
   });
 
   it('should allow a command with I/O redirection', async () => {
     const config = {
       getCoreTools: () => ['run_shell_command(echo)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('echo "hello" > file.txt');
@@ -389,6 +462,8 @@ describe('ShellTool', () => {
     const config = {
       getCoreTools: () => ['run_shell_command(gh issue list)'],
       getExcludeTools: () => [],
+      getShellPolicy: () => undefined,
+      getTargetDir: () => '/project',
     } as unknown as Config;
     const shellTool = new ShellTool(config);
     const result = shellTool.isCommandAllowed('gh issue list || rm -rf /');
@@ -407,9 +482,12 @@ describe('ShellTool Bug Reproduction', () => {
     config = {
       getCoreTools: () => undefined,
       getExcludeTools: () => undefined,
+      getShellPolicy: () => undefined,
       getDebugMode: () => false,
       getGeminiClient: () => ({}) as GeminiClient,
       getTargetDir: () => '.',
+      getShellTimeoutMs: () => 60000,
+      getModel: () => 'test-model',
     } as unknown as Config;
     shellTool = new ShellTool(config);
   });
@@ -430,3 +508,184 @@ describe('ShellTool Bug Reproduction', () => {
     expect(summarizeSpy).toHaveBeenCalled();
   });
 });
+
+describe.skipIf(os.platform() === 'win32')('ShellTool limits', () => {
+  let shellTool: ShellTool;
+  let targetDir: string;
+  const abortSignal = new AbortController().signal;
+
+  beforeEach(() => {
+    targetDir = fs.mkdtempSync(`${os.tmpdir()}/shell-test-`);
+    const config = {
+      getCoreTools: () => undefined,
+      getExcludeTools: () => undefined,
+      getShellPolicy: () => undefined,
+      getDebugMode: () => false,
+      getGeminiClient: () => ({}) as GeminiClient,
+      getTargetDir: () => targetDir,
+      getShellTimeoutMs: () => 60000,
+      // a 32k context gives an output budget of about 13 KB
+      getModel: () => 'qwen3:32b-test',
+    } as unknown as Config;
+    shellTool = new ShellTool(config);
+    modelCapabilityRegistry.setOverrides({
+      'qwen3:32b-test': { contextLength: 32768 },
+    });
+    vi.spyOn(summarizer, 'summarizeToolOutput').mockImplementation(
+      async (text) => text,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    modelCapabilityRegistry.setOverrides({});
+    fs.rmSync(targetDir, { recursive: true, force: true });
+    fs.rmSync(getShellOutputDir(targetDir), { recursive: true, force: true });
+  });
+
+  it('should kill the process group when the command times out', async () => {
+    const start = Date.now();
+    const result = await shellTool.execute(
+      { command: 'echo started; sleep 30 & sleep 30', timeout_ms: 300 },
+      abortSignal,
+    );
+
+    expect(Date.now() - start).toBeLessThan(5000);
+    expect(result.llmContent).toMatch(
+      /^Command timed out after 300ms and was killed together with its process group\.\nCommand: /,
+    );
+    expect(result.returnDisplay).toBe(
+      'started\n\nCommand timed out after 300ms.',
+    );
+  });
+
+  it('should reject timeouts out of range', () => {
+    expect(shellTool.validateToolParams({ command: 'ls', timeout_ms: 0 })).toBe(
+      'timeout_ms must be greater than 0 and at most 3600000.',
+    );
+  });
+
+  it('should keep the start and end of long output and save all of it', async () => {
+    const result = await shellTool.execute(
+      { command: 'seq 1 20000' },
+      abortSignal,
+    );
+
+    const llmContent = result.llmContent as string;
+    expect(llmContent).toContain('Stdout: 1\n2\n3\n');
+    expect(llmContent).toContain('19999\n20000');
+    expect(llmContent).not.toContain('\n10000\n');
+    expect(llmContent).toMatch(/\.\.\. \[\d+ lines of stdout omitted, see /);
+    expect(llmContent.length).toBeLessThan(16 * 1024);
+
+    const fullOutputPath = /The full output is in (\S+);/.exec(llmContent)![1];
+    expect(fullOutputPath.startsWith(getShellOutputDir(targetDir))).toBe(true);
+    expect(fs.readFileSync(fullOutputPath, 'utf8').split('\n')).toHaveLength(
+      20001,
+    );
+  });
+});
+
+describe('ShellTool shell policy', () => {
+  const abortSignal = new AbortController().signal;
+  const createShellTool = (shellPolicy: ShellPolicySettings) =>
+    new ShellTool({
+      getCoreTools: () => undefined,
+      getExcludeTools: () => undefined,
+      getShellPolicy: () => shellPolicy,
+      getTargetDir: () => '/project',
+    } as unknown as Config);
+
+  it('should run allowed commands without confirmation', async () => {
+    const shellTool = createShellTool({
+      rules: [{ decision: 'allow', command: 'npm', args: ['test'] }],
+    });
+
+    expect(
+      await shellTool.shouldConfirmExecute(
+        { command: 'npm test' },
+        abortSignal,
+      ),
+    ).toBe(false);
+    expect(
+      await shellTool.shouldConfirmExecute(
+        { command: 'npm publish' },
+        abortSignal,
+      ),
+    ).toMatchObject({ type: 'exec', rootCommand: 'npm', reason: undefined });
+  });
+
+  it('should explain why it asks, even for commands allowed always', async () => {
+    const shellTool = createShellTool({
+      rules: [
+        {
+          decision: 'ask',
+          command: 'git',
+          args: ['push'],
+          reason: 'Pushes are visible to others.',
+        },
+      ],
+    });
+    const details = (await shellTool.shouldConfirmExecute(
+      { command: 'git status' },
+      abortSignal,
+    )) as ToolExecuteConfirmationDetails;
+    await details.onConfirm(ToolConfirmationOutcome.ProceedAlways);
+
+    expect(
+      await shellTool.shouldConfirmExecute(
+        { command: 'git status' },
+        abortSignal,
+      ),
+    ).toBe(false);
+    expect(
+      await shellTool.shouldConfirmExecute(
+        { command: 'git push' },
+        abortSignal,
+      ),
+    ).toMatchObject({
+      reason:
+        "Command 'git push' needs confirmation because it runs git and passes push. Pushes are visible to others.",
+    });
+  });
+
+  it('should ask again unless every command was allowed always', async () => {
+    const shellTool = createShellTool({});
+    const details = (await shellTool.shouldConfirmExecute(
+      { command: 'git status' },
+      abortSignal,
+    )) as ToolExecuteConfirmationDetails;
+    await details.onConfirm(ToolConfirmationOutcome.ProceedAlways);
+
+    expect(
+      await shellTool.shouldConfirmExecute(
+        { command: 'git status && git log' },
+        abortSignal,
+      ),
+    ).toBe(false);
+    expect(
+      await shellTool.shouldConfirmExecute(
+        { command: 'git status; rm -rf x' },
+        abortSignal,
+      ),
+    ).toMatchObject({ type: 'exec', rootCommand: 'git', reason: undefined });
+    expect(
+      await shellTool.shouldConfirmExecute(
+        { command: 'git log $(rm -rf x)' },
+        abortSignal,
+      ),
+    ).toMatchObject({ type: 'exec' });
+  });
+
+  it('should reject denied commands with the reason', () => {
+    const shellTool = createShellTool({
+      rules: [{ decision: 'deny', redirect: '.env' }],
+    });
+
+    expect(
+      shellTool.validateToolParams({ command: 'echo KEY=1 >> .env' }),
+    ).toBe(
+      "Command 'echo KEY=1 >> .env' is blocked by the shell policy because it redirects to .env.",
+    );
+  });
+});
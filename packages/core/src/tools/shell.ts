@@ -20,16 +20,35 @@ import { Type } from '@google/genai';
 import { SchemaValidator } from '../utils/schemaValidator.js';
 import { getErrorMessage } from '../utils/errors.js';
 import stripAnsi from 'strip-ansi';
+import { getShellOutputDir } from '../utils/paths.js';
+import {
+  getOutputBudgetBytes,
+  truncateHeadTail,
+} from '../utils/outputTruncation.js';
+import {
+  DEFAULT_SHELL_POLICY_RULES,
+  ShellPolicy,
+  ShellPolicyResult,
+  evaluateShellPolicy,
+  getCommandNames,
+  splitCommandPrefix,
+} from '../utils/shellPolicy.js';
 
 export interface ShellToolParams {
   command: string;
   description?: string;
   directory?: string;
+  timeout_ms?: number;
 }
 import { spawn } from 'child_process';
 import { summarizeToolOutput } from '../utils/summarizer.js';
 
 const OUTPUT_UPDATE_INTERVAL_MS = 1000;
+/** Time a command may run when neither the model nor the settings say. */
+export const DEFAULT_SHELL_TIMEOUT_MS = 5 * 60 * 1000;
+const MAX_SHELL_TIMEOUT_MS = 60 * 60 * 1000;
+/** Share of the output budget stderr may use when both streams are long. */
+const STDERR_BUDGET_SHARE = 1 / 3;
 
 export class ShellTool extends BaseTool<ShellToolParams, ToolResult> {
   static Name: string = 'run_shell_command';
@@ -51,7 +70,9 @@ Error: Error or \`(none)\` if no error was reported for the subprocess.
 Exit Code: Exit code or \`(none)\` if terminated by signal.
 Signal: Signal number or \`(none)\` if no signal was received.
 Background PIDs: List of background processes started or \`(none)\`.
-Process Group PGID: Process group started or \`(none)\``,
+Process Group PGID: Process group started or \`(none)\`
+
+Command is killed together with its process group if it runs longer than \`timeout_ms\`. Long stdout and stderr are cut in the middle; the full output is then saved to a file whose path is given, which can be paged through with read_file using offset and limit.`,
       {
         type: Type.OBJECT,
         properties: {
@@ -69,6 +90,10 @@ Process Group PGID: Process group started or \`(none)\``,
             description:
               '(OPTIONAL) Directory to run the command in, if not the project root directory. Must be relative to the project root directory and must already exist.',
           },
+          timeout_ms: {
+            type: Type.NUMBER,
+            description: `(OPTIONAL) Milliseconds the command may run before it is killed, at most ${MAX_SHELL_TIMEOUT_MS}. Defaults to the configured shell timeout (${DEFAULT_SHELL_TIMEOUT_MS / 60000} minutes unless changed). Raise it for long builds and test suites; use start_background_job for servers and watchers.`,
+          },
         },
         required: ['command'],
       },
@@ -110,53 +135,43 @@ Process Group PGID: Process group started or \`(none)\``,
   }
 
   /**
-   * Determines whether a given shell command is allowed to execute based on
-   * the tool's configuration including allowlists and blocklists.
-   *
-   * @param command The shell command string to validate
-   * @returns An object with 'allowed' boolean and optional 'reason' string if not allowed
+   * Whether the user allowed every command `command` runs for the session,
+   * `whitelist` holding their names. Never when some are only known as it
+   * runs.
    */
-  isCommandAllowed(command: string): { allowed: boolean; reason?: string } {
-    // 0. Disallow command substitution
-    if (command.includes('$(')) {
-      return {
-        allowed: false,
-        reason:
-          'Command substitution using $() is not allowed for security reasons',
-      };
-    }
+  isWhitelisted(command: string, whitelist: ReadonlySet<string>): boolean {
+    const names = getCommandNames(command);
+    return !!names?.length && names.every((name) => whitelist.has(name));
+  }
 
+  /**
+   * Decides whether `command` may run in `directory` (relative to the project
+   * root) under the shell policy from the settings, together with the shell
+   * commands allowed and excluded in the tool configuration.
+   *
+   * @param command The shell command string to check
+   * @param directory The directory the command runs in, if not the root
+   * @returns The decision and, unless the command is simply allowed or left
+   *   to the user, why
+   */
+  evaluateCommand(command: string, directory?: string): ShellPolicyResult {
     const SHELL_TOOL_NAMES = [ShellTool.name, ShellTool.Name];
 
-    const normalize = (cmd: string): string => cmd.trim().replace(/\s+/g, ' ');
-
-    /**
-     * Checks if a command string starts with a given prefix, ensuring it's a
-     * whole word match (i.e., followed by a space or it's an exact match).
-     * e.g., `isPrefixedBy('npm install', 'npm')` -> true
-     * e.g., `isPrefixedBy('npm', 'npm')` -> true
-     * e.g., `isPrefixedBy('npminstall', 'npm')` -> false
-     */
-    const isPrefixedBy = (cmd: string, prefix: string): boolean => {
-      if (!cmd.startsWith(prefix)) {
-        return false;
-      }
-      return cmd.length === prefix.length || cmd[prefix.length] === ' ';
-    };
-
     /**
-     * Extracts and normalizes shell commands from a list of tool strings.
+     * Extracts the shell commands from a list of tool strings.
      * e.g., 'ShellTool("ls -l")' becomes 'ls -l'
      */
     const extractCommands = (tools: string[]): string[] =>
       tools.flatMap((tool) => {
         for (const toolName of SHELL_TOOL_NAMES) {
           if (tool.startsWith(`${toolName}(`) && tool.endsWith(')')) {
-            return [normalize(tool.slice(toolName.length + 1, -1))];
+            return [tool.slice(toolName.length + 1, -1).trim()];
           }
         }
         return [];
       });
+    const toPrefixes = (commands: string[]): string[][] =>
+      commands.map(splitCommandPrefix).filter((prefix) => prefix.length > 0);
 
     const coreTools = this.config.getCoreTools() || [];
     const excludeTools = this.config.getExcludeTools() || [];
@@ -164,58 +179,58 @@ Process Group PGID: Process group started or \`(none)\``,
     // 1. Check if the shell tool is globally disabled.
     if (SHELL_TOOL_NAMES.some((name) => excludeTools.includes(name))) {
       return {
-        allowed: false,
+        decision: 'deny',
         reason: 'Shell tool is globally disabled in configuration',
       };
     }
 
-    const blockedCommands = new Set(extractCommands(excludeTools));
-    const allowedCommands = new Set(extractCommands(coreTools));
-
-    const hasSpecificAllowedCommands = allowedCommands.size > 0;
-    const isWildcardAllowed = SHELL_TOOL_NAMES.some((name) =>
-      coreTools.includes(name),
+    // 2. Commands listed in coreTools are the only ones allowed, unless the
+    // shell tool itself is listed too.
+    const allowedCommands = extractCommands(coreTools);
+    const isStrictAllowlist =
+      allowedCommands.length > 0 &&
+      !SHELL_TOOL_NAMES.some((name) => coreTools.includes(name));
+
+    const settings = this.config.getShellPolicy() ?? {};
+    const policy: ShellPolicy = {
+      rules: [...(settings.rules ?? []), ...DEFAULT_SHELL_POLICY_RULES],
+      defaultDecision: settings.default ?? 'ask',
+      blockedCommands: toPrefixes(extractCommands(excludeTools)),
+      allowedCommands: isStrictAllowlist
+        ? toPrefixes(allowedCommands)
+        : undefined,
+      rootDir: this.config.getTargetDir(),
+    };
+    return evaluateShellPolicy(
+      command,
+      path.resolve(this.config.getTargetDir(), directory || ''),
+      policy,
     );
+  }
 
-    const commandsToValidate = command.split(/&&|\|\||\||;/).map(normalize);
-
-    const blockedCommandsArr = [...blockedCommands];
-
-    for (const cmd of commandsToValidate) {
-      // 2. Check if the command is on the blocklist.
-      const isBlocked = blockedCommandsArr.some((blocked) =>
-        isPrefixedBy(cmd, blocked),
-      );
-      if (isBlocked) {
-        return {
-          allowed: false,
-          reason: `Command '${cmd}' is blocked by configuration`,
-        };
-      }
-
-      // 3. If in strict allow-list mode, check if the command is permitted.
-      const isStrictAllowlist =
-        hasSpecificAllowedCommands && !isWildcardAllowed;
-      const allowedCommandsArr = [...allowedCommands];
-      if (isStrictAllowlist) {
-        const isAllowed = allowedCommandsArr.some((allowed) =>
-          isPrefixedBy(cmd, allowed),
-        );
-        if (!isAllowed) {
-          return {
-            allowed: false,
-            reason: `Command '${cmd}' is not in the allowed commands list`,
-          };
-        }
-      }
-    }
-
-    // 4. If all checks pass, the command is allowed.
-    return { allowed: true };
+  /**
+   * Determines whether a given shell command is allowed to execute based on
+   * the shell policy and the tool's allowlists and blocklists.
+   *
+   * @param command The shell command string to validate
+   * @param directory The directory the command runs in, if not the root
+   * @returns An object with 'allowed' boolean and optional 'reason' string if not allowed
+   */
+  isCommandAllowed(
+    command: string,
+    directory?: string,
+  ): { allowed: boolean; reason?: string } {
+    const result = this.evaluateCommand(command, directory);
+    return result.decision === 'deny'
+      ? { allowed: false, reason: result.reason }
+      : { allowed: true };
   }
 
   validateToolParams(params: ShellToolParams): string | null {
-    const commandCheck = this.isCommandAllowed(params.command);
+    const commandCheck = this.isCommandAllowed(
+      params.command,
+      params.directory,
+    );
     if (!commandCheck.allowed) {
       if (!commandCheck.reason) {
         console.error(
@@ -235,6 +250,12 @@ Process Group PGID: Process group started or \`(none)\``,
     if (!this.getCommandRoot(params.command)) {
       return 'Could not identify command root to obtain permission from user.';
     }
+    if (
+      params.timeout_ms !== undefined &&
+      (params.timeout_ms <= 0 || params.timeout_ms > MAX_SHELL_TIMEOUT_MS)
+    ) {
+      return `timeout_ms must be greater than 0 and at most ${MAX_SHELL_TIMEOUT_MS}.`;
+    }
     if (params.directory) {
       if (path.isAbsolute(params.directory)) {
         return 'Directory cannot be absolute. Must be relative to the project root directory.';
@@ -257,8 +278,13 @@ Process Group PGID: Process group started or \`(none)\``,
     if (this.validateToolParams(params)) {
       return false; // skip confirmation, execute call will fail immediately
     }
+    const policy = this.evaluateCommand(params.command, params.directory);
+    if (policy.decision === 'allow') {
+      return false; // allowed by the shell policy
+    }
     const rootCommand = this.getCommandRoot(params.command)!; // must be non-empty string post-validation
-    if (this.whitelist.has(rootCommand)) {
+    // a policy rule that asks overrides earlier approvals
+    if (!policy.reason && this.isWhitelisted(params.command, this.whitelist)) {
       return false; // already approved and whitelisted
     }
     const confirmationDetails: ToolExecuteConfirmationDetails = {
@@ -266,6 +292,7 @@ Process Group PGID: Process group started or \`(none)\``,
       title: 'Confirm Shell Command',
       command: params.command,
       rootCommand,
+      reason: policy.reason,
       onConfirm: async (outcome: ToolConfirmationOutcome) => {
         if (outcome === ToolConfirmationOutcome.ProceedAlways) {
           this.whitelist.add(rootCommand);
@@ -382,7 +409,8 @@ Process Group PGID: Process group started or \`(none)\``,
     };
     shell.on('exit', exitHandler);
 
-    const abortHandler = async () => {
+    // kills the process group of the command on cancellation or timeout
+    const killProcessGroup = async () => {
       if (shell.pid && !exited) {
         if (os.platform() === 'win32') {
           // For Windows, use taskkill to kill the process tree
@@ -409,13 +437,21 @@ Process Group PGID: Process group started or \`(none)\``,
         }
       }
     };
-    abortSignal.addEventListener('abort', abortHandler);
+    abortSignal.addEventListener('abort', killProcessGroup);
+
+    const timeoutMs = params.timeout_ms ?? this.config.getShellTimeoutMs();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killProcessGroup();
+    }, timeoutMs);
 
     // wait for the shell to exit
     try {
       await new Promise((resolve) => shell.on('exit', resolve));
     } finally {
-      abortSignal.removeEventListener('abort', abortHandler);
+      clearTimeout(timer);
+      abortSignal.removeEventListener('abort', killProcessGroup);
     }
 
     // parse pids (pgrep output) from temporary file and remove it
@@ -438,13 +474,14 @@ Process Group PGID: Process group started or \`(none)\``,
         }
         fs.unlinkSync(tempFilePath);
       } else {
-        if (!abortSignal.aborted) {
+        if (!abortSignal.aborted && !timedOut) {
           console.error('missing pgrep output');
         }
       }
     }
 
     let llmContent = '';
+    let fullOutputPath: string | undefined;
     if (abortSignal.aborted) {
       llmContent = 'Command was cancelled by user before it could complete.';
       if (output.trim()) {
@@ -453,11 +490,16 @@ Process Group PGID: Process group started or \`(none)\``,
         llmContent += ' There was no output before it was cancelled.';
       }
     } else {
-      llmContent = [
+      const truncated = this.truncateOutput(stdout, stderr, output);
+      fullOutputPath = truncated.fullOutputPath;
+      if (timedOut) {
+        llmContent = `Command timed out after ${timeoutMs}ms and was killed together with its process group.\n`;
+      }
+      llmContent += [
         `Command: ${params.command}`,
         `Directory: ${params.directory || '(root)'}`,
-        `Stdout: ${stdout || '(empty)'}`,
-        `Stderr: ${stderr || '(empty)'}`,
+        `Stdout: ${truncated.stdout || '(empty)'}`,
+        `Stderr: ${truncated.stderr || '(empty)'}`,
         `Error: ${error ?? '(none)'}`,
         `Exit Code: ${code ?? '(none)'}`,
         `Signal: ${processSignal ?? '(none)'}`,
@@ -476,6 +518,8 @@ Process Group PGID: Process group started or \`(none)\``,
         // Output is empty, let's provide a reason if the command failed or was cancelled
         if (abortSignal.aborted) {
           returnDisplayMessage = 'Command cancelled by user.';
+        } else if (timedOut) {
+          returnDisplayMessage = `Command timed out after ${timeoutMs}ms.`;
         } else if (processSignal) {
           returnDisplayMessage = `Command terminated by signal: ${processSignal}`;
         } else if (error) {
@@ -487,17 +531,69 @@ Process Group PGID: Process group started or \`(none)\``,
         // If output is empty and command succeeded (code 0, no error/signal/abort),
         // returnDisplayMessage will remain empty, which is fine.
       }
+      if (timedOut && output.trim()) {
+        returnDisplayMessage += `\nCommand timed out after ${timeoutMs}ms.`;
+      }
     }
 
-    const summary = await summarizeToolOutput(
+    let summary = await summarizeToolOutput(
       llmContent,
       this.config.getGeminiClient(),
       abortSignal,
     );
+    // added after summarizing, so the model always learns where it is
+    if (fullOutputPath) {
+      summary += `\nThe output was too long and was cut in the middle. The full output is in ${fullOutputPath}; page through it with read_file using offset and limit.`;
+    }
 
     return {
       llmContent: summary,
       returnDisplay: returnDisplayMessage,
     };
   }
+
+  /**
+   * Cuts stdout and stderr down to the output budget of the model, keeping
+   * their start and end, and saves the full output to a file the model can
+   * read. Stderr gets at most a third of the budget unless stdout is short.
+   */
+  private truncateOutput(
+    stdout: string,
+    stderr: string,
+    output: string,
+  ): { stdout: string; stderr: string; fullOutputPath?: string } {
+    const budget = getOutputBudgetBytes(this.config.getModel());
+    const stdoutBytes = Buffer.byteLength(stdout);
+    const stderrBytes = Buffer.byteLength(stderr);
+    if (stdoutBytes + stderrBytes <= budget) {
+      return { stdout, stderr };
+    }
+
+    let fullOutputPath: string | undefined;
+    try {
+      const dir = getShellOutputDir(this.config.getTargetDir());
+      fs.mkdirSync(dir, { recursive: true });
+      fullOutputPath = path.join(
+        dir,
+        `shell_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.log`,
+      );
+      fs.writeFileSync(fullOutputPath, output);
+    } catch (e) {
+      console.error(`failed to save full shell output: ${getErrorMessage(e)}`);
+      fullOutputPath = undefined;
+    }
+
+    const stderrBudget = Math.min(
+      stderrBytes,
+      Math.max(Math.floor(budget * STDERR_BUDGET_SHARE), budget - stdoutBytes),
+    );
+    const marker = (stream: string) => (omittedLines: number) =>
+      `... [${omittedLines} lines of ${stream} omitted${fullOutputPath ? `, see ${fullOutputPath}` : ''}] ...`;
+    return {
+      stdout: truncateHeadTail(stdout, budget - stderrBudget, marker('stdout'))
+        .text,
+      stderr: truncateHeadTail(stderr, stderrBudget, marker('stderr')).text,
+      fullOutputPath,
+    };
+  }
 }
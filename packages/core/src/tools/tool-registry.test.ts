@@ -33,10 +33,13 @@ import { spawn } from 'node:child_process';
 
 // Use vi.hoisted to define the mock function so it can be used in the vi.mock factory
 const mockDiscoverMcpTools = vi.hoisted(() => vi.fn());
+const mockRestartMcpServer = vi.hoisted(() => vi.fn());
 
 // Mock ./mcp-client.js to control its behavior within tool-registry tests
 vi.mock('./mcp-client.js', () => ({
   discoverMcpTools: mockDiscoverMcpTools,
+  restartMcpServer: mockRestartMcpServer,
+  populateMcpServerCommand: (mcpServers: object) => mcpServers,
 }));
 
 // Mock node:child_process
@@ -216,6 +219,53 @@ describe('ToolRegistry', () => {
     });
   });
 
+  describe('removeMcpToolsByServer', () => {
+    it('should remove only the tools of the server and notify listeners', () => {
+      const listener = vi.fn();
+      toolRegistry.addChangeListener(listener);
+      toolRegistry.registerTool(
+        new DiscoveredMCPTool(
+          {} as CallableTool,
+          'tracker',
+          'tracker__create_issue',
+          'd',
+          {},
+          'create_issue',
+        ),
+      );
+      toolRegistry.registerTool(new MockTool('regular-tool'));
+
+      toolRegistry.removeMcpToolsByServer('tracker');
+
+      expect(toolRegistry.getAllTools().map((tool) => tool.name)).toEqual([
+        'regular-tool',
+      ]);
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('restartMcpServer', () => {
+    it('should restart a configured MCP server', async () => {
+      const serverConfig = { command: 'tracker-mcp' };
+      vi.mocked(config.getMcpServers).mockReturnValue({
+        tracker: serverConfig,
+      });
+
+      await toolRegistry.restartMcpServer('tracker');
+
+      expect(mockRestartMcpServer).toHaveBeenCalledWith(
+        'tracker',
+        serverConfig,
+        toolRegistry,
+        false,
+        config.getMcpRegistry(),
+      );
+      await expect(toolRegistry.restartMcpServer('other')).rejects.toThrow(
+        "Unknown MCP server 'other'.",
+      );
+    });
+  });
+
   describe('discoverTools', () => {
     it('should sanitize tool parameters during discovery from command', async () => {
       const discoveryCommand = 'my-discovery-command';
@@ -298,6 +348,7 @@ describe('ToolRegistry', () => {
         undefined,
         toolRegistry,
         false,
+        config.getMcpRegistry(),
       );
     });
 
@@ -320,6 +371,7 @@ describe('ToolRegistry', () => {
         undefined,
         toolRegistry,
         false,
+        config.getMcpRegistry(),
       );
     });
   });
@@ -9,7 +9,11 @@ import { Tool, ToolResult, BaseTool } from './tools.js';
 import { Config } from '../config/config.js';
 import { spawn } from 'node:child_process';
 import { StringDecoder } from 'node:string_decoder';
-import { discoverMcpTools } from './mcp-client.js';
+import {
+  discoverMcpTools,
+  populateMcpServerCommand,
+  restartMcpServer,
+} from './mcp-client.js';
 import { DiscoveredMCPTool } from './mcp-tool.js';
 import { parse } from 'shell-quote';
 
@@ -125,6 +129,7 @@ Signal: Signal number or \`(none)\` if no signal was received.
 
 export class ToolRegistry {
   private tools: Map<string, Tool> = new Map();
+  private readonly changeListeners = new Set<() => void>();
   private config: Config;
 
   constructor(config: Config) {
@@ -143,6 +148,22 @@ export class ToolRegistry {
       );
     }
     this.tools.set(tool.name, tool);
+    this.notifyChange();
+  }
+
+  /**
+   * Calls `listener` whenever tools are added or removed. Returns a function
+   * that removes the listener.
+   */
+  addChangeListener(listener: () => void): () => void {
+    this.changeListeners.add(listener);
+    return () => this.changeListeners.delete(listener);
+  }
+
+  private notifyChange(): void {
+    for (const listener of this.changeListeners) {
+      listener();
+    }
   }
 
   /**
@@ -156,16 +177,55 @@ export class ToolRegistry {
         this.tools.delete(tool.name);
       }
     }
+    this.notifyChange();
 
     await this.discoverAndRegisterToolsFromCommand();
 
-    // discover tools using MCP servers, if configured
+    // discover tools, resources and prompts using MCP servers, if configured
+    const mcpRegistry = this.config.getMcpRegistry();
+    await mcpRegistry.clear();
     await discoverMcpTools(
       this.config.getMcpServers() ?? {},
       this.config.getMcpServerCommand(),
       this,
       this.config.getDebugMode(),
+      mcpRegistry,
+    );
+  }
+
+  /**
+   * Reconnects to a configured MCP server and discovers its tools again.
+   * Check `getMCPServerStatus` afterwards to see whether it succeeded.
+   * @throws An error if no MCP server has this name.
+   */
+  async restartMcpServer(serverName: string): Promise<void> {
+    const mcpServers = populateMcpServerCommand(
+      { ...this.config.getMcpServers() },
+      this.config.getMcpServerCommand(),
     );
+    const serverConfig = mcpServers[serverName];
+    if (!serverConfig) {
+      throw new Error(`Unknown MCP server '${serverName}'.`);
+    }
+    await restartMcpServer(
+      serverName,
+      serverConfig,
+      this,
+      this.config.getDebugMode(),
+      this.config.getMcpRegistry(),
+    );
+  }
+
+  /**
+   * Removes the tools of an MCP server, e.g. after it disconnected.
+   */
+  removeMcpToolsByServer(serverName: string): void {
+    for (const tool of this.tools.values()) {
+      if (tool instanceof DiscoveredMCPTool && tool.serverName === serverName) {
+        this.tools.delete(tool.name);
+      }
+    }
+    this.notifyChange();
   }
 
   private async discoverAndRegisterToolsFromCommand(): Promise<void> {
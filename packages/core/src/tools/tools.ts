@@ -225,6 +225,8 @@ export interface ToolExecuteConfirmationDetails {
   onConfirm: (outcome: ToolConfirmationOutcome) => Promise<void>;
   command: string;
   rootCommand: string;
+  /** Why the shell policy asks to confirm the command; it cannot be allowed always. */
+  reason?: string;
 }
 
 export interface ToolMcpConfirmationDetails {
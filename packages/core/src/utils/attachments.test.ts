@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Content, GenerateContentParameters } from '@google/genai';
+import { getAttachmentWarning, prepareAttachments } from './attachments.js';
+import { extractPdfText, rasterizePdf } from './pdf.js';
+import { modelCapabilityRegistry } from '../core/modelCapabilities.js';
+import { AuthType } from '../core/contentGenerator.js';
+import { Config } from '../config/config.js';
+
+vi.mock('./pdf.js', () => ({
+  extractPdfText: vi.fn(),
+  rasterizePdf: vi.fn(),
+}));
+
+vi.mock('../core/modelCapabilities.js', () => ({
+  modelCapabilityRegistry: { supportsVision: vi.fn() },
+}));
+
+const PDF = (id: string) => ({
+  inlineData: {
+    mimeType: 'application/pdf',
+    data: Buffer.from(`%PDF-1.4 ${id}`).toString('base64'),
+  },
+});
+
+const partsOf = async (request: GenerateContentParameters) =>
+  (
+    (await prepareAttachments(request, request.model === 'vision'))
+      .contents as Content[]
+  )[0].parts;
+
+describe('prepareAttachments', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should leave requests without attachments alone', async () => {
+    const request = {
+      model: 'vision',
+      contents: [{ role: 'user', parts: [{ text: 'hi' }] }],
+    };
+
+    await expect(prepareAttachments(request, true)).resolves.toEqual(request);
+  });
+
+  it('should send vision models the pages of a PDF as images', async () => {
+    vi.mocked(rasterizePdf).mockResolvedValue([
+      Buffer.from('page 1'),
+      Buffer.from('page 2'),
+    ]);
+
+    const parts = await partsOf({
+      model: 'vision',
+      contents: [{ role: 'user', parts: [PDF('scan')] }],
+    });
+
+    expect(parts).toEqual([
+      {
+        text: '[A PDF was attached as images of its pages, up to the first 20.]',
+      },
+      {
+        inlineData: {
+          mimeType: 'image/png',
+          data: Buffer.from('page 1').toString('base64'),
+        },
+      },
+      {
+        inlineData: {
+          mimeType: 'image/png',
+          data: Buffer.from('page 2').toString('base64'),
+        },
+      },
+    ]);
+    expect(extractPdfText).not.toHaveBeenCalled();
+  });
+
+  it('should send the text of a PDF to text-only models', async () => {
+    vi.mocked(extractPdfText).mockResolvedValue('Quarterly report');
+
+    const parts = await partsOf({
+      model: 'text',
+      contents: [
+        { role: 'user', parts: [{ text: 'Summarize' }, PDF('report')] },
+      ],
+    });
+
+    expect(parts).toEqual([
+      { text: 'Summarize' },
+      { text: '[Text of an attached PDF]\nQuarterly report' },
+    ]);
+    expect(rasterizePdf).not.toHaveBeenCalled();
+  });
+
+  it('should fall back to text when a PDF cannot be rendered', async () => {
+    vi.mocked(rasterizePdf).mockResolvedValue(undefined);
+    vi.mocked(extractPdfText).mockResolvedValue('');
+
+    await expect(
+      partsOf({
+        model: 'vision',
+        contents: [{ role: 'user', parts: [PDF('no poppler')] }],
+      }),
+    ).resolves.toEqual([
+      { text: '[A PDF was attached, but no text could be extracted from it.]' },
+    ]);
+  });
+
+  it('should convert each PDF once across turns', async () => {
+    vi.mocked(extractPdfText).mockResolvedValue('Spec');
+    const request = {
+      model: 'text',
+      contents: [{ role: 'user', parts: [PDF('spec')] }],
+    };
+
+    await partsOf(request);
+    await partsOf(request);
+
+    expect(extractPdfText).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replace attachments the model cannot read with a note', async () => {
+    await expect(
+      partsOf({
+        model: 'vision',
+        contents: [
+          {
+            role: 'user',
+            parts: [{ inlineData: { mimeType: 'audio/mpeg', data: 'AAAA' } }],
+          },
+        ],
+      }),
+    ).resolves.toEqual([
+      {
+        text: '[A file (audio/mpeg) was attached, but this model cannot read it.]',
+      },
+    ]);
+  });
+});
+
+describe('getAttachmentWarning', () => {
+  const configFor = (authType: AuthType, model: string) =>
+    ({
+      getContentGeneratorConfig: () => ({ authType, model }),
+      getModel: () => model,
+    }) as unknown as Config;
+  const image = { inlineData: { mimeType: 'image/png', data: 'AAAA' } };
+
+  beforeEach(() => {
+    vi.mocked(modelCapabilityRegistry.supportsVision).mockReturnValue(false);
+  });
+
+  it('should warn when a local model cannot read images', () => {
+    expect(
+      getAttachmentWarning(configFor(AuthType.USE_OLLAMA, 'qwen3:32b'), [
+        image,
+        PDF('notes'),
+        'text',
+      ]),
+    ).toBe(
+      'qwen3:32b cannot read images, so 1 image(s) will be left out and 1 PDF(s) will be sent as extracted text. ' +
+        'Switch to a vision model, or set modelCapabilities."qwen3:32b".vision to true if it is one.',
+    );
+  });
+
+  it('should not warn for vision models, Gemini or plain text', () => {
+    expect(
+      getAttachmentWarning(
+        configFor(AuthType.USE_GEMINI, 'gemini-2.5-pro'),
+        image,
+      ),
+    ).toBeUndefined();
+    expect(
+      getAttachmentWarning(configFor(AuthType.USE_OLLAMA, 'qwen3:32b'), 'text'),
+    ).toBeUndefined();
+
+    vi.mocked(modelCapabilityRegistry.supportsVision).mockReturnValue(true);
+    expect(
+      getAttachmentWarning(configFor(AuthType.USE_OLLAMA, 'llava'), image),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { createHash } from 'node:crypto';
+import {
+  Blob,
+  Content,
+  GenerateContentParameters,
+  Part,
+  PartListUnion,
+} from '@google/genai';
+import { Config } from '../config/config.js';
+import { AuthType } from '../core/contentGenerator.js';
+import { modelCapabilityRegistry } from '../core/modelCapabilities.js';
+import { LruCache } from './LruCache.js';
+import { extractPdfText, rasterizePdf } from './pdf.js';
+
+/** Pages of a PDF sent as images to a vision model. */
+export const MAX_PDF_PAGE_IMAGES = 20;
+
+// Gemini reads images and PDFs itself; these providers need them converted
+const CONVERTING_PROVIDERS: ReadonlySet<string> = new Set([
+  AuthType.USE_OPENAI,
+  AuthType.USE_OLLAMA,
+  AuthType.USE_LM_STUDIO,
+]);
+
+// The history, and the PDFs in it, is resent on every turn
+const pdfConversions = new LruCache<string, Promise<Part[]>>(32);
+
+/**
+ * Rewrites the inline attachments of a request into parts the model can
+ * read. Images are kept for vision models and replaced by a note otherwise.
+ * PDFs become page images for vision models when poppler is installed, and
+ * their text otherwise. Other attachments are replaced by a note.
+ */
+export async function prepareAttachments(
+  request: GenerateContentParameters,
+  vision: boolean,
+): Promise<GenerateContentParameters> {
+  const contents = request.contents;
+  if (!Array.isArray(contents) || !contents.every(isContent)) {
+    return request;
+  }
+  return {
+    ...request,
+    contents: await Promise.all(
+      contents.map(async (content) => {
+        if (!content.parts?.some((part) => part.inlineData)) {
+          return content;
+        }
+        const parts = await Promise.all(
+          content.parts.map((part) =>
+            part.inlineData
+              ? convertAttachment(part.inlineData, vision)
+              : [part],
+          ),
+        );
+        return { ...content, parts: parts.flat() };
+      }),
+    ),
+  };
+}
+
+/**
+ * Returns a warning for the user when the active model cannot read the
+ * images or PDFs in `content`, or undefined if it can.
+ */
+export function getAttachmentWarning(
+  config: Config,
+  content: PartListUnion,
+): string | undefined {
+  const parts = Array.isArray(content) ? content : [content];
+  let images = 0;
+  let pdfs = 0;
+  for (const part of parts) {
+    const mimeType = typeof part === 'object' && part.inlineData?.mimeType;
+    if (mimeType && mimeType.startsWith('image/')) {
+      images++;
+    } else if (mimeType === 'application/pdf') {
+      pdfs++;
+    }
+  }
+  if (images === 0 && pdfs === 0) {
+    return undefined;
+  }
+  const authType = config.getContentGeneratorConfig()?.authType;
+  const model = config.getModel();
+  if (
+    !authType ||
+    !CONVERTING_PROVIDERS.has(authType) ||
+    modelCapabilityRegistry.supportsVision(model)
+  ) {
+    return undefined;
+  }
+
+  const effects = [];
+  if (images > 0) {
+    effects.push(`${images} image(s) will be left out`);
+  }
+  if (pdfs > 0) {
+    effects.push(`${pdfs} PDF(s) will be sent as extracted text`);
+  }
+  return (
+    `${model} cannot read images, so ${effects.join(' and ')}. ` +
+    `Switch to a vision model, or set modelCapabilities."${model}".vision to true if it is one.`
+  );
+}
+
+function isContent(item: unknown): item is Content {
+  return typeof item === 'object' && item !== null && 'parts' in item;
+}
+
+async function convertAttachment(blob: Blob, vision: boolean): Promise<Part[]> {
+  const mimeType = blob.mimeType ?? '';
+  if (mimeType.startsWith('image/')) {
+    return vision
+      ? [{ inlineData: blob }]
+      : [
+          {
+            text: `[An image (${mimeType}) was attached, but this model cannot read images.]`,
+          },
+        ];
+  }
+  if (mimeType === 'application/pdf' && blob.data) {
+    const key = `${vision} ${createHash('sha256').update(blob.data).digest('hex')}`;
+    let conversion = pdfConversions.get(key);
+    if (!conversion) {
+      conversion = convertPdf(Buffer.from(blob.data, 'base64'), vision);
+      pdfConversions.set(key, conversion);
+    }
+    return conversion;
+  }
+  return [
+    {
+      text: `[A file (${mimeType || 'unknown type'}) was attached, but this model cannot read it.]`,
+    },
+  ];
+}
+
+async function convertPdf(data: Buffer, vision: boolean): Promise<Part[]> {
+  if (vision) {
+    const pages = await rasterizePdf(data, MAX_PDF_PAGE_IMAGES);
+    if (pages && pages.length > 0) {
+      return [
+        {
+          text: `[A PDF was attached as images of its pages, up to the first ${MAX_PDF_PAGE_IMAGES}.]`,
+        },
+        ...pages.map((page) => ({
+          inlineData: { mimeType: 'image/png', data: page.toString('base64') },
+        })),
+      ];
+    }
+  }
+  const text = await extractPdfText(data);
+  return [
+    {
+      text: text
+        ? `[Text of an attached PDF]\n${text}`
+        : '[A PDF was attached, but no text could be extracted from it.]',
+    },
+  ];
+}
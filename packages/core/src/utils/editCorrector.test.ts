@@ -34,7 +34,8 @@ vi.mock('../core/client.js', () => ({
     this: any,
     _config: Config,
   ) {
-    this.generateJson = (...params: any[]) => mockGenerateJson(...params); // Corrected: use mockGenerateJson
+    this.generateUtilityJson = (...params: any[]) =>
+      mockGenerateJson(...params);
     this.startChat = (...params: any[]) => mockStartChat(...params); // Corrected: use mockStartChat
     this.sendMessageStream = (...params: any[]) =>
       mockSendMessageStream(...params); // Corrected: use mockSendMessageStream
@@ -478,6 +479,58 @@ describe('editCorrector', () => {
       });
     });
 
+    describe('Scenario Group 3b: Fuzzy Match Before LLM Correction', () => {
+      it('Test 3b.1: old_string with the wrong indentation is matched without the LLM', async () => {
+        const currentContent =
+          'function f() {\n    if (x) {\n        return 1;\n    }\n}\n';
+        const originalParams = {
+          file_path: '/test/file.txt',
+          old_string: '  if (x) {\r\n      return 1;\r\n  }',
+          new_string: '  if (x) {\r\n      return 2;\r\n  }',
+        };
+        const result = await ensureCorrectEdit(
+          '/test/file.txt',
+          currentContent,
+          originalParams,
+          mockGeminiClientInstance,
+          abortSignal,
+        );
+        expect(mockGenerateJson).not.toHaveBeenCalled();
+        expect(result.params.old_string).toBe(
+          'if (x) {\n        return 1;\n    }',
+        );
+        expect(result.params.new_string).toBe(
+          'if (x) {\n        return 2;\n    }',
+        );
+        expect(result.occurrences).toBe(1);
+      });
+      it('Test 3b.2: over-escaped old_string close to the content is matched and new_string unescaped', async () => {
+        const currentContent =
+          'const greeting = "hello";\n// say hello to the world\nconsole.log(greeting);\n';
+        const originalParams = {
+          file_path: '/test/file.txt',
+          old_string:
+            'const greeting = \\"hello\\";\\n// say hello to the whole world\\nconsole.log(greeting);',
+          new_string: 'const greeting = \\"hi\\";\\nconsole.log(greeting);',
+        };
+        const result = await ensureCorrectEdit(
+          '/test/file.txt',
+          currentContent,
+          originalParams,
+          mockGeminiClientInstance,
+          abortSignal,
+        );
+        expect(mockGenerateJson).not.toHaveBeenCalled();
+        expect(result.params.old_string).toBe(
+          'const greeting = "hello";\n// say hello to the world\nconsole.log(greeting);',
+        );
+        expect(result.params.new_string).toBe(
+          'const greeting = "hi";\nconsole.log(greeting);',
+        );
+        expect(result.occurrences).toBe(1);
+      });
+    });
+
     describe('Scenario Group 4: No Match Found / Multiple Matches', () => {
       it('Test 4.1: No version of old_string (original, unescaped, LLM-corrected) matches -> returns original params, 0 occurrences', async () => {
         const currentContent = 'This content has nothing to find.';
@@ -11,20 +11,19 @@ import {
   Type,
 } from '@google/genai';
 import { GeminiClient } from '../core/client.js';
-import { EditToolParams, EditTool } from '../tools/edit.js';
+import { EditReplacement, EditTool } from '../tools/edit.js';
 import { WriteFileTool } from '../tools/write-file.js';
 import { ReadFileTool } from '../tools/read-file.js';
 import { ReadManyFilesTool } from '../tools/read-many-files.js';
 import { GrepTool } from '../tools/grep.js';
 import { LruCache } from './LruCache.js';
-import { DEFAULT_FLASH_MODEL } from '../config/models.js';
+import { findFuzzyMatch } from './editMatcher.js';
 import {
   isFunctionResponse,
   isFunctionCall,
 } from '../utils/messageInspectors.js';
 import * as fs from 'fs';
 
-const EditModel = DEFAULT_FLASH_MODEL;
 const EditConfig: GenerateContentConfig = {
   thinkingConfig: {
     thinkingBudget: 0,
@@ -150,19 +149,20 @@ async function findLastEditTimestamp(
 
 /**
  * Attempts to correct edit parameters if the original old_string is not found.
- * It tries unescaping, and then LLM-based correction.
+ * It tries unescaping, then a deterministic fuzzy match, and then LLM-based
+ * correction as a last resort.
  * Results are cached to avoid redundant processing.
  *
  * @param currentContent The current content of the file.
- * @param originalParams The original EditToolParams
+ * @param originalParams The replacement to correct, with the file it is in
  * @param client The GeminiClient for LLM calls.
  * @returns A promise resolving to an object containing the (potentially corrected)
- *          EditToolParams (as CorrectedEditParams) and the final occurrences count.
+ *          parameters (as CorrectedEditParams) and the final occurrences count.
  */
 export async function ensureCorrectEdit(
   filePath: string,
   currentContent: string,
-  originalParams: EditToolParams, // This is the EditToolParams from edit.ts, without \'corrected\'
+  originalParams: EditReplacement & { file_path: string },
   client: GeminiClient,
   abortSignal: AbortSignal,
 ): Promise<CorrectedEditResult> {
@@ -268,41 +268,62 @@ export async function ensureCorrectEdit(
         }
       }
 
-      const llmCorrectedOldString = await correctOldStringMismatch(
-        client,
-        currentContent,
-        unescapedOldStringAttempt,
-        abortSignal,
-      );
-      const llmOldOccurrences = countOccurrences(
-        currentContent,
-        llmCorrectedOldString,
-      );
+      // Look for the text the model meant without asking it first. An
+      // over-escaped old_string means new_string is over-escaped as well.
+      const fuzzyMatch =
+        expectedReplacements === 1
+          ? findFuzzyMatch(
+              currentContent,
+              unescapedOldStringAttempt,
+              unescapedOldStringAttempt !== originalParams.old_string
+                ? unescapeStringForGeminiBug(originalParams.new_string)
+                : originalParams.new_string,
+            )
+          : undefined;
+      if (
+        fuzzyMatch &&
+        countOccurrences(currentContent, fuzzyMatch.oldString) === 1
+      ) {
+        finalOldString = fuzzyMatch.oldString;
+        finalNewString = fuzzyMatch.newString;
+        occurrences = 1;
+      } else {
+        const llmCorrectedOldString = await correctOldStringMismatch(
+          client,
+          currentContent,
+          unescapedOldStringAttempt,
+          abortSignal,
+        );
+        const llmOldOccurrences = countOccurrences(
+          currentContent,
+          llmCorrectedOldString,
+        );
 
-      if (llmOldOccurrences === expectedReplacements) {
-        finalOldString = llmCorrectedOldString;
-        occurrences = llmOldOccurrences;
-
-        if (newStringPotentiallyEscaped) {
-          const baseNewStringForLLMCorrection = unescapeStringForGeminiBug(
-            originalParams.new_string,
-          );
-          finalNewString = await correctNewString(
-            client,
-            originalParams.old_string, // original old
-            llmCorrectedOldString, // corrected old
-            baseNewStringForLLMCorrection, // base new for correction
-            abortSignal,
-          );
+        if (llmOldOccurrences === expectedReplacements) {
+          finalOldString = llmCorrectedOldString;
+          occurrences = llmOldOccurrences;
+
+          if (newStringPotentiallyEscaped) {
+            const baseNewStringForLLMCorrection = unescapeStringForGeminiBug(
+              originalParams.new_string,
+            );
+            finalNewString = await correctNewString(
+              client,
+              originalParams.old_string, // original old
+              llmCorrectedOldString, // corrected old
+              baseNewStringForLLMCorrection, // base new for correction
+              abortSignal,
+            );
+          }
+        } else {
+          // LLM correction also failed for old_string
+          const result: CorrectedEditResult = {
+            params: { ...originalParams },
+            occurrences: 0, // Explicitly 0 as LLM failed
+          };
+          editCorrectionCache.set(cacheKey, result);
+          return result;
         }
-      } else {
-        // LLM correction also failed for old_string
-        const result: CorrectedEditResult = {
-          params: { ...originalParams },
-          occurrences: 0, // Explicitly 0 as LLM failed
-        };
-        editCorrectionCache.set(cacheKey, result);
-        return result;
       }
     } else {
       // Unescaping old_string resulted in > 1 occurrence
@@ -406,11 +427,11 @@ Return ONLY the corrected target snippet in the specified JSON format with the k
   const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
 
   try {
-    const result = await geminiClient.generateJson(
+    const result = await geminiClient.generateUtilityJson(
       contents,
       OLD_STRING_CORRECTION_SCHEMA,
       abortSignal,
-      EditModel,
+      'editCorrector',
       EditConfig,
     );
 
@@ -494,11 +515,11 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
   const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
 
   try {
-    const result = await geminiClient.generateJson(
+    const result = await geminiClient.generateUtilityJson(
       contents,
       NEW_STRING_CORRECTION_SCHEMA,
       abortSignal,
-      EditModel,
+      'editCorrector',
       EditConfig,
     );
 
@@ -563,11 +584,11 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
   const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
 
   try {
-    const result = await geminiClient.generateJson(
+    const result = await geminiClient.generateUtilityJson(
       contents,
       CORRECT_NEW_STRING_ESCAPING_SCHEMA,
       abortSignal,
-      EditModel,
+      'editCorrector',
       EditConfig,
     );
 
@@ -629,11 +650,11 @@ Return ONLY the corrected string in the specified JSON format with the key 'corr
   const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
 
   try {
-    const result = await client.generateJson(
+    const result = await client.generateUtilityJson(
       contents,
       CORRECT_STRING_ESCAPING_SCHEMA,
       abortSignal,
-      EditModel,
+      'editCorrector',
       EditConfig,
     );
 
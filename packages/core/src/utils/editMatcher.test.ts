@@ -0,0 +1,93 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { findFuzzyMatch } from './editMatcher.js';
+
+describe('findFuzzyMatch', () => {
+  const content = [
+    'class Counter {',
+    '  increment() {',
+    '    this.count += 1;',
+    '    // keep listeners in sync with the count',
+    '    this.notify();',
+    '  }',
+    '',
+    '  reset() {',
+    '    this.count = 0;',
+    '  }',
+    '}',
+    '',
+  ].join('\n');
+
+  it('should match lines that only differ in indentation and trailing whitespace', () => {
+    const match = findFuzzyMatch(
+      content,
+      'increment() {  \n  this.count += 1;\n  // keep listeners in sync with the count\n',
+      'increment() {\n  this.count += 2;\n',
+    );
+
+    expect(match).toEqual({
+      oldString:
+        'increment() {\n    this.count += 1;\n    // keep listeners in sync with the count',
+      newString: 'increment() {\n    this.count += 2;',
+      similarity: 1,
+    });
+  });
+
+  it('should match old_string with CRLF line endings', () => {
+    const match = findFuzzyMatch(
+      content,
+      '  reset() {\r\n    this.count = 0;\r\n  }',
+      '  reset() {\r\n    this.count = -1;\r\n  }',
+    );
+
+    expect(match?.oldString).toBe('reset() {\n    this.count = 0;\n  }');
+    expect(match?.newString).toBe('reset() {\n    this.count = -1;\n  }');
+  });
+
+  it('should keep the CRLF line endings of the file in the match', () => {
+    const match = findFuzzyMatch(
+      content.replace(/\n/g, '\r\n'),
+      'this.count = 0;\n}',
+      'this.count = 1;\n}',
+    );
+
+    expect(match?.oldString).toBe('this.count = 0;\r\n  }');
+  });
+
+  it('should take a block that is similar enough to old_string', () => {
+    const match = findFuzzyMatch(
+      content,
+      '    this.count += 1;\n    // keep listeners in sync with count\n    this.notify();',
+      '    this.count += 1;\n    this.notify();',
+    );
+
+    expect(match?.oldString).toBe(
+      'this.count += 1;\n    // keep listeners in sync with the count\n    this.notify();',
+    );
+    expect(match?.similarity).toBeGreaterThanOrEqual(0.9);
+    expect(match?.similarity).toBeLessThan(1);
+  });
+
+  it('should not match a block below the threshold', () => {
+    expect(
+      findFuzzyMatch(
+        content,
+        '    this.total += 10;\n    // refresh the view\n    this.render();',
+        '',
+      ),
+    ).toBeUndefined();
+  });
+
+  it('should not match when several blocks are just as close', () => {
+    expect(findFuzzyMatch(content, '    }', '    };')).toBeUndefined();
+  });
+
+  it('should not match blank old_string', () => {
+    expect(findFuzzyMatch(content, ' \n\n', 'x')).toBeUndefined();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * Similarity, from 0 to 1, a block of lines needs to the `old_string` of an
+ * edit to be taken as the text the model meant.
+ */
+export const FUZZY_MATCH_THRESHOLD = 0.9;
+
+/**
+ * The text of a file that the `old_string` of an edit was meant to match.
+ */
+export interface FuzzyMatch {
+  /** The text in the file, to be replaced */
+  oldString: string;
+  /** `new_string`, re-indented to the indentation of the match */
+  newString: string;
+  /** How close the match is to `old_string`, from 0 to 1 */
+  similarity: number;
+}
+
+interface Line {
+  /** Offset of the line in the text, after its indentation */
+  start: number;
+  indentation: string;
+  /** Offset just past the last character of the line, before the newline */
+  end: number;
+  /** The line without indentation, trailing whitespace or runs of spaces */
+  normalized: string;
+  bigrams: Map<string, number>;
+}
+
+/**
+ * Finds the block of whole lines in `content` that `oldString` was meant to
+ * match, without asking a model. Lines are compared without their
+ * indentation, trailing whitespace and line endings, and blank lines are
+ * skipped, so a block that only differs in those matches fully. Otherwise
+ * the block most similar to `oldString` is taken if it reaches
+ * {@link FUZZY_MATCH_THRESHOLD} and no other block does.
+ *
+ * @returns The match, or undefined if there is no unique one
+ */
+export function findFuzzyMatch(
+  content: string,
+  oldString: string,
+  newString: string,
+): FuzzyMatch | undefined {
+  const target = splitLines(oldString.replace(/\r\n/g, '\n'));
+  if (target.lines.length === 0) {
+    return undefined;
+  }
+  const lines = splitLines(content).lines;
+  const totalWeight = target.lines.reduce((sum, line) => sum + weight(line), 0);
+
+  const candidates: Array<{ index: number; similarity: number }> = [];
+  for (let index = 0; index + target.lines.length <= lines.length; index++) {
+    const similarity = windowSimilarity(
+      lines,
+      index,
+      target.lines,
+      totalWeight,
+    );
+    if (similarity >= FUZZY_MATCH_THRESHOLD) {
+      candidates.push({ index, similarity });
+    }
+  }
+  if (candidates.length === 0) {
+    return undefined;
+  }
+
+  const best = candidates.reduce((a, b) =>
+    b.similarity > a.similarity ? b : a,
+  );
+  // Blocks shifted by a line or two share most of their lines with the best
+  // one; any other block that is close enough makes the match ambiguous
+  const span = target.lines.length;
+  if (
+    candidates.some(
+      (candidate) =>
+        candidate !== best && Math.abs(candidate.index - best.index) >= span,
+    )
+  ) {
+    return undefined;
+  }
+
+  const first = lines[best.index];
+  const last = lines[best.index + span - 1];
+  // old_string often starts after the indentation of its first line, so
+  // compare indentation on the first line that has some
+  const reference = Math.max(
+    target.lines.findIndex((line) => line.indentation !== ''),
+    0,
+  );
+  return {
+    oldString: content.slice(first.start, last.end),
+    newString: reindent(
+      trimBlankEdges(newString.replace(/\r\n/g, '\n'), target),
+      target.lines[reference].indentation,
+      lines[best.index + reference].indentation,
+    ),
+    similarity: best.similarity,
+  };
+}
+
+/** Splits text into its non-blank lines. */
+function splitLines(text: string): {
+  lines: Line[];
+  leadingBlank: boolean;
+  trailingBlank: boolean;
+} {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const raw of text.split('\n')) {
+    const end = start + raw.length;
+    const normalized = raw.trim().replace(/\s+/g, ' ');
+    if (normalized) {
+      const indentation = /^[ \t]*/.exec(raw)?.[0] ?? '';
+      lines.push({
+        start: start + indentation.length,
+        indentation,
+        end: raw.endsWith('\r') ? end - 1 : end,
+        normalized,
+        bigrams: bigramsOf(normalized),
+      });
+    }
+    start = end + 1;
+  }
+  return {
+    lines,
+    leadingBlank: /^[ \t]*\r?\n/.test(text),
+    trailingBlank: /\n[ \t]*$/.test(text),
+  };
+}
+
+function weight(line: Line): number {
+  return Math.max(line.normalized.length, 1);
+}
+
+/**
+ * Similarity of the lines of `content` starting at `index` to the target
+ * lines, weighted by line length. Gives up early, with 0, once the window
+ * can no longer reach the threshold.
+ */
+function windowSimilarity(
+  lines: Line[],
+  index: number,
+  target: Line[],
+  totalWeight: number,
+): number {
+  let lost = 0;
+  let score = 0;
+  for (let offset = 0; offset < target.length; offset++) {
+    const expected = target[offset];
+    const similarity = lineSimilarity(lines[index + offset], expected);
+    score += similarity * weight(expected);
+    lost += (1 - similarity) * weight(expected);
+    if (1 - lost / totalWeight < FUZZY_MATCH_THRESHOLD) {
+      return 0;
+    }
+  }
+  return score / totalWeight;
+}
+
+/** Dice coefficient of the character bigrams of two lines. */
+function lineSimilarity(a: Line, b: Line): number {
+  if (a.normalized === b.normalized) {
+    return 1;
+  }
+  if (a.normalized.length < 2 || b.normalized.length < 2) {
+    return 0;
+  }
+  let shared = 0;
+  for (const [bigram, count] of a.bigrams) {
+    shared += Math.min(count, b.bigrams.get(bigram) ?? 0);
+  }
+  return (2 * shared) / (a.normalized.length - 1 + b.normalized.length - 1);
+}
+
+function bigramsOf(text: string): Map<string, number> {
+  const bigrams = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const bigram = text.slice(i, i + 2);
+    bigrams.set(bigram, (bigrams.get(bigram) ?? 0) + 1);
+  }
+  return bigrams;
+}
+
+/**
+ * The match never includes blank lines around the block, so drop the ones
+ * `old_string` had from `new_string` as well.
+ */
+function trimBlankEdges(
+  newString: string,
+  target: { leadingBlank: boolean; trailingBlank: boolean },
+): string {
+  let result = newString;
+  if (target.leadingBlank) {
+    result = result.replace(/^(?:[ \t]*\n)+/, '');
+  }
+  if (target.trailingBlank) {
+    result = result.replace(/(?:\n[ \t]*)+$/, '');
+  }
+  return result;
+}
+
+/**
+ * Moves every line of `text` from indentation `from` to indentation `to`,
+ * keeping the indentation of lines relative to each other.
+ */
+function reindent(text: string, from: string, to: string): string {
+  return text
+    .split('\n')
+    .map((line, index) => {
+      if (line.trim() === '') {
+        return line;
+      }
+      const rest = line.startsWith(from) ? line.slice(from.length) : line;
+      // Like the match, the first line starts after its indentation
+      return index === 0 ? rest.trimStart() : to + rest;
+    })
+    .join('\n');
+}
@@ -0,0 +1,90 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseModelJson, repairJson } from './jsonRepair.js';
+
+const FIXTURES_DIR = path.join(
+  path.dirname(fileURLToPath(import.meta.url)),
+  '__fixtures__',
+  'model-json',
+);
+
+// Responses seen from local models asked for JSON, and what they mean
+const EXPECTED: Record<string, unknown> = {
+  'fenced-with-chatter': {
+    reasoning: 'The last message asks the user which file to edit.',
+    next_speaker: 'user',
+  },
+  'thinking-before-json': {
+    reasoning: 'The model announced its next step.',
+    next_speaker: 'model',
+  },
+  'inline-in-prose': {
+    corrected_new_string: 'const limit = tokenLimit(model);\n',
+  },
+  'comments-and-trailing-commas': {
+    isNeeded: false,
+    reason: 'The snippet already matches',
+  },
+  'python-literals': {
+    isNeeded: true,
+    reason: null,
+    confidence: 0.5,
+    note: "it's fine",
+  },
+  'unquoted-keys': {
+    taskType: 'code_generation',
+    confidence: 0.8,
+    reason: 'asks for a new function',
+  },
+  truncated: {
+    summary: 'Refactored the parser',
+    files: ['parser.ts', 'lexer.ts'],
+  },
+  'raw-newlines': {
+    corrected_target_snippet: 'function add(a, b) {\n\treturn a + b;\n}',
+  },
+};
+
+describe('parseModelJson', () => {
+  it('should have an expectation for every fixture', () => {
+    const fixtures = fs
+      .readdirSync(FIXTURES_DIR)
+      .map((file) => path.basename(file, '.txt'));
+    expect(fixtures.sort()).toEqual(Object.keys(EXPECTED).sort());
+  });
+
+  it.each(Object.entries(EXPECTED))(
+    'should recover the JSON in %s',
+    (name, expected) => {
+      const text = fs.readFileSync(
+        path.join(FIXTURES_DIR, `${name}.txt`),
+        'utf-8',
+      );
+      expect(parseModelJson(text)).toEqual(expected);
+    },
+  );
+
+  it('should parse bare JSON as is', () => {
+    expect(parseModelJson(' "user" ')).toBe('user');
+    expect(parseModelJson('[1, 2]')).toEqual([1, 2]);
+  });
+
+  it('should throw when there is no JSON to recover', () => {
+    expect(() => parseModelJson('I cannot answer that.')).toThrow(SyntaxError);
+  });
+});
+
+describe('repairJson', () => {
+  it('should leave valid JSON unchanged', () => {
+    const json = '{"a": [1, 2.5e3, true, null], "b": {"c": "d, e"}}';
+    expect(repairJson(json)).toBe(json);
+  });
+});
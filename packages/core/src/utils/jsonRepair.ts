@@ -0,0 +1,182 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+const THINK_BLOCK = /<think>[\s\S]*?(<\/think>|$)/g;
+const FENCED_BLOCK = /```[\w-]*[ \t]*\n?([\s\S]*?)(?:```|$)/g;
+
+const PYTHON_LITERALS: Record<string, string> = {
+  True: 'true',
+  False: 'false',
+  None: 'null',
+};
+
+function tryParse(text: string): { value: unknown } | undefined {
+  try {
+    return { value: JSON.parse(text) };
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Reads the string literal starting at `start` (quoted with `quote`) and
+ * returns it as a double-quoted JSON string. Literal control characters are
+ * escaped, and a string cut off by the end of the text is closed.
+ */
+function readString(
+  text: string,
+  start: number,
+  quote: string,
+): { json: string; end: number } {
+  let json = '"';
+  let i = start + 1;
+  while (i < text.length && text[i] !== quote) {
+    const ch = text[i];
+    if (ch === '\\' && i + 1 < text.length) {
+      const next = text[i + 1];
+      json += next === "'" ? "'" : ch + next;
+      i += 2;
+      continue;
+    }
+    if (ch === '"') {
+      json += '\\"';
+    } else if (ch === '\n') {
+      json += '\\n';
+    } else if (ch === '\r') {
+      json += '\\r';
+    } else if (ch === '\t') {
+      json += '\\t';
+    } else {
+      json += ch;
+    }
+    i++;
+  }
+  return { json: json + '"', end: i + 1 };
+}
+
+/**
+ * Rewrites the JSON-like text models produce into JSON: single-quoted
+ * strings, unquoted keys, comments, trailing commas, Python literals and
+ * output that was cut off before its closing brackets.
+ */
+export function repairJson(text: string): string {
+  let out = '';
+  const closers: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    if (ch === '"' || ch === "'") {
+      const { json, end } = readString(text, i, ch);
+      out += json;
+      i = end;
+    } else if (ch === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end;
+    } else if (ch === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 2;
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']');
+      out += ch;
+      i++;
+    } else if (ch === '}' || ch === ']') {
+      out = out.replace(/,\s*$/, '');
+      closers.pop();
+      out += ch;
+      i++;
+    } else if (/[A-Za-z_$]/.test(ch) && !/[\d.]$/.test(out)) {
+      const word = text.slice(i).match(/^[\w$]+/)?.[0] ?? ch;
+      i += word.length;
+      if (/^\s*:/.test(text.slice(i))) {
+        out += JSON.stringify(word);
+      } else {
+        out += PYTHON_LITERALS[word] ?? word;
+      }
+    } else {
+      out += ch;
+      i++;
+    }
+  }
+  out = out.replace(/[,:]\s*$/, '');
+  while (closers.length > 0) {
+    out += closers.pop();
+  }
+  return out;
+}
+
+/**
+ * Returns the JSON values in `text` that start with `{` or `[`, in order.
+ * A value that is still open at the end of the text runs to the end.
+ */
+function findJsonValues(text: string): string[] {
+  const values: string[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const start = text.slice(i).search(/[{[]/);
+    if (start === -1) {
+      break;
+    }
+    const begin = i + start;
+    let depth = 0;
+    let end = text.length;
+    for (let j = begin; j < text.length; j++) {
+      const ch = text[j];
+      if (ch === '"' || ch === "'") {
+        j = readString(text, j, ch).end - 1;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 0) {
+          end = j + 1;
+          break;
+        }
+      }
+    }
+    values.push(text.slice(begin, end));
+    i = end;
+  }
+  return values;
+}
+
+/**
+ * Parses a JSON value out of a model response that may not be bare JSON:
+ * it can be wrapped in a markdown fence, preceded by reasoning or chatter,
+ * or written as JSON-like text (see repairJson).
+ *
+ * @throws SyntaxError if no JSON value can be recovered.
+ */
+export function parseModelJson(text: string): unknown {
+  const exact = tryParse(text.trim());
+  if (exact) {
+    return exact.value;
+  }
+
+  const withoutThinking = text.replace(THINK_BLOCK, '').trim();
+  const fenced = [...withoutThinking.matchAll(FENCED_BLOCK)].map((match) =>
+    match[1].trim(),
+  );
+  const candidates = [
+    ...fenced,
+    ...fenced.flatMap(findJsonValues),
+    ...findJsonValues(withoutThinking),
+  ];
+
+  for (const candidate of candidates) {
+    const parsed = tryParse(candidate);
+    if (parsed) {
+      return parsed.value;
+    }
+  }
+  for (const candidate of candidates) {
+    const parsed = tryParse(repairJson(candidate));
+    if (parsed) {
+      return parsed.value;
+    }
+  }
+  // Let JSON.parse describe what is wrong with the text as a whole
+  return JSON.parse(withoutThinking);
+}
@@ -0,0 +1,48 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Schema, Type } from '@google/genai';
+import { toJsonSchema } from './jsonSchema.js';
+
+describe('toJsonSchema', () => {
+  it('should convert a Gemini schema to plain JSON Schema', () => {
+    const schema: Schema = {
+      type: Type.OBJECT,
+      properties: {
+        next_speaker: { type: Type.STRING, enum: ['user', 'model'] },
+        files: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING },
+          minItems: '1',
+        },
+        note: { type: Type.STRING, nullable: true },
+      },
+      required: ['next_speaker'],
+      propertyOrdering: ['next_speaker', 'files', 'note'],
+    };
+
+    expect(toJsonSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        next_speaker: { type: 'string', enum: ['user', 'model'] },
+        files: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        note: { type: ['string', 'null'] },
+      },
+      required: ['next_speaker'],
+    });
+  });
+
+  it('should pass plain JSON Schema through', () => {
+    const schema = {
+      type: 'object',
+      properties: { id: { anyOf: [{ type: 'string' }, { type: 'number' }] } },
+      additionalProperties: false,
+    };
+
+    expect(toJsonSchema(schema)).toEqual(schema);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentConfig, SchemaUnion } from '@google/genai';
+
+// Keywords of @google/genai's Schema that are not part of JSON Schema.
+const GEMINI_ONLY_KEYS = new Set(['nullable', 'propertyOrdering']);
+
+// Constraints that the SDK types as strings although they are numbers.
+const NUMERIC_KEYS = new Set([
+  'minItems',
+  'maxItems',
+  'minLength',
+  'maxLength',
+  'minProperties',
+  'maxProperties',
+  'minimum',
+  'maximum',
+]);
+
+/**
+ * Converts a @google/genai schema into plain JSON Schema, as expected by the
+ * structured output options of OpenAI-compatible servers and Ollama.
+ *
+ * Types are lowercased, numeric constraints become numbers, `nullable`
+ * becomes a `null` type and Gemini-only keywords are dropped. Schemas that
+ * are already plain JSON Schema pass through unchanged.
+ */
+export function toJsonSchema(schema: SchemaUnion): Record<string, unknown> {
+  if (typeof schema !== 'object' || schema === null) {
+    return {};
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (GEMINI_ONLY_KEYS.has(key) || value === undefined) {
+      continue;
+    }
+    if (key === 'type' && typeof value === 'string') {
+      result.type = value.toLowerCase();
+    } else if (NUMERIC_KEYS.has(key) && typeof value === 'string') {
+      result[key] = Number(value);
+    } else if (key === 'properties' && typeof value === 'object' && value) {
+      result.properties = Object.fromEntries(
+        Object.entries(value).map(([name, property]) => [
+          name,
+          toJsonSchema(property),
+        ]),
+      );
+    } else if (key === 'items' || key === 'not') {
+      result[key] = toJsonSchema(value);
+    } else if (
+      (key === 'anyOf' || key === 'oneOf' || key === 'allOf') &&
+      Array.isArray(value)
+    ) {
+      result[key] = value.map(toJsonSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+
+  if (
+    (schema as Record<string, unknown>).nullable === true &&
+    typeof result.type === 'string'
+  ) {
+    result.type = [result.type, 'null'];
+  }
+  return result;
+}
+
+/**
+ * Returns the JSON Schema a request asks the reply to follow, if any.
+ */
+export function getResponseJsonSchema(
+  config: GenerateContentConfig | undefined,
+): Record<string, unknown> | undefined {
+  if (config?.responseJsonSchema) {
+    return toJsonSchema(config.responseJsonSchema);
+  }
+  if (config?.responseSchema) {
+    return toJsonSchema(config.responseSchema);
+  }
+  return undefined;
+}
@@ -6,7 +6,6 @@
 
 import { describe, it, expect, vi, beforeEach, Mock, afterEach } from 'vitest';
 import { Content, GoogleGenAI, Models } from '@google/genai';
-import { DEFAULT_FLASH_MODEL } from '../config/models.js';
 import { GeminiClient } from '../core/client.js';
 import { Config } from '../config/config.js';
 import { checkNextSpeaker, NextSpeakerResponse } from './nextSpeakerChecker.js';
@@ -92,7 +91,7 @@ describe('checkNextSpeaker', () => {
       abortSignal,
     );
     expect(result).toBeNull();
-    expect(mockGeminiClient.generateJson).not.toHaveBeenCalled();
+    expect(mockGeminiClient.generateUtilityJson).not.toHaveBeenCalled();
   });
 
   it('should return null if the last speaker was the user', async () => {
@@ -105,7 +104,7 @@ describe('checkNextSpeaker', () => {
       abortSignal,
     );
     expect(result).toBeNull();
-    expect(mockGeminiClient.generateJson).not.toHaveBeenCalled();
+    expect(mockGeminiClient.generateUtilityJson).not.toHaveBeenCalled();
   });
 
   it("should return { next_speaker: 'model' } when model intends to continue", async () => {
@@ -116,7 +115,9 @@ describe('checkNextSpeaker', () => {
       reasoning: 'Model stated it will do something.',
       next_speaker: 'model',
     };
-    (mockGeminiClient.generateJson as Mock).mockResolvedValue(mockApiResponse);
+    (mockGeminiClient.generateUtilityJson as Mock).mockResolvedValue(
+      mockApiResponse,
+    );
 
     const result = await checkNextSpeaker(
       chatInstance,
@@ -124,7 +125,7 @@ describe('checkNextSpeaker', () => {
       abortSignal,
     );
     expect(result).toEqual(mockApiResponse);
-    expect(mockGeminiClient.generateJson).toHaveBeenCalledTimes(1);
+    expect(mockGeminiClient.generateUtilityJson).toHaveBeenCalledTimes(1);
   });
 
   it("should return { next_speaker: 'user' } when model asks a question", async () => {
@@ -135,7 +136,9 @@ describe('checkNextSpeaker', () => {
       reasoning: 'Model asked a question.',
       next_speaker: 'user',
     };
-    (mockGeminiClient.generateJson as Mock).mockResolvedValue(mockApiResponse);
+    (mockGeminiClient.generateUtilityJson as Mock).mockResolvedValue(
+      mockApiResponse,
+    );
 
     const result = await checkNextSpeaker(
       chatInstance,
@@ -153,7 +156,9 @@ describe('checkNextSpeaker', () => {
       reasoning: 'Model made a statement, awaiting user input.',
       next_speaker: 'user',
     };
-    (mockGeminiClient.generateJson as Mock).mockResolvedValue(mockApiResponse);
+    (mockGeminiClient.generateUtilityJson as Mock).mockResolvedValue(
+      mockApiResponse,
+    );
 
     const result = await checkNextSpeaker(
       chatInstance,
@@ -163,14 +168,14 @@ describe('checkNextSpeaker', () => {
     expect(result).toEqual(mockApiResponse);
   });
 
-  it('should return null if geminiClient.generateJson throws an error', async () => {
+  it('should return null if geminiClient.generateUtilityJson throws an error', async () => {
     const consoleWarnSpy = vi
       .spyOn(console, 'warn')
       .mockImplementation(() => {});
     (chatInstance.getHistory as Mock).mockReturnValue([
       { role: 'model', parts: [{ text: 'Some model output.' }] },
     ] as Content[]);
-    (mockGeminiClient.generateJson as Mock).mockRejectedValue(
+    (mockGeminiClient.generateUtilityJson as Mock).mockRejectedValue(
       new Error('API Error'),
     );
 
@@ -183,11 +188,11 @@ describe('checkNextSpeaker', () => {
     consoleWarnSpy.mockRestore();
   });
 
-  it('should return null if geminiClient.generateJson returns invalid JSON (missing next_speaker)', async () => {
+  it('should return null if geminiClient.generateUtilityJson returns invalid JSON (missing next_speaker)', async () => {
     (chatInstance.getHistory as Mock).mockReturnValue([
       { role: 'model', parts: [{ text: 'Some model output.' }] },
     ] as Content[]);
-    (mockGeminiClient.generateJson as Mock).mockResolvedValue({
+    (mockGeminiClient.generateUtilityJson as Mock).mockResolvedValue({
       reasoning: 'This is incomplete.',
     } as unknown as NextSpeakerResponse); // Type assertion to simulate invalid response
 
@@ -199,11 +204,11 @@ describe('checkNextSpeaker', () => {
     expect(result).toBeNull();
   });
 
-  it('should return null if geminiClient.generateJson returns a non-string next_speaker', async () => {
+  it('should return null if geminiClient.generateUtilityJson returns a non-string next_speaker', async () => {
     (chatInstance.getHistory as Mock).mockReturnValue([
       { role: 'model', parts: [{ text: 'Some model output.' }] },
     ] as Content[]);
-    (mockGeminiClient.generateJson as Mock).mockResolvedValue({
+    (mockGeminiClient.generateUtilityJson as Mock).mockResolvedValue({
       reasoning: 'Model made a statement, awaiting user input.',
       next_speaker: 123, // Invalid type
     } as unknown as NextSpeakerResponse);
@@ -216,11 +221,11 @@ describe('checkNextSpeaker', () => {
     expect(result).toBeNull();
   });
 
-  it('should return null if geminiClient.generateJson returns an invalid next_speaker string value', async () => {
+  it('should return null if geminiClient.generateUtilityJson returns an invalid next_speaker string value', async () => {
     (chatInstance.getHistory as Mock).mockReturnValue([
       { role: 'model', parts: [{ text: 'Some model output.' }] },
     ] as Content[]);
-    (mockGeminiClient.generateJson as Mock).mockResolvedValue({
+    (mockGeminiClient.generateUtilityJson as Mock).mockResolvedValue({
       reasoning: 'Model made a statement, awaiting user input.',
       next_speaker: 'neither', // Invalid enum value
     } as unknown as NextSpeakerResponse);
@@ -233,7 +238,7 @@ describe('checkNextSpeaker', () => {
     expect(result).toBeNull();
   });
 
-  it('should call generateJson with DEFAULT_FLASH_MODEL', async () => {
+  it('should call generateUtilityJson as the nextSpeaker helper', async () => {
     (chatInstance.getHistory as Mock).mockReturnValue([
       { role: 'model', parts: [{ text: 'Some model output.' }] },
     ] as Content[]);
@@ -241,13 +246,16 @@ describe('checkNextSpeaker', () => {
       reasoning: 'Model made a statement, awaiting user input.',
       next_speaker: 'user',
     };
-    (mockGeminiClient.generateJson as Mock).mockResolvedValue(mockApiResponse);
+    (mockGeminiClient.generateUtilityJson as Mock).mockResolvedValue(
+      mockApiResponse,
+    );
 
     await checkNextSpeaker(chatInstance, mockGeminiClient, abortSignal);
 
-    expect(mockGeminiClient.generateJson).toHaveBeenCalled();
-    const generateJsonCall = (mockGeminiClient.generateJson as Mock).mock
-      .calls[0];
-    expect(generateJsonCall[3]).toBe(DEFAULT_FLASH_MODEL);
+    expect(mockGeminiClient.generateUtilityJson).toHaveBeenCalled();
+    const generateUtilityJsonCall = (
+      mockGeminiClient.generateUtilityJson as Mock
+    ).mock.calls[0];
+    expect(generateUtilityJsonCall[3]).toBe('nextSpeaker');
   });
 });
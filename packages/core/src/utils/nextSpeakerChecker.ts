@@ -5,7 +5,6 @@
  */
 
 import { Content, SchemaUnion, Type } from '@google/genai';
-import { DEFAULT_FLASH_MODEL } from '../config/models.js';
 import { GeminiClient } from '../core/client.js';
 import { GeminiChat } from '../core/geminiChat.js';
 import { isFunctionResponse } from './messageInspectors.js';
@@ -128,10 +127,11 @@ export async function checkNextSpeaker(
   ];
 
   try {
-    const parsedResponse = (await geminiClient.generateJson(
+    const parsedResponse = (await geminiClient.generateUtilityJson(
       contents,
       RESPONSE_SCHEMA,
       abortSignal,
+      'nextSpeaker',
     )) as unknown as NextSpeakerResponse;
 
     if (
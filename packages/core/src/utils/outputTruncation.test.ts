@@ -0,0 +1,67 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { getOutputBudgetBytes, truncateHeadTail } from './outputTruncation.js';
+import { modelCapabilityRegistry } from '../core/modelCapabilities.js';
+
+describe('getOutputBudgetBytes', () => {
+  afterEach(() => {
+    modelCapabilityRegistry.setOverrides({});
+  });
+
+  it('should scale with the context window between 4 KB and 64 KB', () => {
+    modelCapabilityRegistry.setOverrides({
+      small: { contextLength: 4096 },
+      local: { contextLength: 32768 },
+    });
+
+    expect(getOutputBudgetBytes('small')).toBe(4096);
+    expect(getOutputBudgetBytes('local')).toBe(13107);
+    expect(getOutputBudgetBytes('gemini-2.5-pro')).toBe(65536);
+  });
+});
+
+describe('truncateHeadTail', () => {
+  const marker = (omittedLines: number) => `[${omittedLines} lines omitted]`;
+  const lines = Array.from({ length: 100 }, (_, i) => `line ${i + 1}`);
+
+  it('should leave text within the budget alone', () => {
+    expect(truncateHeadTail('short\n', 100, marker)).toEqual({
+      text: 'short\n',
+      truncated: false,
+      omittedLines: 0,
+      omittedBytes: 0,
+    });
+  });
+
+  it('should keep whole lines from the start and more from the end', () => {
+    const result = truncateHeadTail(lines.join('\n'), 120, marker);
+
+    expect(result.text).toBe(
+      [
+        'line 1',
+        'line 2',
+        'line 3',
+        'line 4',
+        'line 5',
+        '[86 lines omitted]',
+        ...lines.slice(91),
+      ].join('\n'),
+    );
+    expect(result.truncated).toBe(true);
+    expect(result.omittedLines).toBe(86);
+  });
+
+  it('should not split multi-byte characters of a long line', () => {
+    const result = truncateHeadTail('é'.repeat(100), 31, marker);
+
+    expect(result.text).toBe(
+      `${'é'.repeat(5)}\n[1 lines omitted]\n${'é'.repeat(10)}`,
+    );
+    expect(result.omittedBytes).toBe(170);
+  });
+});
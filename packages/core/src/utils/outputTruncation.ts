@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { tokenLimit } from '../core/tokenLimits.js';
+
+/** Share of the context window one tool output may take. */
+const OUTPUT_CONTEXT_SHARE = 0.1;
+/** Bytes per token assumed when turning a token budget into bytes. */
+const BYTES_PER_TOKEN = 4;
+const MIN_OUTPUT_BUDGET_BYTES = 4 * 1024;
+const MAX_OUTPUT_BUDGET_BYTES = 64 * 1024;
+/** Share of the budget kept from the start; the rest is kept from the end. */
+const HEAD_SHARE = 1 / 3;
+
+/**
+ * Bytes of tool output worth sending to `model`: a tenth of its context
+ * window, between 4 KB and 64 KB. A 32k-token local model gets about 13 KB.
+ */
+export function getOutputBudgetBytes(model: string): number {
+  const budget = Math.floor(
+    tokenLimit(model) * OUTPUT_CONTEXT_SHARE * BYTES_PER_TOKEN,
+  );
+  return Math.min(
+    Math.max(budget, MIN_OUTPUT_BUDGET_BYTES),
+    MAX_OUTPUT_BUDGET_BYTES,
+  );
+}
+
+export interface TruncatedOutput {
+  text: string;
+  truncated: boolean;
+  /** Whole or partial lines left out of the middle */
+  omittedLines: number;
+  omittedBytes: number;
+}
+
+/**
+ * Shortens `text` to about `maxBytes` by keeping its start and, since errors
+ * and summaries tend to come last, a larger part of its end. Cuts are made
+ * at line breaks where possible. `marker` is given the number of omitted
+ * lines and goes where the middle was.
+ */
+export function truncateHeadTail(
+  text: string,
+  maxBytes: number,
+  marker: (omittedLines: number) => string,
+): TruncatedOutput {
+  const buffer = Buffer.from(text, 'utf8');
+  if (buffer.length <= maxBytes) {
+    return { text, truncated: false, omittedLines: 0, omittedBytes: 0 };
+  }
+
+  const headBytes = Math.floor(maxBytes * HEAD_SHARE);
+  let headEnd = buffer.lastIndexOf(0x0a, headBytes - 1) + 1;
+  if (headEnd === 0) {
+    headEnd = charBoundary(buffer, headBytes, -1);
+  }
+  let tailStart = buffer.indexOf(0x0a, buffer.length - (maxBytes - headBytes));
+  tailStart =
+    tailStart === -1
+      ? charBoundary(buffer, buffer.length - (maxBytes - headBytes), 1)
+      : tailStart + 1;
+
+  const omitted = buffer.subarray(headEnd, tailStart);
+  const omittedLines =
+    omitted.filter((byte) => byte === 0x0a).length +
+    (omitted.length > 0 && omitted[omitted.length - 1] !== 0x0a ? 1 : 0);
+  const head = buffer.subarray(0, headEnd).toString('utf8');
+  const tail = buffer.subarray(tailStart).toString('utf8');
+  return {
+    text: `${head}${head.endsWith('\n') || !head ? '' : '\n'}${marker(omittedLines)}\n${tail}`,
+    truncated: true,
+    omittedLines,
+    omittedBytes: omitted.length,
+  };
+}
+
+/**
+ * Moves `index` off the continuation bytes of a UTF-8 character, backwards
+ * (-1) or forwards (1), so the cut stays within the budget either way.
+ */
+function charBoundary(buffer: Buffer, index: number, step: -1 | 1): number {
+  let boundary = index;
+  while (
+    boundary > 0 &&
+    boundary < buffer.length &&
+    (buffer[boundary] & 0xc0) === 0x80
+  ) {
+    boundary += step;
+  }
+  return boundary;
+}
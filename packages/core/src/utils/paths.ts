@@ -158,3 +158,12 @@ export function getProjectTempDir(projectRoot: string): string {
   const hash = getProjectHash(projectRoot);
   return path.join(os.homedir(), GEMINI_DIR, TMP_DIR_NAME, hash);
 }
+
+/**
+ * Directory for the full output of shell commands that was too long to
+ * send to the model, which read_file may read from.
+ * @param projectRoot The absolute path to the project's root directory.
+ */
+export function getShellOutputDir(projectRoot: string): string {
+  return path.join(getProjectTempDir(projectRoot), 'shell-output');
+}
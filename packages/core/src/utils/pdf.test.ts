@@ -0,0 +1,77 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deflateSync } from 'node:zlib';
+import { parsePdfText } from './pdf.js';
+
+/** Builds a PDF body with one object per stream; enough for the parser. */
+function buildPdf(
+  streams: Array<{ content: Buffer | string; filter?: string }>,
+): Buffer {
+  const chunks: Buffer[] = [
+    Buffer.from('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n', 'latin1'),
+  ];
+  streams.forEach(({ content, filter }, index) => {
+    const data = Buffer.isBuffer(content)
+      ? content
+      : Buffer.from(content, 'latin1');
+    const filterEntry = filter ? ` /Filter ${filter}` : '';
+    chunks.push(
+      Buffer.from(
+        `${index + 1} 0 obj\n<< /Length ${data.length}${filterEntry} >>\nstream\n`,
+        'latin1',
+      ),
+      data,
+      Buffer.from('\nendstream\nendobj\n', 'latin1'),
+    );
+  });
+  chunks.push(Buffer.from('%%EOF\n', 'latin1'));
+  return Buffer.concat(chunks);
+}
+
+describe('parsePdfText', () => {
+  it('should read text lines from an uncompressed page', () => {
+    const pdf = buildPdf([
+      {
+        content:
+          'BT /F1 12 Tf 72 712 Td (Quarterly report) Tj 0 -14 Td [(Revenue) -250 (grew) -300 (12%)] TJ ET',
+      },
+    ]);
+
+    expect(parsePdfText(pdf)).toBe('Quarterly report\nRevenue grew 12%');
+  });
+
+  it('should inflate compressed pages and decode escapes', () => {
+    const page = String.raw`BT 1 0 0 1 72 700 Tm (Paths \(like C:\\tmp\)) Tj T* (caf\351) Tj ET`;
+    const pdf = buildPdf([
+      {
+        content: deflateSync(Buffer.from(page, 'latin1')),
+        filter: '/FlateDecode',
+      },
+    ]);
+
+    expect(parsePdfText(pdf)).toBe('Paths (like C:\\tmp)\ncafé');
+  });
+
+  it('should decode UTF-16 strings and keep pages apart', () => {
+    const pdf = buildPdf([
+      { content: 'BT <FEFF00480069> Tj ET' },
+      { content: 'BT (Page two) Tj ET' },
+    ]);
+
+    expect(parsePdfText(pdf)).toBe('Hi\n\nPage two');
+  });
+
+  it('should skip images and glyph ids it cannot map', () => {
+    const pdf = buildPdf([
+      { content: Buffer.from([0xff, 0xd8, 0xff, 0xe0]), filter: '/DCTDecode' },
+      { content: 'BT <00240025> Tj ET' },
+    ]);
+
+    expect(parsePdfText(pdf)).toBe('');
+  });
+});
@@ -0,0 +1,377 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { execFile } from 'node:child_process';
+import { promises as fsp } from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+import { promisify } from 'node:util';
+import { inflateSync } from 'node:zlib';
+
+const execFileAsync = promisify(execFile);
+
+/** Resolution of rasterized pages, enough to read body text. */
+const RASTER_DPI = 110;
+const POPPLER_TIMEOUT_MS = 60_000;
+
+/**
+ * Renders the first `maxPages` pages of a PDF to PNG images with poppler's
+ * `pdftoppm`. Returns undefined if poppler is not installed or the PDF
+ * cannot be rendered.
+ */
+export async function rasterizePdf(
+  data: Buffer,
+  maxPages: number,
+): Promise<Buffer[] | undefined> {
+  return withPdfFile(data, async (pdfPath, dir) => {
+    const prefix = path.join(dir, 'page');
+    await execFileAsync(
+      'pdftoppm',
+      [
+        '-png',
+        '-r',
+        String(RASTER_DPI),
+        '-l',
+        String(maxPages),
+        pdfPath,
+        prefix,
+      ],
+      { timeout: POPPLER_TIMEOUT_MS },
+    );
+    // pdftoppm pads page numbers to the width of the last one
+    const pages = (await fsp.readdir(dir))
+      .filter((file) => file.startsWith('page') && file.endsWith('.png'))
+      .sort();
+    return Promise.all(pages.map((file) => fsp.readFile(path.join(dir, file))));
+  });
+}
+
+/**
+ * Extracts the text of a PDF, with poppler's `pdftotext` if it is installed
+ * and with {@link parsePdfText} otherwise.
+ */
+export async function extractPdfText(data: Buffer): Promise<string> {
+  const text = await withPdfFile(data, async (pdfPath) => {
+    const { stdout } = await execFileAsync(
+      'pdftotext',
+      ['-layout', '-enc', 'UTF-8', pdfPath, '-'],
+      { timeout: POPPLER_TIMEOUT_MS, maxBuffer: 32 * 1024 * 1024 },
+    );
+    return stdout;
+  });
+  return (text ?? parsePdfText(data)).trim();
+}
+
+async function withPdfFile<T>(
+  data: Buffer,
+  run: (pdfPath: string, dir: string) => Promise<T>,
+): Promise<T | undefined> {
+  const dir = await fsp.mkdtemp(path.join(os.tmpdir(), 'samus-pdf-'));
+  try {
+    const pdfPath = path.join(dir, 'input.pdf');
+    await fsp.writeFile(pdfPath, data);
+    return await run(pdfPath, dir);
+  } catch (error) {
+    if (
+      !(error instanceof Error && 'code' in error && error.code === 'ENOENT')
+    ) {
+      console.debug('Could not convert PDF with poppler.', error);
+    }
+    return undefined;
+  } finally {
+    await fsp.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Pulls the text out of the content streams of a PDF without any external
+ * tool. Handles uncompressed and Flate-compressed streams with single-byte
+ * or UTF-16 strings, which covers most generated documents; text drawn with
+ * embedded CID fonts comes out empty rather than garbled.
+ */
+export function parsePdfText(data: Buffer): string {
+  const raw = data.toString('latin1');
+  const pages: string[] = [];
+  let searchFrom = 0;
+  for (;;) {
+    const streamIndex = raw.indexOf('stream', searchFrom);
+    if (streamIndex === -1) {
+      break;
+    }
+    searchFrom = streamIndex + 'stream'.length;
+    if (raw.startsWith('end', streamIndex - 3)) {
+      continue;
+    }
+    let dataStart = searchFrom;
+    if (raw[dataStart] === '\r') dataStart++;
+    if (raw[dataStart] !== '\n') continue;
+    dataStart++;
+    const dataEnd = raw.indexOf('endstream', dataStart);
+    if (dataEnd === -1) {
+      break;
+    }
+    searchFrom = dataEnd + 'endstream'.length;
+
+    const dictionary = raw.slice(
+      raw.lastIndexOf('obj', streamIndex),
+      streamIndex,
+    );
+    const content = decodeStream(
+      Buffer.from(raw.slice(dataStart, dataEnd), 'latin1'),
+      dictionary,
+    );
+    if (content && /\bBT\b/.test(content) && !/begincmap/.test(content)) {
+      const text = readContentStream(content);
+      if (text.trim()) {
+        pages.push(text.trim());
+      }
+    }
+  }
+  return pages.join('\n\n');
+}
+
+function decodeStream(data: Buffer, dictionary: string): string | undefined {
+  const filters = dictionary.match(/\/Filter\s*(\[[^\]]*\]|\/\w+)/)?.[1];
+  if (!filters) {
+    return data.toString('latin1');
+  }
+  const names = filters.match(/\/\w+/g) ?? [];
+  if (names.length !== 1 || names[0] !== '/FlateDecode') {
+    // Images and other encodings carry no text
+    return undefined;
+  }
+  try {
+    return inflateSync(data).toString('latin1');
+  } catch {
+    return undefined;
+  }
+}
+
+type Operand = string | number | Operand[];
+
+/** Interprets the text operators of a page content stream. */
+function readContentStream(content: string): string {
+  let text = '';
+  let lastY: number | undefined;
+  const newline = () => {
+    if (text && !text.endsWith('\n')) {
+      text += '\n';
+    }
+  };
+  const show = (value: Operand | undefined) => {
+    if (typeof value === 'string') {
+      text += value;
+    } else if (Array.isArray(value)) {
+      for (const item of value) {
+        if (typeof item === 'string') {
+          text += item;
+        } else if (typeof item === 'number' && item < -200) {
+          // A wide negative kern separates words
+          text += ' ';
+        }
+      }
+    }
+  };
+
+  const tokens = new ContentTokenizer(content);
+  const operands: Operand[] = [];
+  const arrays: Operand[][] = [];
+  for (let token = tokens.next(); token; token = tokens.next()) {
+    if (token.type === 'value') {
+      (arrays.at(-1) ?? operands).push(token.value);
+      continue;
+    }
+    const operator = token.value;
+    if (operator === '[') {
+      arrays.push([]);
+      continue;
+    }
+    if (operator === ']') {
+      const array = arrays.pop();
+      if (array) (arrays.at(-1) ?? operands).push(array);
+      continue;
+    }
+    switch (operator) {
+      case 'Tj':
+      case 'TJ':
+        show(operands.at(-1));
+        break;
+      case "'":
+      case '"':
+        newline();
+        show(operands.at(-1));
+        break;
+      case 'T*':
+      case 'ET':
+        newline();
+        break;
+      case 'Td':
+      case 'TD': {
+        const ty = operands[1];
+        if (typeof ty === 'number' && ty !== 0) newline();
+        else if (text && !/\s$/.test(text)) text += ' ';
+        break;
+      }
+      case 'Tm': {
+        const y = operands[5];
+        if (typeof y === 'number' && lastY !== undefined && y !== lastY) {
+          newline();
+        }
+        lastY = typeof y === 'number' ? y : lastY;
+        break;
+      }
+      case 'ID':
+        tokens.skipInlineImage();
+        break;
+      default:
+        break;
+    }
+    operands.length = 0;
+  }
+  return text;
+}
+
+type Token =
+  | { type: 'value'; value: Operand }
+  | { type: 'operator'; value: string };
+
+class ContentTokenizer {
+  private index = 0;
+
+  constructor(private readonly content: string) {}
+
+  next(): Token | undefined {
+    const content = this.content;
+    while (this.index < content.length) {
+      const ch = content[this.index];
+      if (/\s/.test(ch)) {
+        this.index++;
+      } else if (ch === '%') {
+        while (
+          this.index < content.length &&
+          !/[\r\n]/.test(content[this.index])
+        ) {
+          this.index++;
+        }
+      } else if (ch === '(') {
+        return { type: 'value', value: this.readLiteralString() };
+      } else if (ch === '<' && content[this.index + 1] === '<') {
+        this.index += 2;
+      } else if (ch === '>' && content[this.index + 1] === '>') {
+        this.index += 2;
+      } else if (ch === '<') {
+        return { type: 'value', value: this.readHexString() };
+      } else if (ch === '[' || ch === ']') {
+        this.index++;
+        return { type: 'operator', value: ch };
+      } else if (ch === '/') {
+        // Names only select fonts and resources, which carry no text
+        this.readWhile(/[^\s/[\]()<>{}%]/, this.index + 1);
+      } else if (/[\d.+-]/.test(ch)) {
+        return {
+          type: 'value',
+          value: Number(this.readWhile(/[\d.+-]/, this.index)) || 0,
+        };
+      } else {
+        const word = this.readWhile(/[^\s/[\]()<>{}%]/, this.index);
+        if (!word) {
+          this.index++;
+          continue;
+        }
+        return { type: 'operator', value: word };
+      }
+    }
+    return undefined;
+  }
+
+  /** Skips the binary data of an inline image, up to its EI operator. */
+  skipInlineImage(): void {
+    const end = this.content.slice(this.index).search(/\sEI(?=\s|$)/);
+    this.index = end === -1 ? this.content.length : this.index + end + 3;
+  }
+
+  private readWhile(pattern: RegExp, start: number): string {
+    let end = start;
+    while (end < this.content.length && pattern.test(this.content[end])) {
+      end++;
+    }
+    this.index = end;
+    return this.content.slice(start, end);
+  }
+
+  private readLiteralString(): string {
+    const content = this.content;
+    let depth = 0;
+    let bytes = '';
+    this.index++;
+    while (this.index < content.length) {
+      const ch = content[this.index++];
+      if (ch === '\\') {
+        const octal = /^[0-7]{1,3}/.exec(
+          content.slice(this.index, this.index + 3),
+        )?.[0];
+        if (octal) {
+          this.index += octal.length;
+          bytes += String.fromCharCode(parseInt(octal, 8) & 0xff);
+          continue;
+        }
+        const next = content[this.index++];
+        if (next === '\r' || next === '\n') {
+          if (next === '\r' && content[this.index] === '\n') this.index++;
+        } else {
+          bytes += ESCAPES[next] ?? next;
+        }
+      } else if (ch === '(') {
+        depth++;
+        bytes += ch;
+      } else if (ch === ')') {
+        if (depth === 0) break;
+        depth--;
+        bytes += ch;
+      } else {
+        bytes += ch;
+      }
+    }
+    return decodePdfString(bytes);
+  }
+
+  private readHexString(): string {
+    const end = this.content.indexOf('>', this.index);
+    const hex = this.content
+      .slice(this.index + 1, end === -1 ? undefined : end)
+      .replace(/[^0-9a-fA-F]/g, '');
+    this.index = end === -1 ? this.content.length : end + 1;
+    const bytes = (hex.length % 2 ? hex + '0' : hex)
+      .match(/../g)
+      ?.map((pair) => String.fromCharCode(parseInt(pair, 16)))
+      .join('');
+    return decodePdfString(bytes ?? '');
+  }
+}
+
+const ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+};
+
+/**
+ * Decodes the bytes of a PDF string. Strings in CID fonts are glyph ids
+ * that cannot be mapped without the font, so they are dropped.
+ */
+function decodePdfString(bytes: string): string {
+  if (bytes.startsWith('\xfe\xff')) {
+    const utf16 = Buffer.from(bytes.slice(2), 'latin1');
+    return utf16
+      .subarray(0, utf16.length - (utf16.length % 2))
+      .swap16()
+      .toString('utf16le');
+  }
+  // eslint-disable-next-line no-control-regex
+  return /[\x00-\x08\x0e-\x1f]/.test(bytes) ? '' : bytes;
+}
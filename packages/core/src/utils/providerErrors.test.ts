@@ -0,0 +1,96 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { APIConnectionError, APIConnectionTimeoutError } from 'openai';
+import {
+  isProviderUnavailableError,
+  isTimeoutError,
+} from './providerErrors.js';
+
+describe('isTimeoutError', () => {
+  it('should recognize timeouts by message, code and type', () => {
+    expect(isTimeoutError(new Error('Request timed out.'))).toBe(true);
+    expect(isTimeoutError({ code: 'ETIMEDOUT' })).toBe(true);
+    expect(isTimeoutError({ type: 'timeout' })).toBe(true);
+    expect(isTimeoutError(new Error('Invalid API key'))).toBe(false);
+    expect(isTimeoutError(undefined)).toBe(false);
+  });
+});
+
+describe('isProviderUnavailableError', () => {
+  it('should recognize refused connections through wrapped errors', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED'), {
+      code: 'ECONNREFUSED',
+    });
+    const fetchFailed = Object.assign(new TypeError('fetch failed'), {
+      cause: refused,
+    });
+    expect(
+      isProviderUnavailableError(
+        Object.assign(new Error('Ollama API error: fetch failed'), {
+          cause: fetchFailed,
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      isProviderUnavailableError(
+        Object.assign(new Error('OpenAI API error: Connection error.'), {
+          cause: new APIConnectionError({ cause: fetchFailed }),
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should recognize timeouts and server errors', () => {
+    expect(
+      isProviderUnavailableError(
+        Object.assign(new Error('Request timeout after 120s.'), {
+          cause: new APIConnectionTimeoutError(),
+        }),
+      ),
+    ).toBe(true);
+    expect(
+      isProviderUnavailableError(new DOMException('aborted', 'TimeoutError')),
+    ).toBe(true);
+    expect(isProviderUnavailableError({ message: 'oops', status: 503 })).toBe(
+      true,
+    );
+    expect(
+      isProviderUnavailableError(
+        Object.assign(new Error('OpenAI API error: 502 Bad Gateway'), {
+          cause: { status: 502 },
+        }),
+      ),
+    ).toBe(true);
+  });
+
+  it('should ignore errors that another backend would not fix', () => {
+    expect(
+      isProviderUnavailableError({ message: 'Invalid API key', status: 401 }),
+    ).toBe(false);
+    expect(
+      isProviderUnavailableError(new Error('model "llama9" not found')),
+    ).toBe(false);
+    expect(
+      isProviderUnavailableError(new Error('context length of 5000 exceeded')),
+    ).toBe(false);
+  });
+
+  it('should not read statuses or causes into the message', () => {
+    expect(
+      isProviderUnavailableError({
+        message: 'max_tokens must be <= 512',
+        status: 400,
+      }),
+    ).toBe(false);
+    expect(
+      isProviderUnavailableError(
+        new Error('Ollama API error: connection refused by policy, code 503'),
+      ),
+    ).toBe(false);
+  });
+});
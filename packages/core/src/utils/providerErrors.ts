@@ -0,0 +1,101 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { APIConnectionError } from 'openai';
+
+const CONNECTION_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'ESOCKETTIMEDOUT',
+  // Node's fetch
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+function describe(error: unknown): {
+  message: string;
+  name?: unknown;
+  code?: unknown;
+  type?: unknown;
+  status?: unknown;
+  cause?: unknown;
+} {
+  if (typeof error === 'object' && error !== null) {
+    const { message, name, code, type, status, cause } = error as Record<
+      string,
+      unknown
+    >;
+    return {
+      message: typeof message === 'string' ? message.toLowerCase() : '',
+      name,
+      code,
+      type,
+      status,
+      cause,
+    };
+  }
+  return { message: String(error).toLowerCase() };
+}
+
+/**
+ * Checks if an error is a timeout error
+ */
+export function isTimeoutError(error: unknown): boolean {
+  if (!error) return false;
+
+  const { message, code, type } = describe(error);
+
+  // Check for common timeout indicators
+  return (
+    message.includes('timeout') ||
+    message.includes('timed out') ||
+    message.includes('connection timeout') ||
+    message.includes('request timeout') ||
+    message.includes('read timeout') ||
+    message.includes('etimedout') || // Include ETIMEDOUT in message check
+    message.includes('esockettimedout') || // Include ESOCKETTIMEDOUT in message check
+    code === 'ETIMEDOUT' ||
+    code === 'ESOCKETTIMEDOUT' ||
+    type === 'timeout' ||
+    // OpenAI specific timeout indicators
+    message.includes('request timed out') ||
+    message.includes('deadline exceeded')
+  );
+}
+
+/**
+ * Checks if a request failed because the provider could not serve it at all:
+ * the server refused or dropped the connection, timed out, or answered with
+ * a 5xx status. Such errors are worth retrying on another backend.
+ *
+ * Only the status, error code and error type count, never the message, which
+ * may quote numbers or words from the request. Generators wrap the underlying
+ * error, so the `cause` chain is followed.
+ */
+export function isProviderUnavailableError(error: unknown, depth = 0): boolean {
+  if (!error || depth > 3) return false;
+
+  const { name, code, status, cause } = describe(error);
+  if (typeof status === 'number' && status >= 500 && status < 600) {
+    return true;
+  }
+  if (typeof code === 'string' && CONNECTION_ERROR_CODES.has(code)) {
+    return true;
+  }
+  // The OpenAI SDK reports refused connections and timeouts without a status,
+  // and AbortSignal.timeout() aborts a fetch with a TimeoutError.
+  if (error instanceof APIConnectionError || name === 'TimeoutError') {
+    return true;
+  }
+  return isProviderUnavailableError(cause, depth + 1);
+}
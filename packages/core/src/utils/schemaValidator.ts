@@ -33,11 +33,11 @@ export class SchemaValidator {
   }
 
   /**
-   * Converts @google/genai's Schema to an object compatible with avj.
+   * Converts @google/genai's Schema to a JSON Schema object compatible with avj.
    * This is necessry because it represents Types as an Enum (with
    * UPPERCASE values) and minItems and minLength as strings, when they should be numbers.
    */
-  private static toObjectSchema(schema: Schema): object {
+  static toObjectSchema(schema: Schema): object {
     const newSchema: Record<string, unknown> = { ...schema };
     if (newSchema.anyOf && Array.isArray(newSchema.anyOf)) {
       newSchema.anyOf = newSchema.anyOf.map((v) => this.toObjectSchema(v));
@@ -0,0 +1,186 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  ShellCommand,
+  ShellParseError,
+  ShellScript,
+  ShellSimpleCommand,
+  parseShellScript,
+} from './shellParser.js';
+
+/** The text of every simple command in `script`, including nested ones. */
+function commandTexts(script: ShellScript): string[] {
+  const texts: string[] = [];
+  const visitCommand = (command: ShellCommand) => {
+    const words =
+      command.type === 'simple'
+        ? [
+            ...command.assignments.map((assignment) => assignment.value),
+            ...command.words,
+          ]
+        : command.words;
+    for (const word of [
+      ...words,
+      ...command.redirects.map((redirect) => redirect.target),
+    ]) {
+      word.substitutions.forEach(visitScript);
+    }
+    if (command.type === 'simple') {
+      texts.push(command.text);
+    } else {
+      command.bodies.forEach(visitScript);
+    }
+  };
+  const visitScript = (nested: ShellScript) => {
+    for (const statement of nested.statements) {
+      for (const pipeline of statement.pipelines) {
+        pipeline.commands.forEach(visitCommand);
+      }
+    }
+  };
+  visitScript(script);
+  return texts;
+}
+
+function firstCommand(script: string): ShellSimpleCommand {
+  return parseShellScript(script).statements[0].pipelines[0]
+    .commands[0] as ShellSimpleCommand;
+}
+
+describe('parseShellScript', () => {
+  it('should split lists and pipelines into commands', () => {
+    const script = parseShellScript(
+      'npm ci && npm test | tee log || echo failed; sleep 1 &\nls',
+    );
+
+    expect(script.statements).toHaveLength(3);
+    expect(script.statements[0].pipelines).toHaveLength(3);
+    expect(script.statements[1].background).toBe(true);
+    expect(commandTexts(script)).toEqual([
+      'npm ci',
+      'npm test',
+      'tee log',
+      'echo failed',
+      'sleep 1',
+      'ls',
+    ]);
+  });
+
+  it('should remove quotes and mark expansions as dynamic', () => {
+    const command = firstCommand(
+      `echo 'single' "double $HOME" a\\ b $'tab\\t' plain`,
+    );
+
+    expect(command.words.map((word) => [word.value, word.dynamic])).toEqual([
+      ['echo', false],
+      ['single', false],
+      ['double $HOME', true],
+      ['a b', false],
+      ['tab\t', false],
+      ['plain', false],
+    ]);
+  });
+
+  it('should separate assignments and redirections from words', () => {
+    const command = firstCommand(
+      'LD_PRELOAD=x.so FOO="a b" cmd arg >out.txt 2>&1 <<<"input"',
+    );
+
+    expect(command.assignments.map((assignment) => assignment.name)).toEqual([
+      'LD_PRELOAD',
+      'FOO',
+    ]);
+    expect(command.words.map((word) => word.value)).toEqual(['cmd', 'arg']);
+    expect(
+      command.redirects.map((redirect) => [
+        redirect.fd,
+        redirect.operator,
+        redirect.target.value,
+      ]),
+    ).toEqual([
+      [undefined, '>', 'out.txt'],
+      ['2', '>&', '1'],
+      [undefined, '<<<', 'input'],
+    ]);
+  });
+
+  it('should find commands in substitutions', () => {
+    const script = parseShellScript(
+      'echo $(whoami) `date` "$(id -u)" ${X:-$(pwd)} $((1 + $(nproc))) > >(tee log) <(ls)',
+    );
+
+    expect(commandTexts(script)).toEqual([
+      'whoami',
+      'date',
+      'id -u',
+      'pwd',
+      'nproc',
+      'ls',
+      'tee log',
+      'echo $(whoami) `date` "$(id -u)" ${X:-$(pwd)} $((1 + $(nproc))) > >(tee log) <(ls)',
+    ]);
+  });
+
+  it('should find commands in compound commands', () => {
+    const script = parseShellScript(
+      [
+        'if [[ -f a ]]; then cd /tmp; elif test -d b; then :; else exit 1; fi',
+        'for f in *.ts; do wc -l "$f"; done',
+        'while read line; do echo "$line"; done < list',
+        'case $1 in start|run) serve ;; *) usage ;; esac',
+        '(cd sub && make) > build.log',
+        'deploy() { rsync -a . host:; }',
+      ].join('\n'),
+    );
+
+    expect(commandTexts(script)).toEqual([
+      'cd /tmp',
+      'test -d b',
+      ':',
+      'exit 1',
+      'wc -l "$f"',
+      'read line',
+      'echo "$line"',
+      'serve',
+      'usage',
+      'cd sub',
+      'make',
+      'rsync -a . host:',
+    ]);
+  });
+
+  it('should read here-documents and expand unquoted ones', () => {
+    const script = parseShellScript(
+      "cat <<EOF > a\nuser $(whoami)\nEOF\ncat <<'EOF'\n$(rm -rf /)\nEOF\necho done",
+    );
+
+    expect(commandTexts(script)).toEqual([
+      'whoami',
+      'cat <<EOF > a',
+      "cat <<'EOF'",
+      'echo done',
+    ]);
+  });
+
+  it('should ignore comments', () => {
+    expect(commandTexts(parseShellScript('ls # && rm -rf /\n# done'))).toEqual([
+      'ls',
+    ]);
+  });
+
+  it('should reject scripts that are not valid bash', () => {
+    for (const script of [
+      'echo "open',
+      'echo $(date',
+      'if true; then',
+      '&& ls',
+    ]) {
+      expect(() => parseShellScript(script)).toThrow(ShellParseError);
+    }
+  });
+});
@@ -0,0 +1,865 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+/**
+ * A small parser for the bash command language, covering what is needed to
+ * see every command a script runs: lists, pipelines, redirections, compound
+ * commands, here-documents and command and process substitutions. It does
+ * not expand anything; words keep their expansions as written.
+ */
+
+export class ShellParseError extends Error {
+  constructor(
+    message: string,
+    readonly position: number,
+  ) {
+    super(message);
+    this.name = 'ShellParseError';
+  }
+}
+
+export interface ShellWord {
+  /** The word as written, including quotes. */
+  raw: string;
+  /** The word after quote removal, with expansions left as written. */
+  value: string;
+  /** Whether the word contains expansions, so its value is only known when it runs. */
+  dynamic: boolean;
+  /** Scripts run by command and process substitutions in the word. */
+  substitutions: ShellScript[];
+}
+
+export interface ShellRedirect {
+  /** File descriptor or `{name}` before the operator, if any. */
+  fd?: string;
+  /** One of `<`, `>`, `>>`, `>|`, `<>`, `&>`, `&>>`, `<&`, `>&`, `<<`, `<<-` or `<<<`. */
+  operator: string;
+  /** The file, descriptor, here-document delimiter or here-string. */
+  target: ShellWord;
+}
+
+export interface ShellAssignment {
+  name: string;
+  value: ShellWord;
+}
+
+export interface ShellSimpleCommand {
+  type: 'simple';
+  /** Variable assignments before the command name. */
+  assignments: ShellAssignment[];
+  /** The command name followed by its arguments; empty for bare assignments. */
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+  /** The command as written, with runs of whitespace collapsed. */
+  text: string;
+}
+
+export interface ShellCompoundCommand {
+  type: 'compound';
+  /** `subshell` for `( )`, `group` for `{ }`, otherwise the keyword, e.g. `if`. */
+  kind: string;
+  /** Words the construct expands besides its bodies, e.g. the list of a for loop. */
+  words: ShellWord[];
+  /** Scripts in the construct, in the order they appear. */
+  bodies: ShellScript[];
+  redirects: ShellRedirect[];
+}
+
+export type ShellCommand = ShellSimpleCommand | ShellCompoundCommand;
+
+export interface ShellPipeline {
+  commands: ShellCommand[];
+}
+
+export interface ShellStatement {
+  /** Pipelines joined by `&&` and `||`. */
+  pipelines: ShellPipeline[];
+  /** Whether the statement is followed by `&`. */
+  background: boolean;
+}
+
+export interface ShellScript {
+  statements: ShellStatement[];
+}
+
+const METACHARACTERS = ' \t\n;&|<>()';
+const OPERATORS = [
+  ';;&',
+  '&&',
+  '||',
+  ';;',
+  ';&',
+  '|&',
+  '|',
+  ';',
+  '&',
+  '\n',
+  '(',
+  ')',
+];
+const REDIRECT =
+  /(\d+|\{[A-Za-z_]\w*\})?(&>>|&>|<<<|<<-|<<|<>|<&|>&|>>|>\||<|>)/y;
+const ASSIGNMENT = /^([A-Za-z_]\w*)(\[[^\]]*\])?\+?=/;
+const CASE_TERMINATORS = [';;&', ';;', ';&'];
+const CLOSE_PAREN = new Set([')']);
+
+interface PendingHeredoc {
+  delimiter: string;
+  stripTabs: boolean;
+  quoted: boolean;
+  target: ShellWord;
+}
+
+class Parser {
+  private pos = 0;
+  private pendingHeredocs: PendingHeredoc[] = [];
+
+  constructor(private readonly src: string) {}
+
+  parseAll(): ShellScript {
+    const script = this.parseScript(new Set());
+    if (!this.atEnd()) {
+      throw this.error(`unexpected "${this.src[this.pos]}"`);
+    }
+    return script;
+  }
+
+  /** Parses statements until the end or one of `terminators`, which is left unread. */
+  private parseScript(terminators: ReadonlySet<string>): ShellScript {
+    const statements: ShellStatement[] = [];
+    for (;;) {
+      this.skipBlank(true);
+      if (this.atEnd() || this.atTerminator(terminators)) {
+        return { statements };
+      }
+      const pipelines = [this.parsePipeline()];
+      for (;;) {
+        this.skipBlank(false);
+        const operator = this.peekOperator();
+        if (operator !== '&&' && operator !== '||') {
+          break;
+        }
+        this.pos += 2;
+        this.skipBlank(true);
+        pipelines.push(this.parsePipeline());
+      }
+      const operator = this.peekOperator();
+      let background = false;
+      if (operator === '&') {
+        this.pos++;
+        background = true;
+      } else if (operator === ';') {
+        this.pos++;
+      } else if (
+        operator !== '\n' &&
+        !this.atEnd() &&
+        !this.atTerminator(terminators)
+      ) {
+        throw this.error(`unexpected "${operator ?? this.src[this.pos]}"`);
+      }
+      statements.push({ pipelines, background });
+    }
+  }
+
+  private parsePipeline(): ShellPipeline {
+    for (;;) {
+      const word = this.peekBareWord();
+      if (word !== '!' && word !== 'time') {
+        break;
+      }
+      this.pos += word.length;
+      this.skipBlank(false);
+      if (word === 'time' && this.peekBareWord() === '-p') {
+        this.pos += 2;
+        this.skipBlank(false);
+      }
+    }
+    const commands = [this.parseCommand()];
+    for (;;) {
+      this.skipBlank(false);
+      const operator = this.peekOperator();
+      if (operator !== '|' && operator !== '|&') {
+        return { commands };
+      }
+      this.pos += operator.length;
+      this.skipBlank(true);
+      commands.push(this.parseCommand());
+    }
+  }
+
+  private parseCommand(): ShellCommand {
+    this.skipBlank(false);
+    let command: ShellCompoundCommand;
+    if (this.src.startsWith('((', this.pos)) {
+      this.pos += 2;
+      command = this.compound('arithmetic', [this.scanUntil('))')], []);
+    } else if (this.src[this.pos] === '(') {
+      this.pos++;
+      const body = this.parseScript(CLOSE_PAREN);
+      this.expect(')');
+      command = this.compound('subshell', [], [body]);
+    } else {
+      switch (this.peekBareWord()) {
+        case '{':
+          this.pos++;
+          command = this.compound('group', [], [this.parseBody('}')]);
+          break;
+        case 'if':
+          command = this.parseIf();
+          break;
+        case 'while':
+        case 'until':
+          command = this.parseWhile();
+          break;
+        case 'for':
+        case 'select':
+          command = this.parseFor();
+          break;
+        case 'case':
+          command = this.parseCase();
+          break;
+        case 'function':
+          command = this.parseFunction();
+          break;
+        case '[[':
+          this.pos += 2;
+          command = this.compound('conditional', [this.scanUntil(']]')], []);
+          break;
+        default:
+          return this.parseSimpleCommand();
+      }
+    }
+    for (;;) {
+      this.skipBlank(false);
+      const redirect = this.parseRedirect();
+      if (!redirect) {
+        return command;
+      }
+      command.redirects.push(redirect);
+    }
+  }
+
+  private compound(
+    kind: string,
+    words: ShellWord[],
+    bodies: ShellScript[],
+  ): ShellCompoundCommand {
+    return { type: 'compound', kind, words, bodies, redirects: [] };
+  }
+
+  /** Parses statements up to the reserved word `end` and reads it. */
+  private parseBody(end: string): ShellScript {
+    const body = this.parseScript(new Set([end]));
+    this.expectWord(end);
+    return body;
+  }
+
+  private parseIf(): ShellCompoundCommand {
+    this.pos += 'if'.length;
+    const bodies = [this.parseBody('then')];
+    const endings = new Set(['elif', 'else', 'fi']);
+    bodies.push(this.parseScript(endings));
+    for (;;) {
+      const word = this.peekBareWord();
+      this.expectWord(word && endings.has(word) ? word : 'fi');
+      if (word === 'elif') {
+        bodies.push(this.parseBody('then'));
+        bodies.push(this.parseScript(endings));
+      } else if (word === 'else') {
+        bodies.push(this.parseBody('fi'));
+        return this.compound('if', [], bodies);
+      } else {
+        return this.compound('if', [], bodies);
+      }
+    }
+  }
+
+  private parseWhile(): ShellCompoundCommand {
+    const kind = this.peekBareWord()!;
+    this.pos += kind.length;
+    const condition = this.parseBody('do');
+    return this.compound(kind, [], [condition, this.parseBody('done')]);
+  }
+
+  private parseFor(): ShellCompoundCommand {
+    const kind = this.peekBareWord()!;
+    this.pos += kind.length;
+    this.skipBlank(false);
+    const words: ShellWord[] = [];
+    if (this.src.startsWith('((', this.pos)) {
+      this.pos += 2;
+      words.push(this.scanUntil('))'));
+    } else {
+      this.parseWord();
+      this.skipBlank(true);
+      if (this.peekBareWord() === 'in') {
+        this.pos += 'in'.length;
+        for (;;) {
+          this.skipBlank(false);
+          const c = this.src[this.pos];
+          if (this.atEnd() || c === ';' || c === '\n') {
+            break;
+          }
+          words.push(this.parseWord());
+        }
+      }
+    }
+    this.skipBlank(false);
+    if (this.src[this.pos] === ';') {
+      this.pos++;
+    }
+    this.skipBlank(true);
+    if (this.peekBareWord() === '{') {
+      this.pos++;
+      return this.compound(kind, words, [this.parseBody('}')]);
+    }
+    this.expectWord('do');
+    return this.compound(kind, words, [this.parseBody('done')]);
+  }
+
+  private parseCase(): ShellCompoundCommand {
+    this.pos += 'case'.length;
+    this.skipBlank(false);
+    const words = [this.parseWord()];
+    const bodies: ShellScript[] = [];
+    this.skipBlank(true);
+    this.expectWord('in');
+    const terminators = new Set([';;', 'esac']);
+    for (;;) {
+      this.skipBlank(true);
+      if (this.peekBareWord() === 'esac') {
+        this.pos += 'esac'.length;
+        return this.compound('case', words, bodies);
+      }
+      if (this.src[this.pos] === '(') {
+        this.pos++;
+      }
+      for (;;) {
+        this.skipBlank(false);
+        words.push(this.parseWord());
+        this.skipBlank(false);
+        if (this.src[this.pos] === '|') {
+          this.pos++;
+        } else {
+          this.expect(')');
+          break;
+        }
+      }
+      bodies.push(this.parseScript(terminators));
+      const operator = this.peekOperator();
+      if (operator && CASE_TERMINATORS.includes(operator)) {
+        this.pos += operator.length;
+      }
+    }
+  }
+
+  private parseFunction(): ShellCompoundCommand {
+    this.pos += 'function'.length;
+    this.skipBlank(false);
+    const name = this.parseWord();
+    return this.parseFunctionBody(name);
+  }
+
+  /** Reads the optional `()` after a function name and the body. */
+  private parseFunctionBody(name: ShellWord): ShellCompoundCommand {
+    const parens = /\s*\(\s*\)/y;
+    parens.lastIndex = this.pos;
+    if (parens.test(this.src)) {
+      this.pos = parens.lastIndex;
+    }
+    this.skipBlank(true);
+    const body = this.parseCommand();
+    return this.compound(
+      'function',
+      [name],
+      [
+        {
+          statements: [
+            { pipelines: [{ commands: [body] }], background: false },
+          ],
+        },
+      ],
+    );
+  }
+
+  private parseSimpleCommand(): ShellCommand {
+    const start = this.pos;
+    const assignments: ShellAssignment[] = [];
+    const words: ShellWord[] = [];
+    const redirects: ShellRedirect[] = [];
+    let end = start;
+    for (;;) {
+      this.skipBlank(false);
+      if (this.atEnd()) {
+        break;
+      }
+      const redirect = this.parseRedirect();
+      if (redirect) {
+        redirects.push(redirect);
+        end = this.pos;
+        continue;
+      }
+      if (this.atMetacharacter() && !this.atProcessSubstitution()) {
+        break;
+      }
+      const word = this.parseWord();
+      end = this.pos;
+      const assignment = ASSIGNMENT.exec(word.raw);
+      if (words.length === 0 && assignment) {
+        assignments.push({
+          name: assignment[1],
+          value: this.assignedValue(word, assignment[0].length),
+        });
+        end = this.pos;
+        continue;
+      }
+      if (words.length === 0 && /^\s*\(\s*\)/.test(this.src.slice(this.pos))) {
+        return this.parseFunctionBody(word);
+      }
+      words.push(word);
+    }
+    if (!assignments.length && !words.length && !redirects.length) {
+      throw this.error(
+        this.atEnd()
+          ? 'unexpected end of command'
+          : `unexpected "${this.peekOperator() ?? this.src[this.pos]}"`,
+      );
+    }
+    return {
+      type: 'simple',
+      assignments,
+      words,
+      redirects,
+      text: this.src.slice(start, end).trim().replace(/\s+/g, ' '),
+    };
+  }
+
+  /** The value of an assignment word, including array values like `a=(1 2)`. */
+  private assignedValue(word: ShellWord, prefixLength: number): ShellWord {
+    const value: ShellWord = {
+      raw: word.raw.slice(prefixLength),
+      value: word.value.slice(word.value.indexOf('=') + 1),
+      dynamic: word.dynamic,
+      substitutions: word.substitutions,
+    };
+    if (value.raw || this.src[this.pos] !== '(') {
+      return value;
+    }
+    const start = this.pos++;
+    for (;;) {
+      this.skipBlank(true);
+      if (this.src[this.pos] === ')') {
+        this.pos++;
+        break;
+      }
+      if (this.atEnd()) {
+        throw this.error('unterminated array assignment');
+      }
+      const element = this.parseWord();
+      if (!element.raw) {
+        throw this.error(`unexpected "${this.src[this.pos]}"`);
+      }
+      value.dynamic ||= element.dynamic;
+      value.substitutions.push(...element.substitutions);
+    }
+    value.raw = value.value = this.src.slice(start, this.pos);
+    return value;
+  }
+
+  private parseRedirect(): ShellRedirect | undefined {
+    REDIRECT.lastIndex = this.pos;
+    const match = REDIRECT.exec(this.src);
+    if (!match) {
+      return undefined;
+    }
+    const [text, fd, operator] = match;
+    // `<(` and `>(` start a process substitution, which is a word
+    if (
+      (operator === '<' || operator === '>') &&
+      this.src[REDIRECT.lastIndex] === '('
+    ) {
+      return undefined;
+    }
+    this.pos += text.length;
+    this.skipBlank(false);
+    if (
+      this.atEnd() ||
+      (this.atMetacharacter() && !this.atProcessSubstitution())
+    ) {
+      throw this.error(`expected a word after "${operator}"`);
+    }
+    const target = this.parseWord();
+    if (operator === '<<' || operator === '<<-') {
+      this.pendingHeredocs.push({
+        delimiter: target.value,
+        stripTabs: operator === '<<-',
+        quoted: /['"\\]/.test(target.raw),
+        target,
+      });
+    }
+    return { fd, operator, target };
+  }
+
+  private parseWord(): ShellWord {
+    const start = this.pos;
+    const substitutions: ShellScript[] = [];
+    let value = '';
+    let dynamic = false;
+    while (!this.atEnd()) {
+      const c = this.src[this.pos];
+      if (this.atProcessSubstitution()) {
+        const substitutionStart = this.pos;
+        this.pos += 2;
+        substitutions.push(this.parseScript(CLOSE_PAREN));
+        this.expect(')');
+        value += this.src.slice(substitutionStart, this.pos);
+        dynamic = true;
+        continue;
+      }
+      if (this.atMetacharacter()) {
+        break;
+      }
+      if (c === '\\') {
+        if (this.src[this.pos + 1] !== '\n') {
+          value += this.src[this.pos + 1] ?? '';
+        }
+        this.pos += 2;
+      } else if (c === "'") {
+        value += this.readSingleQuoted();
+      } else if (c === '$' && this.src[this.pos + 1] === "'") {
+        this.pos++;
+        value += decodeAnsiC(this.readSingleQuoted(true));
+      } else if (c === '"' || (c === '$' && this.src[this.pos + 1] === '"')) {
+        this.pos += c === '$' ? 2 : 1;
+        const quoted = this.readDoubleQuoted(substitutions);
+        value += quoted.value;
+        dynamic ||= quoted.dynamic;
+      } else {
+        const expansion = this.readExpansion(substitutions);
+        if (expansion === undefined) {
+          value += c;
+          this.pos++;
+        } else {
+          value += expansion;
+          dynamic = true;
+        }
+      }
+    }
+    return {
+      raw: this.src.slice(start, this.pos),
+      value,
+      dynamic,
+      substitutions,
+    };
+  }
+
+  /** Reads `'...'`, where `escapes` keeps backslash-escaped quotes as in `$'...'`. */
+  private readSingleQuoted(escapes = false): string {
+    let end = this.pos + 1;
+    while (end < this.src.length && this.src[end] !== "'") {
+      end += escapes && this.src[end] === '\\' ? 2 : 1;
+    }
+    if (end >= this.src.length) {
+      throw this.error('unterminated single quote');
+    }
+    const text = this.src.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return text;
+  }
+
+  /** Reads the rest of a double-quoted string, after the opening quote. */
+  private readDoubleQuoted(substitutions: ShellScript[]): {
+    value: string;
+    dynamic: boolean;
+  } {
+    let value = '';
+    let dynamic = false;
+    for (;;) {
+      if (this.atEnd()) {
+        throw this.error('unterminated double quote');
+      }
+      const c = this.src[this.pos];
+      if (c === '"') {
+        this.pos++;
+        return { value, dynamic };
+      }
+      if (c === '\\' && '$`"\\\n'.includes(this.src[this.pos + 1])) {
+        if (this.src[this.pos + 1] !== '\n') {
+          value += this.src[this.pos + 1];
+        }
+        this.pos += 2;
+        continue;
+      }
+      const expansion = this.readExpansion(substitutions);
+      if (expansion === undefined) {
+        value += c;
+        this.pos++;
+      } else {
+        value += expansion;
+        dynamic = true;
+      }
+    }
+  }
+
+  /**
+   * Reads a parameter, arithmetic or command expansion at the current
+   * position and returns it as written, or undefined if there is none.
+   */
+  private readExpansion(substitutions: ShellScript[]): string | undefined {
+    const start = this.pos;
+    const c = this.src[this.pos];
+    const next = this.src[this.pos + 1];
+    if (c === '`') {
+      let end = this.pos + 1;
+      while (end < this.src.length && this.src[end] !== '`') {
+        end += this.src[end] === '\\' ? 2 : 1;
+      }
+      if (end >= this.src.length) {
+        throw this.error('unterminated backquote');
+      }
+      const inner = this.src
+        .slice(this.pos + 1, end)
+        .replace(/\\([`$\\])/g, '$1');
+      substitutions.push(this.parseNested(inner, this.pos + 1));
+      this.pos = end + 1;
+    } else if (c !== '$') {
+      return undefined;
+    } else if (this.src.startsWith('$((', this.pos)) {
+      this.pos += 3;
+      substitutions.push(...this.scanUntil('))').substitutions);
+    } else if (next === '(') {
+      this.pos += 2;
+      substitutions.push(this.parseScript(CLOSE_PAREN));
+      this.expect(')');
+    } else if (next === '{') {
+      this.pos += 2;
+      substitutions.push(...this.scanUntil('}').substitutions);
+    } else if (next !== undefined && /[A-Za-z_]/.test(next)) {
+      this.pos++;
+      while (/\w/.test(this.src[this.pos] ?? '')) {
+        this.pos++;
+      }
+    } else if (next !== undefined && /[\d@*#?$!-]/.test(next)) {
+      this.pos += 2;
+    } else {
+      return undefined;
+    }
+    return this.src.slice(start, this.pos);
+  }
+
+  /**
+   * Reads up to `end` at nesting depth zero, for arithmetic, `[[ ]]` and
+   * `${ }`, collecting the substitutions inside, and reads `end` too.
+   */
+  private scanUntil(end: string): ShellWord {
+    const start = this.pos;
+    const substitutions: ShellScript[] = [];
+    let depth = 0;
+    while (depth > 0 || !this.src.startsWith(end, this.pos)) {
+      if (this.atEnd()) {
+        throw this.error(`expected "${end}"`);
+      }
+      const c = this.src[this.pos];
+      if (c === '\\') {
+        this.pos += 2;
+      } else if (c === "'") {
+        this.readSingleQuoted();
+      } else if (c === '"') {
+        this.pos++;
+        this.readDoubleQuoted(substitutions);
+      } else if (this.readExpansion(substitutions) === undefined) {
+        if (c === '(' || c === '{') {
+          depth++;
+        } else if ((c === ')' || c === '}') && depth > 0) {
+          depth--;
+        }
+        this.pos++;
+      }
+    }
+    const raw = this.src.slice(start, this.pos);
+    this.pos += end.length;
+    return { raw, value: raw, dynamic: true, substitutions };
+  }
+
+  /** Parses a script embedded in the source, e.g. between backquotes. */
+  private parseNested(source: string, offset: number): ShellScript {
+    try {
+      return new Parser(source).parseAll();
+    } catch (e) {
+      if (e instanceof ShellParseError) {
+        throw new ShellParseError(e.message, offset + e.position);
+      }
+      throw e;
+    }
+  }
+
+  /** Reads the bodies of here-documents started on the line just ended. */
+  private readHeredocs(): void {
+    for (const heredoc of this.pendingHeredocs.splice(0)) {
+      const bodyStart = this.pos;
+      let bodyEnd = this.src.length;
+      while (!this.atEnd()) {
+        const lineEnd = this.src.indexOf('\n', this.pos);
+        const line = this.src.slice(
+          this.pos,
+          lineEnd === -1 ? this.src.length : lineEnd,
+        );
+        const lineStart = this.pos;
+        this.pos = lineEnd === -1 ? this.src.length : lineEnd + 1;
+        if (
+          (heredoc.stripTabs ? line.replace(/^\t+/, '') : line) ===
+          heredoc.delimiter
+        ) {
+          bodyEnd = lineStart;
+          break;
+        }
+      }
+      if (!heredoc.quoted) {
+        const body = new Parser(this.src.slice(bodyStart, bodyEnd));
+        while (!body.atEnd()) {
+          if (body.src[body.pos] === '\\') {
+            body.pos += 2;
+          } else if (
+            body.readExpansion(heredoc.target.substitutions) === undefined
+          ) {
+            body.pos++;
+          }
+        }
+      }
+    }
+  }
+
+  /** Skips blanks, line continuations and comments, and newlines if `newlines`. */
+  private skipBlank(newlines: boolean): void {
+    for (;;) {
+      const c = this.src[this.pos];
+      if (c === ' ' || c === '\t') {
+        this.pos++;
+      } else if (c === '\\' && this.src[this.pos + 1] === '\n') {
+        this.pos += 2;
+      } else if (c === '#') {
+        const lineEnd = this.src.indexOf('\n', this.pos);
+        this.pos = lineEnd === -1 ? this.src.length : lineEnd;
+      } else if (c === '\n' && newlines) {
+        this.pos++;
+        this.readHeredocs();
+      } else {
+        return;
+      }
+    }
+  }
+
+  private peekOperator(): string | undefined {
+    if (this.src.startsWith('&>', this.pos)) {
+      return undefined;
+    }
+    return OPERATORS.find((operator) =>
+      this.src.startsWith(operator, this.pos),
+    );
+  }
+
+  /** The unquoted text up to the next metacharacter, for spotting reserved words. */
+  private peekBareWord(): string | undefined {
+    let end = this.pos;
+    while (end < this.src.length && !METACHARACTERS.includes(this.src[end])) {
+      end++;
+    }
+    return end > this.pos ? this.src.slice(this.pos, end) : undefined;
+  }
+
+  private atTerminator(terminators: ReadonlySet<string>): boolean {
+    if (terminators.has(')') && this.src[this.pos] === ')') {
+      return true;
+    }
+    const operator = this.peekOperator();
+    if (
+      terminators.has(';;') &&
+      operator &&
+      CASE_TERMINATORS.includes(operator)
+    ) {
+      return true;
+    }
+    const word = this.peekBareWord();
+    return word !== undefined && terminators.has(word);
+  }
+
+  private atMetacharacter(): boolean {
+    return METACHARACTERS.includes(this.src[this.pos]);
+  }
+
+  private atProcessSubstitution(): boolean {
+    const c = this.src[this.pos];
+    return (c === '<' || c === '>') && this.src[this.pos + 1] === '(';
+  }
+
+  private atEnd(): boolean {
+    return this.pos >= this.src.length;
+  }
+
+  private expect(text: string): void {
+    if (!this.src.startsWith(text, this.pos)) {
+      throw this.error(
+        this.atEnd()
+          ? `expected "${text}" but the command ended`
+          : `expected "${text}"`,
+      );
+    }
+    this.pos += text.length;
+  }
+
+  private expectWord(word: string): void {
+    this.skipBlank(true);
+    if (this.peekBareWord() !== word) {
+      throw this.error(
+        this.atEnd()
+          ? `expected "${word}" but the command ended`
+          : `expected "${word}"`,
+      );
+    }
+    this.pos += word.length;
+  }
+
+  private error(message: string): ShellParseError {
+    return new ShellParseError(message, this.pos);
+  }
+}
+
+/** Decodes the escapes of a `$'...'` string. */
+function decodeAnsiC(text: string): string {
+  const escapes: Record<string, string> = {
+    a: '\x07',
+    b: '\b',
+    e: '\x1b',
+    E: '\x1b',
+    f: '\f',
+    n: '\n',
+    r: '\r',
+    t: '\t',
+    v: '\v',
+  };
+  return text.replace(
+    /\\(x[0-9a-fA-F]{1,2}|[0-7]{1,3}|.)/g,
+    (_match, escape: string) => {
+      if (escape[0] === 'x') {
+        return String.fromCharCode(parseInt(escape.slice(1), 16));
+      }
+      if (/^[0-7]/.test(escape)) {
+        return String.fromCharCode(parseInt(escape, 8));
+      }
+      return escapes[escape] ?? escape;
+    },
+  );
+}
+
+/**
+ * Parses a bash script into its statements.
+ *
+ * @throws ShellParseError if the script is not valid bash or uses syntax
+ *   the parser does not know.
+ */
+export function parseShellScript(script: string): ShellScript {
+  return new Parser(script).parseAll();
+}
@@ -0,0 +1,261 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import os from 'os';
+import path from 'path';
+import {
+  DEFAULT_SHELL_POLICY_RULES,
+  ShellPolicy,
+  ShellPolicyRule,
+  evaluateShellPolicy,
+  getCommandNames,
+  splitCommandPrefix,
+} from './shellPolicy.js';
+
+describe.skipIf(os.platform() === 'win32')('evaluateShellPolicy', () => {
+  const rootDir = '/project';
+  const policy = (
+    rules: ShellPolicyRule[],
+    overrides: Partial<ShellPolicy> = {},
+  ): ShellPolicy => ({
+    rules: [...rules, ...DEFAULT_SHELL_POLICY_RULES],
+    defaultDecision: 'ask',
+    rootDir,
+    ...overrides,
+  });
+  const evaluate = (command: string, shellPolicy: ShellPolicy) =>
+    evaluateShellPolicy(command, rootDir, shellPolicy);
+
+  it('should leave commands no rule matches to the default decision', () => {
+    expect(evaluate('ls -la', policy([]))).toEqual({ decision: 'ask' });
+    expect(
+      evaluate('ls -la', policy([], { defaultDecision: 'allow' })),
+    ).toEqual({ decision: 'allow' });
+    expect(evaluate('ls -la', policy([], { defaultDecision: 'deny' }))).toEqual(
+      {
+        decision: 'deny',
+        reason:
+          "Command 'ls -la' is not allowed by any rule of the shell policy",
+      },
+    );
+  });
+
+  it('should match command names and leading arguments', () => {
+    const rules: ShellPolicyRule[] = [
+      { decision: 'allow', command: ['git', 'npm'] },
+      {
+        decision: 'deny',
+        command: 'git',
+        args: ['push', '--force*'],
+        reason: 'Force pushes rewrite shared history.',
+      },
+    ];
+
+    expect(evaluate('git status && npm test', policy(rules)).decision).toBe(
+      'allow',
+    );
+    expect(evaluate('/usr/bin/git log', policy(rules)).decision).toBe('allow');
+    expect(evaluate('git push --force-with-lease', policy(rules))).toEqual({
+      decision: 'deny',
+      reason:
+        "Command 'git push --force-with-lease' is blocked by the shell policy because it runs git and passes push --force-with-lease. Force pushes rewrite shared history.",
+    });
+    expect(evaluate('git push origin --force', policy(rules)).decision).toBe(
+      'allow',
+    );
+  });
+
+  it('should let the most restrictive command of a script decide', () => {
+    const rules: ShellPolicyRule[] = [
+      { decision: 'allow', command: 'echo' },
+      { decision: 'ask', command: 'rm', argsInclude: ['-*r*'] },
+    ];
+
+    expect(evaluate('echo a; echo b | echo c', policy(rules)).decision).toBe(
+      'allow',
+    );
+    expect(evaluate('echo a && rm -rf build', policy(rules))).toEqual({
+      decision: 'ask',
+      reason:
+        "Command 'rm -rf build' needs confirmation because it runs rm and passes -rf.",
+    });
+    expect(evaluate('echo a && ls', policy(rules))).toEqual({
+      decision: 'ask',
+    });
+  });
+
+  it('should check commands hidden in substitutions, shells and wrappers', () => {
+    const rules: ShellPolicyRule[] = [
+      { decision: 'allow', command: ['echo', 'sudo', 'find', 'xargs'] },
+      { decision: 'deny', command: 'rm' },
+    ];
+    const denied = [
+      'echo $(rm -rf /)',
+      'echo `rm x`',
+      'echo "$(rm x)"',
+      'bash -c "echo hi; rm x"',
+      'eval "rm x"',
+      'sudo -u root rm x',
+      'find . -name "*.o" -exec rm {} \\;',
+      'ls | xargs rm',
+      'cat <<EOF\n$(rm x)\nEOF',
+    ];
+
+    for (const command of denied) {
+      expect(evaluate(command, policy(rules)).decision, command).toBe('deny');
+    }
+  });
+
+  it('should ask about commands only known when they run', () => {
+    const rules: ShellPolicyRule[] = [{ decision: 'allow', command: '*' }];
+
+    expect(evaluate('$EDITOR notes.txt', policy(rules))).toEqual({
+      decision: 'ask',
+      reason:
+        "Command '$EDITOR notes.txt' needs confirmation because the name of the command is only known when it runs.",
+    });
+    expect(evaluate('bash -c "$SCRIPT"', policy(rules))).toEqual({
+      decision: 'ask',
+      reason:
+        'Command \'bash -c "$SCRIPT"\' needs confirmation because the script it runs is only known when it runs.',
+    });
+  });
+
+  it('should ask when a deny rule may match once the command is expanded', () => {
+    const rules: ShellPolicyRule[] = [
+      { decision: 'allow', command: 'rm' },
+      { decision: 'deny', command: 'rm', argsInclude: ['/'] },
+    ];
+
+    expect(evaluate('rm -rf "$DIR"', policy(rules))).toEqual({
+      decision: 'ask',
+      reason:
+        'Command \'rm -rf "$DIR"\' needs confirmation because it runs rm and passes "$DIR", which the shell policy blocks depending on values only known when it runs.',
+    });
+    expect(evaluate('rm -rf build', policy(rules)).decision).toBe('allow');
+  });
+
+  it('should match redirection targets against path globs', () => {
+    const rules: ShellPolicyRule[] = [
+      { decision: 'allow', command: ['echo', 'cat'] },
+      { decision: 'deny', redirect: 'secrets/**' },
+    ];
+
+    expect(evaluate('echo x > out.txt 2>&1', policy(rules)).decision).toBe(
+      'allow',
+    );
+    expect(evaluate('cat < secrets/key', policy(rules))).toEqual({
+      decision: 'deny',
+      reason:
+        "Command 'cat < secrets/key' is blocked by the shell policy because it redirects to secrets/key.",
+    });
+    expect(evaluate('{ echo x; } >> secrets/log', policy(rules)).decision).toBe(
+      'deny',
+    );
+    expect(evaluate(`echo x > ~/.bashrc`, policy(rules))).toEqual({
+      decision: 'ask',
+      reason:
+        "Command 'echo x > ~/.bashrc' needs confirmation because it redirects to ~/.bashrc. The file holds credentials or configures the shell, git or the system.",
+    });
+  });
+
+  it('should follow cd to decide the working directory', () => {
+    const rules: ShellPolicyRule[] = [
+      { decision: 'allow', command: ['cd', 'make'] },
+      { decision: 'deny', directory: '/etc/**' },
+    ];
+
+    expect(evaluate('make', policy(rules)).decision).toBe('allow');
+    expect(evaluate('cd /etc && make', policy(rules))).toEqual({
+      decision: 'deny',
+      reason:
+        "Command 'make' is blocked by the shell policy because it runs in /etc.",
+    });
+    expect(evaluate('(cd /etc); make', policy(rules)).decision).toBe('allow');
+    expect(evaluate('cd "$DIR" && make', policy(rules)).decision).toBe('ask');
+    expect(
+      evaluateShellPolicy('make', path.join('/etc', 'ssl'), policy(rules))
+        .decision,
+    ).toBe('deny');
+  });
+
+  it('should ask when a command sets a variable that changes what runs', () => {
+    const rules: ShellPolicyRule[] = [{ decision: 'allow', command: 'node' }];
+
+    expect(evaluate('NODE_ENV=test node app.js', policy(rules)).decision).toBe(
+      'allow',
+    );
+    expect(evaluate('LD_PRELOAD=./hook.so node app.js', policy(rules))).toEqual(
+      {
+        decision: 'ask',
+        reason:
+          "Command 'LD_PRELOAD=./hook.so node app.js' needs confirmation because it sets LD_PRELOAD. The variable changes which programs or libraries actually run.",
+      },
+    );
+    expect(evaluate('env PATH=/tmp node app.js', policy(rules)).decision).toBe(
+      'ask',
+    );
+  });
+
+  it('should apply the command lists of the tool configuration', () => {
+    const toolPolicy = policy([], {
+      blockedCommands: [['rm']],
+      allowedCommands: [['git', 'status'], ['ls']],
+    });
+
+    expect(evaluate('git status && ls -la', toolPolicy)).toEqual({
+      decision: 'ask',
+    });
+    expect(evaluate('ls; rm -rf /', toolPolicy)).toEqual({
+      decision: 'deny',
+      reason: "Command 'rm -rf /' is blocked by configuration",
+    });
+    expect(evaluate('git push', toolPolicy)).toEqual({
+      decision: 'deny',
+      reason: "Command 'git push' is not in the allowed commands list",
+    });
+    expect(evaluate('ls $(cat files)', toolPolicy).decision).toBe('deny');
+  });
+
+  it('should not run what it cannot parse', () => {
+    expect(evaluate('echo "unterminated', policy([]))).toEqual({
+      decision: 'ask',
+      reason:
+        'The command could not be checked against the shell policy because it could not be parsed: unterminated double quote.',
+    });
+    expect(
+      evaluate('echo "unterminated', policy([], { defaultDecision: 'deny' }))
+        .decision,
+    ).toBe('deny');
+  });
+});
+
+describe.skipIf(os.platform() === 'win32')('getCommandNames', () => {
+  it('should name every command the script runs', () => {
+    expect(
+      getCommandNames('git status; /bin/rm -rf x && echo "$(whoami)"'),
+    ).toEqual(['git', 'rm', 'whoami', 'echo']);
+  });
+
+  it('should be undefined when a command is only known as it runs', () => {
+    expect(getCommandNames('$CMD x')).toBeUndefined();
+    expect(getCommandNames('bash -c "$SCRIPT"')).toBeUndefined();
+    expect(getCommandNames('echo "open')).toBeUndefined();
+  });
+});
+
+describe('splitCommandPrefix', () => {
+  it('should split on whitespace outside quotes', () => {
+    expect(splitCommandPrefix('git  commit -m "a message"')).toEqual([
+      'git',
+      'commit',
+      '-m',
+      'a message',
+    ]);
+    expect(splitCommandPrefix('echo "open')).toEqual(['echo', '"open']);
+  });
+});
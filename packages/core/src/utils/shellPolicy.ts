@@ -0,0 +1,829 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import os from 'os';
+import path from 'path';
+import micromatch from 'micromatch';
+import {
+  ShellCommand,
+  ShellParseError,
+  ShellRedirect,
+  ShellScript,
+  ShellWord,
+  parseShellScript,
+} from './shellParser.js';
+
+/**
+ * What happens to a shell command: it runs without confirmation, the user is
+ * asked first, or it is refused.
+ */
+export type ShellPolicyDecision = 'allow' | 'ask' | 'deny';
+
+/**
+ * A rule of the shell policy. It applies to a command when all of its
+ * conditions hold; a rule without conditions applies to every command. In
+ * `command`, `args`, `argsInclude` and `env`, `*` matches any text and `?`
+ * one character. `redirect` and `directory` are path globs, where `~` is the
+ * home directory and relative globs are relative to the project root.
+ */
+export interface ShellPolicyRule {
+  decision: ShellPolicyDecision;
+  /** Command names, e.g. `git`, or paths when they contain a slash. */
+  command?: string | string[];
+  /** Patterns the first arguments must match, in order, e.g. `["push", "--force*"]`. */
+  args?: string[];
+  /** Patterns that must each match some argument, e.g. `["-rf"]`. */
+  argsInclude?: string[];
+  /** Files the command redirects its input or output to or from. */
+  redirect?: string | string[];
+  /** Directories the command runs in, following `cd` in the script. */
+  directory?: string | string[];
+  /** Environment variables assigned in front of the command, e.g. `LD_*`. */
+  env?: string | string[];
+  /** Explanation shown to the user and the model when the rule applies. */
+  reason?: string;
+}
+
+export interface ShellPolicySettings {
+  /** Decision for commands no rule applies to; `ask` unless set. */
+  default?: ShellPolicyDecision;
+  rules?: ShellPolicyRule[];
+}
+
+/**
+ * Rules that apply on top of the configured ones. They only ask, so they
+ * never block a command, but they keep rules that allow a command from
+ * running it unconfirmed.
+ */
+export const DEFAULT_SHELL_POLICY_RULES: readonly ShellPolicyRule[] = [
+  {
+    decision: 'ask',
+    command: ['sudo', 'su', 'doas'],
+    reason: 'It runs with elevated privileges.',
+  },
+  {
+    decision: 'ask',
+    redirect: [
+      '~/.ssh/**',
+      '~/.gnupg/**',
+      '~/.aws/**',
+      '~/.kube/**',
+      '~/.config/gcloud/**',
+      '~/.netrc',
+      '~/.bashrc',
+      '~/.bash_profile',
+      '~/.bash_login',
+      '~/.profile',
+      '~/.zshrc',
+      '~/.zshenv',
+      '~/.zprofile',
+      '~/.gitconfig',
+      '/etc/**',
+      '**/.git/config',
+      '**/.git/hooks/**',
+    ],
+    reason:
+      'The file holds credentials or configures the shell, git or the system.',
+  },
+  {
+    decision: 'ask',
+    env: [
+      'PATH',
+      'LD_PRELOAD',
+      'LD_LIBRARY_PATH',
+      'LD_AUDIT',
+      'DYLD_*',
+      'BASH_ENV',
+      'ENV',
+      'PROMPT_COMMAND',
+      'IFS',
+      'GIT_SSH_COMMAND',
+      'GIT_EXEC_PATH',
+      'NODE_OPTIONS',
+      'PYTHONPATH',
+    ],
+    reason: 'The variable changes which programs or libraries actually run.',
+  },
+];
+
+export interface ShellPolicy {
+  rules: readonly ShellPolicyRule[];
+  defaultDecision: ShellPolicyDecision;
+  /** Command prefixes excluded in the tool configuration, e.g. `["rm", "-rf"]`. */
+  blockedCommands?: string[][];
+  /** Command prefixes listed in the tool configuration; when set, only these may run. */
+  allowedCommands?: string[][];
+  /** Directory relative globs in rules are resolved against. */
+  rootDir: string;
+}
+
+export interface ShellPolicyResult {
+  decision: ShellPolicyDecision;
+  /**
+   * Why the command is refused or needs confirmation. Always set when it is
+   * refused; set for `ask` only when a rule asks, not the default decision.
+   */
+  reason?: string;
+}
+
+const DECISION_RANK: Record<ShellPolicyDecision, number> = {
+  allow: 0,
+  ask: 1,
+  deny: 2,
+};
+
+/** Commands that run the command given in their arguments. */
+const WRAPPERS: Record<string, { valueOptions: string[]; operands?: number }> =
+  {
+    builtin: { valueOptions: [] },
+    command: { valueOptions: [] },
+    doas: { valueOptions: ['-u', '-C'] },
+    env: { valueOptions: ['-u', '-C', '--unset', '--chdir'] },
+    exec: { valueOptions: ['-a'] },
+    nice: { valueOptions: ['-n', '--adjustment'] },
+    nohup: { valueOptions: [] },
+    stdbuf: { valueOptions: ['-i', '-o', '-e'] },
+    sudo: {
+      valueOptions: [
+        '-u',
+        '-g',
+        '-C',
+        '-D',
+        '-h',
+        '-p',
+        '-r',
+        '-t',
+        '-U',
+        '-R',
+      ],
+    },
+    time: { valueOptions: ['-f', '-o'] },
+    timeout: {
+      valueOptions: ['-s', '-k', '--signal', '--kill-after'],
+      operands: 1,
+    },
+    xargs: {
+      valueOptions: ['-a', '-d', '-E', '-I', '-L', '-n', '-P', '-s'],
+    },
+  };
+const SHELLS = new Set(['sh', 'bash', 'dash', 'ksh', 'zsh']);
+const FIND_EXEC_ACTIONS = new Set(['-exec', '-execdir', '-ok', '-okdir']);
+
+/** A word standing for arguments only known when the command runs. */
+const UNKNOWN_ARGUMENT: ShellWord = {
+  raw: '...',
+  value: '',
+  dynamic: true,
+  substitutions: [],
+};
+
+/** One command the script runs, with the directory it runs in. */
+interface Invocation {
+  text: string;
+  /** The command name followed by its arguments; empty for bare assignments. */
+  words: ShellWord[];
+  assignments: string[];
+  redirects: ShellRedirect[];
+  /** Undefined when a `cd` made the directory unknown. */
+  cwd: string | undefined;
+  /** Whether the command runs a script that is only known when it runs. */
+  opaque?: boolean;
+}
+
+interface Verdict {
+  decision: ShellPolicyDecision;
+  reason?: string;
+}
+
+type Match = 'yes' | 'maybe' | 'no';
+
+/** Collects the commands of a script, following `cd` through it. */
+class InvocationCollector {
+  readonly invocations: Invocation[] = [];
+
+  constructor(private readonly homeDir: string) {}
+
+  /** Visits `script` and returns the directory it leaves the shell in. */
+  script(script: ShellScript, cwd: string | undefined): string | undefined {
+    for (const statement of script.statements) {
+      let statementCwd = cwd;
+      for (const pipeline of statement.pipelines) {
+        if (pipeline.commands.length === 1) {
+          statementCwd = this.command(pipeline.commands[0], statementCwd);
+        } else {
+          // every part of a pipeline runs in a subshell
+          for (const command of pipeline.commands) {
+            this.command(command, statementCwd);
+          }
+        }
+      }
+      if (!statement.background) {
+        cwd = statementCwd;
+      }
+    }
+    return cwd;
+  }
+
+  private command(
+    command: ShellCommand,
+    cwd: string | undefined,
+  ): string | undefined {
+    for (const word of command.words) {
+      this.substitutions(word, cwd);
+    }
+    for (const redirect of command.redirects) {
+      this.substitutions(redirect.target, cwd);
+    }
+
+    if (command.type === 'compound') {
+      let bodyCwd = cwd;
+      for (const body of command.bodies) {
+        bodyCwd = this.script(body, bodyCwd);
+      }
+      if (command.redirects.length) {
+        this.invocations.push({
+          text: command.redirects.map(formatRedirect).join(' '),
+          words: [],
+          assignments: [],
+          redirects: command.redirects,
+          cwd,
+        });
+      }
+      return command.kind === 'subshell' ? cwd : bodyCwd;
+    }
+
+    for (const assignment of command.assignments) {
+      this.substitutions(assignment.value, cwd);
+    }
+    this.invoke({
+      text: command.text,
+      words: command.words,
+      assignments: command.assignments.map((assignment) => assignment.name),
+      redirects: command.redirects,
+      cwd,
+    });
+    return this.changeDirectory(command.words, cwd);
+  }
+
+  private substitutions(word: ShellWord, cwd: string | undefined): void {
+    for (const script of word.substitutions) {
+      this.script(script, cwd);
+    }
+  }
+
+  /** Records `invocation` and the commands it runs in turn. */
+  private invoke(invocation: Invocation): void {
+    this.invocations.push(invocation);
+    const [name, ...args] = invocation.words;
+    if (!name || name.dynamic) {
+      return;
+    }
+    const commandName = path.basename(name.value);
+
+    const wrapper = WRAPPERS[commandName];
+    if (wrapper) {
+      const inner = unwrap(commandName, args, wrapper);
+      if (inner.words.length) {
+        this.invoke({
+          ...invocation,
+          text: inner.words.map((word) => word.raw).join(' '),
+          words: inner.words,
+          assignments: [...invocation.assignments, ...inner.assignments],
+          redirects: [],
+        });
+      }
+      return;
+    }
+
+    if (commandName === 'find') {
+      for (const words of findExecCommands(args)) {
+        this.invoke({
+          ...invocation,
+          text: words.map((word) => word.raw).join(' '),
+          words,
+          assignments: [],
+          redirects: [],
+        });
+      }
+      return;
+    }
+
+    let script: ShellWord[] | undefined;
+    if (SHELLS.has(commandName)) {
+      const flag = args.findIndex(
+        (arg) => !arg.dynamic && /^-[a-zA-Z]*c[a-zA-Z]*$/.test(arg.value),
+      );
+      script = flag === -1 ? undefined : args.slice(flag + 1, flag + 2);
+    } else if (commandName === 'eval') {
+      script = args;
+    }
+    if (!script?.length) {
+      return;
+    }
+    if (script.some((word) => word.dynamic)) {
+      this.invocations.push({ ...invocation, opaque: true });
+      return;
+    }
+    const source = script.map((word) => word.value).join(' ');
+    try {
+      this.script(parseShellScript(source), invocation.cwd);
+    } catch (e) {
+      if (!(e instanceof ShellParseError)) {
+        throw e;
+      }
+      this.invocations.push({ ...invocation, opaque: true });
+    }
+  }
+
+  /** The directory after `cd` or `pushd`; unknown if it cannot be told. */
+  private changeDirectory(
+    words: ShellWord[],
+    cwd: string | undefined,
+  ): string | undefined {
+    const [name, ...args] = words;
+    if (!name || name.dynamic) {
+      return cwd;
+    }
+    if (name.value === 'popd') {
+      return undefined;
+    }
+    if (name.value !== 'cd' && name.value !== 'pushd') {
+      return cwd;
+    }
+    const target = args.find(
+      (arg) =>
+        arg.dynamic || !/^-[-LPe@]*$/.test(arg.value) || arg.value === '-',
+    );
+    if (!target) {
+      return this.homeDir;
+    }
+    if (target.dynamic || target.value === '-') {
+      return undefined;
+    }
+    return resolvePath(target.value, cwd, this.homeDir);
+  }
+}
+
+/** The command run by a wrapper like `sudo` or `env`, and what `env` assigns. */
+function unwrap(
+  commandName: string,
+  args: ShellWord[],
+  wrapper: { valueOptions: string[]; operands?: number },
+): { words: ShellWord[]; assignments: string[] } {
+  const assignments: string[] = [];
+  let i = 0;
+  while (i < args.length && !args[i].dynamic) {
+    const value = args[i].value;
+    if (value === '--') {
+      i++;
+      break;
+    }
+    if (commandName === 'command' && /^-[a-zA-Z]*[vV]/.test(value)) {
+      // `command -v` only looks the command up
+      return { words: [], assignments };
+    }
+    if (value.startsWith('-') && value.length > 1) {
+      i += wrapper.valueOptions.includes(value) ? 2 : 1;
+    } else if (commandName === 'env' && /^[A-Za-z_]\w*=/.test(value)) {
+      assignments.push(value.slice(0, value.indexOf('=')));
+      i++;
+    } else {
+      break;
+    }
+  }
+  const words = args.slice(i + (wrapper.operands ?? 0));
+  if (commandName === 'xargs' && words.length) {
+    words.push(UNKNOWN_ARGUMENT);
+  }
+  return { words, assignments };
+}
+
+/** Commands run by the `-exec` and `-ok` actions of `find`. */
+function findExecCommands(args: ShellWord[]): ShellWord[][] {
+  const commands: ShellWord[][] = [];
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].dynamic || !FIND_EXEC_ACTIONS.has(args[i].value)) {
+      continue;
+    }
+    const words: ShellWord[] = [];
+    for (i++; i < args.length; i++) {
+      const value = args[i].value;
+      if (!args[i].dynamic && (value === ';' || value === '+')) {
+        break;
+      }
+      words.push(value === '{}' ? UNKNOWN_ARGUMENT : args[i]);
+    }
+    if (words.length) {
+      commands.push(words);
+    }
+  }
+  return commands;
+}
+
+function formatRedirect(redirect: ShellRedirect): string {
+  return `${redirect.fd ?? ''}${redirect.operator} ${redirect.target.raw}`;
+}
+
+function toArray(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/** Matches `value` against a pattern where `*` is any text and `?` one character. */
+function matchesWildcard(pattern: string, value: string): boolean {
+  const source = pattern
+    .split('')
+    .map((c) =>
+      c === '*'
+        ? '.*'
+        : c === '?'
+          ? '.'
+          : c.replace(/[.+^${}()|[\]\\]/g, '\\$&'),
+    )
+    .join('');
+  return new RegExp(`^${source}$`, 's').test(value);
+}
+
+function resolvePath(
+  value: string,
+  cwd: string | undefined,
+  homeDir: string,
+): string | undefined {
+  if (value === '~' || value.startsWith('~/')) {
+    return path.join(homeDir, value.slice(1));
+  }
+  if (path.isAbsolute(value)) {
+    return path.normalize(value);
+  }
+  return cwd === undefined ? undefined : path.resolve(cwd, value);
+}
+
+function resolveGlob(glob: string, rootDir: string, homeDir: string): string {
+  if (glob === '~' || glob.startsWith('~/')) {
+    return path.join(homeDir, glob.slice(1));
+  }
+  if (path.isAbsolute(glob) || glob.startsWith('**')) {
+    return glob;
+  }
+  return path.join(rootDir, glob);
+}
+
+/** Redirects that read or write a file, as opposed to descriptors and here-documents. */
+function isFileRedirect(redirect: ShellRedirect): boolean {
+  if (['<<', '<<-', '<<<'].includes(redirect.operator)) {
+    return false;
+  }
+  return !(
+    (redirect.operator === '>&' || redirect.operator === '<&') &&
+    /^(\d+-?|-)$/.test(redirect.target.value)
+  );
+}
+
+function combine(matches: Match[]): Match {
+  if (matches.includes('no')) {
+    return 'no';
+  }
+  return matches.includes('maybe') ? 'maybe' : 'yes';
+}
+
+/**
+ * Checks the conditions of `rule` against `invocation` and describes the
+ * parts of the command they matched, e.g. "runs git and passes push --force".
+ * A condition on a value only known when the command runs may match.
+ */
+function matchRule(
+  rule: ShellPolicyRule,
+  invocation: Invocation,
+  rootDir: string,
+  homeDir: string,
+): { match: Match; details: string[] } {
+  const matches: Match[] = [];
+  const details: string[] = [];
+  const [name, ...args] = invocation.words;
+  const globs = (value: string | string[]) =>
+    toArray(value).map((glob) => resolveGlob(glob, rootDir, homeDir));
+  const isPathMatch = (value: string, patterns: string[]) =>
+    micromatch.isMatch(value, patterns, { dot: true });
+
+  if (rule.command !== undefined) {
+    const patterns = toArray(rule.command);
+    let match: Match = 'no';
+    if (name?.dynamic) {
+      match = 'maybe';
+    } else if (name) {
+      const commandPath = resolvePath(name.value, invocation.cwd, homeDir);
+      const isMatch = (pattern: string) =>
+        pattern.includes('/')
+          ? commandPath !== undefined &&
+            isPathMatch(commandPath, [resolveGlob(pattern, rootDir, homeDir)])
+          : matchesWildcard(pattern, path.basename(name.value));
+      match = patterns.some(isMatch) ? 'yes' : 'no';
+    }
+    matches.push(match);
+    details.push(`runs ${name?.raw}`);
+  }
+
+  if (rule.args !== undefined) {
+    let match: Match = rule.args.length > args.length ? 'no' : 'yes';
+    rule.args.forEach((pattern, i) => {
+      const arg = args[i];
+      if (arg?.dynamic && match !== 'no') {
+        match = 'maybe';
+      } else if (!arg || !matchesWildcard(pattern, arg.value)) {
+        match = 'no';
+      }
+    });
+    matches.push(match);
+    details.push(
+      `passes ${args
+        .slice(0, rule.args.length)
+        .map((arg) => arg.raw)
+        .join(' ')}`,
+    );
+  }
+
+  for (const pattern of rule.argsInclude ?? []) {
+    const arg =
+      args.find((arg) => !arg.dynamic && matchesWildcard(pattern, arg.value)) ??
+      args.find((arg) => arg.dynamic);
+    matches.push(!arg ? 'no' : arg.dynamic ? 'maybe' : 'yes');
+    details.push(`passes ${arg?.raw}`);
+  }
+
+  if (rule.redirect !== undefined) {
+    const patterns = globs(rule.redirect);
+    let match: Match = 'no';
+    let target: ShellWord | undefined;
+    for (const redirect of invocation.redirects.filter(isFileRedirect)) {
+      const file = redirect.target.dynamic
+        ? undefined
+        : resolvePath(redirect.target.value, invocation.cwd, homeDir);
+      if (file !== undefined && isPathMatch(file, patterns)) {
+        match = 'yes';
+        target = redirect.target;
+        break;
+      }
+      if (file === undefined && match === 'no') {
+        match = 'maybe';
+        target = redirect.target;
+      }
+    }
+    matches.push(match);
+    details.push(`redirects to ${target?.raw}`);
+  }
+
+  if (rule.directory !== undefined) {
+    const patterns = globs(rule.directory);
+    matches.push(
+      invocation.cwd === undefined
+        ? 'maybe'
+        : isPathMatch(invocation.cwd, patterns)
+          ? 'yes'
+          : 'no',
+    );
+    details.push(
+      invocation.cwd === undefined
+        ? 'runs in a directory only known when it runs'
+        : `runs in ${invocation.cwd}`,
+    );
+  }
+
+  if (rule.env !== undefined) {
+    const patterns = toArray(rule.env);
+    const variable = invocation.assignments.find((assignment) =>
+      patterns.some((pattern) => matchesWildcard(pattern, assignment)),
+    );
+    matches.push(variable ? 'yes' : 'no');
+    details.push(`sets ${variable}`);
+  }
+
+  return {
+    match: combine(matches),
+    details: details.length ? details : ['matches a rule for every command'],
+  };
+}
+
+/** Whether the words of `invocation` start with `prefix`. */
+function matchPrefix(prefix: string[], invocation: Invocation): Match {
+  if (invocation.words.length < prefix.length) {
+    return 'no';
+  }
+  let match: Match = 'yes';
+  for (let i = 0; i < prefix.length; i++) {
+    const word = invocation.words[i];
+    if (word.dynamic) {
+      match = 'maybe';
+    } else if (word.value !== prefix[i]) {
+      return 'no';
+    }
+  }
+  return match;
+}
+
+function mostRestrictive(verdicts: Verdict[]): Verdict | undefined {
+  let result: Verdict | undefined;
+  for (const verdict of verdicts) {
+    if (
+      !result ||
+      DECISION_RANK[verdict.decision] > DECISION_RANK[result.decision] ||
+      (verdict.decision === result.decision && !result.reason && verdict.reason)
+    ) {
+      result = verdict;
+    }
+  }
+  return result;
+}
+
+function evaluateInvocation(
+  invocation: Invocation,
+  policy: ShellPolicy,
+  homeDir: string,
+): Verdict | undefined {
+  const { text } = invocation;
+  const [name] = invocation.words;
+  const unknown = unknownDecision(policy);
+  const unknownVerb = unknown === 'deny' ? 'is blocked' : 'needs confirmation';
+  const verdicts: Verdict[] = [];
+
+  if (invocation.opaque) {
+    verdicts.push({
+      decision: unknown,
+      reason: `Command '${text}' ${unknownVerb} because the script it runs is only known when it runs.`,
+    });
+  }
+  if (name?.dynamic) {
+    verdicts.push({
+      decision: unknown,
+      reason: `Command '${text}' ${unknownVerb} because the name of the command is only known when it runs.`,
+    });
+  }
+
+  for (const prefix of policy.blockedCommands ?? []) {
+    const match = matchPrefix(prefix, invocation);
+    if (match === 'yes') {
+      verdicts.push({
+        decision: 'deny',
+        reason: `Command '${text}' is blocked by configuration`,
+      });
+    } else if (match === 'maybe') {
+      verdicts.push({
+        decision: 'ask',
+        reason: `Command '${text}' needs confirmation because it may run '${prefix.join(' ')}', which is blocked by configuration.`,
+      });
+    }
+  }
+  if (
+    policy.allowedCommands &&
+    name &&
+    !policy.allowedCommands.some(
+      (prefix) => matchPrefix(prefix, invocation) === 'yes',
+    )
+  ) {
+    verdicts.push({
+      decision: 'deny',
+      reason: `Command '${text}' is not in the allowed commands list`,
+    });
+  }
+
+  for (const rule of policy.rules) {
+    const { match, details } = matchRule(
+      rule,
+      invocation,
+      policy.rootDir,
+      homeDir,
+    );
+    const because = `because it ${details.join(' and ')}`;
+    const explanation = rule.reason ? ` ${rule.reason}` : '';
+    if (match === 'yes' && rule.decision === 'allow') {
+      verdicts.push({ decision: 'allow' });
+    } else if (match === 'yes') {
+      verdicts.push({
+        decision: rule.decision,
+        reason:
+          rule.decision === 'deny'
+            ? `Command '${text}' is blocked by the shell policy ${because}.${explanation}`
+            : `Command '${text}' needs confirmation ${because}.${explanation}`,
+      });
+    } else if (match === 'maybe' && rule.decision !== 'allow') {
+      verdicts.push({
+        decision: 'ask',
+        reason: `Command '${text}' needs confirmation ${because}, which the shell policy ${rule.decision === 'deny' ? 'blocks' : 'asks about'} depending on values only known when it runs.${explanation}`,
+      });
+    }
+  }
+
+  if (verdicts.length) {
+    return mostRestrictive(verdicts);
+  }
+  if (!name) {
+    // bare assignments and redirections run nothing
+    return undefined;
+  }
+  return defaultVerdict(policy, text);
+}
+
+function defaultVerdict(policy: ShellPolicy, text: string): Verdict {
+  return policy.defaultDecision === 'deny'
+    ? {
+        decision: 'deny',
+        reason: `Command '${text}' is not allowed by any rule of the shell policy`,
+      }
+    : { decision: policy.defaultDecision };
+}
+
+/** The decision for commands the policy cannot see into. */
+function unknownDecision(policy: ShellPolicy): ShellPolicyDecision {
+  return policy.allowedCommands || policy.defaultDecision === 'deny'
+    ? 'deny'
+    : 'ask';
+}
+
+/**
+ * Decides whether `command`, run as a bash script in `cwd`, may run. Every
+ * command the script runs is checked, including those in substitutions,
+ * subshells, `bash -c`, `eval`, wrappers like `sudo` and `find -exec`. The
+ * most restrictive decision among them wins, and among the rules applying
+ * to one command, `deny` beats `ask` beats `allow`.
+ */
+export function evaluateShellPolicy(
+  command: string,
+  cwd: string,
+  policy: ShellPolicy,
+): ShellPolicyResult {
+  let script: ShellScript;
+  try {
+    script = parseShellScript(command);
+  } catch (e) {
+    if (!(e instanceof ShellParseError)) {
+      throw e;
+    }
+    return {
+      decision: unknownDecision(policy),
+      reason: `The command could not be checked against the shell policy because it could not be parsed: ${e.message}.`,
+    };
+  }
+
+  const homeDir = os.homedir();
+  const collector = new InvocationCollector(homeDir);
+  collector.script(script, cwd);
+  const verdicts = collector.invocations.flatMap(
+    (invocation) => evaluateInvocation(invocation, policy, homeDir) ?? [],
+  );
+  return (
+    mostRestrictive(verdicts) ??
+    defaultVerdict(policy, command.trim().replace(/\s+/g, ' '))
+  );
+}
+
+/**
+ * Names of the commands `command` runs, without their paths, counting those
+ * {@link evaluateShellPolicy} finds in substitutions, subshells and wrappers.
+ * Undefined if they cannot all be known before it runs: when it cannot be
+ * parsed, or runs a command whose name or script is only known then.
+ */
+export function getCommandNames(command: string): string[] | undefined {
+  let script: ShellScript;
+  try {
+    script = parseShellScript(command);
+  } catch (e) {
+    if (!(e instanceof ShellParseError)) {
+      throw e;
+    }
+    return undefined;
+  }
+
+  const collector = new InvocationCollector(os.homedir());
+  collector.script(script, undefined);
+  const names = new Set<string>();
+  for (const invocation of collector.invocations) {
+    const [name] = invocation.words;
+    if (invocation.opaque || name?.dynamic) {
+      return undefined;
+    }
+    if (name) {
+      names.add(path.basename(name.value));
+    }
+  }
+  return [...names];
+}
+
+/**
+ * Splits a command prefix from the tool configuration, like `git commit -m`,
+ * into words, honouring quotes.
+ */
+export function splitCommandPrefix(prefix: string): string[] {
+  try {
+    const [statement] = parseShellScript(prefix).statements;
+    const [command] = statement?.pipelines[0].commands ?? [];
+    if (command?.type === 'simple' && !command.assignments.length) {
+      return command.words.map((word) => word.value);
+    }
+  } catch (e) {
+    if (!(e instanceof ShellParseError)) {
+      throw e;
+    }
+  }
+  return prefix.split(/\s+/).filter(Boolean);
+}
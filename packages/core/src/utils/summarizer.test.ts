@@ -39,7 +39,7 @@ describe('summarizers', () => {
     );
 
     mockGeminiClient = new GeminiClient(mockConfigInstance);
-    (mockGeminiClient.generateContent as Mock) = vi.fn();
+    (mockGeminiClient.generateUtilityContent as Mock) = vi.fn();
 
     vi.spyOn(console, 'error').mockImplementation(() => {});
   });
@@ -59,7 +59,7 @@ describe('summarizers', () => {
         2000,
       );
       expect(result).toBe(shortText);
-      expect(mockGeminiClient.generateContent).not.toHaveBeenCalled();
+      expect(mockGeminiClient.generateUtilityContent).not.toHaveBeenCalled();
     });
 
     it('should return original text if it is empty', async () => {
@@ -71,13 +71,13 @@ describe('summarizers', () => {
         2000,
       );
       expect(result).toBe(emptyText);
-      expect(mockGeminiClient.generateContent).not.toHaveBeenCalled();
+      expect(mockGeminiClient.generateUtilityContent).not.toHaveBeenCalled();
     });
 
-    it('should call generateContent if text is longer than maxLength', async () => {
+    it('should call generateUtilityContent if text is longer than maxLength', async () => {
       const longText = 'This is a very long text.'.repeat(200);
       const summary = 'This is a summary.';
-      (mockGeminiClient.generateContent as Mock).mockResolvedValue({
+      (mockGeminiClient.generateUtilityContent as Mock).mockResolvedValue({
         candidates: [{ content: { parts: [{ text: summary }] } }],
       });
 
@@ -88,14 +88,16 @@ describe('summarizers', () => {
         2000,
       );
 
-      expect(mockGeminiClient.generateContent).toHaveBeenCalledTimes(1);
+      expect(mockGeminiClient.generateUtilityContent).toHaveBeenCalledTimes(1);
       expect(result).toBe(summary);
     });
 
-    it('should return original text if generateContent throws an error', async () => {
+    it('should return original text if generateUtilityContent throws an error', async () => {
       const longText = 'This is a very long text.'.repeat(200);
       const error = new Error('API Error');
-      (mockGeminiClient.generateContent as Mock).mockRejectedValue(error);
+      (mockGeminiClient.generateUtilityContent as Mock).mockRejectedValue(
+        error,
+      );
 
       const result = await summarizeToolOutput(
         longText,
@@ -104,7 +106,7 @@ describe('summarizers', () => {
         2000,
       );
 
-      expect(mockGeminiClient.generateContent).toHaveBeenCalledTimes(1);
+      expect(mockGeminiClient.generateUtilityContent).toHaveBeenCalledTimes(1);
       expect(result).toBe(longText);
       expect(console.error).toHaveBeenCalledWith(
         'Failed to summarize tool output.',
@@ -115,7 +117,7 @@ describe('summarizers', () => {
     it('should construct the correct prompt for summarization', async () => {
       const longText = 'This is a very long text.'.repeat(200);
       const summary = 'This is a summary.';
-      (mockGeminiClient.generateContent as Mock).mockResolvedValue({
+      (mockGeminiClient.generateUtilityContent as Mock).mockResolvedValue({
         candidates: [{ content: { parts: [{ text: summary }] } }],
       });
 
@@ -134,7 +136,7 @@ Text to summarize:
 
 Return the summary string which should first contain an overall summarization of text followed by the full stack trace of errors and warnings in the tool output.
 `;
-      const calledWith = (mockGeminiClient.generateContent as Mock).mock
+      const calledWith = (mockGeminiClient.generateUtilityContent as Mock).mock
         .calls[0];
       const contents = calledWith[0];
       expect(contents[0].parts[0].text).toBe(expectedPrompt);
@@ -148,7 +150,7 @@ Return the summary string which should first contain an overall summarization of
         returnDisplay: '',
       };
       const summary = 'This is a summary.';
-      (mockGeminiClient.generateContent as Mock).mockResolvedValue({
+      (mockGeminiClient.generateUtilityContent as Mock).mockResolvedValue({
         candidates: [{ content: { parts: [{ text: summary }] } }],
       });
 
@@ -158,7 +160,7 @@ Return the summary string which should first contain an overall summarization of
         abortSignal,
       );
 
-      expect(mockGeminiClient.generateContent).toHaveBeenCalledTimes(1);
+      expect(mockGeminiClient.generateUtilityContent).toHaveBeenCalledTimes(1);
       expect(result).toBe(summary);
     });
 
@@ -169,7 +171,7 @@ Return the summary string which should first contain an overall summarization of
         returnDisplay: '',
       };
       const summary = 'This is a summary.';
-      (mockGeminiClient.generateContent as Mock).mockResolvedValue({
+      (mockGeminiClient.generateUtilityContent as Mock).mockResolvedValue({
         candidates: [{ content: { parts: [{ text: summary }] } }],
       });
 
@@ -179,8 +181,8 @@ Return the summary string which should first contain an overall summarization of
         abortSignal,
       );
 
-      expect(mockGeminiClient.generateContent).toHaveBeenCalledTimes(1);
-      const calledWith = (mockGeminiClient.generateContent as Mock).mock
+      expect(mockGeminiClient.generateUtilityContent).toHaveBeenCalledTimes(1);
+      const calledWith = (mockGeminiClient.generateUtilityContent as Mock).mock
         .calls[0];
       const contents = calledWith[0];
       expect(contents[0].parts[0].text).toContain(`"${longText}"`);
@@ -202,7 +204,7 @@ Return the summary string which should first contain an overall summarization of
       );
 
       expect(result).toBe(JSON.stringify({ text: 'some data' }));
-      expect(mockGeminiClient.generateContent).not.toHaveBeenCalled();
+      expect(mockGeminiClient.generateUtilityContent).not.toHaveBeenCalled();
     });
   });
 });
@@ -11,7 +11,6 @@ import {
   GenerateContentResponse,
 } from '@google/genai';
 import { GeminiClient } from '../core/client.js';
-import { DEFAULT_FLASH_MODEL } from '../config/models.js';
 import { PartListUnion } from '@google/genai';
 
 /**
@@ -74,7 +73,6 @@ function getResponseText(response: GenerateContentResponse): string | null {
   return null;
 }
 
-const toolOutputSummarizerModel = DEFAULT_FLASH_MODEL;
 const toolOutputSummarizerConfig: GenerateContentConfig = {
   maxOutputTokens: 2000,
 };
@@ -117,11 +115,11 @@ export async function summarizeToolOutput(
   const contents: Content[] = [{ role: 'user', parts: [{ text: prompt }] }];
 
   try {
-    const parsedResponse = (await geminiClient.generateContent(
+    const parsedResponse = (await geminiClient.generateUtilityContent(
       contents,
       toolOutputSummarizerConfig,
       abortSignal,
-      toolOutputSummarizerModel,
+      'summarizer',
     )) as unknown as GenerateContentResponse;
     return getResponseText(parsedResponse) || textToSummarize;
   } catch (error) {
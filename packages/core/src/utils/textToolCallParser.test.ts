@@ -0,0 +1,167 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TOOL_CALL_PARSER,
+  ParsedToolCalls,
+  createTextToolCallParser,
+  parseTextToolCalls,
+  registerToolCallDialect,
+  resolveToolCallParser,
+} from './textToolCallParser.js';
+
+const TOOLS = ['read_file', 'run_shell_command'];
+
+function pushAll(name: string, chunks: string[]): ParsedToolCalls {
+  const parser = createTextToolCallParser(name, TOOLS)!;
+  const result: ParsedToolCalls = { content: '', functionCalls: [] };
+  for (const parsed of [...chunks.map((c) => parser.push(c)), parser.flush()]) {
+    result.content += parsed.content;
+    result.functionCalls.push(...parsed.functionCalls);
+  }
+  return result;
+}
+
+describe('TextToolCallParser', () => {
+  it('should extract Hermes-style calls split across chunks', () => {
+    const result = pushAll('hermes', [
+      'Let me look.\n<tool',
+      '_call>\n{"name": "read_file", ',
+      '"arguments": {"path": "a.ts"}}\n</tool_',
+      'call>',
+    ]);
+
+    expect(result.content).toBe('Let me look.\n');
+    expect(result.functionCalls).toEqual([
+      {
+        id: expect.stringMatching(/^call_/),
+        name: 'read_file',
+        args: { path: 'a.ts' },
+      },
+    ]);
+  });
+
+  it('should accept a call without the closing tag at the end', () => {
+    const result = pushAll('hermes', [
+      '<tool_call>{"name": "read_file", "arguments": "{\\"path\\": \\"a\\"}"}',
+    ]);
+
+    expect(result.content).toBe('');
+    expect(result.functionCalls[0]).toMatchObject({
+      name: 'read_file',
+      args: { path: 'a' },
+    });
+  });
+
+  it('should keep malformed calls as content', () => {
+    const result = pushAll('hermes', ['<tool_call>not json</tool_call> ok']);
+
+    expect(result).toEqual({
+      content: '<tool_call>not json</tool_call> ok',
+      functionCalls: [],
+    });
+  });
+
+  it('should extract Mistral JSON array calls', () => {
+    const result = pushAll('mistral', [
+      '[TOOL_CALLS] [{"name": "read_file", "arguments": {"path": "a"}}, ',
+      '{"name": "run_shell_command", "arguments": {"command": "ls"}}]',
+    ]);
+
+    expect(result.content).toBe('');
+    expect(result.functionCalls.map((call) => call.name)).toEqual([
+      'read_file',
+      'run_shell_command',
+    ]);
+  });
+
+  it('should extract Mistral name[ARGS] calls', () => {
+    const result = pushAll('mistral', [
+      '[TOOL_CALLS]run_shell_command[ARGS]{"command": "ls"}',
+    ]);
+
+    expect(result.functionCalls).toEqual([
+      {
+        id: expect.any(String),
+        name: 'run_shell_command',
+        args: { command: 'ls' },
+      },
+    ]);
+  });
+
+  it('should only treat fenced JSON naming an offered tool as a call', () => {
+    const call = pushAll('json', [
+      '```json\n{"name": "read_file", "arguments": {"path": "a"}}\n```',
+    ]);
+    const data = pushAll('json', ['```json\n{"name": "Ada"}\n```']);
+
+    expect(call.functionCalls[0]).toMatchObject({ name: 'read_file' });
+    expect(data).toEqual({
+      content: '```json\n{"name": "Ada"}\n```',
+      functionCalls: [],
+    });
+  });
+
+  it('should recognise both Hermes and Mistral markers in auto mode', () => {
+    const result = pushAll('auto', [
+      '<tool_call>{"name": "read_file", "arguments": {}}</tool_call>',
+      '[TOOL_CALLS]run_shell_command[ARGS]{"command": "ls"}',
+    ]);
+
+    expect(result.functionCalls.map((call) => call.name)).toEqual([
+      'read_file',
+      'run_shell_command',
+    ]);
+  });
+
+  it('should generate distinct ids', () => {
+    const result = pushAll('hermes', [
+      '<tool_call>{"name": "read_file", "arguments": {}}</tool_call>',
+      '<tool_call>{"name": "read_file", "arguments": {}}</tool_call>',
+    ]);
+
+    expect(result.functionCalls[0].id).not.toBe(result.functionCalls[1].id);
+  });
+});
+
+describe('createTextToolCallParser', () => {
+  it('should return undefined for "none" or when no tools were offered', () => {
+    expect(createTextToolCallParser('none', TOOLS)).toBeUndefined();
+    expect(createTextToolCallParser('hermes', [])).toBeUndefined();
+  });
+
+  it('should reject unknown parser names', () => {
+    expect(() => createTextToolCallParser('llama', TOOLS)).toThrow(
+      'Unknown tool call parser "llama"',
+    );
+  });
+
+  it('should use registered dialects', () => {
+    registerToolCallDialect('functionary', {
+      start: '>>>',
+      end: '\n',
+      parse: (body) => [{ name: body.trim(), args: {} }],
+    });
+
+    expect(
+      parseTextToolCalls('functionary', TOOLS, 'Sure.>>>read_file\n')
+        .functionCalls[0],
+    ).toMatchObject({ name: 'read_file' });
+  });
+});
+
+describe('resolveToolCallParser', () => {
+  it('should prefer the exact model, then "*", then the default', () => {
+    const settings = { 'qwen2.5-coder:7b': 'hermes', '*': 'none' };
+
+    expect(resolveToolCallParser(settings, 'qwen2.5-coder:7b')).toBe('hermes');
+    expect(resolveToolCallParser(settings, 'llama3.1')).toBe('none');
+    expect(resolveToolCallParser(undefined, 'llama3.1')).toBe(
+      DEFAULT_TOOL_CALL_PARSER,
+    );
+  });
+});
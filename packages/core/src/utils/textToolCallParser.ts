@@ -0,0 +1,297 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { FunctionCall } from '@google/genai';
+import { partialTagLength } from './thinkTagParser.js';
+
+/**
+ * Parser used when no setting matches the model. Only recognises dialects
+ * with unambiguous markers, so ordinary answers are never mistaken for calls.
+ */
+export const DEFAULT_TOOL_CALL_PARSER = 'auto';
+
+/**
+ * A way of writing tool calls into plain content, for models whose chat
+ * template ignores the `tools` field of the request.
+ */
+export interface ToolCallDialect {
+  /** Text that opens a tool call. */
+  start: string;
+  /** Text that closes it. When omitted, the call runs to the end of the response. */
+  end?: string;
+  /**
+   * Parses the text between the markers, or returns undefined if it is not a
+   * tool call after all, in which case it is shown as ordinary content.
+   */
+  parse(
+    body: string,
+    toolNames: ReadonlySet<string>,
+  ): FunctionCall[] | undefined;
+}
+
+export interface ParsedToolCalls {
+  content: string;
+  functionCalls: FunctionCall[];
+}
+
+/**
+ * Converts a `{"name": ..., "arguments": ...}` object, as written by most
+ * models, into a function call.
+ */
+function toFunctionCall(value: unknown): FunctionCall | undefined {
+  if (typeof value !== 'object' || value === null) {
+    return undefined;
+  }
+  const {
+    name,
+    arguments: args,
+    parameters,
+  } = value as Record<string, unknown>;
+  if (typeof name !== 'string' || !name) {
+    return undefined;
+  }
+  let parsedArgs = args ?? parameters ?? {};
+  if (typeof parsedArgs === 'string') {
+    parsedArgs = parseJson(parsedArgs) ?? {};
+  }
+  if (typeof parsedArgs !== 'object' || parsedArgs === null) {
+    return undefined;
+  }
+  return { name, args: parsedArgs as Record<string, unknown> };
+}
+
+function toFunctionCalls(value: unknown): FunctionCall[] | undefined {
+  const values = Array.isArray(value) ? value : [value];
+  const calls = values.map(toFunctionCall);
+  if (calls.length === 0 || calls.some((call) => call === undefined)) {
+    return undefined;
+  }
+  return calls as FunctionCall[];
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+const hermesDialect: ToolCallDialect = {
+  start: '<tool_call>',
+  end: '</tool_call>',
+  parse: (body) => toFunctionCalls(parseJson(body)),
+};
+
+const mistralDialect: ToolCallDialect = {
+  start: '[TOOL_CALLS]',
+  parse: (body) => {
+    const trimmed = body.trim();
+    // Older templates write a JSON array, newer ones `name[ARGS]{...}`.
+    const argsIndex = trimmed.indexOf('[ARGS]');
+    if (argsIndex === -1) {
+      return toFunctionCalls(parseJson(trimmed));
+    }
+    const call = toFunctionCall({
+      name: trimmed.slice(0, argsIndex).trim(),
+      arguments: parseJson(trimmed.slice(argsIndex + '[ARGS]'.length)),
+    });
+    return call && [call];
+  },
+};
+
+const jsonDialect: ToolCallDialect = {
+  start: '```json',
+  end: '```',
+  // Fenced JSON is also how models show data to the user, so only treat it
+  // as a call when it names a tool that was offered.
+  parse: (body, toolNames) => {
+    const calls = toFunctionCalls(parseJson(body));
+    return calls?.every((call) => toolNames.has(call.name ?? ''))
+      ? calls
+      : undefined;
+  },
+};
+
+const registeredParsers = new Map<string, ToolCallDialect[]>([
+  ['hermes', [hermesDialect]],
+  ['mistral', [mistralDialect]],
+  ['json', [jsonDialect]],
+  ['auto', [hermesDialect, mistralDialect]],
+  ['none', []],
+]);
+
+/**
+ * Registers an additional dialect, so it can be selected by name in the
+ * `toolCallParsers` setting.
+ */
+export function registerToolCallDialect(
+  name: string,
+  ...dialects: ToolCallDialect[]
+): void {
+  registeredParsers.set(name, dialects);
+}
+
+export function getToolCallParserNames(): string[] {
+  return [...registeredParsers.keys()];
+}
+
+/**
+ * Picks the parser configured for `model`: an exact match first, then the
+ * `*` entry, then {@link DEFAULT_TOOL_CALL_PARSER}.
+ */
+export function resolveToolCallParser(
+  toolCallParsers: Record<string, string> | undefined,
+  model: string,
+): string {
+  return (
+    toolCallParsers?.[model] ??
+    toolCallParsers?.['*'] ??
+    DEFAULT_TOOL_CALL_PARSER
+  );
+}
+
+/**
+ * Incrementally extracts tool calls written as text from a streamed
+ * response. Text that could be the start of a call is held back until the
+ * next chunk (or {@link flush}) resolves it.
+ */
+export class TextToolCallParser {
+  private readonly toolNames: ReadonlySet<string>;
+  private pending = '';
+  private current?: ToolCallDialect;
+  private callCounter = 0;
+
+  constructor(
+    private readonly dialects: ToolCallDialect[],
+    toolNames: Iterable<string>,
+  ) {
+    this.toolNames = new Set(toolNames);
+  }
+
+  push(text: string): ParsedToolCalls {
+    const result: ParsedToolCalls = { content: '', functionCalls: [] };
+    let input = this.pending + text;
+    this.pending = '';
+
+    while (input) {
+      if (this.current) {
+        const end = this.current.end;
+        const index = end ? input.indexOf(end) : -1;
+        if (!end || index === -1) {
+          this.pending = input;
+          break;
+        }
+        this.complete(result, input.slice(0, index), end);
+        input = input.slice(index + end.length);
+        continue;
+      }
+
+      const next = this.findStart(input);
+      if (next) {
+        result.content += input.slice(0, next.index);
+        input = input.slice(next.index + next.dialect.start.length);
+        this.current = next.dialect;
+        continue;
+      }
+      const held = Math.max(
+        0,
+        ...this.dialects.map((dialect) =>
+          partialTagLength(input, dialect.start),
+        ),
+      );
+      result.content += input.slice(0, input.length - held);
+      this.pending = input.slice(input.length - held);
+      break;
+    }
+
+    return result;
+  }
+
+  /**
+   * Resolves any held text. Call once the response has ended.
+   */
+  flush(): ParsedToolCalls {
+    const result: ParsedToolCalls = { content: '', functionCalls: [] };
+    if (this.current) {
+      // Models often stop without writing the closing marker.
+      this.complete(result, this.pending, '');
+    } else {
+      result.content += this.pending;
+    }
+    this.pending = '';
+    return result;
+  }
+
+  private findStart(
+    input: string,
+  ): { index: number; dialect: ToolCallDialect } | undefined {
+    let next: { index: number; dialect: ToolCallDialect } | undefined;
+    for (const dialect of this.dialects) {
+      const index = input.indexOf(dialect.start);
+      if (index !== -1 && (!next || index < next.index)) {
+        next = { index, dialect };
+      }
+    }
+    return next;
+  }
+
+  private complete(result: ParsedToolCalls, body: string, end: string): void {
+    const dialect = this.current;
+    this.current = undefined;
+    const calls = dialect?.parse(body, this.toolNames);
+    if (!calls) {
+      result.content += (dialect?.start ?? '') + body + end;
+      return;
+    }
+    for (const call of calls) {
+      result.functionCalls.push({
+        ...call,
+        id: `call_${Date.now()}_${this.callCounter++}`,
+      });
+    }
+  }
+}
+
+/**
+ * Creates a parser for the named dialect, or returns undefined when tool
+ * calls should not be read from text, e.g. because no tools were offered.
+ */
+export function createTextToolCallParser(
+  name: string,
+  toolNames: string[],
+): TextToolCallParser | undefined {
+  const selected = registeredParsers.get(name);
+  if (!selected) {
+    throw new Error(
+      `Unknown tool call parser "${name}". Expected one of: ${getToolCallParserNames().join(', ')}.`,
+    );
+  }
+  if (selected.length === 0 || toolNames.length === 0) {
+    return undefined;
+  }
+  return new TextToolCallParser(selected, toolNames);
+}
+
+/**
+ * Extracts tool calls written as text from a complete (non-streamed) text.
+ */
+export function parseTextToolCalls(
+  name: string,
+  toolNames: string[],
+  text: string,
+): ParsedToolCalls {
+  const parser = createTextToolCallParser(name, toolNames);
+  if (!parser) {
+    return { content: text, functionCalls: [] };
+  }
+  const result = parser.push(text);
+  const rest = parser.flush();
+  return {
+    content: result.content + rest.content,
+    functionCalls: [...result.functionCalls, ...rest.functionCalls],
+  };
+}
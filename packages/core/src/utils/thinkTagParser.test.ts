@@ -0,0 +1,115 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect } from 'vitest';
+import { GenerateContentResponse } from '@google/genai';
+import {
+  SplitReasoning,
+  ThinkTagParser,
+  splitThinkTags,
+  splitThoughtResponse,
+} from './thinkTagParser.js';
+
+function pushAll(chunks: string[]): SplitReasoning {
+  const parser = new ThinkTagParser();
+  const result: SplitReasoning = { thought: '', content: '' };
+  for (const chunk of [...chunks.map((c) => parser.push(c)), parser.flush()]) {
+    result.thought += chunk.thought;
+    result.content += chunk.content;
+  }
+  return result;
+}
+
+describe('ThinkTagParser', () => {
+  it('should pass through text without tags', () => {
+    expect(pushAll(['Hello', ' world'])).toEqual({
+      thought: '',
+      content: 'Hello world',
+    });
+  });
+
+  it('should separate a reasoning block from the answer', () => {
+    expect(pushAll(['<think>plan it</think>\n\nThe answer'])).toEqual({
+      thought: 'plan it',
+      content: 'The answer',
+    });
+  });
+
+  it('should handle tags split across chunks', () => {
+    expect(
+      pushAll(['<th', 'ink>pl', 'an it</th', 'ink>', '\n', '\nThe ', 'answer']),
+    ).toEqual({ thought: 'plan it', content: 'The answer' });
+  });
+
+  it('should hold back a possible partial tag until it is resolved', () => {
+    const parser = new ThinkTagParser();
+    expect(parser.push('a <')).toEqual({ thought: '', content: 'a ' });
+    expect(parser.push('b')).toEqual({ thought: '', content: '<b' });
+  });
+
+  it('should release a held partial tag on flush', () => {
+    const parser = new ThinkTagParser();
+    expect(parser.push('x <thi')).toEqual({ thought: '', content: 'x ' });
+    expect(parser.flush()).toEqual({ thought: '', content: '<thi' });
+  });
+
+  it('should treat an unterminated block as reasoning', () => {
+    expect(pushAll(['<think>still going'])).toEqual({
+      thought: 'still going',
+      content: '',
+    });
+  });
+
+  it('should start fresh after reset', () => {
+    const parser = new ThinkTagParser();
+    parser.push('<think>half');
+    parser.reset();
+    expect(parser.push('answer')).toEqual({ thought: '', content: 'answer' });
+  });
+});
+
+describe('splitThinkTags', () => {
+  it('should split a complete response', () => {
+    expect(splitThinkTags('<think>why</think>because')).toEqual({
+      thought: 'why',
+      content: 'because',
+    });
+  });
+});
+
+describe('splitThoughtResponse', () => {
+  function responseWith(
+    parts: Array<{ text: string; thought?: boolean }>,
+  ): GenerateContentResponse {
+    const response = new GenerateContentResponse();
+    response.candidates = [{ content: { role: 'model', parts }, index: 0 }];
+    response.modelVersion = 'qwen3';
+    return response;
+  }
+
+  it('should leave responses without a leading thought unchanged', () => {
+    const response = responseWith([{ text: 'answer' }]);
+    expect(splitThoughtResponse(response)).toEqual([response]);
+  });
+
+  it('should leave thought-only responses unchanged', () => {
+    const response = responseWith([{ text: 'why', thought: true }]);
+    expect(splitThoughtResponse(response)).toEqual([response]);
+  });
+
+  it('should split a thought from the answer that shares its chunk', () => {
+    const [thought, answer] = splitThoughtResponse(
+      responseWith([{ text: 'why', thought: true }, { text: 'because' }]),
+    );
+    expect(thought.candidates?.[0].content?.parts).toEqual([
+      { text: 'why', thought: true },
+    ]);
+    expect(thought.modelVersion).toBe('qwen3');
+    expect(answer.candidates?.[0].content?.parts).toEqual([
+      { text: 'because' },
+    ]);
+  });
+});
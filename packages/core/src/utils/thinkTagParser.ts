@@ -0,0 +1,149 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { GenerateContentResponse } from '@google/genai';
+
+const OPEN_TAG = '<think>';
+const CLOSE_TAG = '</think>';
+
+export interface SplitReasoning {
+  thought: string;
+  content: string;
+}
+
+/**
+ * Returns the length of the longest suffix of `text` that is a proper prefix
+ * of `tag`, i.e. how much of `text` could be the start of a tag that is
+ * completed by the next chunk.
+ */
+export function partialTagLength(text: string, tag: string): number {
+  for (
+    let length = Math.min(tag.length - 1, text.length);
+    length > 0;
+    length--
+  ) {
+    if (text.endsWith(tag.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
+
+/**
+ * Incrementally separates `<think>...</think>` reasoning blocks, as emitted
+ * inline by Qwen3, QwQ and DeepSeek-R1, from the rest of a streamed response.
+ *
+ * Tags may be split across chunks, so anything that could be the start of a
+ * tag is held back until the next chunk (or {@link flush}) resolves it.
+ */
+export class ThinkTagParser {
+  private inThink = false;
+  private pending = '';
+  private trimLeadingContent = false;
+
+  push(text: string): SplitReasoning {
+    const result: SplitReasoning = { thought: '', content: '' };
+    let input = this.pending + text;
+    this.pending = '';
+
+    while (input) {
+      const tag = this.inThink ? CLOSE_TAG : OPEN_TAG;
+      const index = input.indexOf(tag);
+      if (index !== -1) {
+        this.append(result, input.slice(0, index));
+        input = input.slice(index + tag.length);
+        this.inThink = !this.inThink;
+        // Models separate the reasoning block from the answer with blank
+        // lines, which should not lead the answer.
+        this.trimLeadingContent = !this.inThink;
+        continue;
+      }
+      const held = partialTagLength(input, tag);
+      this.append(result, input.slice(0, input.length - held));
+      this.pending = input.slice(input.length - held);
+      break;
+    }
+
+    return result;
+  }
+
+  /**
+   * Releases any text held back as a possible partial tag. Call once the
+   * stream has ended.
+   */
+  flush(): SplitReasoning {
+    const result: SplitReasoning = { thought: '', content: '' };
+    this.append(result, this.pending);
+    this.pending = '';
+    return result;
+  }
+
+  reset(): void {
+    this.inThink = false;
+    this.pending = '';
+    this.trimLeadingContent = false;
+  }
+
+  private append(result: SplitReasoning, text: string): void {
+    if (!text) {
+      return;
+    }
+    if (this.inThink) {
+      result.thought += text;
+      return;
+    }
+    if (this.trimLeadingContent) {
+      text = text.trimStart();
+      if (!text) {
+        return;
+      }
+      this.trimLeadingContent = false;
+    }
+    result.content += text;
+  }
+}
+
+/**
+ * Separates `<think>` reasoning blocks from a complete (non-streamed) text.
+ */
+export function splitThinkTags(text: string): SplitReasoning {
+  const parser = new ThinkTagParser();
+  const result = parser.push(text);
+  const rest = parser.flush();
+  return {
+    thought: result.thought + rest.thought,
+    content: result.content + rest.content,
+  };
+}
+
+/**
+ * Splits a streamed response whose parts start with a thought into a
+ * thought-only response followed by the rest. Turn and GeminiChat treat a
+ * chunk that starts with a thought as reasoning only, so an answer sharing
+ * the chunk would otherwise be lost.
+ */
+export function splitThoughtResponse(
+  response: GenerateContentResponse,
+): GenerateContentResponse[] {
+  const candidate = response.candidates?.[0];
+  const parts = candidate?.content?.parts ?? [];
+  if (!parts[0]?.thought || parts.length === 1) {
+    return [response];
+  }
+
+  const thought = new GenerateContentResponse();
+  thought.candidates = [
+    {
+      content: { parts: [parts[0]], role: 'model' },
+      index: 0,
+      safetyRatings: [],
+    },
+  ];
+  thought.modelVersion = response.modelVersion;
+
+  candidate!.content = { ...candidate!.content, parts: parts.slice(1) };
+  return [thought, response];
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import {
+  TokenCounter,
+  createBpeTokenizer,
+  getEncodingForModel,
+} from './tokenCounter.js';
+
+describe('getEncodingForModel', () => {
+  it('should use o200k_base for current OpenAI models', () => {
+    expect(getEncodingForModel('gpt-4o-mini')).toBe('o200k_base');
+    expect(getEncodingForModel('openai/gpt-4.1')).toBe('o200k_base');
+    expect(getEncodingForModel('o3-mini')).toBe('o200k_base');
+  });
+
+  it('should use cl100k_base for everything else', () => {
+    expect(getEncodingForModel('gpt-4-turbo')).toBe('cl100k_base');
+    expect(getEncodingForModel('qwen2.5-coder:32b')).toBe('cl100k_base');
+    expect(getEncodingForModel('llama3.1:8b')).toBe('cl100k_base');
+  });
+});
+
+describe('createBpeTokenizer', () => {
+  it('should count BPE tokens', async () => {
+    const tokenize = createBpeTokenizer('gpt-4');
+
+    expect(await tokenize('hello world')).toBe(2);
+    expect(await tokenize('<|endoftext|>')).toBeGreaterThan(1);
+  });
+});
+
+describe('TokenCounter', () => {
+  it('should add per-message overhead and count tool calls', async () => {
+    const tokenizer = vi.fn(async (text: string) => text.length);
+    const counter = new TokenCounter(tokenizer);
+
+    const total = await counter.countTokens([
+      { role: 'user', parts: [{ text: 'hi' }] },
+      {
+        role: 'model',
+        parts: [{ functionCall: { name: 'ls', args: {} } }],
+      },
+    ]);
+
+    const toolCallText = 'model\n{"name":"ls","args":{}}';
+    expect(tokenizer).toHaveBeenCalledWith('user\nhi');
+    expect(tokenizer).toHaveBeenCalledWith(toolCallText);
+    expect(total).toBe('user\nhi'.length + 4 + toolCallText.length + 4);
+  });
+
+  it('should accept strings and bare parts', async () => {
+    const counter = new TokenCounter(async (text) => text.length);
+
+    expect(await counter.countTokens('abc')).toBe('user\nabc'.length + 4);
+    expect(await counter.countTokens({ text: 'abc' })).toBe(
+      'user\nabc'.length + 4,
+    );
+  });
+
+  it('should only tokenize each content once', async () => {
+    const tokenizer = vi.fn(async (text: string) => text.length);
+    const counter = new TokenCounter(tokenizer);
+    const history = [
+      { role: 'user', parts: [{ text: 'first' }] },
+      { role: 'model', parts: [{ text: 'answer' }] },
+    ];
+
+    await counter.countTokens(history);
+    await counter.countTokens([
+      ...structuredClone(history),
+      { role: 'user', parts: [{ text: 'second' }] },
+    ]);
+
+    expect(tokenizer).toHaveBeenCalledTimes(3);
+  });
+
+  it('should evict the least recently used entries', async () => {
+    const tokenizer = vi.fn(async (text: string) => text.length);
+    const counter = new TokenCounter(tokenizer, 2);
+
+    await counter.countTokens(['a', 'b']);
+    await counter.countTokens('a');
+    await counter.countTokens('c');
+    await counter.countTokens('a');
+    await counter.countTokens('b');
+
+    // 'b' was evicted by 'c'; 'a' stayed because it was used again.
+    expect(tokenizer).toHaveBeenCalledTimes(4);
+  });
+});
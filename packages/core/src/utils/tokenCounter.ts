@@ -0,0 +1,147 @@
+/**
+ * @license
+ * Copyright 2025 Google LLC
+ * SPDX-License-Identifier: Apache-2.0
+ */
+
+import { Content, ContentListUnion, Part } from '@google/genai';
+import type { Tiktoken } from 'js-tiktoken/lite';
+
+export type TokenizerEncoding = 'cl100k_base' | 'o200k_base';
+
+/** Counts the tokens in a piece of text. */
+export type Tokenizer = (text: string) => Promise<number>;
+
+/**
+ * Tokens each message costs on top of its text in chat templates
+ * (`<|im_start|>role\n ... <|im_end|>\n` and equivalents).
+ */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+const DEFAULT_CACHE_SIZE = 2000;
+
+/**
+ * Picks the closest bundled BPE encoding for a model. OpenAI's current
+ * models use o200k_base. Llama 3's vocabulary extends cl100k_base and Qwen's
+ * BPE splits code and English text almost identically, so cl100k_base is
+ * used for everything else.
+ */
+export function getEncodingForModel(model: string): TokenizerEncoding {
+  const name = model.toLowerCase().split('/').pop() ?? '';
+  return /^(gpt-4o|gpt-4\.1|gpt-5|chatgpt-4o|o\d)/.test(name)
+    ? 'o200k_base'
+    : 'cl100k_base';
+}
+
+const encoders = new Map<TokenizerEncoding, Promise<Tiktoken>>();
+
+function loadEncoder(encoding: TokenizerEncoding): Promise<Tiktoken> {
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    // The ranks are several megabytes each, so only load the one in use.
+    encoder = Promise.all([
+      import('js-tiktoken/lite'),
+      encoding === 'o200k_base'
+        ? import('js-tiktoken/ranks/o200k_base')
+        : import('js-tiktoken/ranks/cl100k_base'),
+    ]).then(([{ Tiktoken }, ranks]) => new Tiktoken(ranks.default));
+    encoders.set(encoding, encoder);
+  }
+  return encoder;
+}
+
+/**
+ * Returns a tokenizer using the bundled BPE ranks for `model`. Falls back to
+ * the 4 characters per token estimate if the ranks cannot be loaded.
+ */
+export function createBpeTokenizer(model: string): Tokenizer {
+  const encoding = getEncodingForModel(model);
+  return async (text) => {
+    try {
+      // Special tokens such as <|endoftext|> are counted as ordinary text.
+      return (await loadEncoder(encoding)).encode(text, [], []).length;
+    } catch {
+      return estimateTokens(text);
+    }
+  };
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Counts the tokens of request contents, caching the count of each Content so
+ * that recounting a growing history only tokenizes the new turns.
+ */
+export class TokenCounter {
+  private readonly cache = new Map<string, number>();
+
+  constructor(
+    private readonly tokenizer: Tokenizer,
+    private readonly cacheSize: number = DEFAULT_CACHE_SIZE,
+  ) {}
+
+  async countTokens(contents: ContentListUnion): Promise<number> {
+    let total = 0;
+    for (const content of toContentArray(contents)) {
+      total += await this.countContentTokens(content);
+    }
+    return total;
+  }
+
+  private async countContentTokens(content: Content): Promise<number> {
+    const text = contentToText(content);
+    const cached = this.cache.get(text);
+    if (cached !== undefined) {
+      // Re-insert to keep recently used entries from being evicted.
+      this.cache.delete(text);
+      this.cache.set(text, cached);
+      return cached;
+    }
+
+    const count = (await this.tokenizer(text)) + MESSAGE_OVERHEAD_TOKENS;
+    this.cache.set(text, count);
+    if (this.cache.size > this.cacheSize) {
+      this.cache.delete(this.cache.keys().next().value!);
+    }
+    return count;
+  }
+}
+
+/**
+ * Normalizes the contents of a request, which may be strings or bare parts,
+ * into a list of Content.
+ */
+export function toContentArray(contents: ContentListUnion): Content[] {
+  const list = Array.isArray(contents) ? contents : [contents];
+  return list.map((item) => {
+    if (typeof item === 'string') {
+      return { role: 'user', parts: [{ text: item }] };
+    }
+    if ('parts' in item || 'role' in item) {
+      return item as Content;
+    }
+    return { role: 'user', parts: [item as Part] };
+  });
+}
+
+/**
+ * Renders a Content roughly as a chat template would, so that tool calls and
+ * results are counted by their JSON.
+ */
+function contentToText(content: Content): string {
+  const parts = (content.parts ?? []).map((part) => {
+    if (part.text !== undefined) {
+      return part.text;
+    }
+    if (part.functionCall) {
+      return JSON.stringify(part.functionCall);
+    }
+    if (part.functionResponse) {
+      return JSON.stringify(part.functionResponse);
+    }
+    return '';
+  });
+  return `${content.role ?? 'user'}\n${parts.join('\n')}`;
+}